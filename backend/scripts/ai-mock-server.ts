@@ -0,0 +1,138 @@
+/**
+ * Stand-in for the AI providers, for exercising the AI features locally
+ * without keys or a model.
+ *
+ *   AI_MOCK_PORT=4568 npm run ai:mock
+ *
+ * Then start the backend (or the web app) with, for example:
+ *
+ *   AI_PROVIDER=openai-compatible AI_BASE_URL=http://localhost:4568/v1 AI_MODEL=mock
+ *   AI_PROVIDER=anthropic AI_BASE_URL=http://localhost:4568/v1 ANTHROPIC_API_KEY=test
+ *   AI_PROVIDER=gemini AI_BASE_URL=http://localhost:4568/v1beta GEMINI_API_KEY=test
+ *
+ * Replies echo the last user message; prompts asking for JSON get a feed
+ * recommendation list. AI_MOCK_STATUS=429 makes every request fail with that
+ * status, and AI_MOCK_DELAY_MS slows replies down to try timeouts.
+ */
+import http from 'node:http';
+
+interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+const port = parseInt(process.env.AI_MOCK_PORT || '4568');
+const failStatus = parseInt(process.env.AI_MOCK_STATUS || '0');
+const delayMs = parseInt(process.env.AI_MOCK_DELAY_MS || '0');
+
+const SAMPLE_RECOMMENDATIONS = [
+  {
+    title: 'Example Engineering',
+    url: 'https://example.com/engineering/feed.xml',
+    description: 'Mock recommendation',
+    category: 'Tech',
+    type: 'rss',
+  },
+];
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function reply(system: string, messages: ChatMessage[]): string {
+  const prompt = messages.filter(m => m.role === 'user').map(m => m.content).pop() ?? '';
+  if (/json/i.test(system + prompt)) return JSON.stringify(SAMPLE_RECOMMENDATIONS);
+  return `Mock reply to: ${prompt.replace(/\s+/g, ' ').slice(0, 200)}`;
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  const raw = await readBody(req);
+  console.log(`[AI Mock] ${req.method} ${url.pathname} (${raw.length} bytes)`);
+
+  if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+  if (failStatus) {
+    send(res, failStatus, { error: { message: `Mock failure ${failStatus}` } });
+    return;
+  }
+
+  let body: any;
+  try {
+    body = raw ? JSON.parse(raw) : {};
+  } catch {
+    send(res, 400, { error: { message: 'Invalid JSON' } });
+    return;
+  }
+
+  // OpenAI and compatible servers
+  if (req.method === 'POST' && url.pathname === '/v1/chat/completions') {
+    const messages: ChatMessage[] = body.messages ?? [];
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const text = reply(system, messages);
+    send(res, 200, {
+      id: 'mock',
+      object: 'chat.completion',
+      model: body.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: Math.ceil(raw.length / 4), completion_tokens: Math.ceil(text.length / 4) },
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/v1/models') {
+    send(res, 200, { object: 'list', data: [{ id: 'mock', object: 'model' }] });
+    return;
+  }
+
+  // Anthropic
+  if (req.method === 'POST' && url.pathname === '/v1/messages') {
+    if (!req.headers['x-api-key'] || !req.headers['anthropic-version']) {
+      send(res, 401, { type: 'error', error: { type: 'authentication_error', message: 'Missing x-api-key or anthropic-version' } });
+      return;
+    }
+    const text = reply(body.system ?? '', body.messages ?? []);
+    send(res, 200, {
+      id: 'mock',
+      type: 'message',
+      role: 'assistant',
+      model: body.model,
+      content: [{ type: 'text', text }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: Math.ceil(raw.length / 4), output_tokens: Math.ceil(text.length / 4) },
+    });
+    return;
+  }
+
+  // Gemini
+  const gemini = /^\/v1beta\/models\/([^/:]+):generateContent$/.exec(url.pathname);
+  if (req.method === 'POST' && gemini) {
+    const system = (body.systemInstruction?.parts ?? []).map((p: { text: string }) => p.text).join('\n');
+    const messages: ChatMessage[] = (body.contents ?? []).map((c: { role: string; parts: Array<{ text: string }> }) => ({
+      role: c.role === 'model' ? 'assistant' : 'user',
+      content: c.parts.map(p => p.text).join(''),
+    }));
+    const text = reply(system, messages);
+    send(res, 200, {
+      modelVersion: decodeURIComponent(gemini[1]),
+      candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: Math.ceil(raw.length / 4), candidatesTokenCount: Math.ceil(text.length / 4) },
+    });
+    return;
+  }
+
+  send(res, 404, { error: { message: `No mock for ${req.method} ${url.pathname}` } });
+});
+
+server.listen(port, () => {
+  console.log(`[AI Mock] Listening on http://localhost:${port}`);
+});
@@ -0,0 +1,148 @@
+/**
+ * Minimal WebSub hub for exercising the backend's subscriber locally.
+ *
+ *   HUB_PORT=4567 npm run websub:hub
+ *
+ * Point a test feed's <link rel="hub"> at http://localhost:4567/ and set
+ * PUBLIC_URL so the backend's callback is reachable from here. Then:
+ *
+ *   curl -X POST http://localhost:4567/ -d hub.mode=publish -d hub.url=<topic>
+ *
+ * fetches the topic and pushes it, signed, to every verified subscriber.
+ * Pass `-d hub.content=<document>` to push a body without fetching the topic.
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+interface Subscription {
+  callback: string;
+  topic: string;
+  secret?: string;
+  expiresAt: number;
+}
+
+const port = parseInt(process.env.HUB_PORT || '4567');
+const subscriptions = new Map<string, Subscription>(); // keyed by callback + topic
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function verifyIntent(mode: string, callback: string, topic: string, leaseSeconds: number): Promise<boolean> {
+  const challenge = crypto.randomBytes(16).toString('hex');
+  const url = new URL(callback);
+  url.searchParams.set('hub.mode', mode);
+  url.searchParams.set('hub.topic', topic);
+  url.searchParams.set('hub.challenge', challenge);
+  if (mode === 'subscribe') url.searchParams.set('hub.lease_seconds', String(leaseSeconds));
+
+  try {
+    const response = await fetch(url);
+    const body = await response.text();
+    return response.ok && body === challenge;
+  } catch (error) {
+    console.error(`[Hub] Verification request to ${callback} failed:`, error);
+    return false;
+  }
+}
+
+async function distribute(topic: string, content?: string): Promise<number> {
+  let body = content;
+  let contentType = 'application/atom+xml';
+
+  if (body === undefined) {
+    const response = await fetch(topic);
+    body = await response.text();
+    contentType = response.headers.get('content-type') || contentType;
+  }
+
+  let delivered = 0;
+  for (const [key, sub] of subscriptions) {
+    if (sub.topic !== topic) continue;
+    if (sub.expiresAt < Date.now()) {
+      subscriptions.delete(key);
+      continue;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Link': `<http://localhost:${port}/>; rel="hub", <${topic}>; rel="self"`,
+    };
+    if (sub.secret) {
+      headers['X-Hub-Signature'] = `sha256=${crypto.createHmac('sha256', sub.secret).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(sub.callback, { method: 'POST', headers, body });
+    console.log(`[Hub] Pushed ${topic} to ${sub.callback}: HTTP ${response.status}`);
+    if (response.status === 410) subscriptions.delete(key);
+    delivered++;
+  }
+  return delivered;
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const params = new URLSearchParams(await readBody(req));
+  const mode = params.get('hub.mode');
+
+  if (mode === 'subscribe' || mode === 'unsubscribe') {
+    const callback = params.get('hub.callback');
+    const topic = params.get('hub.topic');
+    if (!callback || !topic) {
+      res.writeHead(400).end('hub.callback and hub.topic are required');
+      return;
+    }
+
+    const leaseSeconds = Math.min(parseInt(params.get('hub.lease_seconds') || '86400'), 864000);
+    res.writeHead(202).end();
+
+    // Verify asynchronously, as real hubs do
+    const verified = await verifyIntent(mode, callback, topic, leaseSeconds);
+    console.log(`[Hub] ${mode} ${topic} -> ${callback}: ${verified ? 'verified' : 'NOT verified'}`);
+    if (!verified) return;
+
+    const key = `${callback} ${topic}`;
+    if (mode === 'subscribe') {
+      subscriptions.set(key, {
+        callback,
+        topic,
+        secret: params.get('hub.secret') || undefined,
+        expiresAt: Date.now() + leaseSeconds * 1000,
+      });
+    } else {
+      subscriptions.delete(key);
+    }
+    return;
+  }
+
+  if (mode === 'publish') {
+    const topic = params.get('hub.url') || params.get('hub.topic');
+    if (!topic) {
+      res.writeHead(400).end('hub.url is required');
+      return;
+    }
+
+    try {
+      const delivered = await distribute(topic, params.get('hub.content') ?? undefined);
+      res.writeHead(200).end(`Delivered to ${delivered} subscribers\n`);
+    } catch (error) {
+      res.writeHead(502).end(error instanceof Error ? error.message : 'Distribution failed');
+    }
+    return;
+  }
+
+  res.writeHead(400).end('Unsupported hub.mode');
+});
+
+server.listen(port, () => {
+  console.log(`[Hub] Listening on http://localhost:${port}/`);
+});
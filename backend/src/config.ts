@@ -8,8 +8,26 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(32),
   GEMINI_API_KEY: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  // AI provider for briefings and recommendations. Defaults to whichever of
+  // Gemini, OpenAI or Anthropic has a key. For a local model (Ollama,
+  // llama.cpp, LM Studio) use openai-compatible with AI_BASE_URL and AI_MODEL.
+  AI_PROVIDER: z.enum(['openai', 'openai-compatible', 'gemini', 'anthropic']).optional(),
+  AI_BASE_URL: z.string().url().optional(),
+  AI_MODEL: z.string().optional(),
+  AI_API_KEY: z.string().optional(), // Overrides the provider's own key variable
+  AI_MAX_TOKENS: z.string().default('2048'),
   CORS_ORIGIN: z.string().default('*'),
   RATE_LIMIT_MAX: z.string().default('100'),
+  // Externally reachable base URL of this API (e.g. https://feeds.example.com).
+  // Required for WebSub push subscriptions, since hubs call us back on it.
+  PUBLIC_URL: z.string().url().optional(),
+  // Background feed polling
+  SCHEDULER_ENABLED: z.enum(['true', 'false']).default('true'),
+  SCHEDULER_INTERVAL_MINUTES: z.string().default('30'),
+  SCHEDULER_CONCURRENCY: z.string().default('4'),
+  SCHEDULER_HOST_DELAY_MS: z.string().default('2000'),
+  SCHEDULER_JITTER: z.string().default('0.15'),
 });
 
 export const config = envSchema.parse(process.env);
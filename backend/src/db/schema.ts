@@ -1,4 +1,13 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, jsonb, index, uniqueIndex, customType } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { FeedHistoryEntry, RuleConditionGroup } from '@feedstream/common';
+
+// Postgres full-text search document; written via FeedService's weighted to_tsvector expression
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 // Users table (simple device-based auth)
 export const users = pgTable('users', {
@@ -28,6 +37,9 @@ export const feeds = pgTable('feeds', {
   folderId: uuid('folder_id').references(() => folders.id),
   title: varchar('title', { length: 500 }).notNull(),
   feedUrl: text('feed_url').notNull(),
+  originalFeedUrl: text('original_feed_url'), // Set when feedUrl migrates after a permanent redirect; article IDs stay derived from it
+  redirectTarget: text('redirect_target'), // Pending permanent-redirect destination
+  redirectCount: integer('redirect_count').default(0), // Consecutive syncs that ended at redirectTarget
   siteUrl: text('site_url'),
   type: varchar('type', { length: 50 }).default('rss'), // rss, atom, json, youtube, reddit, podcast
   iconUrl: text('icon_url'),
@@ -37,14 +49,37 @@ export const feeds = pgTable('feeds', {
   lastSyncAt: timestamp('last_sync_at'),
   lastError: text('last_error'),
   consecutiveFailures: integer('consecutive_failures').default(0),
+  history: jsonb('history').$type<FeedHistoryEntry[]>().default([]), // Recent failures, recoveries and moves
   etag: text('etag'),
   lastModified: text('last_modified'),
+  refreshIntervalMinutes: integer('refresh_interval_minutes'), // Adaptive, from posting history + publisher hints
+  nextPollAt: timestamp('next_poll_at'), // When the background scheduler should fetch this feed again
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
   deletedAt: timestamp('deleted_at'),
 }, (table) => ({
   userIdIdx: index('feeds_user_id_idx').on(table.userId),
   feedUrlIdx: uniqueIndex('feeds_user_feed_url_idx').on(table.userId, table.feedUrl),
+  nextPollAtIdx: index('feeds_next_poll_at_idx').on(table.nextPollAt),
+}));
+
+// WebSub (PubSubHubbub) push subscriptions, one per feed
+export const webSubSubscriptions = pgTable('websub_subscriptions', {
+  id: uuid('id').primaryKey().defaultRandom(), // Also the callback path segment
+  feedId: uuid('feed_id').references(() => feeds.id).notNull(),
+  hubUrl: text('hub_url').notNull(),
+  topicUrl: text('topic_url').notNull(),
+  secret: varchar('secret', { length: 128 }).notNull(), // HMAC key for X-Hub-Signature
+  state: varchar('state', { length: 20 }).default('pending').notNull(), // pending, active, unsubscribing, unsubscribed, denied, failed
+  leaseSeconds: integer('lease_seconds'),
+  expiresAt: timestamp('expires_at'),
+  lastPushAt: timestamp('last_push_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  feedIdIdx: uniqueIndex('websub_subscriptions_feed_id_idx').on(table.feedId),
+  expiresAtIdx: index('websub_subscriptions_expires_at_idx').on(table.expiresAt),
 }));
 
 // Articles with full-text search
@@ -63,15 +98,18 @@ export const articles = pgTable('articles', {
   thumbnailUrl: text('thumbnail_url'),
   enclosureUrl: text('enclosure_url'),
   enclosureType: varchar('enclosure_type', { length: 100 }),
-  // Full-text search vector
-  searchVector: text('search_vector'),
+  // Main content extracted from the article page, fetched on demand for reader view
+  readerContent: text('reader_content'),
+  readerFetchedAt: timestamp('reader_fetched_at'),
+  // Full-text search vector: title weighted A, summary B, content C
+  searchVector: tsvector('search_tsv'),
   fetchedAt: timestamp('fetched_at').defaultNow(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   feedIdIdx: index('articles_feed_id_idx').on(table.feedId),
   userIdIdx: index('articles_user_id_idx').on(table.userId),
   publishedAtIdx: index('articles_published_at_idx').on(table.publishedAt),
-  searchIdx: index('articles_search_idx').on(table.searchVector),
+  searchIdx: index('articles_search_tsv_idx').on(table.searchVector).using(sql`gin`),
 }));
 
 // Article states (read/bookmarked per user)
@@ -84,10 +122,32 @@ export const articleStates = pgTable('article_states', {
   playbackPosition: integer('playback_position').default(0),
   readAt: timestamp('read_at'),
   bookmarkedAt: timestamp('bookmarked_at'),
+  tags: text('tags').array().notNull().default(sql`'{}'::text[]`), // User labels, normalized with normalizeLabel
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   userArticleIdx: uniqueIndex('article_states_user_article_idx').on(table.userId, table.articleId),
   userIdIdx: index('article_states_user_id_idx').on(table.userId),
+  tagsIdx: index('article_states_tags_idx').on(table.tags).using(sql`gin`),
+}));
+
+// What a server-side rule does to matching new articles; 'delete' means the article is never stored
+export type RuleActionType = 'mark_read' | 'star' | 'delete';
+
+// Automation rules, evaluated by FeedService as new articles arrive
+export const rules = pgTable('rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  conditions: jsonb('conditions').$type<RuleConditionGroup>().notNull(),
+  // Optional scope; at most one is set
+  feedId: uuid('feed_id').references(() => feeds.id),
+  folderId: uuid('folder_id').references(() => folders.id),
+  actions: jsonb('actions').$type<RuleActionType[]>().notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index('rules_user_id_idx').on(table.userId),
 }));
 
 // Sync queue for offline support
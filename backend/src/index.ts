@@ -3,7 +3,10 @@ import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import { config } from './config';
 import { routes } from './routes';
+import { webSubRoutes } from './routes/websub';
 import { checkDatabaseHealth } from './health';
+import { FeedScheduler } from './services/scheduler';
+import { FeedService } from './services/feed';
 
 const app = Fastify({
   logger: {
@@ -11,6 +14,8 @@ const app = Fastify({
   },
 });
 
+const scheduler = new FeedScheduler();
+
 async function start() {
   await app.register(cors, {
     origin: config.CORS_ORIGIN,
@@ -23,6 +28,7 @@ async function start() {
   });
 
   await app.register(routes, { prefix: '/api' });
+  await app.register(webSubRoutes, { prefix: '/api/websub' });
 
   app.get('/health', async () => {
     const dbHealth = await checkDatabaseHealth();
@@ -40,10 +46,28 @@ async function start() {
   try {
     await app.listen({ port: parseInt(config.PORT), host: '0.0.0.0' });
     app.log.info(`Server listening on port ${config.PORT}`);
+
+    if (config.SCHEDULER_ENABLED === 'true') {
+      scheduler.start();
+    }
+
+    // Index articles stored before full-text search was added; harmless when there are none
+    void new FeedService().backfillSearchVectors()
+      .catch(error => app.log.error(error, 'Search index backfill failed'));
   } catch (err) {
     app.log.error(err);
     process.exit(1);
   }
 }
 
+async function shutdown(signal: string) {
+  app.log.info(`Received ${signal}, shutting down`);
+  await scheduler.stop();
+  await app.close();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
 void start();
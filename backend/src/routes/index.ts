@@ -5,9 +5,17 @@ import { users, feeds, articles, folders, articleStates, briefings, syncQueue, u
 import { eq, and, desc, sql, inArray } from 'drizzle-orm';
 import { FeedService } from '../services/feed';
 import { AIService } from '../services/ai';
-import { parseFeed } from '@feedstream/common';
-
-const feedService = new FeedService();
+import { WebSubService } from '../services/websub';
+import { RuleService } from '../services/rules';
+import { LabelService } from '../services/labels';
+import { ContentService } from '../services/content';
+import { parseFeed, RuleCondition, RuleConditionGroup } from '@feedstream/common';
+
+const webSubService = new WebSubService();
+const ruleService = new RuleService();
+const labelService = new LabelService();
+const contentService = new ContentService();
+const feedService = new FeedService(webSubService, ruleService);
 const aiService = new AIService();
 
 // Auth middleware - simple device-based
@@ -33,6 +41,34 @@ async function authenticate(request: any, reply: any) {
   request.user = user;
 }
 
+const ruleConditionSchema: z.ZodType<RuleCondition> = z.object({
+  kind: z.literal('condition'),
+  id: z.string().max(64),
+  field: z.enum(['title', 'content', 'author', 'url', 'domain', 'media_kind', 'age_hours']),
+  operator: z.enum([
+    'contains', 'not_contains', 'equals', 'not_equals',
+    'starts_with', 'ends_with', 'matches_regex', 'less_than', 'greater_than',
+  ]),
+  value: z.string().max(1000),
+  caseSensitive: z.boolean().optional(),
+});
+
+const ruleGroupSchema: z.ZodType<RuleConditionGroup> = z.lazy(() => z.object({
+  kind: z.literal('group'),
+  id: z.string().max(64),
+  operator: z.enum(['and', 'or', 'not']),
+  children: z.array(z.union([ruleConditionSchema, ruleGroupSchema])).max(50),
+}));
+
+const ruleSchema = z.object({
+  name: z.string().max(255),
+  conditions: ruleGroupSchema,
+  feedId: z.string().uuid().nullable().optional(),
+  folderId: z.string().uuid().nullable().optional(),
+  actions: z.array(z.enum(['mark_read', 'star', 'delete'])).max(3),
+  isActive: z.boolean().optional(),
+});
+
 export async function routes(app: FastifyInstance) {
   // Auth hook
   app.addHook('preHandler', authenticate);
@@ -110,9 +146,13 @@ export async function routes(app: FastifyInstance) {
   app.delete('/feeds/:id', async (request, reply) => {
     const { id } = request.params as { id: string };
     
-    await db.update(feeds).set({
+    const deleted = await db.update(feeds).set({
       deletedAt: new Date(),
-    }).where(and(eq(feeds.id, id), eq(feeds.userId, request.user.id)));
+    }).where(and(eq(feeds.id, id), eq(feeds.userId, request.user.id))).returning({ id: feeds.id });
+
+    if (deleted.length > 0) {
+      await webSubService.unsubscribeFeed(id);
+    }
 
     reply.code(204).send();
   });
@@ -131,7 +171,8 @@ export async function routes(app: FastifyInstance) {
   });
 
   app.post('/feeds/sync-all', async (request) => {
-    const result = await feedService.syncAllFeeds(request.user.id);
+    const { force } = request.query as { force?: string };
+    const result = await feedService.syncAllFeeds(request.user.id, undefined, force === 'true');
     return result;
   });
 
@@ -181,17 +222,41 @@ export async function routes(app: FastifyInstance) {
       isRead: statesMap.get(article.id)?.isRead || false,
       isBookmarked: statesMap.get(article.id)?.isBookmarked || false,
       playbackPosition: statesMap.get(article.id)?.playbackPosition || 0,
+      tags: statesMap.get(article.id)?.tags || [],
     }));
   });
 
-  app.get('/articles/search', async (request) => {
-    const { q, limit = '50' } = request.query as { q: string; limit?: string };
-    
-    if (!q) {
+  app.get('/articles/search', async (request, reply) => {
+    const booleanParam = z.enum(['true', 'false']).transform(v => v === 'true').optional();
+    const schema = z.object({
+      q: z.string().max(500).default(''),
+      feedId: z.string().uuid().optional(),
+      folderId: z.string().uuid().optional(),
+      label: z.string().max(100).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      read: booleanParam,
+      bookmarked: booleanParam,
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+    });
+
+    const parsed = schema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400).send({ error: parsed.error.issues[0]?.message ?? 'Invalid search parameters' });
+      return;
+    }
+
+    const { q, read, bookmarked, ...filters } = parsed.data;
+    if (!q.trim()) {
       return [];
     }
 
-    const results = await feedService.searchArticles(request.user.id, q, parseInt(limit));
+    const results = await feedService.searchArticles(request.user.id, q, {
+      ...filters,
+      isRead: read,
+      isBookmarked: bookmarked,
+    });
     return results;
   });
 
@@ -237,6 +302,89 @@ export async function routes(app: FastifyInstance) {
     return { success: true };
   });
 
+  app.put('/articles/:id/labels', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const schema = z.object({
+      labels: z.array(z.string().max(100)).max(100),
+    });
+
+    const parsed = schema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400).send({ error: parsed.error.issues[0]?.message ?? 'Invalid labels' });
+      return;
+    }
+
+    const labels = await labelService.setArticleLabels(request.user.id, id, parsed.data.labels);
+    if (!labels) {
+      reply.code(404).send({ error: 'Article not found' });
+      return;
+    }
+    return { labels };
+  });
+
+  app.get('/articles/:id/readable', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { refresh } = request.query as { refresh?: string };
+
+    try {
+      const readable = await contentService.readable(request.user.id, id, refresh === 'true');
+      if (!readable) {
+        reply.code(404).send({ error: 'Article not found' });
+        return;
+      }
+      return readable;
+    } catch (error) {
+      reply.code(502).send({
+        error: error instanceof Error ? error.message : 'Failed to extract article',
+      });
+    }
+  });
+
+  // === LABELS ===
+
+  app.get('/labels', async (request) => {
+    return labelService.list(request.user.id);
+  });
+
+  app.get('/labels/:name/articles', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const schema = z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+    });
+
+    const parsed = schema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400).send({ error: parsed.error.issues[0]?.message ?? 'Invalid parameters' });
+      return;
+    }
+
+    return labelService.articles(request.user.id, name, parsed.data.limit, parsed.data.offset);
+  });
+
+  app.patch('/labels/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const schema = z.object({
+      name: z.string().trim().min(1).max(100),
+    });
+
+    const parsed = schema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400).send({ error: parsed.error.issues[0]?.message ?? 'Invalid label' });
+      return;
+    }
+
+    const updated = await labelService.rename(request.user.id, name, parsed.data.name);
+    return { updated };
+  });
+
+  app.delete('/labels/:name', async (request) => {
+    const { name } = request.params as { name: string };
+
+    const updated = await labelService.remove(request.user.id, name);
+    return { updated };
+  });
+
   // === FOLDERS ===
 
   app.get('/folders', async (request) => {
@@ -267,6 +415,72 @@ export async function routes(app: FastifyInstance) {
     return folder;
   });
 
+  // === RULES ===
+
+  app.get('/rules', async (request) => {
+    return ruleService.list(request.user.id);
+  });
+
+  app.post('/rules', async (request, reply) => {
+    const parsed = ruleSchema.safeParse(request.body);
+    const error = parsed.success
+      ? ruleService.validate(parsed.data)
+      : parsed.error.issues[0]?.message ?? 'Invalid rule';
+    if (!parsed.success || error) {
+      reply.code(400).send({ error });
+      return;
+    }
+
+    const missing = await ruleService.findMissingScope(request.user.id, parsed.data);
+    if (missing) {
+      reply.code(404).send({ error: missing });
+      return;
+    }
+
+    return ruleService.create(request.user.id, parsed.data);
+  });
+
+  app.put('/rules/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const parsed = ruleSchema.safeParse(request.body);
+    const error = parsed.success
+      ? ruleService.validate(parsed.data)
+      : parsed.error.issues[0]?.message ?? 'Invalid rule';
+    if (!parsed.success || error) {
+      reply.code(400).send({ error });
+      return;
+    }
+
+    const missing = await ruleService.findMissingScope(request.user.id, parsed.data);
+    if (missing) {
+      reply.code(404).send({ error: missing });
+      return;
+    }
+
+    const rule = await ruleService.update(request.user.id, id, {
+      ...parsed.data,
+      feedId: parsed.data.feedId ?? null,
+      folderId: parsed.data.folderId ?? null,
+    });
+    if (!rule) {
+      reply.code(404).send({ error: 'Rule not found' });
+      return;
+    }
+    return rule;
+  });
+
+  app.delete('/rules/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const deleted = await ruleService.delete(request.user.id, id);
+    if (!deleted) {
+      reply.code(404).send({ error: 'Rule not found' });
+      return;
+    }
+    return { success: true };
+  });
+
   // === AI FEATURES ===
 
   app.post('/ai/briefing', async (request, reply) => {
@@ -0,0 +1,71 @@
+import { FastifyInstance } from 'fastify';
+import { FeedService } from '../services/feed';
+import { WebSubService } from '../services/websub';
+
+const webSubService = new WebSubService();
+const feedService = new FeedService(webSubService);
+
+const MAX_PUSH_BYTES = 5 * 1024 * 1024;
+
+// Hub callbacks. Registered outside the device-authenticated routes: hubs prove
+// themselves with the subscription id in the URL and the HMAC signature instead.
+export async function webSubRoutes(app: FastifyInstance) {
+  // Pushed content arrives as Atom/RSS/JSON with arbitrary content types; keep the
+  // raw bytes so the signature can be checked before anything is parsed
+  app.removeAllContentTypeParsers();
+  app.addContentTypeParser('*', { parseAs: 'buffer', bodyLimit: MAX_PUSH_BYTES }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  // Intent verification
+  app.get('/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const result = await webSubService.verifyIntent(id, request.query as Record<string, string | undefined>);
+
+    if (!result.ok) {
+      reply.code(result.status).send();
+      return;
+    }
+
+    reply.code(200).type('text/plain').send(result.challenge);
+  });
+
+  // Content distribution
+  app.post('/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const subscription = await webSubService.findById(id);
+
+    if (!subscription) {
+      reply.code(404).send();
+      return;
+    }
+
+    if (subscription.state === 'unsubscribing' || subscription.state === 'unsubscribed') {
+      // Tells well-behaved hubs to drop the subscription
+      reply.code(410).send();
+      return;
+    }
+
+    const body = Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0);
+    const signature = request.headers['x-hub-signature'];
+
+    // Per spec, a bad signature is acknowledged but the content is ignored
+    if (!webSubService.verifySignature(subscription, typeof signature === 'string' ? signature : undefined, body)) {
+      console.warn(`[WebSub] Ignoring push with invalid signature for ${subscription.topicUrl}`);
+      reply.code(202).send();
+      return;
+    }
+
+    try {
+      const result = await feedService.ingestPushedContent(subscription.feedId, body.toString('utf8'));
+      await webSubService.recordPush(subscription.id);
+      if (result.newArticles > 0) {
+        console.log(`[WebSub] ${subscription.topicUrl}: ${result.newArticles} new articles pushed`);
+      }
+    } catch (error) {
+      console.error(`[WebSub] Failed to ingest push for ${subscription.topicUrl}:`, error instanceof Error ? error.message : error);
+    }
+
+    reply.code(202).send();
+  });
+}
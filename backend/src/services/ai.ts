@@ -1,18 +1,47 @@
+import {
+  createAIProvider,
+  parseJSONCompletion,
+  AIProvider,
+  AIProviderKind,
+} from '@feedstream/common';
 import { config } from '../config';
 
-interface GeminiResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{ text: string }>;
-    };
-  }>;
+// Each provider's own key variable; AI_API_KEY overrides it
+const PROVIDER_KEYS: Record<AIProviderKind, string | undefined> = {
+  gemini: config.GEMINI_API_KEY,
+  openai: config.OPENAI_API_KEY,
+  anthropic: config.ANTHROPIC_API_KEY,
+  'openai-compatible': undefined,
+};
+
+function configuredProvider(): AIProviderKind | undefined {
+  if (config.AI_PROVIDER) return config.AI_PROVIDER;
+  if (config.GEMINI_API_KEY) return 'gemini';
+  if (config.OPENAI_API_KEY) return 'openai';
+  if (config.ANTHROPIC_API_KEY) return 'anthropic';
+  return undefined;
 }
 
 export class AIService {
-  private geminiApiKey: string | undefined;
+  private provider: AIProvider | null = null;
 
-  constructor() {
-    this.geminiApiKey = config.GEMINI_API_KEY;
+  // Created on first use, so a misconfigured provider fails the AI routes rather than startup
+  private getProvider(): AIProvider {
+    if (this.provider) return this.provider;
+
+    const kind = configuredProvider();
+    if (!kind) {
+      throw new Error('AI provider not configured');
+    }
+
+    this.provider = createAIProvider({
+      provider: kind,
+      apiKey: config.AI_API_KEY || PROVIDER_KEYS[kind],
+      baseUrl: config.AI_BASE_URL,
+      model: config.AI_MODEL,
+      maxTokens: parseInt(config.AI_MAX_TOKENS),
+    });
+    return this.provider;
   }
 
   async generateBriefing(articles: Array<{
@@ -20,9 +49,7 @@ export class AIService {
     summary?: string;
     content?: string;
   }>): Promise<string> {
-    if (!this.geminiApiKey) {
-      throw new Error('Gemini API key not configured');
-    }
+    const provider = this.getProvider();
 
     const articlesText = articles.slice(0, 20).map(a => {
       const text = (a.summary || a.content || '').replace(/<[^>]*>/g, '').slice(0, 400);
@@ -30,32 +57,16 @@ export class AIService {
     }).join('\n');
 
     const systemPrompt = `You are a smart news editor. Create a concise Daily Briefing. Group stories by topic. Format using HTML: Use <h3><u>Topic Header</u></h3> for topics, <ul><li> for stories, and <b> for key terms. Add <br/> between sections. Keep it under 300 words. Tone: Professional but conversational.`;
-    
-    const userPrompt = `Articles:\n${articlesText}`;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${this.geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }]
-          }]
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const message = (errorData as any)?.error?.message || `Gemini API error: ${response.status}`;
-      throw new Error(message);
-    }
+    const userPrompt = `Articles:\n${articlesText}`;
 
-    const data = await response.json() as GeminiResponse;
-    return data.candidates[0]?.content?.parts[0]?.text || 'No briefing generated';
+    const { text } = await provider.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+    });
+    return text;
   }
 
   async generateFeedRecommendations(userFeeds: Array<{
@@ -68,9 +79,7 @@ export class AIService {
     category: string;
     type: string;
   }>> {
-    if (!this.geminiApiKey) {
-      throw new Error('Gemini API key not configured');
-    }
+    const provider = this.getProvider();
 
     const profile = userFeeds.slice(0, 30).map(f => `- ${f.title} (${f.type})`).join('\n');
 
@@ -95,36 +104,16 @@ IMPORTANT: Ensure URLs are valid feed URLs where possible.`;
       ? `My Subscriptions:\n${profile}\n\nSuggest new feeds based on these interests.`
       : `I am a new user interested in Technology, Science, and World News. Suggest some starter feeds.`;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${this.geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }]
-          }],
-          generationConfig: {
-            responseMimeType: 'application/json'
-          }
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const message = (errorData as any)?.error?.message || `Gemini API error: ${response.status}`;
-      throw new Error(message);
-    }
+    const { text } = await provider.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      json: true,
+    });
 
-    const data = await response.json() as GeminiResponse;
-    const jsonString = data.candidates[0]?.content?.parts[0]?.text || '[]';
-    
     try {
-      const cleanJson = jsonString.replace(/```json\n?|\n?```/g, '').trim();
-      const result = JSON.parse(cleanJson);
+      const result = parseJSONCompletion<any>(text);
       return Array.isArray(result) ? result : (result.feeds || result.recommendations || []);
     } catch {
       throw new Error('Failed to parse AI recommendations');
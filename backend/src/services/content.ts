@@ -0,0 +1,104 @@
+import { db } from '../db';
+import { articles } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { extractPaginatedContent } from '@feedstream/common';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+export interface ReadableArticle {
+  content: string;
+  author: string | null;
+  thumbnailUrl: string | null;
+  fetchedAt: Date;
+}
+
+/**
+ * Reader-view content for articles, extracted from the article page with the
+ * shared extractor and cached on the article row.
+ */
+export class ContentService {
+  // Null when the article doesn't exist or isn't the user's
+  async readable(userId: string, articleId: string, refresh = false): Promise<ReadableArticle | null> {
+    const article = await db.query.articles.findFirst({
+      where: and(eq(articles.id, articleId), eq(articles.userId, userId)),
+    });
+    if (!article) return null;
+
+    if (article.readerContent && article.readerFetchedAt && !refresh) {
+      return {
+        content: article.readerContent,
+        author: article.author,
+        thumbnailUrl: article.thumbnailUrl,
+        fetchedAt: article.readerFetchedAt,
+      };
+    }
+
+    if (!article.url || !/^https?:\/\//i.test(article.url)) {
+      throw new Error('Article has no web page');
+    }
+
+    const { html, finalUrl } = await this.fetchPage(article.url);
+    // Later pages of a multi-page article are best effort
+    const extracted = await extractPaginatedContent(html, finalUrl, async (pageUrl) => {
+      const page = await this.fetchPage(pageUrl);
+      return { html: page.html, url: page.finalUrl };
+    });
+    if (!extracted) {
+      throw new Error('Could not extract article content');
+    }
+
+    const [updated] = await db.update(articles)
+      .set({
+        readerContent: extracted.content,
+        readerFetchedAt: new Date(),
+        // Fill in what the feed left out
+        author: article.author ?? extracted.byline?.slice(0, 255) ?? null,
+        thumbnailUrl: article.thumbnailUrl ?? extracted.leadImage ?? null,
+      })
+      .where(eq(articles.id, article.id))
+      .returning();
+
+    return {
+      content: extracted.content,
+      author: updated.author,
+      thumbnailUrl: updated.thumbnailUrl,
+      fetchedAt: updated.readerFetchedAt ?? new Date(),
+    };
+  }
+
+  private async fetchPage(url: string): Promise<{ html: string; finalUrl: string }> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          'User-Agent': 'FeedStream/1.0',
+          'Accept': 'text/html, application/xhtml+xml;q=0.9, */*;q=0.5',
+        },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch {
+      throw new Error('Failed to fetch article page');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Article page returned ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType && !/html|xml/i.test(contentType)) {
+      throw new Error('Article page is not HTML');
+    }
+
+    const length = Number(response.headers.get('content-length') ?? 0);
+    if (length > MAX_PAGE_BYTES) {
+      throw new Error('Article page is too large');
+    }
+
+    const html = await response.text();
+    if (html.length > MAX_PAGE_BYTES) {
+      throw new Error('Article page is too large');
+    }
+    return { html, finalUrl: response.url || url };
+  }
+}
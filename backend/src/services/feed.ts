@@ -1,9 +1,96 @@
 import { db } from '../db';
 import { feeds, articles, articleStates } from '../db/schema';
-import { eq, and, desc, sql, inArray } from 'drizzle-orm';
-import { parseFeed } from '@feedstream/common';
+import { eq, and, desc, sql, inArray, isNull, gte, lte, arrayContains, SQL } from 'drizzle-orm';
+import {
+  parseFeed,
+  computeRefreshInterval,
+  computeRetryDelay,
+  appendFeedHistory,
+  trackPermanentRedirect,
+  FeedHistoryEntry,
+  REDIRECT_MIGRATION_THRESHOLD,
+  MAX_REFRESH_INTERVAL_MINUTES,
+  ParsedArticle,
+  normalizeLabel,
+} from '@feedstream/common';
+import { config } from '../config';
+import { WebSubService } from './websub';
+import { RuleService } from './rules';
+
+type FeedRecord = typeof feeds.$inferSelect;
+
+const MAX_REDIRECTS = 5;
+
+// Text search configuration used both for indexing and for parsing queries
+const SEARCH_CONFIG = sql`'english'::regconfig`;
+const MAX_INDEXED_CONTENT_CHARS = 100000;
+const SEARCH_BACKFILL_BATCH = 500;
+
+export interface ArticleSearchOptions {
+  feedId?: string;
+  folderId?: string;
+  label?: string;
+  from?: Date;
+  to?: Date;
+  isRead?: boolean;
+  isBookmarked?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export type ArticleSearchResult = typeof articles.$inferSelect & {
+  isRead: boolean;
+  isBookmarked: boolean;
+  playbackPosition: number;
+  rank: number;
+  snippet: string; // Plain text with matches wrapped in <mark>
+};
+
+// Tag-stripped text for the search document; accepts values or column references
+function plainText(value: unknown, maxChars?: number): SQL {
+  const text = maxChars ? sql`left(coalesce(${value}, ''), ${maxChars})` : sql`coalesce(${value}, '')`;
+  return sql`regexp_replace(${text}, '<[^>]*>', ' ', 'g')`;
+}
+
+function searchVectorSql(title: unknown, summary: unknown, content: unknown): SQL {
+  return sql`setweight(to_tsvector(${SEARCH_CONFIG}, ${plainText(title)}), 'A')
+    || setweight(to_tsvector(${SEARCH_CONFIG}, ${plainText(summary)}), 'B')
+    || setweight(to_tsvector(${SEARCH_CONFIG}, ${plainText(content, MAX_INDEXED_CONTENT_CHARS)}), 'C')`;
+}
+
+// Follow redirects by hand so we know whether the feed moved permanently (301/308 on every hop)
+async function fetchFollowingRedirects(url: string, init: RequestInit): Promise<{
+  response: Response;
+  finalUrl: string;
+  permanent: boolean;
+}> {
+  let currentUrl = url;
+  let redirected = false;
+  let permanent = true;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetch(currentUrl, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+
+    if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+      redirected = true;
+      if (response.status !== 301 && response.status !== 308) permanent = false;
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+
+    return { response, finalUrl: currentUrl, permanent: redirected && permanent };
+  }
+
+  throw new Error('Too many redirects');
+}
 
 export class FeedService {
+  constructor(
+    private readonly webSub: WebSubService = new WebSubService(),
+    private readonly rules: RuleService = new RuleService()
+  ) {}
+
   async syncFeed(feedId: string, userId: string): Promise<{ newArticles: number; updated: number }> {
     const feed = await db.query.feeds.findFirst({
       where: and(eq(feeds.id, feedId), eq(feeds.userId, userId)),
@@ -31,7 +118,7 @@ export class FeedService {
       const timeout = setTimeout(() => controller.abort(), 10000); // 10s timeout
 
       try {
-        const response = await fetch(feed.feedUrl, { 
+        const { response, finalUrl, permanent } = await fetchFollowingRedirects(feed.feedUrl, {
           headers,
           signal: controller.signal
         });
@@ -40,9 +127,13 @@ export class FeedService {
 
         if (response.status === 304) {
           // Not modified
+          const moved = await this.trackRedirect(feed, finalUrl, permanent);
           await db.update(feeds).set({
             lastSyncAt: new Date(),
             consecutiveFailures: 0,
+            ...moved,
+            ...this.recoveryHistory({ ...feed, ...moved }),
+            nextPollAt: this.nextPollAt(feed.refreshIntervalMinutes),
           }).where(eq(feeds.id, feedId));
           return { newArticles: 0, updated: 0 };
         }
@@ -55,111 +146,195 @@ export class FeedService {
         const newLastModified = response.headers.get('last-modified');
         const text = await response.text();
 
-        // Parse feed
-        const parsed = await parseFeed(text, feed.feedUrl);
+        // Parse feed (article IDs stay derived from the original URL after a move)
+        const parsed = await parseFeed(text, feed.originalFeedUrl ?? feed.feedUrl);
+
+        const refreshIntervalMinutes = computeRefreshInterval({
+          publishedDates: parsed.articles.map(a => a.publishedAt),
+          ttlMinutes: parsed.ttlMinutes,
+          updatePeriodMinutes: parsed.updatePeriodMinutes,
+          cacheControl: response.headers.get('cache-control'),
+          expires: response.headers.get('expires'),
+        });
+
+        // Feeds with a verified WebSub subscription get pushed updates, so polling
+        // only needs to catch anything the hub missed
+        const pushActive = parsed.hubUrl
+          ? await this.webSub.ensureSubscription(feed, parsed.hubUrl, parsed.selfUrl ?? feed.feedUrl)
+          : false;
 
         // Update feed metadata
+        const moved = await this.trackRedirect(feed, finalUrl, permanent);
         await db.update(feeds).set({
           title: parsed.title,
           siteUrl: parsed.siteUrl,
           type: parsed.type,
           lastSyncAt: new Date(),
           consecutiveFailures: 0,
+          ...moved,
+          ...this.recoveryHistory({ ...feed, ...moved }),
           etag: newEtag || feed.etag,
           lastModified: newLastModified || feed.lastModified,
+          refreshIntervalMinutes,
+          nextPollAt: this.nextPollAt(pushActive ? MAX_REFRESH_INTERVAL_MINUTES : refreshIntervalMinutes),
         }).where(eq(feeds.id, feedId));
 
-        // Insert/Update articles
-        let newCount = 0;
-        let updatedCount = 0;
-
-        for (const article of parsed.articles) {
-          // Check if article exists
-          const existing = await db.query.articles.findFirst({
-            where: and(
-              eq(articles.feedId, feedId),
-              eq(articles.externalId, article.id)
-            ),
-          });
-
-          if (!existing) {
-            // Insert new article
-            await db.insert(articles).values({
-              feedId,
-              userId,
-              externalId: article.id,
-              title: article.title,
-              author: article.author,
-              summary: article.summary,
-              content: article.content,
-              url: article.url,
-              publishedAt: article.publishedAt,
-              mediaKind: article.mediaKind,
-              thumbnailUrl: article.thumbnailUrl,
-              enclosureUrl: article.enclosureUrl,
-              enclosureType: article.enclosureType,
-              searchVector: this.buildSearchVector(article.title, article.summary, article.content),
-            });
-            newCount++;
-          } else {
-            // Update if content changed
-            const hasChanged = 
-              existing.title !== article.title ||
-              existing.summary !== article.summary ||
-              existing.content !== article.content;
-
-            if (hasChanged) {
-              await db.update(articles).set({
-                title: article.title,
-                summary: article.summary,
-                content: article.content,
-                thumbnailUrl: article.thumbnailUrl,
-                searchVector: this.buildSearchVector(article.title, article.summary, article.content),
-              }).where(eq(articles.id, existing.id));
-              updatedCount++;
-            }
-          }
-        }
-
-        return { newArticles: newCount, updated: updatedCount };
+        return await this.upsertArticles(feedId, userId, parsed.articles);
       } catch (error) {
         clearTimeout(timeout);
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new Error('Timed out after 10s');
+        }
         throw error;
       } finally {
-        // Cleanup: Keep only the latest 1000 articles for this feed to prevent infinite growth
-        // This is a rough maintenance task ran after each sync
-        try {
-           const oldArticles = await db.query.articles.findMany({
-             where: eq(articles.feedId, feedId),
-             orderBy: desc(articles.publishedAt),
-             offset: 1000,
-             columns: { id: true }
-           });
-           
-           if (oldArticles.length > 0) {
-             const idsToDelete = oldArticles.map(a => a.id);
-             await db.delete(articles).where(inArray(articles.id, idsToDelete));
-             console.log(`[Cleanup] Removed ${idsToDelete.length} old articles from feed ${feedId}`);
-           }
-        } catch (cleanupError) {
-           console.error(`[Cleanup] Failed to prune feed ${feedId}:`, cleanupError);
-        }
+        await this.pruneArticles(feedId);
       }
     } catch (error) {
-      // Update failure count
+      // Update failure count and back off before the next probe
+      const message = this.describeError(error);
+      const failures = (feed.consecutiveFailures ?? 0) + 1;
       await db.update(feeds).set({
-        lastError: error instanceof Error ? error.message : 'Unknown error',
-        consecutiveFailures: sql`${feeds.consecutiveFailures} + 1`,
+        lastError: message,
+        consecutiveFailures: failures,
+        history: appendFeedHistory(feed.history, { type: 'error', message }),
+        nextPollAt: this.nextPollAt(computeRetryDelay(failures, message)),
       }).where(eq(feeds.id, feedId));
 
       throw error;
     }
   }
 
-  async syncAllFeeds(userId: string, onProgress?: (current: number, total: number, feedTitle: string) => void): Promise<{
+  /**
+   * Ingest a feed document delivered by a WebSub hub. Pushed documents often
+   * contain only the new entries, so feed metadata is left alone.
+   */
+  async ingestPushedContent(feedId: string, body: string): Promise<{ newArticles: number; updated: number }> {
+    const feed = await db.query.feeds.findFirst({
+      where: and(eq(feeds.id, feedId), isNull(feeds.deletedAt)),
+    });
+
+    if (!feed) {
+      throw new Error('Feed not found');
+    }
+
+    // Hubs keep pushing after a feed is paused; drop their content like a skipped poll
+    if (feed.isPaused) {
+      return { newArticles: 0, updated: 0 };
+    }
+
+    const parsed = await parseFeed(body, feed.originalFeedUrl ?? feed.feedUrl);
+    const result = await this.upsertArticles(feed.id, feed.userId, parsed.articles);
+    await this.pruneArticles(feed.id);
+    return result;
+  }
+
+  // Insert new articles and refresh changed ones; shared by polling and WebSub pushes.
+  // New articles go through the user's rules first, which may suppress them or set their state.
+  private async upsertArticles(feedId: string, userId: string, parsedArticles: ParsedArticle[]): Promise<{ newArticles: number; updated: number }> {
+    const activeRules = await this.rules.listActive(userId);
+    const feed = activeRules.length > 0
+      ? await db.query.feeds.findFirst({ where: eq(feeds.id, feedId), columns: { id: true, folderId: true } })
+      : undefined;
+
+    // Insert/Update articles
+    let newCount = 0;
+    let updatedCount = 0;
+
+    for (const article of parsedArticles) {
+      // Check if article exists
+      const existing = await db.query.articles.findFirst({
+        where: and(
+          eq(articles.feedId, feedId),
+          eq(articles.externalId, article.id)
+        ),
+      });
+
+      if (!existing) {
+        const outcome = feed ? this.rules.evaluate(activeRules, article, feed) : null;
+        if (outcome?.suppress) {
+          // Not stored, so the next sync evaluates it again; disabling the rule lets it through
+          continue;
+        }
+
+        // Insert new article
+        const [inserted] = await db.insert(articles).values({
+          feedId,
+          userId,
+          externalId: article.id,
+          title: article.title,
+          author: article.author,
+          summary: article.summary,
+          content: article.content,
+          url: article.url,
+          publishedAt: article.publishedAt,
+          mediaKind: article.mediaKind,
+          thumbnailUrl: article.thumbnailUrl,
+          enclosureUrl: article.enclosureUrl,
+          enclosureType: article.enclosureType,
+          searchVector: this.buildSearchVector(article.title, article.summary, article.content),
+        }).returning({ id: articles.id });
+
+        if (outcome?.markRead || outcome?.star) {
+          const now = new Date();
+          await db.insert(articleStates).values({
+            userId,
+            articleId: inserted.id,
+            isRead: outcome.markRead,
+            readAt: outcome.markRead ? now : undefined,
+            isBookmarked: outcome.star,
+            bookmarkedAt: outcome.star ? now : undefined,
+          }).onConflictDoNothing();
+        }
+        newCount++;
+      } else {
+        // Update if content changed
+        const hasChanged = 
+          existing.title !== article.title ||
+          existing.summary !== article.summary ||
+          existing.content !== article.content;
+
+        if (hasChanged) {
+          await db.update(articles).set({
+            title: article.title,
+            summary: article.summary,
+            content: article.content,
+            thumbnailUrl: article.thumbnailUrl,
+            searchVector: this.buildSearchVector(article.title, article.summary, article.content),
+          }).where(eq(articles.id, existing.id));
+          updatedCount++;
+        }
+      }
+    }
+
+    return { newArticles: newCount, updated: updatedCount };
+  }
+
+  private async pruneArticles(feedId: string): Promise<void> {
+    // Cleanup: Keep only the latest 1000 articles for this feed to prevent infinite growth
+    // This is a rough maintenance task ran after each sync
+    try {
+       const oldArticles = await db.query.articles.findMany({
+         where: eq(articles.feedId, feedId),
+         orderBy: desc(articles.publishedAt),
+         offset: 1000,
+         columns: { id: true }
+       });
+       
+       if (oldArticles.length > 0) {
+         const idsToDelete = oldArticles.map(a => a.id);
+         await db.delete(articles).where(inArray(articles.id, idsToDelete));
+         console.log(`[Cleanup] Removed ${idsToDelete.length} old articles from feed ${feedId}`);
+       }
+    } catch (cleanupError) {
+       console.error(`[Cleanup] Failed to prune feed ${feedId}:`, cleanupError);
+    }
+  }
+
+  async syncAllFeeds(userId: string, onProgress?: (current: number, total: number, feedTitle: string) => void, force = false): Promise<{
     totalFeeds: number;
     successful: number;
     failed: number;
+    skipped: number;
     newArticles: number;
   }> {
     const userFeeds = await db.query.feeds.findMany({
@@ -168,7 +343,9 @@ export class FeedService {
 
     let successful = 0;
     let failed = 0;
+    let skipped = 0;
     let totalNew = 0;
+    const now = new Date();
 
     for (let i = 0; i < userFeeds.length; i++) {
       const feed = userFeeds[i];
@@ -177,10 +354,11 @@ export class FeedService {
         onProgress(i + 1, userFeeds.length, feed.title);
       }
 
-      // Skip feeds with too many consecutive failures
+      // Failing feeds wait out their backoff even on a forced refresh; healthy feeds
+      // respect their adaptive refresh interval unless the caller forces it
       const failures = feed.consecutiveFailures ?? 0;
-      if (failures >= 5) {
-        console.log(`Skipping ${feed.title} - ${failures} consecutive failures`);
+      if ((failures > 0 || !force) && feed.nextPollAt && feed.nextPollAt > now) {
+        skipped++;
         continue;
       }
 
@@ -203,35 +381,99 @@ export class FeedService {
       totalFeeds: userFeeds.length,
       successful,
       failed,
+      skipped,
       newArticles: totalNew,
     };
   }
 
-  async searchArticles(userId: string, query: string, limit = 50): Promise<typeof articles.$inferSelect[]> {
-    const searchTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2);
-    
-    if (searchTerms.length === 0) {
+  /**
+   * Full-text search over the user's articles. `query` uses websearch syntax:
+   * bare words are ANDed, "quoted phrases" match in order, `or` alternates and
+   * a leading `-` excludes. Results are ranked, with title matches weighted highest.
+   */
+  async searchArticles(userId: string, query: string, options: ArticleSearchOptions = {}): Promise<ArticleSearchResult[]> {
+    if (!query.trim()) {
       return [];
     }
 
-    // Simple search using ILIKE
-    const conditions = searchTerms.map(term => 
-      sql`(
-        ${articles.searchVector} ILIKE ${`%${term}%`} OR
-        ${articles.title} ILIKE ${`%${term}%`}
-      )`
-    );
+    const tsQuery = sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query})`;
+    const rank = sql<number>`ts_rank_cd(${articles.searchVector}, ${tsQuery})`;
+    const conditions: SQL[] = [
+      eq(articles.userId, userId),
+      isNull(feeds.deletedAt),
+      sql`${articles.searchVector} @@ ${tsQuery}`,
+    ];
+
+    if (options.feedId) conditions.push(eq(articles.feedId, options.feedId));
+    if (options.folderId) conditions.push(eq(feeds.folderId, options.folderId));
+    if (options.label) conditions.push(arrayContains(articleStates.tags, [normalizeLabel(options.label)]));
+    if (options.from) conditions.push(gte(articles.publishedAt, options.from));
+    if (options.to) conditions.push(lte(articles.publishedAt, options.to));
+    if (options.isRead !== undefined) {
+      conditions.push(sql`coalesce(${articleStates.isRead}, false) = ${options.isRead}`);
+    }
+    if (options.isBookmarked !== undefined) {
+      conditions.push(sql`coalesce(${articleStates.isBookmarked}, false) = ${options.isBookmarked}`);
+    }
 
-    const results = await db.query.articles.findMany({
-      where: and(
-        eq(articles.userId, userId),
-        sql`(${sql.join(conditions, sql` AND `)})`
-      ),
-      orderBy: desc(articles.publishedAt),
-      limit,
-    });
+    const rows = await db.select({
+      article: articles,
+      isRead: articleStates.isRead,
+      isBookmarked: articleStates.isBookmarked,
+      playbackPosition: articleStates.playbackPosition,
+      rank,
+      snippet: sql<string>`ts_headline(
+        ${SEARCH_CONFIG},
+        ${plainText(sql`coalesce(${articles.content}, ${articles.summary}, ${articles.title})`, MAX_INDEXED_CONTENT_CHARS)},
+        ${tsQuery},
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+      )`,
+    })
+      .from(articles)
+      .innerJoin(feeds, eq(feeds.id, articles.feedId))
+      .leftJoin(articleStates, and(
+        eq(articleStates.articleId, articles.id),
+        eq(articleStates.userId, userId)
+      ))
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(articles.publishedAt))
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+
+    return rows.map(row => ({
+      ...row.article,
+      isRead: row.isRead ?? false,
+      isBookmarked: row.isBookmarked ?? false,
+      playbackPosition: row.playbackPosition ?? 0,
+      rank: Number(row.rank),
+      snippet: row.snippet,
+    }));
+  }
 
-    return results;
+  /**
+   * Fill in search vectors for articles stored before full-text search existed
+   * (or written by anything that skipped buildSearchVector). Runs in batches so
+   * it can go in the background at startup.
+   */
+  async backfillSearchVectors(): Promise<number> {
+    let total = 0;
+
+    for (;;) {
+      const updated = await db.update(articles).set({
+        searchVector: searchVectorSql(articles.title, articles.summary, articles.content),
+      }).where(inArray(
+        articles.id,
+        db.select({ id: articles.id }).from(articles).where(isNull(articles.searchVector)).limit(SEARCH_BACKFILL_BATCH)
+      )).returning({ id: articles.id });
+
+      total += updated.length;
+      if (updated.length < SEARCH_BACKFILL_BATCH) break;
+    }
+
+    if (total > 0) {
+      console.log(`[Search] Indexed ${total} existing articles`);
+    }
+    return total;
   }
 
   async getUnreadArticles(userId: string, limit = 100): Promise<Array<{
@@ -269,10 +511,86 @@ export class FeedService {
     return unread;
   }
 
-  private buildSearchVector(title: string, summary?: string, content?: string): string {
-    const parts = [title];
-    if (summary) parts.push(summary);
-    if (content) parts.push(content.slice(0, 1000)); // First 1000 chars
-    return parts.join(' ').replace(/<[^>]*>/g, '').toLowerCase();
+  // Next scheduled poll: the feed's refresh interval (or the configured default) spread
+  // by +/- jitter so feeds added together don't all come due in the same tick
+  private nextPollAt(intervalMinutes?: number | null, from = new Date()): Date {
+    const intervalMs = (intervalMinutes || parseInt(config.SCHEDULER_INTERVAL_MINUTES)) * 60 * 1000;
+    const jitter = parseFloat(config.SCHEDULER_JITTER);
+    const spread = intervalMs * jitter * (Math.random() * 2 - 1);
+    return new Date(from.getTime() + intervalMs + spread);
+  }
+
+  /**
+   * Follow up on a permanent redirect. After REDIRECT_MIGRATION_THRESHOLD consecutive
+   * syncs land on the same URL, feedUrl is rewritten unless that would collide with
+   * another of the user's feeds on feeds_user_feed_url_idx. Returns the columns to set.
+   */
+  private async trackRedirect(feed: FeedRecord, finalUrl: string, permanent: boolean): Promise<Partial<FeedRecord>> {
+    const tracking = trackPermanentRedirect(
+      feed.feedUrl,
+      { target: feed.redirectTarget, count: feed.redirectCount },
+      finalUrl,
+      permanent
+    );
+
+    if (!tracking.migrate) {
+      return { redirectTarget: tracking.target ?? null, redirectCount: tracking.count };
+    }
+
+    const newUrl = tracking.target!;
+
+    // The unique index also covers soft-deleted rows, so check without the deletedAt filter
+    const existing = await db.query.feeds.findFirst({
+      columns: { id: true, title: true },
+      where: and(eq(feeds.userId, feed.userId), eq(feeds.feedUrl, newUrl)),
+    });
+
+    if (existing && existing.id !== feed.id) {
+      const changes: Partial<FeedRecord> = { redirectTarget: newUrl, redirectCount: tracking.count };
+      if (tracking.count === REDIRECT_MIGRATION_THRESHOLD) {
+        changes.history = appendFeedHistory(feed.history, {
+          type: 'moved',
+          message: `Moved permanently to ${newUrl}, which is already used by "${existing.title}"`,
+        });
+      }
+      return changes;
+    }
+
+    console.log(`[Sync] ${feed.title} moved permanently to ${newUrl}`);
+    return {
+      feedUrl: newUrl,
+      originalFeedUrl: feed.originalFeedUrl ?? feed.feedUrl,
+      redirectTarget: null,
+      redirectCount: 0,
+      history: appendFeedHistory(feed.history, {
+        type: 'moved',
+        message: `Moved permanently from ${feed.feedUrl} to ${newUrl}`,
+      }),
+      updatedAt: new Date(), // So /sync hands the new URL to clients
+    };
+  }
+
+  private recoveryHistory(feed: Pick<FeedRecord, 'consecutiveFailures' | 'history'>): { history?: FeedHistoryEntry[] } {
+    if (!feed.consecutiveFailures) return {};
+    return {
+      history: appendFeedHistory(feed.history, {
+        type: 'recovered',
+        message: `Recovered after ${feed.consecutiveFailures} failed attempts`,
+      }),
+    };
+  }
+
+  private describeError(error: unknown): string {
+    if (!(error instanceof Error)) return 'Unknown error';
+    // undici wraps the interesting part (DNS, redirects, resets) in `cause`
+    const cause = (error as Error & { cause?: unknown }).cause;
+    if (cause instanceof Error && cause.message && cause.message !== error.message) {
+      return `${error.message}: ${cause.message}`;
+    }
+    return error.message;
+  }
+
+  private buildSearchVector(title: string, summary?: string, content?: string): SQL {
+    return searchVectorSql(title, summary ?? null, content ?? null);
   }
 }
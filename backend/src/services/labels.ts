@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { articles, articleStates } from '../db/schema';
+import { eq, and, desc, sql, arrayContains } from 'drizzle-orm';
+import { normalizeLabel, normalizeLabels } from '@feedstream/common';
+
+export interface LabelCount {
+  name: string;
+  count: number;
+}
+
+export type LabelledArticle = typeof articles.$inferSelect & {
+  isRead: boolean;
+  isBookmarked: boolean;
+  playbackPosition: number;
+  tags: string[];
+};
+
+/**
+ * User labels on articles. Labels live in article_states.tags next to the
+ * read/bookmark state and are always stored normalized.
+ */
+export class LabelService {
+  async list(userId: string): Promise<LabelCount[]> {
+    const label = sql<string>`unnest(${articleStates.tags})`;
+    return db.select({ name: label, count: sql<number>`count(*)::int` })
+      .from(articleStates)
+      .where(eq(articleStates.userId, userId))
+      .groupBy(label)
+      .orderBy(label);
+  }
+
+  async articles(userId: string, name: string, limit = 50, offset = 0): Promise<LabelledArticle[]> {
+    const rows = await db.select({ article: articles, state: articleStates })
+      .from(articleStates)
+      .innerJoin(articles, eq(articles.id, articleStates.articleId))
+      .where(and(
+        eq(articleStates.userId, userId),
+        arrayContains(articleStates.tags, [normalizeLabel(name)])
+      ))
+      .orderBy(desc(articles.publishedAt))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(({ article, state }) => ({
+      ...article,
+      isRead: state.isRead ?? false,
+      isBookmarked: state.isBookmarked ?? false,
+      playbackPosition: state.playbackPosition ?? 0,
+      tags: state.tags,
+    }));
+  }
+
+  /**
+   * Replace an article's labels. Returns the stored labels, or null when the
+   * article doesn't belong to the user.
+   */
+  async setArticleLabels(userId: string, articleId: string, labels: string[]): Promise<string[] | null> {
+    const article = await db.query.articles.findFirst({
+      where: and(eq(articles.id, articleId), eq(articles.userId, userId)),
+      columns: { id: true },
+    });
+    if (!article) return null;
+
+    const tags = normalizeLabels(labels);
+    await db.insert(articleStates).values({
+      userId,
+      articleId,
+      tags,
+    }).onConflictDoUpdate({
+      target: [articleStates.userId, articleStates.articleId],
+      set: {
+        tags,
+        updatedAt: new Date(),
+      },
+    });
+    return tags;
+  }
+
+  // Returns how many articles changed
+  async rename(userId: string, from: string, to: string): Promise<number> {
+    const oldName = normalizeLabel(from);
+    const newName = normalizeLabel(to);
+    if (oldName === newName) return 0;
+
+    const updated = await db.update(articleStates).set({
+      // array_replace can leave a duplicate when the article already had the new label
+      tags: sql`array(select distinct unnest(array_replace(${articleStates.tags}, ${oldName}, ${newName})))`,
+      updatedAt: new Date(),
+    }).where(and(
+      eq(articleStates.userId, userId),
+      arrayContains(articleStates.tags, [oldName])
+    )).returning({ id: articleStates.id });
+    return updated.length;
+  }
+
+  // Returns how many articles changed
+  async remove(userId: string, name: string): Promise<number> {
+    const label = normalizeLabel(name);
+    const updated = await db.update(articleStates).set({
+      tags: sql`array_remove(${articleStates.tags}, ${label})`,
+      updatedAt: new Date(),
+    }).where(and(
+      eq(articleStates.userId, userId),
+      arrayContains(articleStates.tags, [label])
+    )).returning({ id: articleStates.id });
+    return updated.length;
+  }
+}
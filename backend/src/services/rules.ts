@@ -0,0 +1,140 @@
+import { db } from '../db';
+import { rules, feeds, folders, RuleActionType } from '../db/schema';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+import {
+  flattenRuleConditions,
+  matchesRuleConditions,
+  usesRegexConditions,
+  validateRuleConditions,
+  RuleConditionGroup,
+  RuleSubject,
+} from '@feedstream/common';
+
+type RuleRecord = typeof rules.$inferSelect;
+
+export interface RuleInput {
+  name: string;
+  conditions: RuleConditionGroup;
+  feedId?: string | null;
+  folderId?: string | null;
+  actions: RuleActionType[];
+  isActive?: boolean;
+}
+
+// Combined effect of every rule that matched an article
+export interface RuleOutcome {
+  matched: string[]; // Rule IDs
+  markRead: boolean;
+  star: boolean;
+  suppress: boolean;
+}
+
+/**
+ * Per-user automation rules. FeedService evaluates the active ones against
+ * newly fetched articles, so read/bookmark state and suppression are decided
+ * once on the server instead of on every device.
+ */
+export class RuleService {
+  async list(userId: string): Promise<RuleRecord[]> {
+    return db.query.rules.findMany({
+      where: eq(rules.userId, userId),
+      orderBy: asc(rules.createdAt),
+    });
+  }
+
+  async listActive(userId: string): Promise<RuleRecord[]> {
+    return db.query.rules.findMany({
+      where: and(eq(rules.userId, userId), eq(rules.isActive, true)),
+    });
+  }
+
+  async create(userId: string, input: RuleInput): Promise<RuleRecord> {
+    const [rule] = await db.insert(rules).values({
+      userId,
+      name: input.name,
+      conditions: input.conditions,
+      feedId: input.feedId ?? null,
+      folderId: input.folderId ?? null,
+      actions: input.actions,
+      isActive: input.isActive ?? true,
+    }).returning();
+    return rule;
+  }
+
+  async update(userId: string, id: string, input: Partial<RuleInput>): Promise<RuleRecord | undefined> {
+    const [rule] = await db.update(rules).set({
+      ...input,
+      updatedAt: new Date(),
+    }).where(and(eq(rules.id, id), eq(rules.userId, userId))).returning();
+    return rule;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(rules)
+      .where(and(eq(rules.id, id), eq(rules.userId, userId)))
+      .returning({ id: rules.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Problem with a rule that would stop it from working, or null if it's fine.
+   */
+  validate(input: RuleInput): string | null {
+    if (!input.name.trim()) return 'Give the rule a name';
+    if (input.actions.length === 0) return 'Add at least one action';
+    if (input.feedId && input.folderId) return 'Limit the rule to a feed or a folder, not both';
+
+    if (flattenRuleConditions(input.conditions).length === 0 && !input.feedId && !input.folderId) {
+      return 'Add at least one condition or limit the rule to a feed or folder';
+    }
+    if (usesRegexConditions(input.conditions)) {
+      return 'Regular expression conditions are only supported in rules on your device';
+    }
+    return validateRuleConditions(input.conditions);
+  }
+
+  /**
+   * Error for a feed or folder limit that isn't one of the user's own, or
+   * null when both are fine (or unset).
+   */
+  async findMissingScope(userId: string, input: Pick<RuleInput, 'feedId' | 'folderId'>): Promise<string | null> {
+    if (input.feedId) {
+      const feed = await db.query.feeds.findFirst({
+        where: and(eq(feeds.id, input.feedId), eq(feeds.userId, userId), isNull(feeds.deletedAt)),
+        columns: { id: true },
+      });
+      if (!feed) return 'Feed not found';
+    }
+    if (input.folderId) {
+      const folder = await db.query.folders.findFirst({
+        where: and(eq(folders.id, input.folderId), eq(folders.userId, userId), isNull(folders.deletedAt)),
+        columns: { id: true },
+      });
+      if (!folder) return 'Folder not found';
+    }
+    return null;
+  }
+
+  evaluate(
+    activeRules: RuleRecord[],
+    article: RuleSubject,
+    feed: { id: string; folderId: string | null },
+    now = Date.now()
+  ): RuleOutcome {
+    const outcome: RuleOutcome = { matched: [], markRead: false, star: false, suppress: false };
+
+    for (const rule of activeRules) {
+      if (rule.feedId && rule.feedId !== feed.id) continue;
+      if (rule.folderId && rule.folderId !== feed.folderId) continue;
+      if (usesRegexConditions(rule.conditions)) continue; // Saved before they were refused
+      if (!matchesRuleConditions(rule.conditions, article, now)) continue;
+
+      outcome.matched.push(rule.id);
+      outcome.markRead ||= rule.actions.includes('mark_read');
+      outcome.star ||= rule.actions.includes('star');
+      outcome.suppress ||= rule.actions.includes('delete');
+    }
+
+    return outcome;
+  }
+}
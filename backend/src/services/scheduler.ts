@@ -0,0 +1,150 @@
+import { db } from '../db';
+import { feeds } from '../db/schema';
+import { eq, and, sql, isNull, or, lte } from 'drizzle-orm';
+import { config } from '../config';
+import { FeedService } from './feed';
+import { WebSubService } from './websub';
+
+type ScheduledFeed = Pick<typeof feeds.$inferSelect, 'id' | 'userId' | 'title' | 'feedUrl'>;
+
+const TICK_INTERVAL_MS = 60 * 1000; // How often we look for due feeds
+const MAX_FEEDS_PER_TICK = 200;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function hostOf(feedUrl: string): string {
+  try {
+    return new URL(feedUrl).hostname;
+  } catch {
+    return feedUrl;
+  }
+}
+
+/**
+ * Background poller that keeps every user's feeds fresh while no client is open.
+ *
+ * Each tick picks up feeds whose `nextPollAt` has passed and syncs them through
+ * `FeedService.syncFeed`, which also schedules the following poll (or, for a
+ * failing feed, the next backoff probe). At most
+ * `SCHEDULER_CONCURRENCY` feeds are fetched at once, and requests to the same
+ * host are serialized and spaced by `SCHEDULER_HOST_DELAY_MS`. WebSub leases
+ * that are about to run out are renewed on the same tick.
+ */
+export class FeedScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private currentRun: Promise<void> | null = null;
+
+  private readonly concurrency = Math.max(1, parseInt(config.SCHEDULER_CONCURRENCY));
+  private readonly hostDelayMs = Math.max(0, parseInt(config.SCHEDULER_HOST_DELAY_MS));
+  private readonly busyHosts = new Set<string>();
+  private readonly lastHostFetch = new Map<string, number>();
+
+  constructor(
+    private readonly webSub: WebSubService = new WebSubService(),
+    private readonly feedService: FeedService = new FeedService(webSub)
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`[Scheduler] Started (concurrency ${this.concurrency}, host delay ${this.hostDelayMs}ms)`);
+    this.scheduleTick(0);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Let in-flight fetches finish so feed state isn't left half-written
+    await this.currentRun;
+    console.log('[Scheduler] Stopped');
+  }
+
+  private scheduleTick(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.currentRun = this.tick()
+        .catch(error => console.error('[Scheduler] Tick failed:', error))
+        .finally(() => {
+          this.currentRun = null;
+          this.scheduleTick(TICK_INTERVAL_MS);
+        });
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    await this.webSub.renewExpiring()
+      .catch(error => console.error('[Scheduler] WebSub renewal failed:', error));
+
+    const due = await this.findDueFeeds();
+    if (due.length === 0) return;
+
+    console.log(`[Scheduler] Polling ${due.length} due feeds`);
+    const queue = [...due];
+    const workers = Array.from(
+      { length: Math.min(this.concurrency, queue.length) },
+      () => this.work(queue)
+    );
+    await Promise.all(workers);
+
+    // Forget hosts whose cooldown has expired so the map doesn't grow forever
+    const now = Date.now();
+    for (const [host, last] of this.lastHostFetch) {
+      if (now - last >= this.hostDelayMs) this.lastHostFetch.delete(host);
+    }
+  }
+
+  private async findDueFeeds(): Promise<ScheduledFeed[]> {
+    return db.query.feeds.findMany({
+      columns: { id: true, userId: true, title: true, feedUrl: true },
+      where: and(
+        eq(feeds.isPaused, false),
+        isNull(feeds.deletedAt),
+        or(isNull(feeds.nextPollAt), lte(feeds.nextPollAt, new Date()))
+      ),
+      orderBy: sql`${feeds.nextPollAt} ASC NULLS FIRST`,
+      limit: MAX_FEEDS_PER_TICK,
+    });
+  }
+
+  private async work(queue: ScheduledFeed[]): Promise<void> {
+    while (this.running && queue.length > 0) {
+      const index = queue.findIndex(feed => this.hostWaitMs(hostOf(feed.feedUrl)) === 0);
+
+      if (index === -1) {
+        // Every remaining feed is on a host that is busy or cooling down
+        const wait = Math.min(...queue.map(feed => this.hostWaitMs(hostOf(feed.feedUrl))));
+        await sleep(Math.max(wait, 100));
+        continue;
+      }
+
+      const [feed] = queue.splice(index, 1);
+      const host = hostOf(feed.feedUrl);
+      this.busyHosts.add(host);
+
+      try {
+        const result = await this.feedService.syncFeed(feed.id, feed.userId);
+        if (result.newArticles > 0) {
+          console.log(`[Scheduler] ${feed.title}: ${result.newArticles} new articles`);
+        }
+      } catch (error) {
+        console.error(`[Scheduler] Failed to sync ${feed.title}:`, error instanceof Error ? error.message : error);
+      } finally {
+        this.busyHosts.delete(host);
+        this.lastHostFetch.set(host, Date.now());
+      }
+    }
+  }
+
+  private hostWaitMs(host: string): number {
+    if (this.busyHosts.has(host)) return this.hostDelayMs || 100;
+    const last = this.lastHostFetch.get(host);
+    if (last === undefined) return 0;
+    return Math.max(0, last + this.hostDelayMs - Date.now());
+  }
+}
@@ -0,0 +1,267 @@
+import crypto from 'node:crypto';
+import { db } from '../db';
+import { feeds, webSubSubscriptions } from '../db/schema';
+import { eq, and, lt, or, inArray, isNull } from 'drizzle-orm';
+import { config } from '../config';
+
+type FeedRecord = typeof feeds.$inferSelect;
+type SubscriptionRecord = typeof webSubSubscriptions.$inferSelect;
+
+const REQUESTED_LEASE_SECONDS = 10 * 24 * 60 * 60; // Hubs may grant less
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000; // Renew leases expiring within a day
+const RETRY_AFTER_MS = 6 * 60 * 60 * 1000; // Re-request pending/failed subscriptions after this long
+const HUB_TIMEOUT_MS = 10000;
+
+export type IntentResult =
+  | { ok: true; challenge: string }
+  | { ok: false; status: number };
+
+/**
+ * WebSub (https://www.w3.org/TR/websub/) subscriber side.
+ *
+ * Feeds that advertise a hub get a subscription whose callback is
+ * `${PUBLIC_URL}/api/websub/<subscription id>`. The hub confirms it with a GET
+ * intent verification and afterwards POSTs new content there, signed with the
+ * per-subscription secret. Polling continues at the maximum interval as a
+ * safety net while a subscription is active.
+ */
+export class WebSubService {
+  get enabled(): boolean {
+    return Boolean(config.PUBLIC_URL);
+  }
+
+  /**
+   * Make sure the feed is subscribed at its hub. Returns true when an active,
+   * unexpired subscription exists; otherwise sends a (re)subscribe request and
+   * returns false until the hub has verified it.
+   */
+  async ensureSubscription(feed: FeedRecord, hubUrl: string, topicUrl: string): Promise<boolean> {
+    if (!this.enabled) return false;
+
+    const existing = await db.query.webSubSubscriptions.findFirst({
+      where: eq(webSubSubscriptions.feedId, feed.id),
+    });
+    const now = Date.now();
+
+    if (existing && existing.hubUrl === hubUrl && existing.topicUrl === topicUrl) {
+      if (existing.state === 'active' && existing.expiresAt && existing.expiresAt.getTime() - now > RENEW_BEFORE_MS) {
+        return true;
+      }
+      // Don't hammer a hub that hasn't verified (or refused) us yet
+      if (existing.state !== 'active' && now - existing.updatedAt.getTime() < RETRY_AFTER_MS) {
+        return false;
+      }
+    }
+
+    if (existing && existing.state === 'active' && (existing.hubUrl !== hubUrl || existing.topicUrl !== topicUrl)) {
+      // The feed switched hubs or topic URLs; drop the old subscription before moving on
+      await this.requestAtHub(existing, 'unsubscribe').catch(() => undefined);
+    }
+
+    let subscription: SubscriptionRecord;
+    if (existing) {
+      [subscription] = await db.update(webSubSubscriptions).set({
+        hubUrl,
+        topicUrl,
+        state: 'pending',
+        lastError: null,
+        updatedAt: new Date(),
+      }).where(eq(webSubSubscriptions.id, existing.id)).returning();
+    } else {
+      [subscription] = await db.insert(webSubSubscriptions).values({
+        feedId: feed.id,
+        hubUrl,
+        topicUrl,
+        secret: crypto.randomBytes(32).toString('hex'),
+      }).returning();
+    }
+
+    await this.subscribe(subscription);
+    return false;
+  }
+
+  async unsubscribeFeed(feedId: string): Promise<void> {
+    const subscription = await db.query.webSubSubscriptions.findFirst({
+      where: eq(webSubSubscriptions.feedId, feedId),
+    });
+    if (!subscription || subscription.state === 'unsubscribed') return;
+
+    await db.update(webSubSubscriptions).set({
+      state: 'unsubscribing',
+      updatedAt: new Date(),
+    }).where(eq(webSubSubscriptions.id, subscription.id));
+
+    try {
+      await this.requestAtHub(subscription, 'unsubscribe');
+    } catch (error) {
+      // The lease will simply run out; we answer 410 to pushes in the meantime
+      console.error(`[WebSub] Failed to unsubscribe ${subscription.topicUrl}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Renew leases that are about to expire and retry subscriptions the hub never
+   * verified. Called from the scheduler tick.
+   */
+  async renewExpiring(): Promise<void> {
+    if (!this.enabled) return;
+
+    const now = Date.now();
+    const due = await db.select({ subscription: webSubSubscriptions })
+      .from(webSubSubscriptions)
+      .innerJoin(feeds, eq(feeds.id, webSubSubscriptions.feedId))
+      .where(and(
+        isNull(feeds.deletedAt),
+        eq(feeds.isPaused, false),
+        or(
+          and(eq(webSubSubscriptions.state, 'active'), lt(webSubSubscriptions.expiresAt, new Date(now + RENEW_BEFORE_MS))),
+          and(inArray(webSubSubscriptions.state, ['pending', 'failed']), lt(webSubSubscriptions.updatedAt, new Date(now - RETRY_AFTER_MS)))
+        )
+      ));
+
+    for (const { subscription } of due) {
+      await this.subscribe(subscription);
+    }
+  }
+
+  /**
+   * Handle the hub's GET to the callback: confirm (or record the denial of) a
+   * subscribe/unsubscribe request we actually made.
+   */
+  async verifyIntent(subscriptionId: string, query: Record<string, string | undefined>): Promise<IntentResult> {
+    const subscription = await this.findById(subscriptionId);
+    if (!subscription) return { ok: false, status: 404 };
+
+    const mode = query['hub.mode'];
+    const topic = query['hub.topic'];
+    const challenge = query['hub.challenge'];
+
+    if (topic !== subscription.topicUrl) {
+      // The hub confirming the unsubscribe ensureSubscription sent for the
+      // topic this callback had before the feed moved
+      if (mode === 'unsubscribe' && challenge) return { ok: true, challenge };
+      return { ok: false, status: 404 };
+    }
+
+    if (mode === 'denied') {
+      await db.update(webSubSubscriptions).set({
+        state: 'denied',
+        lastError: query['hub.reason'] || 'Subscription denied by hub',
+        updatedAt: new Date(),
+      }).where(eq(webSubSubscriptions.id, subscription.id));
+      console.log(`[WebSub] Hub denied subscription to ${subscription.topicUrl}`);
+      return { ok: true, challenge: '' };
+    }
+
+    if (!challenge) return { ok: false, status: 400 };
+
+    if (mode === 'subscribe' && (subscription.state === 'pending' || subscription.state === 'active')) {
+      const leaseSeconds = parseInt(query['hub.lease_seconds'] ?? '', 10) || REQUESTED_LEASE_SECONDS;
+      await db.update(webSubSubscriptions).set({
+        state: 'active',
+        leaseSeconds,
+        expiresAt: new Date(Date.now() + leaseSeconds * 1000),
+        lastError: null,
+        updatedAt: new Date(),
+      }).where(eq(webSubSubscriptions.id, subscription.id));
+      console.log(`[WebSub] Subscribed to ${subscription.topicUrl} for ${leaseSeconds}s`);
+      return { ok: true, challenge };
+    }
+
+    if (mode === 'unsubscribe' && subscription.state === 'unsubscribing') {
+      await db.update(webSubSubscriptions).set({
+        state: 'unsubscribed',
+        expiresAt: null,
+        updatedAt: new Date(),
+      }).where(eq(webSubSubscriptions.id, subscription.id));
+      console.log(`[WebSub] Unsubscribed from ${subscription.topicUrl}`);
+      return { ok: true, challenge };
+    }
+
+    // Not something we asked for
+    return { ok: false, status: 404 };
+  }
+
+  /**
+   * Check the X-Hub-Signature header (`<algo>=<hex hmac>`) of a content
+   * distribution request against the subscription secret.
+   */
+  verifySignature(subscription: SubscriptionRecord, header: string | undefined, body: Buffer): boolean {
+    if (!header) return false;
+    const [algorithm, signature] = header.split('=', 2);
+    if (!signature || !['sha1', 'sha256', 'sha384', 'sha512'].includes(algorithm)) return false;
+
+    const expected = crypto.createHmac(algorithm, subscription.secret).update(body).digest('hex');
+    const given = Buffer.from(signature, 'hex');
+    const wanted = Buffer.from(expected, 'hex');
+    return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+  }
+
+  async findById(subscriptionId: string): Promise<SubscriptionRecord | undefined> {
+    // Callback ids come straight from the URL; anything that isn't a UUID can't match
+    if (!/^[0-9a-f-]{36}$/i.test(subscriptionId)) return undefined;
+    return db.query.webSubSubscriptions.findFirst({
+      where: eq(webSubSubscriptions.id, subscriptionId),
+    });
+  }
+
+  async recordPush(subscriptionId: string): Promise<void> {
+    await db.update(webSubSubscriptions).set({
+      lastPushAt: new Date(),
+    }).where(eq(webSubSubscriptions.id, subscriptionId));
+  }
+
+  private async subscribe(subscription: SubscriptionRecord): Promise<void> {
+    try {
+      await this.requestAtHub(subscription, 'subscribe');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Subscription request failed';
+      console.error(`[WebSub] Failed to subscribe to ${subscription.topicUrl}:`, message);
+      await db.update(webSubSubscriptions).set({
+        state: 'failed',
+        lastError: message,
+        updatedAt: new Date(),
+      }).where(eq(webSubSubscriptions.id, subscription.id));
+    }
+  }
+
+  private async requestAtHub(subscription: SubscriptionRecord, mode: 'subscribe' | 'unsubscribe'): Promise<void> {
+    const body = new URLSearchParams({
+      'hub.callback': `${config.PUBLIC_URL!.replace(/\/+$/, '')}/api/websub/${subscription.id}`,
+      'hub.mode': mode,
+      'hub.topic': subscription.topicUrl,
+    });
+    if (mode === 'subscribe') {
+      body.set('hub.secret', subscription.secret);
+      body.set('hub.lease_seconds', String(REQUESTED_LEASE_SECONDS));
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HUB_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(subscription.hubUrl, {
+        method: 'POST',
+        headers: {
+          'User-Agent': 'FeedStream/1.0',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      // 202 Accepted is the norm; some hubs verify synchronously and answer 204
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        throw new Error(`Hub responded HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Hub timed out after ${HUB_TIMEOUT_MS / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
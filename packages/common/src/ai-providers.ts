@@ -0,0 +1,267 @@
+// One interface over the chat APIs FeedStream can use: OpenAI, any
+// OpenAI-compatible server (Ollama, llama.cpp, LM Studio), Gemini and
+// Anthropic. Callers pass messages and limits; each provider maps them onto
+// its own request shape, and every failure surfaces as an Error whose message
+// names the provider.
+
+export type AIProviderKind = 'openai' | 'openai-compatible' | 'gemini' | 'anthropic';
+
+export interface AIProviderInfo {
+  label: string;
+  baseUrl?: string; // Unset for servers the user runs
+  defaultModel?: string;
+  needsKey: boolean;
+}
+
+export const AI_PROVIDERS: Record<AIProviderKind, AIProviderInfo> = {
+  openai: { label: 'OpenAI', baseUrl: 'https://api.openai.com/v1', defaultModel: 'gpt-4o-mini', needsKey: true },
+  'openai-compatible': { label: 'OpenAI-compatible server', needsKey: false },
+  gemini: {
+    label: 'Gemini',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    defaultModel: 'gemini-2.5-flash',
+    needsKey: true,
+  },
+  anthropic: { label: 'Anthropic', baseUrl: 'https://api.anthropic.com/v1', defaultModel: 'claude-3-5-haiku-latest', needsKey: true },
+};
+
+export const DEFAULT_MAX_TOKENS = 1024;
+export const MAX_TOKENS_LIMIT = 8192;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Local servers name models like "llama3.2:3b" or "lmstudio-community/qwen2.5-7b"
+const MODEL_PATTERN = /^[\w.:/-]{1,200}$/;
+
+export interface AIProviderConfig {
+  provider: AIProviderKind;
+  apiKey?: string;
+  baseUrl?: string; // Required for openai-compatible, e.g. http://localhost:11434/v1
+  model?: string; // Defaults to the provider's defaultModel
+  maxTokens?: number; // Output limit when a request doesn't set one
+  timeoutMs?: number;
+}
+
+export interface AIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  messages: AIMessage[];
+  model?: string; // Overrides the configured model
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean; // Ask for a JSON reply where the API can enforce it
+}
+
+export interface AICompletion {
+  text: string;
+  model: string;
+  truncated: boolean; // Stopped at the token limit
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+  readonly model: string;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+}
+
+interface ErrorBody {
+  error?: { message?: string } | string;
+  message?: string;
+}
+
+interface OpenAIResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface GeminiResponse {
+  modelVersion?: string;
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+interface AnthropicResponse {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+export function isAIProviderKind(value: unknown): value is AIProviderKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value);
+}
+
+// Whole tokens between 1 and MAX_TOKENS_LIMIT
+export function clampMaxTokens(value: number | undefined, fallback = DEFAULT_MAX_TOKENS): number {
+  const tokens = Math.floor(value ?? fallback);
+  if (!Number.isFinite(tokens)) return fallback;
+  return Math.min(MAX_TOKENS_LIMIT, Math.max(1, tokens));
+}
+
+/**
+ * Parse a reply that should be JSON; models often wrap it in a ```json fence.
+ */
+export function parseJSONCompletion<T = unknown>(text: string): T {
+  return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '').trim()) as T;
+}
+
+async function postJSON<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  fetchImpl: typeof fetch
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new Error(`${label} did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    }
+    throw new Error(`Could not reach ${label} at ${new URL(url).origin}`);
+  }
+
+  const data = await response.json().catch(() => undefined) as (T & ErrorBody) | undefined;
+  if (!response.ok) {
+    const detail = typeof data?.error === 'string' ? data.error : data?.error?.message ?? data?.message;
+    throw new Error(`${label} error ${response.status}: ${detail || response.statusText || 'request failed'}`);
+  }
+  if (!data) throw new Error(`${label} returned a response that isn't JSON`);
+  return data;
+}
+
+function finish(label: string, text: string, model: string, truncated: boolean, usage?: AICompletion['usage']): AICompletion {
+  if (!text.trim()) {
+    throw new Error(truncated ? `${label} reached the token limit before answering` : `${label} returned no text`);
+  }
+  return { text, model, truncated, usage };
+}
+
+/**
+ * A provider for the given settings. Throws when the settings can't work:
+ * a missing key or base URL, or no model.
+ */
+export function createAIProvider(config: AIProviderConfig, fetchImpl: typeof fetch = fetch): AIProvider {
+  if (!isAIProviderKind(config.provider)) throw new Error(`Unknown AI provider "${config.provider}"`);
+
+  const info = AI_PROVIDERS[config.provider];
+  const { label } = info;
+  if (info.needsKey && !config.apiKey) throw new Error(`${label} API key not configured`);
+
+  const baseUrl = (config.baseUrl || info.baseUrl || '').replace(/\/+$/, '');
+  if (!baseUrl) throw new Error(`Base URL not configured for the ${label}`);
+
+  const defaultModel = config.model || info.defaultModel;
+  if (!defaultModel) throw new Error(`No model configured for the ${label}`);
+
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const post = <T>(url: string, headers: Record<string, string>, body: unknown) =>
+    postJSON<T>(label, url, headers, body, timeoutMs, fetchImpl);
+
+  const prepare = (request: AICompletionRequest) => {
+    const model = request.model || defaultModel;
+    if (!MODEL_PATTERN.test(model)) throw new Error(`Invalid model name "${model}"`);
+
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const conversation = request.messages.filter(m => m.role !== 'system');
+    if (conversation.length === 0) throw new Error('No messages to send');
+
+    return { model, system, conversation, maxTokens: clampMaxTokens(request.maxTokens, clampMaxTokens(config.maxTokens)) };
+  };
+
+  const completeOpenAI = async (request: AICompletionRequest): Promise<AICompletion> => {
+    const { model, maxTokens } = prepare(request);
+    const isOpenAI = config.provider === 'openai';
+    const data = await post<OpenAIResponse>(
+      `${baseUrl}/chat/completions`,
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      {
+        model,
+        messages: request.messages,
+        // OpenAI's newer models only take max_completion_tokens; local servers only know max_tokens
+        ...(isOpenAI ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        // Not every local server supports response_format, so those rely on the prompt
+        ...(request.json && isOpenAI && { response_format: { type: 'json_object' } }),
+      }
+    );
+    const choice = data.choices?.[0];
+    return finish(
+      label,
+      choice?.message?.content ?? '',
+      data.model || model,
+      choice?.finish_reason === 'length',
+      data.usage && { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+    );
+  };
+
+  const completeGemini = async (request: AICompletionRequest): Promise<AICompletion> => {
+    const { model, system, conversation, maxTokens } = prepare(request);
+    const data = await post<GeminiResponse>(
+      `${baseUrl}/models/${encodeURIComponent(model)}:generateContent`,
+      { 'x-goog-api-key': config.apiKey! },
+      {
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+        contents: conversation.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        generationConfig: {
+          maxOutputTokens: maxTokens,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.json && { responseMimeType: 'application/json' }),
+        },
+      }
+    );
+    const candidate = data.candidates?.[0];
+    return finish(
+      label,
+      (candidate?.content?.parts ?? []).map(p => p.text ?? '').join(''),
+      data.modelVersion || model,
+      candidate?.finishReason === 'MAX_TOKENS',
+      data.usageMetadata && {
+        inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+      }
+    );
+  };
+
+  const completeAnthropic = async (request: AICompletionRequest): Promise<AICompletion> => {
+    const { model, system, conversation, maxTokens } = prepare(request);
+    const data = await post<AnthropicResponse>(
+      `${baseUrl}/messages`,
+      { 'x-api-key': config.apiKey!, 'anthropic-version': ANTHROPIC_VERSION },
+      {
+        model,
+        max_tokens: maxTokens,
+        ...(system && { system }),
+        messages: conversation,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+      }
+    );
+    return finish(
+      label,
+      (data.content ?? []).filter(block => block.type === 'text').map(block => block.text ?? '').join(''),
+      data.model || model,
+      data.stop_reason === 'max_tokens',
+      data.usage && { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+    );
+  };
+
+  const complete = config.provider === 'gemini'
+    ? completeGemini
+    : config.provider === 'anthropic'
+      ? completeAnthropic
+      : completeOpenAI;
+
+  return { kind: config.provider, model: defaultModel, complete };
+}
@@ -0,0 +1,650 @@
+// Main-content extraction for article pages ("reader view"), shared by the
+// web client's reader mode and prefetching and by the backend. Works on the
+// small parser in html-tree, so it needs no DOM.
+//
+// The approach follows Readability: paragraphs score their ancestors by
+// length and punctuation, class and id names nudge the scores, link-heavy
+// blocks are penalised, and the best block plus related siblings is kept and
+// then cleaned.
+
+import {
+  HtmlElement,
+  HtmlNode,
+  parseHTML,
+  textContent,
+  findAll,
+  findFirst,
+  removeNode,
+  replaceNode,
+  appendChild,
+  createElement,
+  serializeHTML,
+  querySelectorAll,
+  parseSelector,
+} from './html-tree';
+import { findNextPageURL } from './pagination';
+
+export interface ExtractedContent {
+  title?: string;
+  byline?: string;
+  siteName?: string;
+  publishedAt?: string; // ISO 8601, when the page states one
+  leadImage?: string; // Absolute URL
+  excerpt?: string;
+  content: string; // Cleaned HTML with absolute URLs
+  textContent: string;
+  length: number; // Characters of text in `content`
+  nextPage?: string; // Next page of a multi-page article
+  pages?: number; // Pages stitched together by extractPaginatedContent
+}
+
+// Per-site adjustments, written by users for sites the heuristics get wrong
+export interface ContentRules {
+  contentSelector?: string; // CSS selector for the article body; skips scoring when it matches
+  removeSelector?: string; // CSS selector for elements to drop
+  stripImages?: boolean;
+}
+
+export interface ExtractOptions extends ContentRules {
+  minTextLength?: number; // Below this the page isn't treated as an article
+}
+
+export interface PaginatedExtractOptions extends ExtractOptions {
+  maxPages?: number;
+}
+
+// Fetches one page for stitching; null (or a throw) stops at the pages so far
+export type PageFetcher = (url: string) => Promise<{ html: string; url: string } | null>;
+
+export const DEFAULT_MAX_ARTICLE_PAGES = 5;
+
+// A page sharing at least this share of its paragraphs with earlier pages is a repeat
+const DUPLICATE_PAGE_RATIO = 0.5;
+
+const DEFAULT_MIN_TEXT_LENGTH = 140;
+const MAX_EXCERPT_LENGTH = 200;
+
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|ad-break|agegate|pagination|pager|popup|share|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_NAMES = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_NAMES = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+const BYLINE_NAMES = /byline|author|dateline|writtenby|p-author/i;
+
+// Dropped before scoring, wherever they are
+const REMOVED_TAGS = new Set([
+  'script', 'style', 'link', 'meta', 'template', 'form', 'button', 'input', 'select', 'textarea',
+  'nav', 'object', 'applet', 'canvas', 'dialog', 'svg', 'math', 'base', 'frame', 'frameset',
+]);
+
+const VIDEO_HOSTS = /^(www\.)?(youtube\.com|youtube-nocookie\.com|player\.vimeo\.com|vimeo\.com|dailymotion\.com|player\.twitch\.tv)$/i;
+
+// Elements whose text counts as a paragraph when scoring
+const SCORED_TAGS = new Set(['p', 'pre', 'td', 'blockquote', 'div', 'section']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dl', 'div', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'main', 'ol', 'p', 'pre', 'section', 'table', 'ul', 'select',
+]);
+
+// Attributes kept on extracted content; everything else (class, id, style, handlers) is dropped
+const KEPT_ATTRIBUTES = new Set([
+  'href', 'src', 'srcset', 'sizes', 'alt', 'title', 'width', 'height', 'datetime', 'colspan', 'rowspan',
+  'poster', 'controls', 'type', 'allow', 'allowfullscreen', 'frameborder', 'media', 'start', 'cite', 'lang', 'dir',
+]);
+
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-url', 'data-hi-res-src', 'data-full-src'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+interface Metadata {
+  title?: string;
+  byline?: string;
+  siteName?: string;
+  publishedAt?: string;
+  image?: string;
+  excerpt?: string;
+}
+
+function names(element: HtmlElement): string {
+  return `${element.attrs.class ?? ''} ${element.attrs.id ?? ''}`;
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function innerText(node: HtmlNode): string {
+  return normalizeSpace(textContent(node));
+}
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:', 'data:']);
+
+function resolveURL(url: string | undefined, base: string | undefined): string | undefined {
+  // Browsers ignore tabs and newlines anywhere in a URL and control characters
+  // around it, so "java\tscript:" is still javascript:
+  const trimmed = url?.replace(/[\t\n\r]/g, '').replace(/^[\u0000-\u0020]+|[\u0000-\u0020]+$/g, '');
+  if (!trimmed) return undefined;
+  if (/^(javascript|vbscript|data:text)/i.test(trimmed)) return undefined;
+  if (trimmed.startsWith('#') || /^(data|mailto|tel):/i.test(trimmed)) return trimmed;
+  try {
+    const resolved = base ? new URL(trimmed, base) : new URL(trimmed);
+    return SAFE_PROTOCOLS.has(resolved.protocol) ? resolved.href : undefined;
+  } catch {
+    return base ? undefined : trimmed;
+  }
+}
+
+function resolveSrcset(srcset: string, base: string | undefined): string {
+  return srcset
+    .split(/,\s+(?=\S)/)
+    .map(candidate => {
+      const [url, ...descriptor] = candidate.trim().split(/\s+/);
+      const resolved = resolveURL(url, base);
+      return resolved ? [resolved, ...descriptor].join(' ') : '';
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+function toISODate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function isHidden(element: HtmlElement): boolean {
+  const style = element.attrs.style ?? '';
+  return 'hidden' in element.attrs
+    || element.attrs['aria-hidden'] === 'true'
+    || /display\s*:\s*none|visibility\s*:\s*hidden/i.test(style);
+}
+
+// Article-like objects from JSON-LD blocks, flattening @graph and arrays
+function jsonLdArticles(root: HtmlElement): Record<string, unknown>[] {
+  const found: Record<string, unknown>[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      const type = ([] as unknown[]).concat(object['@type']).join(' ');
+      if (/Article|BlogPosting|NewsArticle|Report|WebPage/.test(type)) found.push(object);
+      if (object['@graph']) visit(object['@graph']);
+    }
+  };
+
+  for (const script of findAll(root, e => e.tag === 'script' && /ld\+json/i.test(e.attrs.type ?? ''))) {
+    try {
+      visit(JSON.parse(textContent(script)));
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  return found;
+}
+
+function jsonLdName(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    const names = value.map(jsonLdName).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return jsonLdName(object.name ?? object.url);
+  }
+  return undefined;
+}
+
+function readMetadata(root: HtmlElement, baseURL: string | undefined): Metadata {
+  const meta: Record<string, string> = {};
+  for (const element of findAll(root, e => e.tag === 'meta')) {
+    const key = (element.attrs.property || element.attrs.name || element.attrs.itemprop || '').toLowerCase();
+    const content = element.attrs.content?.trim();
+    if (key && content && !(key in meta)) meta[key] = content;
+  }
+
+  const ld = jsonLdArticles(root)[0] ?? {};
+  const titleElement = findFirst(root, e => e.tag === 'title');
+  const documentTitle = titleElement ? innerText(titleElement) : undefined;
+  const image = Array.isArray(ld.image) ? ld.image[0] : ld.image;
+  const ldImage = typeof image === 'string' ? image : (image as Record<string, unknown> | undefined)?.url;
+
+  return {
+    title: meta['og:title'] || meta['twitter:title'] || (typeof ld.headline === 'string' ? ld.headline : undefined) || cleanDocumentTitle(documentTitle),
+    byline: jsonLdName(ld.author) || meta['author'] || meta['article:author'] || meta['dc.creator'] || meta['parsely-author'],
+    siteName: meta['og:site_name'] || jsonLdName(ld.publisher),
+    publishedAt: toISODate(
+      (typeof ld.datePublished === 'string' ? ld.datePublished : undefined)
+      || meta['article:published_time'] || meta['datepublished'] || meta['date'] || meta['pubdate']
+      || meta['dc.date'] || meta['dc.date.issued'] || meta['parsely-pub-date']
+    ),
+    image: resolveURL(meta['og:image'] || meta['og:image:url'] || meta['twitter:image'] || meta['twitter:image:src'] || (typeof ldImage === 'string' ? ldImage : undefined), baseURL),
+    excerpt: meta['description'] || meta['og:description'] || meta['twitter:description'],
+  };
+}
+
+// "Article title | Site name" -> "Article title", when the remainder is long enough to be a title
+function cleanDocumentTitle(title: string | undefined): string | undefined {
+  if (!title) return undefined;
+  const parts = title.split(/\s+[|\-–—»:]\s+/);
+  if (parts.length > 1 && parts[0].split(' ').length >= 3) return parts[0];
+  return title;
+}
+
+function classWeight(element: HtmlElement): number {
+  const value = names(element);
+  let weight = 0;
+  if (NEGATIVE_NAMES.test(value)) weight -= 25;
+  if (POSITIVE_NAMES.test(value)) weight += 25;
+  return weight;
+}
+
+function baseScore(element: HtmlElement): number {
+  switch (element.tag) {
+    case 'article': return 10;
+    case 'div': case 'main': return 5;
+    case 'pre': case 'td': case 'blockquote': return 3;
+    case 'address': case 'ol': case 'ul': case 'dl': case 'dd': case 'dt': case 'li': case 'form': return -3;
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': case 'th': return -5;
+    default: return 0;
+  }
+}
+
+function linkDensity(element: HtmlElement): number {
+  const length = innerText(element).length;
+  if (length === 0) return 0;
+  let linkLength = 0;
+  for (const link of findAll(element, e => e.tag === 'a')) {
+    const href = link.attrs.href ?? '';
+    // In-page links (footnotes, tables of contents) count for less
+    linkLength += innerText(link).length * (href.startsWith('#') ? 0.3 : 1);
+  }
+  return linkLength / length;
+}
+
+function hasBlockChildren(element: HtmlElement): boolean {
+  return element.children.some(child => child.type === 'element' && BLOCK_TAGS.has(child.tag));
+}
+
+// Swap lazy-loading placeholders for the real image URLs
+function fixLazyImages(root: HtmlElement): void {
+  // <noscript> usually holds the real <img> for a JavaScript lazy loader
+  for (const noscript of findAll(root, e => e.tag === 'noscript')) {
+    const inner = parseHTML(textContent(noscript));
+    const images = findAll(inner, e => e.tag === 'img');
+    if (images.length !== 1) {
+      removeNode(noscript);
+      continue;
+    }
+
+    const siblings = noscript.parent?.children.filter((c): c is HtmlElement => c.type === 'element') ?? [];
+    const previous = siblings[siblings.indexOf(noscript) - 1];
+    if (previous?.tag === 'img') removeNode(previous);
+    replaceNode(noscript, images[0]);
+  }
+
+  for (const image of findAll(root, e => e.tag === 'img' || e.tag === 'source')) {
+    const src = image.attrs.src ?? '';
+    const placeholder = !src || src.startsWith('data:') || /blank|placeholder|spacer|lazy|pixel|1x1/i.test(src);
+    const lazySrc = LAZY_SRC_ATTRIBUTES.map(name => image.attrs[name]).find(Boolean);
+    const lazySrcset = LAZY_SRCSET_ATTRIBUTES.map(name => image.attrs[name]).find(Boolean);
+
+    if (lazySrc && (placeholder || image.tag === 'source')) image.attrs.src = lazySrc;
+    if (lazySrcset) image.attrs.srcset = lazySrcset;
+    if (image.tag === 'img' && placeholder && !lazySrc && image.attrs.srcset) {
+      // Fall back to the first srcset candidate
+      image.attrs.src = image.attrs.srcset.split(/[\s,]+/)[0];
+    }
+  }
+}
+
+// Matches for a user-written selector; one we can't parse matches nothing
+function selectAll(root: HtmlElement, selector: string | undefined): HtmlElement[] {
+  if (!selector?.trim()) return [];
+  try {
+    return querySelectorAll(root, selector);
+  } catch {
+    return [];
+  }
+}
+
+// Whether a selector is within the subset content rules support
+export function isSupportedSelector(selector: string): boolean {
+  try {
+    parseSelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function removeImages(root: HtmlElement): void {
+  for (const element of findAll(root, e => ['img', 'picture', 'svg', 'source'].includes(e.tag))) removeNode(element);
+  // A figure without its image is just a stray caption
+  for (const figure of findAll(root, e => e.tag === 'figure')) {
+    if (!findFirst(figure, e => ['video', 'audio', 'iframe', 'embed', 'table', 'pre'].includes(e.tag))) removeNode(figure);
+  }
+}
+
+// Scripts, styles, forms and embeds that aren't video players
+function removeUnsafe(root: HtmlElement): void {
+  for (const element of findAll(root, e => REMOVED_TAGS.has(e.tag))) removeNode(element);
+
+  for (const iframe of findAll(root, e => e.tag === 'iframe' || e.tag === 'embed')) {
+    try {
+      if (!VIDEO_HOSTS.test(new URL(iframe.attrs.src ?? '', 'https://invalid.example').hostname)) removeNode(iframe);
+    } catch {
+      removeNode(iframe);
+    }
+  }
+}
+
+function removeBoilerplate(root: HtmlElement): void {
+  removeUnsafe(root);
+
+  const visit = (element: HtmlElement) => {
+    for (const child of [...element.children]) {
+      if (child.type !== 'element') continue;
+      const value = names(child);
+      const unlikely = value.trim() && UNLIKELY_CANDIDATES.test(value) && !MAYBE_CANDIDATE.test(value)
+        && child.tag !== 'body' && child.tag !== 'a' && child.tag !== 'article' && child.tag !== 'main';
+      const role = child.attrs.role ?? '';
+      if (isHidden(child) || unlikely || /^(menu|menubar|complementary|navigation|alert|alertdialog|dialog)$/.test(role)) {
+        removeNode(child);
+        continue;
+      }
+      visit(child);
+    }
+  };
+  visit(root);
+}
+
+function findBylineElement(root: HtmlElement): HtmlElement | null {
+  return findFirst(root, e => {
+    if (e.attrs.rel === 'author' || /author/i.test(e.attrs.itemprop ?? '') || BYLINE_NAMES.test(names(e))) {
+      const text = innerText(e);
+      return text.length > 0 && text.length < 100;
+    }
+    return false;
+  });
+}
+
+function scoreCandidates(body: HtmlElement): Map<HtmlElement, number> {
+  const scores = new Map<HtmlElement, number>();
+  const initial = (element: HtmlElement) => {
+    if (!scores.has(element)) scores.set(element, baseScore(element) + classWeight(element));
+  };
+
+  // Leaf blocks only, so text isn't counted twice
+  const paragraphs = findAll(body, e => SCORED_TAGS.has(e.tag) && !hasBlockChildren(e));
+  for (const paragraph of paragraphs) {
+    const text = innerText(paragraph);
+    if (text.length < 25) continue;
+
+    const score = 1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor.tag !== '#root' && level < 5; level++, ancestor = ancestor.parent) {
+      initial(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+    }
+  }
+
+  for (const [element, score] of scores) scores.set(element, score * (1 - linkDensity(element)));
+  return scores;
+}
+
+// The top candidate plus siblings that look like part of the same article
+function assembleArticle(top: HtmlElement, scores: Map<HtmlElement, number>): HtmlElement {
+  const article = createElement('div');
+  const parent = top.parent;
+  if (!parent || parent.tag === '#root' || parent.tag === 'body' || parent.tag === 'html') {
+    appendChild(article, top);
+    return article;
+  }
+
+  const topScore = scores.get(top) ?? 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  for (const sibling of [...parent.children]) {
+    if (sibling.type !== 'element') continue;
+
+    let include = sibling === top || (scores.get(sibling) ?? -Infinity) >= threshold;
+    if (!include && sibling.tag === 'p') {
+      const text = innerText(sibling);
+      const density = linkDensity(sibling);
+      include = (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+    }
+    if (include) appendChild(article, sibling);
+  }
+  return article;
+}
+
+// Remove blocks inside the article that are mostly links, images or furniture
+function cleanConditionally(article: HtmlElement): void {
+  const candidates = findAll(article, e => ['form', 'fieldset', 'table', 'ul', 'ol', 'div', 'section', 'aside', 'header', 'footer'].includes(e.tag));
+  // Innermost first, so a wrapper is judged after its junk children are gone
+  for (const element of candidates.reverse()) {
+    if (!element.parent) continue;
+    if (element.tag === 'table' && findAll(element, e => e.tag === 'th').length > 0) continue; // Data table
+
+    const weight = classWeight(element);
+    if (weight < 0) {
+      removeNode(element);
+      continue;
+    }
+
+    const text = innerText(element);
+    if (text.split(',').length - 1 >= 10) continue;
+
+    const paragraphs = findAll(element, e => e.tag === 'p').length;
+    const images = findAll(element, e => e.tag === 'img').length;
+    const listItems = findAll(element, e => e.tag === 'li').length;
+    const inputs = findAll(element, e => e.tag === 'input').length;
+    const embeds = findAll(element, e => e.tag === 'iframe' || e.tag === 'video' || e.tag === 'audio').length;
+    const density = linkDensity(element);
+    const isList = element.tag === 'ul' || element.tag === 'ol';
+    const inFigure = !!findAncestor(element, 'figure');
+
+    const remove =
+      (images > 1 && paragraphs / images < 0.5 && !inFigure) ||
+      (!isList && listItems > paragraphs + 100) ||
+      inputs > Math.floor(paragraphs / 3) ||
+      (!isList && text.length < 25 && (images === 0 || images > 2) && embeds === 0 && !inFigure) ||
+      (weight < 25 && density > 0.2 && !(isList && density < 0.5)) ||
+      (weight >= 25 && density > 0.5);
+
+    if (remove) removeNode(element);
+  }
+}
+
+function findAncestor(element: HtmlElement, match: string | HtmlElement): HtmlElement | null {
+  for (let node = element.parent; node; node = node.parent) {
+    if (typeof match === 'string' ? node.tag === match : node === match) return node;
+  }
+  return null;
+}
+
+function finalizeContent(article: HtmlElement, baseURL: string | undefined, title: string | undefined, stripImages = false): void {
+  if (stripImages) removeImages(article);
+
+  // Readers show the title themselves, so drop a heading repeating it; other h1s become h2s
+  const normalizedTitle = title ? normalizeSpace(title).toLowerCase() : '';
+  for (const heading of findAll(article, e => e.tag === 'h1' || e.tag === 'h2')) {
+    if (normalizedTitle && innerText(heading).toLowerCase() === normalizedTitle) removeNode(heading);
+    else heading.tag = 'h2';
+  }
+
+  for (const element of findAll(article, () => true)) {
+    const attrs: Record<string, string> = {};
+    for (const [name, value] of Object.entries(element.attrs)) {
+      if (KEPT_ATTRIBUTES.has(name)) attrs[name] = value;
+    }
+
+    for (const name of ['href', 'src', 'poster', 'cite']) {
+      if (!(name in attrs)) continue;
+      const resolved = resolveURL(attrs[name], baseURL);
+      if (resolved) attrs[name] = resolved;
+      else delete attrs[name];
+    }
+    if (attrs.srcset) attrs.srcset = resolveSrcset(attrs.srcset, baseURL);
+    element.attrs = attrs;
+  }
+
+  // Empty paragraphs and wrappers left behind by cleaning
+  for (const element of findAll(article, e => ['p', 'div', 'section', 'span'].includes(e.tag)).reverse()) {
+    const hasMedia = findFirst(element, e => ['img', 'iframe', 'video', 'audio', 'picture', 'embed', 'hr'].includes(e.tag));
+    if (!innerText(element) && !hasMedia) removeNode(element);
+  }
+}
+
+/**
+ * Extract the main article content from a page. Returns null when nothing
+ * on the page looks like an article, so callers can fall back to the feed's
+ * own content.
+ */
+export function extractContent(html: string, url?: string, options: ExtractOptions = {}): ExtractedContent | null {
+  const minTextLength = options.minTextLength ?? DEFAULT_MIN_TEXT_LENGTH;
+  const root = parseHTML(html);
+
+  const baseElement = findFirst(root, e => e.tag === 'base' && !!e.attrs.href);
+  const baseURL = resolveURL(baseElement?.attrs.href, url) ?? url;
+  const metadata = readMetadata(root, baseURL);
+
+  const body = findFirst(root, e => e.tag === 'body') ?? root;
+  const nextPage = findNextPageURL(root, baseURL);
+  const timeElement = findFirst(body, e => e.tag === 'time' && !!e.attrs.datetime);
+  const publishedAt = metadata.publishedAt || toISODate(timeElement?.attrs.datetime);
+
+  // The byline is returned separately, so it shouldn't be repeated in the content
+  const bylineElement = findBylineElement(body);
+  const byline = metadata.byline || (bylineElement ? innerText(bylineElement).replace(/^by\s+/i, '') : undefined);
+  if (bylineElement) removeNode(bylineElement);
+
+  for (const element of selectAll(body, options.removeSelector)) removeNode(element);
+  fixLazyImages(body);
+
+  // A user's content selector wins over scoring; nested matches are kept once, inside their ancestor
+  const selected = selectAll(body, options.contentSelector);
+  let article: HtmlElement;
+  if (selected.length > 0) {
+    article = createElement('div');
+    for (const element of selected) {
+      if (!selected.some(other => other !== element && findAncestor(element, other))) appendChild(article, element);
+    }
+    removeUnsafe(article);
+  } else {
+    removeBoilerplate(body);
+
+    const scores = scoreCandidates(body);
+    let top: HtmlElement | null = null;
+    for (const [element, score] of scores) {
+      if (!top || score > scores.get(top)!) top = element;
+    }
+
+    article = top ? assembleArticle(top, scores) : createElement('div');
+    if (!top) {
+      for (const child of [...body.children]) appendChild(article, child);
+    }
+    cleanConditionally(article);
+  }
+
+  finalizeContent(article, baseURL, metadata.title, options.stripImages);
+
+  const text = innerText(article);
+  if (text.length < minTextLength) return null;
+
+  const firstParagraph = findFirst(article, e => e.tag === 'p' && innerText(e).length > 40);
+  const excerpt = metadata.excerpt || (firstParagraph ? innerText(firstParagraph) : text);
+  const firstImage = findFirst(article, e => e.tag === 'img' && !!e.attrs.src && !e.attrs.src.startsWith('data:'));
+  const heading = findFirst(root, e => e.tag === 'h1');
+
+  return {
+    title: metadata.title || (heading ? innerText(heading) : undefined),
+    byline,
+    siteName: metadata.siteName,
+    publishedAt,
+    leadImage: metadata.image || firstImage?.attrs.src,
+    excerpt: excerpt.length > MAX_EXCERPT_LENGTH ? excerpt.slice(0, MAX_EXCERPT_LENGTH - 1).trimEnd() + '…' : excerpt,
+    content: serializeHTML(article),
+    textContent: text,
+    length: text.length,
+    nextPage,
+  };
+}
+
+/**
+ * Apply the remove selector and image rule to HTML that isn't extracted from
+ * a page, such as the content a feed carries itself.
+ */
+export function applyContentRules(html: string, rules: ContentRules): string {
+  if (!rules.removeSelector?.trim() && !rules.stripImages) return html;
+
+  const root = parseHTML(html);
+  for (const element of selectAll(root, rules.removeSelector)) removeNode(element);
+  if (rules.stripImages) removeImages(root);
+  return serializeHTML(root);
+}
+
+function paragraphTexts(content: string): string[] {
+  return findAll(parseHTML(content), e => e.tag === 'p' || e.tag === 'li' || e.tag === 'pre')
+    .map(innerText)
+    .filter(text => text.length >= 40);
+}
+
+/**
+ * Extract an article and follow its next-page links, stitching the pages
+ * into one content block. Stops at `maxPages`, at a page already seen, or
+ * at a page that repeats earlier content (sites that ignore the page
+ * parameter serve page one again).
+ */
+export async function extractPaginatedContent(
+  html: string,
+  url: string,
+  fetchPage: PageFetcher,
+  options: PaginatedExtractOptions = {}
+): Promise<ExtractedContent | null> {
+  const first = extractContent(html, url, options);
+  if (!first) return null;
+
+  const maxPages = options.maxPages ?? DEFAULT_MAX_ARTICLE_PAGES;
+  const visited = new Set([url.replace(/#.*$/, '')]);
+  const seenParagraphs = new Set(paragraphTexts(first.content));
+  const contents = [first.content];
+  const texts = [first.textContent];
+  let nextPage = first.nextPage;
+
+  while (nextPage && contents.length < maxPages && !visited.has(nextPage)) {
+    visited.add(nextPage);
+
+    let page: { html: string; url: string } | null;
+    try {
+      page = await fetchPage(nextPage);
+    } catch {
+      page = null;
+    }
+    if (!page) break;
+
+    // Later pages are often short, so don't hold them to the article threshold
+    const extracted = extractContent(page.html, page.url, { ...options, minTextLength: 1 });
+    if (!extracted) break;
+
+    const paragraphs = paragraphTexts(extracted.content);
+    const repeated = paragraphs.filter(p => seenParagraphs.has(p)).length;
+    if (texts.includes(extracted.textContent) || (paragraphs.length > 0 && repeated / paragraphs.length >= DUPLICATE_PAGE_RATIO)) break;
+
+    paragraphs.forEach(p => seenParagraphs.add(p));
+    contents.push(extracted.content);
+    texts.push(extracted.textContent);
+    nextPage = extracted.nextPage;
+  }
+
+  const textContent = texts.join(' ');
+  return {
+    ...first,
+    content: contents.length === 1 ? first.content : contents.map((content, i) => `<section data-page="${i + 1}">${content}</section>`).join(''),
+    textContent,
+    length: textContent.length,
+    nextPage: contents.length >= maxPages ? nextPage : undefined,
+    pages: contents.length,
+  };
+}
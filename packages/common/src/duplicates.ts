@@ -0,0 +1,95 @@
+// Spotting the same story published by several feeds: syndicated copies,
+// cross-posts and AMP or tracking-link variants of one URL.
+
+import { decodeHTMLEntities } from './utils';
+
+// Titles sharing this much of their word pairs are taken as the same story
+export const TITLE_SIMILARITY_THRESHOLD = 0.6;
+
+// Below this, normalized text is too generic ("Comments", a link) to identify a story
+const MIN_FINGERPRINT_LENGTH = 200;
+const FINGERPRINT_LENGTH = 1000;
+
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', 'ref', 'ref_src', 'ref_url',
+  'cmpid', 'ocid', 'smid', 'sr_share', '_hsenc', '_hsmi', 'amp', 'outputtype',
+]);
+
+/**
+ * A comparison key for article URLs: https, no "www." or AMP host, no
+ * tracking parameters, fragment or trailing slash, and AMP paths folded onto
+ * the canonical page. Not meant for fetching.
+ */
+export function canonicalURL(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return undefined;
+
+  // Google's AMP viewer and cache wrap the original: /amp/s/example.com/path, /c/s/example.com/path
+  const wrapped = /^\/(?:amp|c)\/(s\/)?([^/]+\.[^/]+\/.*)$/.exec(parsed.pathname);
+  if (wrapped && (/(^|\.)google\.[a-z.]+$/.test(parsed.hostname) || parsed.hostname.endsWith('.ampproject.org'))) {
+    return canonicalURL(`${wrapped[1] ? 'https' : 'http'}://${wrapped[2]}${parsed.search}`);
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|amp|m)\./, '');
+  const path = parsed.pathname
+    .replace(/\.amp(\.html?)$/, '$1')
+    .replace(/\/amp(\.html?)?\/?$/, '')
+    .replace(/\/+$/, '');
+
+  const params = Array.from(parsed.searchParams)
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  return `https://${host}${parsed.port ? `:${parsed.port}` : ''}${path || '/'}${query ? `?${query}` : ''}`;
+}
+
+function words(text: string): string[] {
+  return decodeHTMLEntities(text)
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Word pairs of a title, the unit titleSimilarity compares. A trailing
+ * " - Site Name" or " | Site Name" is dropped, since cross-posts often add
+ * their own. Titles of one word give that word.
+ */
+export function titleShingles(title: string): Set<string> {
+  const trimmed = title.replace(/\s+[-|–—]\s+[^-|–—]{1,40}$/, '');
+  const tokens = words(words(trimmed).length >= 4 ? trimmed : title);
+  if (tokens.length < 2) return new Set(tokens);
+
+  const shingles = new Set<string>();
+  for (let i = 0; i < tokens.length - 1; i++) shingles.add(`${tokens[i]} ${tokens[i + 1]}`);
+  return shingles;
+}
+
+// Jaccard similarity of two shingle sets: 1 for the same title, 0 for nothing shared
+export function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const shingle of a) if (b.has(shingle)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * The start of an article's text, normalized so markup, entities, case and
+ * spacing differences between copies don't matter; hash it for
+ * `Article.content_hash`. Undefined when there's too little text to tell
+ * stories apart.
+ */
+export function contentFingerprint(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  const text = words(html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ')).join(' ');
+  return text.length >= MIN_FINGERPRINT_LENGTH ? text.slice(0, FINGERPRINT_LENGTH) : undefined;
+}
@@ -0,0 +1,132 @@
+// Failure classification and retry backoff shared by the web client and the backend
+
+export type FeedErrorKind =
+  | 'gone'          // HTTP 410 - the publisher removed the feed on purpose
+  | 'moved'         // redirect loops or redirects we refuse to follow
+  | 'not_found'     // HTTP 404
+  | 'forbidden'     // HTTP 401/403
+  | 'rate_limited'  // HTTP 429
+  | 'server'        // HTTP 5xx
+  | 'timeout'
+  | 'network'
+  | 'parse'
+  | 'unknown';
+
+export interface FeedHistoryEntry {
+  at: string; // ISO timestamp
+  type: 'error' | 'recovered' | 'moved';
+  message: string;
+}
+
+export const MAX_FEED_HISTORY = 20;
+
+const MINUTE = 1;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+interface BackoffPolicy {
+  base: number; // minutes before the first retry
+  max: number;  // cap in minutes
+}
+
+// Transient problems are retried quickly; problems that usually need a human
+// (or a publisher fix) are probed much less often.
+const BACKOFF: Record<FeedErrorKind, BackoffPolicy> = {
+  timeout: { base: 15 * MINUTE, max: DAY },
+  network: { base: 15 * MINUTE, max: DAY },
+  server: { base: 15 * MINUTE, max: DAY },
+  rate_limited: { base: HOUR, max: DAY },
+  unknown: { base: 30 * MINUTE, max: DAY },
+  parse: { base: HOUR, max: 3 * DAY },
+  not_found: { base: HOUR, max: 3 * DAY },
+  forbidden: { base: HOUR, max: 3 * DAY },
+  moved: { base: 6 * HOUR, max: 3 * DAY },
+  gone: { base: 7 * DAY, max: 7 * DAY },
+};
+
+export function classifyFeedError(message?: string | null): FeedErrorKind {
+  if (!message) return 'unknown';
+
+  const status = message.match(/\bHTTP (\d{3})\b/);
+  if (status) {
+    const code = parseInt(status[1], 10);
+    if (code === 410) return 'gone';
+    if (code === 404) return 'not_found';
+    if (code === 401 || code === 403) {
+      return /redirect/i.test(message) ? 'moved' : 'forbidden';
+    }
+    if (code === 429) return 'rate_limited';
+    if (/redirect/i.test(message)) return 'moved';
+    // The proxy's 502 when it couldn't reach the feed's server at all
+    if (/fetch failed/i.test(message)) return 'network';
+    if (code >= 500) return 'server';
+  }
+
+  if (/redirect/i.test(message)) return 'moved';
+  if (/timed? ?out|abort/i.test(message)) return 'timeout';
+  if (/fetch failed|network|ENOTFOUND|ECONNREFUSED|ECONNRESET|EAI_AGAIN/i.test(message)) return 'network';
+  if (/parse|xml|json|unexpected token|invalid/i.test(message)) return 'parse';
+  return 'unknown';
+}
+
+export function describeFeedErrorKind(kind: FeedErrorKind): string {
+  switch (kind) {
+    case 'gone': return 'Feed removed by publisher';
+    case 'moved': return 'Redirect problem';
+    case 'not_found': return 'Not found';
+    case 'forbidden': return 'Access denied';
+    case 'rate_limited': return 'Rate limited';
+    case 'server': return 'Server error';
+    case 'timeout': return 'Timed out';
+    case 'network': return 'Network error';
+    case 'parse': return 'Invalid feed';
+    default: return 'Unknown error';
+  }
+}
+
+/**
+ * Minutes to wait before probing a failing feed again. Doubles with every
+ * consecutive failure up to a per-kind cap, so a dead feed settles into a slow
+ * periodic probe instead of being abandoned.
+ */
+export function computeRetryDelay(consecutiveFailures: number, lastError?: string | null): number {
+  if (consecutiveFailures <= 0) return 0;
+  const policy = BACKOFF[classifyFeedError(lastError)];
+  const exponent = Math.min(consecutiveFailures - 1, 16);
+  return Math.min(policy.max, policy.base * Math.pow(2, exponent));
+}
+
+export function appendFeedHistory(
+  history: FeedHistoryEntry[] | null | undefined,
+  entry: Omit<FeedHistoryEntry, 'at'> & { at?: string }
+): FeedHistoryEntry[] {
+  const next = [...(history ?? []), { at: entry.at ?? new Date().toISOString(), type: entry.type, message: entry.message }];
+  return next.slice(-MAX_FEED_HISTORY);
+}
+
+// A feed must answer with the same permanent redirect this many times in a row
+// before we rewrite its stored URL, so a misconfigured server can't move it on a whim.
+export const REDIRECT_MIGRATION_THRESHOLD = 3;
+
+export interface RedirectTracking {
+  target?: string; // Where the feed has been permanently redirecting to
+  count: number;   // Consecutive refreshes that ended at `target` via 301/308
+  migrate: boolean;
+}
+
+/**
+ * Fold one refresh's redirect outcome into the feed's tracking state. Any
+ * refresh that isn't a permanent redirect to the same target resets the count.
+ */
+export function trackPermanentRedirect(
+  feedUrl: string,
+  previous: { target?: string | null; count?: number | null },
+  finalUrl: string | null | undefined,
+  permanent: boolean
+): RedirectTracking {
+  if (!finalUrl || !permanent || finalUrl === feedUrl) {
+    return { count: 0, migrate: false };
+  }
+  const count = previous.target === finalUrl ? (previous.count ?? 0) + 1 : 1;
+  return { target: finalUrl, count, migrate: count >= REDIRECT_MIGRATION_THRESHOLD };
+}
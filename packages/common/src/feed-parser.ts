@@ -1,5 +1,7 @@
 import { XMLParser } from 'fast-xml-parser';
 import { decodeHTMLEntities, sha256, uuidv4 } from './utils';
+import { parseTTL, parseUpdatePeriod } from './refresh-interval';
+import { parseHTMLFeed, HtmlFeedSelectors } from './html-feed';
 
 export interface ParsedArticle {
   id: string;
@@ -21,6 +23,10 @@ export interface ParsedFeed {
   type: string;
   articles: ParsedArticle[];
   iconUrl?: string;
+  hubUrl?: string; // WebSub hub advertised via <link rel="hub">
+  selfUrl?: string; // Canonical feed URL advertised via <link rel="self">
+  ttlMinutes?: number; // RSS <ttl>
+  updatePeriodMinutes?: number; // sy:updatePeriod / sy:updateFrequency
   rawData?: any; // Raw parsed data for specific extraction (e.g. detailed icons)
 }
 
@@ -75,11 +81,30 @@ function extractYouTubeVideoID(url: string): string | null {
   return null;
 }
 
+// Find <link rel="..."> / <atom:link rel="..."> on a channel or feed element
+function findLinkByRel(element: any, rel: string): string | undefined {
+  if (!element) return undefined;
+  const candidates = [element.link, element['atom:link'], element['atom10:link']]
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter(value => value && typeof value === 'object');
+
+  const match = candidates.find(link => String(link['@_rel'] || '').toLowerCase() === rel);
+  return match?.['@_href'] || undefined;
+}
+
 function youTubeEmbedHTML(videoID: string): string {
   return `<iframe width="100%" height="auto" style="aspect-ratio: 16/9" src="https://www.youtube.com/embed/${videoID}" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe>`;
 }
 
-export async function parseFeed(data: string | object, sourceUrl: string): Promise<ParsedFeed> {
+export interface ParseFeedOptions {
+  htmlSelectors?: HtmlFeedSelectors; // Set for web pages scraped as feeds
+}
+
+export async function parseFeed(data: string | object, sourceUrl: string, options: ParseFeedOptions = {}): Promise<ParsedFeed> {
+  if (options.htmlSelectors && typeof data === 'string') {
+    return parseHTMLFeed(data, sourceUrl, options.htmlSelectors);
+  }
+
   // Check if JSON Feed
   if (typeof data === 'object' || (typeof data === 'string' && data.trim().startsWith('{'))) {
     try {
@@ -137,6 +162,10 @@ async function parseJSONFeed(json: any, sourceUrl: string): Promise<ParsedFeed>
     type,
     articles,
     iconUrl: json.icon || json.favicon,
+    hubUrl: Array.isArray(json.hubs)
+      ? json.hubs.find((hub: any) => String(hub?.type || '').toLowerCase() === 'websub')?.url
+      : undefined,
+    selfUrl: json.feed_url,
     rawData: json
   };
 }
@@ -153,6 +182,8 @@ async function parseXMLFeed(xmlData: string, sourceUrl: string): Promise<ParsedF
     feedTitle = feedTitle['#text'] || feedTitle['#cdata'] || '';
   }
   const feedLink = channel?.link || sourceUrl;
+  // RSS 1.0 keeps channel metadata in a <channel> sibling of the items
+  const syndication = channel?.['sy:updatePeriod'] !== undefined ? channel : channel?.channel;
 
   const isYouTube = sourceUrl.includes('youtube.com') || (xmlData.includes('yt:videoId'));
   const isReddit = sourceUrl.includes('reddit.com');
@@ -248,6 +279,10 @@ async function parseXMLFeed(xmlData: string, sourceUrl: string): Promise<ParsedF
     siteUrl: String(feedLink),
     type,
     articles,
+    hubUrl: findLinkByRel(channel, 'hub'),
+    selfUrl: findLinkByRel(channel, 'self'),
+    ttlMinutes: parseTTL(channel?.ttl),
+    updatePeriodMinutes: parseUpdatePeriod(syndication?.['sy:updatePeriod'], syndication?.['sy:updateFrequency']),
     rawData: parsed
   };
 }
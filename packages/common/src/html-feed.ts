@@ -0,0 +1,157 @@
+// Feeds scraped from ordinary web pages, for sites that publish no RSS. The
+// user picks the repeating item element and, within it, the title, link,
+// date and summary with CSS selectors; each match becomes an article.
+
+import { sha256 } from './utils';
+import type { ParsedArticle, ParsedFeed } from './feed-parser';
+import {
+  HtmlElement,
+  parseHTML,
+  textContent,
+  findAll,
+  findFirst,
+  querySelectorAll,
+  serializeHTML,
+} from './html-tree';
+
+export interface HtmlFeedSelectors {
+  item: string; // Each entry on the page
+  title?: string; // Within the item; defaults to the first heading, then the first link
+  link?: string; // Within the item; defaults to the title's link, then the first link
+  date?: string; // Within the item; a datetime attribute or the text
+  summary?: string; // Within the item; kept as HTML
+}
+
+// Pages list a page's worth of entries; anything past this is usually navigation
+const MAX_HTML_FEED_ITEMS = 100;
+
+const RELATIVE_DATE = /^(\d+|an?)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/i;
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function resolveURL(url: string | undefined, base: string): string | undefined {
+  if (!url || url.startsWith('#') || /^(javascript|mailto|data):/i.test(url)) return undefined;
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+// "2026-01-05", "Jan 5, 2026", "3 hours ago", "yesterday"
+export function parsePageDate(value: string | undefined, now = new Date()): Date | undefined {
+  const text = normalizeSpace(value ?? '').replace(/^(posted|published|updated)( on)?:?\s*/i, '');
+  if (!text) return undefined;
+
+  const lower = text.toLowerCase();
+  if (lower === 'today' || lower === 'just now') return now;
+  if (lower === 'yesterday') return new Date(now.getTime() - UNIT_MS.day);
+
+  const relative = RELATIVE_DATE.exec(text);
+  if (relative) {
+    const amount = /^an?$/i.test(relative[1]) ? 1 : Number(relative[1]);
+    return new Date(now.getTime() - amount * UNIT_MS[relative[2].toLowerCase()]);
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// First match for a selector within an item; null when there's no selector or no match
+function selectOne(item: HtmlElement, selector: string | undefined): HtmlElement | null {
+  if (!selector?.trim()) return null;
+  return querySelectorAll(item, selector)[0] ?? null;
+}
+
+function linkOf(element: HtmlElement): string | undefined {
+  if (element.tag === 'a' && element.attrs.href) return element.attrs.href;
+  for (let node = element.parent; node; node = node.parent) {
+    if (node.tag === 'a' && node.attrs.href) return node.attrs.href;
+  }
+  return findFirst(element, e => e.tag === 'a' && !!e.attrs.href)?.attrs.href;
+}
+
+function imageOf(item: HtmlElement, base: string): string | undefined {
+  const image = findFirst(item, e => e.tag === 'img');
+  if (!image) return undefined;
+  const src = image.attrs['data-src'] || image.attrs['data-lazy-src'] || image.attrs.src;
+  return src?.startsWith('data:') ? undefined : resolveURL(src, base);
+}
+
+/**
+ * Turn a web page into a feed using the given selectors. Throws when the
+ * item selector isn't supported; an item selector matching nothing gives a
+ * feed without articles.
+ */
+export async function parseHTMLFeed(html: string, sourceUrl: string, selectors: HtmlFeedSelectors): Promise<ParsedFeed> {
+  const root = parseHTML(html);
+  const baseElement = findFirst(root, e => e.tag === 'base' && !!e.attrs.href);
+  const base = resolveURL(baseElement?.attrs.href, sourceUrl) ?? sourceUrl;
+
+  const articles: ParsedArticle[] = [];
+  const seen = new Set<string>();
+
+  for (const item of querySelectorAll(root, selectors.item).slice(0, MAX_HTML_FEED_ITEMS)) {
+    const titleElement = selectOne(item, selectors.title)
+      ?? findFirst(item, e => /^h[1-6]$/.test(e.tag))
+      ?? findFirst(item, e => e.tag === 'a' && !!normalizeSpace(textContent(e)));
+    const linkElement = selectOne(item, selectors.link);
+    const href = linkElement
+      ? linkOf(linkElement)
+      : (titleElement && linkOf(titleElement)) ?? linkOf(item);
+
+    // "#comments" and similar point into the same entry
+    const url = resolveURL(href, base)?.replace(/#.*$/, '');
+    const title = titleElement ? normalizeSpace(textContent(titleElement)) : '';
+    if (!title && !url) continue;
+
+    // Pages often link the same entry twice (image and headline); keep the first
+    const key = url || title;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const dateElement = selectOne(item, selectors.date);
+    const publishedAt = dateElement
+      ? parsePageDate(dateElement.attrs.datetime || dateElement.attrs.content || dateElement.attrs.title)
+        ?? parsePageDate(textContent(dateElement))
+      : parsePageDate(findFirst(item, e => e.tag === 'time')?.attrs.datetime);
+
+    const summaryElement = selectOne(item, selectors.summary);
+    const summary = summaryElement ? normalizeSpace(textContent(summaryElement)) : undefined;
+
+    articles.push({
+      // Same scheme as feed entries, so IDs stay stable between refreshes
+      id: await sha256(`${sourceUrl}|${key}`),
+      title: title || url!,
+      url,
+      summary: summary || undefined,
+      content: summaryElement ? serializeHTML(summaryElement) : '',
+      publishedAt,
+      mediaKind: 'none',
+      thumbnailUrl: imageOf(item, base),
+    });
+  }
+
+  const siteName = findFirst(root, e => e.tag === 'meta' && e.attrs.property === 'og:site_name')?.attrs.content;
+  const titleElement = findFirst(root, e => e.tag === 'title');
+  const icon = findAll(root, e => e.tag === 'link' && /(^|\s)icon(\s|$)/i.test(e.attrs.rel ?? ''))[0];
+
+  return {
+    title: normalizeSpace(siteName || (titleElement ? textContent(titleElement) : '')) || new URL(sourceUrl).hostname,
+    siteUrl: sourceUrl,
+    type: 'html',
+    articles,
+    iconUrl: resolveURL(icon?.attrs.href, base),
+  };
+}
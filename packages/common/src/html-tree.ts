@@ -0,0 +1,403 @@
+// Small forgiving HTML parser for code that runs without a DOM (the backend,
+// workers). It builds a plain element tree, handles void and raw-text
+// elements and the common implied end tags; it is not a full HTML5 parser.
+// Output is always re-serialized from the tree with text and attribute values
+// escaped, so markup it reads differently from a browser comes out as text
+// rather than live elements (see the hostile-markup tests for the extractor).
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string; // Lowercase
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string; // Entity-decoded
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Content is kept as a single text node, not parsed
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'template']);
+
+// Opening one of these closes an open <p>
+const CLOSES_P = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'ul',
+]);
+
+// Opening the key closes an open element in the list, unless one of the stop tags is nearer
+const IMPLIED_END: Record<string, { closes: string[]; stop: string[] }> = {
+  li: { closes: ['li'], stop: ['ul', 'ol'] },
+  dt: { closes: ['dt', 'dd'], stop: ['dl'] },
+  dd: { closes: ['dt', 'dd'], stop: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], stop: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], stop: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], stop: ['tr', 'table'] },
+  option: { closes: ['option'], stop: ['select', 'datalist'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], stop: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], stop: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], stop: ['table'] },
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', bull: '•',
+  middot: '·', copy: '©', reg: '®', trade: '™', laquo: '«', raquo: '»',
+  times: '×', deg: '°', euro: '€', pound: '£', shy: '­', zwj: '‍', zwnj: '‌',
+};
+
+export function decodeEntities(text: string): string {
+  if (text.indexOf('&') === -1) return text;
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+// Index of the '>' ending a tag that starts at `from`, skipping quoted attribute values
+function tagEnd(html: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < html.length; i++) {
+    const c = html[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+export function createElement(tag: string, attrs: Record<string, string> = {}): HtmlElement {
+  return { type: 'element', tag, attrs, children: [], parent: null };
+}
+
+/**
+ * Parse a document or fragment. The returned root is a synthetic
+ * element with tag '#root'.
+ */
+export function parseHTML(html: string): HtmlElement {
+  const root = createElement('#root');
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const parent = current();
+    const last = parent.children[parent.children.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else parent.children.push({ type: 'text', text, parent });
+  };
+
+  const closeTo = (index: number) => {
+    stack.length = Math.max(index, 1);
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const lt = html.indexOf('<', position);
+    if (lt === -1) {
+      appendText(decodeEntities(html.slice(position)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(position, lt)));
+
+    // Comments, doctype and processing instructions
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    // End tag
+    const endMatch = /^<\/([a-zA-Z][^\s/>]*)\s*>/.exec(html.slice(lt, lt + 100));
+    if (endMatch) {
+      const tag = endMatch[1].toLowerCase();
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          closeTo(i);
+          break;
+        }
+      }
+      position = lt + endMatch[0].length;
+      continue;
+    }
+
+    // Start tag
+    const nameMatch = /^<([a-zA-Z][^\s/>]*)/.exec(html.slice(lt, lt + 100));
+    const end = nameMatch ? tagEnd(html, lt + nameMatch[0].length) : -1;
+    if (!nameMatch || end === -1) {
+      appendText('<');
+      position = lt + 1;
+      continue;
+    }
+
+    const tag = nameMatch[1].toLowerCase();
+    const attrSource = html.slice(lt + nameMatch[0].length, end);
+    const selfClosing = attrSource.trimEnd().endsWith('/');
+
+    if (CLOSES_P.has(tag)) {
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === 'p') {
+          closeTo(i);
+          break;
+        }
+        if (!['span', 'a', 'b', 'i', 'em', 'strong', 'font', 'small', 'u'].includes(stack[i].tag)) break;
+      }
+    }
+    const implied = IMPLIED_END[tag];
+    if (implied) {
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (implied.stop.includes(stack[i].tag)) break;
+        if (implied.closes.includes(stack[i].tag)) {
+          closeTo(i);
+          break;
+        }
+      }
+    }
+
+    const element = createElement(tag, parseAttributes(selfClosing ? attrSource.trimEnd().slice(0, -1) : attrSource));
+    element.parent = current();
+    current().children.push(element);
+    position = end + 1;
+
+    if (VOID_TAGS.has(tag) || selfClosing) continue;
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const close = html.toLowerCase().indexOf(`</${tag}`, position);
+      const text = html.slice(position, close === -1 ? html.length : close);
+      if (text) {
+        const decoded = tag === 'title' || tag === 'textarea' ? decodeEntities(text) : text;
+        element.children.push({ type: 'text', text: decoded, parent: element });
+      }
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close);
+      position = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  return root;
+}
+
+export function textContent(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  let text = '';
+  for (const child of node.children) text += textContent(child);
+  return text;
+}
+
+// Depth-first, document order
+export function findAll(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (child.type !== 'element') continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+export function findFirst(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement | null {
+  for (const child of root.children) {
+    if (child.type !== 'element') continue;
+    if (predicate(child)) return child;
+    const found = findFirst(child, predicate);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function removeNode(node: HtmlNode): void {
+  const parent = node.parent;
+  if (!parent) return;
+  const index = parent.children.indexOf(node);
+  if (index !== -1) parent.children.splice(index, 1);
+  node.parent = null;
+}
+
+export function replaceNode(node: HtmlNode, replacement: HtmlNode): void {
+  const parent = node.parent;
+  if (!parent) return;
+  const index = parent.children.indexOf(node);
+  if (index === -1) return;
+  removeNode(replacement);
+  parent.children[index] = replacement;
+  replacement.parent = parent;
+  node.parent = null;
+}
+
+export function appendChild(parent: HtmlElement, child: HtmlNode): void {
+  removeNode(child);
+  parent.children.push(child);
+  child.parent = parent;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/ /g, '&nbsp;');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+export function serializeHTML(node: HtmlNode): string {
+  if (node.type === 'text') {
+    const raw = node.parent && (node.parent.tag === 'script' || node.parent.tag === 'style');
+    return raw ? node.text : escapeText(node.text);
+  }
+
+  const inner = node.children.map(serializeHTML).join('');
+  if (node.tag === '#root') return inner;
+
+  const attrs = Object.entries(node.attrs)
+    .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`))
+    .join('');
+  if (VOID_TAGS.has(node.tag)) return `<${node.tag}${attrs}>`;
+  return `<${node.tag}${attrs}>${inner}</${node.tag}>`;
+}
+
+// CSS selectors: the subset users write for content rules. Type, universal,
+// #id, .class and [attr], [attr=v], [attr~=v], [attr^=v], [attr$=v], [attr*=v]
+// compounds joined by descendant or child (>) combinators, in comma lists.
+
+interface AttributeTest {
+  name: string;
+  operator?: '=' | '~=' | '^=' | '$=' | '*=';
+  value?: string;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeTest[];
+  combinator: ' ' | '>'; // Relation to the compound on the left
+}
+
+const COMPOUND_PATTERN = /^(\*|[a-zA-Z][\w-]*)?((?:#[\w-]+|\.[\w-]+|\[\s*[\w-]+\s*(?:[~^$*]?=\s*(?:"[^"]*"|'[^']*'|[^\]\s]+)\s*)?\])*)$/;
+const PART_PATTERN = /#([\w-]+)|\.([\w-]+)|\[\s*([\w-]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/g;
+
+function parseCompound(source: string, combinator: ' ' | '>'): CompoundSelector {
+  const match = COMPOUND_PATTERN.exec(source);
+  if (!match || !source) throw new Error(`Unsupported selector: ${source}`);
+
+  const compound: CompoundSelector = {
+    tag: match[1] && match[1] !== '*' ? match[1].toLowerCase() : undefined,
+    classes: [],
+    attributes: [],
+    combinator,
+  };
+  for (const part of (match[2] ?? '').matchAll(PART_PATTERN)) {
+    if (part[1]) compound.id = part[1];
+    else if (part[2]) compound.classes.push(part[2]);
+    else compound.attributes.push({
+      name: part[3].toLowerCase(),
+      operator: part[4] as AttributeTest['operator'],
+      value: part[5] ?? part[6] ?? part[7],
+    });
+  }
+  return compound;
+}
+
+// Comma-separated list of complex selectors, each compound list left to right
+export function parseSelector(selector: string): CompoundSelector[][] {
+  const list = selector.split(',').map(part => part.trim());
+  if (list.length === 0 || list.some(part => !part)) throw new Error('Empty selector');
+
+  return list.map(complex => {
+    const tokens = complex.replace(/\s*>\s*/g, ' > ').split(/\s+/);
+    const compounds: CompoundSelector[] = [];
+    let combinator: ' ' | '>' = ' ';
+    for (const token of tokens) {
+      if (token === '>') {
+        if (compounds.length === 0 || combinator === '>') throw new Error(`Unsupported selector: ${complex}`);
+        combinator = '>';
+        continue;
+      }
+      compounds.push(parseCompound(token, combinator));
+      combinator = ' ';
+    }
+    if (combinator === '>') throw new Error(`Unsupported selector: ${complex}`);
+    return compounds;
+  });
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attrs.id !== compound.id) return false;
+
+  if (compound.classes.length > 0) {
+    const classes = (element.attrs.class ?? '').split(/\s+/);
+    if (!compound.classes.every(c => classes.includes(c))) return false;
+  }
+
+  return compound.attributes.every(({ name, operator, value = '' }) => {
+    const actual = element.attrs[name];
+    if (actual === undefined) return false;
+    switch (operator) {
+      case undefined: return true;
+      case '=': return actual === value;
+      case '~=': return actual.split(/\s+/).includes(value);
+      case '^=': return !!value && actual.startsWith(value);
+      case '$=': return !!value && actual.endsWith(value);
+      case '*=': return !!value && actual.includes(value);
+    }
+  });
+}
+
+function matchesComplex(element: HtmlElement, compounds: CompoundSelector[], index = compounds.length - 1): boolean {
+  if (!matchesCompound(element, compounds[index])) return false;
+  if (index === 0) return true;
+
+  const combinator = compounds[index].combinator;
+  for (let ancestor = element.parent; ancestor && ancestor.tag !== '#root'; ancestor = ancestor.parent) {
+    if (matchesComplex(ancestor, compounds, index - 1)) return true;
+    if (combinator === '>') return false;
+  }
+  return false;
+}
+
+/**
+ * Elements under root matching the selector, in document order. Throws
+ * for selectors outside the supported subset.
+ */
+export function querySelectorAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const list = parseSelector(selector);
+  return findAll(root, element => list.some(compounds => matchesComplex(element, compounds)));
+}
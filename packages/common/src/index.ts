@@ -1,2 +1,11 @@
 export * from './feed-parser';
 export * from './utils';
+export * from './refresh-interval';
+export * from './feed-health';
+export * from './rules';
+export * from './labels';
+export * from './content-extractor';
+export * from './html-feed';
+export * from './page-watch';
+export * from './duplicates';
+export * from './ai-providers';
@@ -0,0 +1,15 @@
+// User-defined article labels, shared by the web client and the backend
+
+export const MAX_LABEL_LENGTH = 50;
+export const MAX_LABELS_PER_ARTICLE = 20;
+
+// Labels are stored lowercase with dashes for spaces, so "Read Later" and "read-later" are the same label
+export function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_LABEL_LENGTH);
+}
+
+// Normalized, de-duplicated and capped; empty labels are dropped
+export function normalizeLabels(labels: string[]): string[] {
+  const normalized = labels.map(normalizeLabel).filter(Boolean);
+  return Array.from(new Set(normalized)).slice(0, MAX_LABELS_PER_ARTICLE);
+}
@@ -0,0 +1,228 @@
+// Watching pages that change rather than publish items (changelogs, pricing,
+// status pages). Each check reduces the page, or the part matching a
+// selector, to lines of visible text; when their hash changes, the line diff
+// against the previous snapshot becomes an article.
+
+import { sha256 } from './utils';
+import type { ParsedArticle, ParsedFeed } from './feed-parser';
+import { HtmlElement, HtmlNode, parseHTML, textContent, findFirst, querySelectorAll } from './html-tree';
+
+export interface PageWatchState {
+  selector?: string; // Only watch the matching elements
+  hash?: string; // Of the last snapshot; unset until the first check
+  snapshot?: string; // Visible text, one block per line
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface PageCheckResult {
+  state: PageWatchState;
+  feed: ParsedFeed; // With one article when the page changed, none otherwise
+}
+
+// Bounds what we store per feed and the size of the diff table
+const MAX_SNAPSHOT_LINES = 2000;
+const MAX_DIFF_CELLS = 4_000_000;
+const DIFF_CONTEXT_LINES = 2;
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe']);
+const LINE_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'summary', 'table', 'td', 'th', 'tr', 'ul',
+]);
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function collectLines(node: HtmlNode, lines: string[], current: { text: string }): void {
+  const flush = () => {
+    const line = current.text.replace(/\s+/g, ' ').trim();
+    if (line) lines.push(line);
+    current.text = '';
+  };
+
+  if (node.type === 'text') {
+    current.text += node.text;
+    return;
+  }
+  if (SKIPPED_TAGS.has(node.tag)) return;
+
+  const breaks = LINE_TAGS.has(node.tag);
+  if (breaks) flush();
+  for (const child of node.children) collectLines(child, lines, current);
+  if (breaks) flush();
+}
+
+/**
+ * The visible text of a page, or of the elements matching the selector, as
+ * lines. Throws when the selector matches nothing, so a redesign that breaks
+ * the selector shows up as a feed error rather than as everything removed.
+ */
+export function pageSnapshot(html: string, selector?: string): string[] {
+  return snapshotLines(parseHTML(html), selector);
+}
+
+function snapshotLines(root: HtmlElement, selector: string | undefined): string[] {
+  let scopes: HtmlElement[];
+  if (selector?.trim()) {
+    scopes = querySelectorAll(root, selector);
+    if (scopes.length === 0) throw new Error('Watched selector matches nothing on the page');
+  } else {
+    scopes = [findFirst(root, e => e.tag === 'body') ?? root];
+  }
+
+  const lines: string[] = [];
+  for (const scope of scopes) {
+    const current = { text: '' };
+    collectLines(scope, lines, current);
+    const rest = current.text.replace(/\s+/g, ' ').trim();
+    if (rest) lines.push(rest);
+  }
+  return lines.slice(0, MAX_SNAPSHOT_LINES);
+}
+
+/**
+ * Line diff by longest common subsequence. Unchanged lines at either end are
+ * trimmed first, so typical edits stay small; past MAX_DIFF_CELLS the middle
+ * is reported as replaced wholesale.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const middle: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text })));
+  } else {
+    // lengths[i * width + j]: LCS length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: 'same', text: a[i] });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        middle.push({ type: 'removed', text: a[i++] });
+      } else {
+        middle.push({ type: 'added', text: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, start).map(text => ({ type: 'same' as const, text })),
+    ...middle,
+    ...before.slice(endBefore).map(text => ({ type: 'same' as const, text })),
+  ];
+}
+
+/**
+ * HTML for a diff: changed lines as <ins>/<del> with a little unchanged
+ * context around them, and gaps marked with an ellipsis.
+ */
+export function renderDiffHTML(diff: DiffLine[], context = DIFF_CONTEXT_LINES): string {
+  const shown = new Array<boolean>(diff.length).fill(false);
+  diff.forEach((line, index) => {
+    if (line.type === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(diff.length - 1, index + context); k++) shown[k] = true;
+  });
+
+  const parts: string[] = [];
+  let skipped = false;
+  diff.forEach((line, index) => {
+    if (!shown[index]) {
+      skipped = true;
+      return;
+    }
+    if (skipped) parts.push('<p class="diff-gap">…</p>');
+    skipped = false;
+
+    const text = escapeHTML(line.text);
+    if (line.type === 'added') parts.push(`<p class="diff-added"><ins>${text}</ins></p>`);
+    else if (line.type === 'removed') parts.push(`<p class="diff-removed"><del>${text}</del></p>`);
+    else parts.push(`<p>${text}</p>`);
+  });
+  if (skipped) parts.push('<p class="diff-gap">…</p>');
+  return parts.join('\n');
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Compare a fetched page with the last snapshot. The first check only
+ * records the baseline; later checks emit an article with the diff when the
+ * text changed.
+ */
+export async function checkWatchedPage(
+  html: string,
+  sourceUrl: string,
+  state: PageWatchState,
+  now = new Date()
+): Promise<PageCheckResult> {
+  const root = parseHTML(html);
+  const lines = snapshotLines(root, state.selector);
+  const snapshot = lines.join('\n');
+  const hash = await sha256(snapshot);
+
+  const titleElement = findFirst(root, e => e.tag === 'title');
+  const pageTitle = (titleElement ? textContent(titleElement) : '').replace(/\s+/g, ' ').trim() || new URL(sourceUrl).hostname;
+
+  const articles: ParsedArticle[] = [];
+  if (state.hash && state.hash !== hash) {
+    const diff = diffLines(state.snapshot ? state.snapshot.split('\n') : [], lines);
+    const added = diff.filter(line => line.type === 'added');
+    const removed = diff.filter(line => line.type === 'removed');
+    const counts = [
+      added.length > 0 ? plural(added.length, 'line') + ' added' : '',
+      removed.length > 0 ? plural(removed.length, 'line') + ' removed' : '',
+    ].filter(Boolean).join(', ');
+
+    articles.push({
+      // The previous hash keeps a page flipping back and forth from reusing an ID
+      id: await sha256(`${sourceUrl}|${state.hash}|${hash}`),
+      title: `${pageTitle} changed`,
+      url: sourceUrl,
+      summary: counts ? `${counts}: ${(added[0] ?? removed[0]).text}` : 'Lines moved',
+      content: `<p>${escapeHTML(counts || 'Lines moved')}.</p>\n${renderDiffHTML(diff)}`,
+      publishedAt: now,
+      mediaKind: 'diff',
+    });
+  }
+
+  return {
+    state: { ...state, hash, snapshot },
+    feed: {
+      title: pageTitle,
+      siteUrl: sourceUrl,
+      type: 'watch',
+      articles,
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// Detecting the next page of an article split across several pages. Used
+// by the content extractor before page furniture (where pagination links
+// usually live) is stripped.
+
+import { HtmlElement, findAll, textContent } from './html-tree';
+
+// Highest page number we believe; larger trailing numbers are usually IDs
+const MAX_PAGE_NUMBER = 50;
+
+const PAGE_PARAMETERS = ['page', 'p', 'pg', 'paged', 'pagenum', 'pagenumber', 'part', 'cp'];
+
+const NEXT_TEXT = /^(next( page)?|more|continue|weiter|suivant|siguiente|successiva|[›»→>]+|next\s*[›»→>]+)$/i;
+const NEXT_NAMES = /(^|[\s_-])(next|nextpage|pagination-next|pager-next)([\s_-]|$)/i;
+// Links to a different piece of content, not another page of this one
+const OTHER_CONTENT = /post|article|story|entry|episode|comment|gallery|chapter|issue|thread/i;
+
+interface PageInfo {
+  base: string; // URL with the page number removed
+  page: number; // 1 when the URL carries no page number
+}
+
+export function pageInfo(url: string): PageInfo | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  parsed.hash = '';
+
+  let page = 1;
+  for (const name of PAGE_PARAMETERS) {
+    const value = parsed.searchParams.get(name);
+    if (value && /^\d+$/.test(value)) {
+      page = Number(value);
+      parsed.searchParams.delete(name);
+      break;
+    }
+  }
+
+  if (page === 1) {
+    // /page/2, /2, -2.html, _2
+    const match = /^(.*?)(\/page\/|\/|-|_)(\d{1,2})(\/?|\.[a-z]{2,5})$/i.exec(parsed.pathname);
+    if (match && Number(match[3]) <= MAX_PAGE_NUMBER) {
+      page = Number(match[3]);
+      parsed.pathname = match[1] + match[4].replace(/^\/$/, '');
+    }
+  }
+
+  const base = `${parsed.origin}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+  return { base, page };
+}
+
+function isNextLink(link: HtmlElement, currentPage: number): boolean {
+  const rel = (link.attrs.rel ?? '').toLowerCase().split(/\s+/);
+  if (rel.includes('next')) return true;
+
+  const text = textContent(link).replace(/\s+/g, ' ').trim();
+  const label = link.attrs['aria-label'] ?? link.attrs.title ?? '';
+  if (OTHER_CONTENT.test(`${text} ${label}`)) return false;
+
+  return NEXT_TEXT.test(text)
+    || /^next( page)?$/i.test(label.trim())
+    || text === String(currentPage + 1)
+    || NEXT_NAMES.test(`${link.attrs.class ?? ''} ${link.attrs.id ?? ''}`);
+}
+
+/**
+ * The URL of the page after this one, when the page links to one that
+ * differs from it only by page number. Returns undefined otherwise, so
+ * "next article" links are not followed.
+ */
+export function findNextPageURL(root: HtmlElement, url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  const current = pageInfo(url);
+  if (!current) return undefined;
+
+  const links = findAll(root, e => (e.tag === 'link' || e.tag === 'a') && !!e.attrs.href);
+  for (const link of links) {
+    if (!isNextLink(link, current.page)) continue;
+
+    let href: string;
+    try {
+      href = new URL(link.attrs.href, url).href;
+    } catch {
+      continue;
+    }
+
+    const next = pageInfo(href);
+    if (next && next.base === current.base && next.page === current.page + 1) return href.replace(/#.*$/, '');
+  }
+  return undefined;
+}
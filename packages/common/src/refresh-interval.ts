@@ -0,0 +1,136 @@
+// Adaptive refresh intervals shared by the web client and the backend scheduler
+
+export const MIN_REFRESH_INTERVAL_MINUTES = 15;
+export const MAX_REFRESH_INTERVAL_MINUTES = 24 * 60;
+export const DEFAULT_REFRESH_INTERVAL_MINUTES = 60;
+
+// How many of the most recent items we look at to estimate posting frequency
+const HISTORY_SAMPLE_SIZE = 20;
+
+export interface RefreshHints {
+  // publishedAt values of the feed's items, in any order
+  publishedDates: Array<Date | undefined>;
+  // RSS <ttl>
+  ttlMinutes?: number;
+  // sy:updatePeriod / sy:updateFrequency
+  updatePeriodMinutes?: number;
+  // Raw HTTP response headers
+  cacheControl?: string | null;
+  expires?: string | null;
+  now?: Date;
+}
+
+const UPDATE_PERIOD_MINUTES: Record<string, number> = {
+  hourly: 60,
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+  monthly: 30 * 24 * 60,
+  yearly: 365 * 24 * 60,
+};
+
+function clamp(minutes: number): number {
+  return Math.round(Math.min(MAX_REFRESH_INTERVAL_MINUTES, Math.max(MIN_REFRESH_INTERVAL_MINUTES, minutes)));
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Convert `sy:updatePeriod` + `sy:updateFrequency` into minutes between updates.
+ * Frequency is "times per period" and defaults to 1 per the Syndication module spec.
+ */
+export function parseUpdatePeriod(period: unknown, frequency?: unknown): number | undefined {
+  if (period === undefined || period === null) return undefined;
+  const periodMinutes = UPDATE_PERIOD_MINUTES[String(period).trim().toLowerCase()];
+  if (!periodMinutes) return undefined;
+  const times = positiveNumber(frequency) ?? 1;
+  return periodMinutes / times;
+}
+
+export function parseTTL(ttl: unknown): number | undefined {
+  return positiveNumber(ttl);
+}
+
+/**
+ * Minutes until a response may be considered stale, from `Cache-Control: max-age`
+ * (preferred) or `Expires`. `no-cache`/`no-store` yield undefined.
+ */
+export function parseCacheLifetime(cacheControl?: string | null, expires?: string | null, now = new Date()): number | undefined {
+  if (cacheControl) {
+    const directives = cacheControl.toLowerCase();
+    if (directives.includes('no-store') || directives.includes('no-cache')) return undefined;
+    const maxAge = directives.match(/(?:^|[,\s])max-age\s*=\s*"?(\d+)"?/);
+    if (maxAge) {
+      const seconds = parseInt(maxAge[1], 10);
+      return seconds > 0 ? seconds / 60 : undefined;
+    }
+  }
+
+  if (expires) {
+    const expiresAt = new Date(expires).getTime();
+    if (!isNaN(expiresAt)) {
+      const minutes = (expiresAt - now.getTime()) / 60000;
+      return minutes > 0 ? minutes : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Estimate a sensible polling interval (in minutes) from how often the feed posts.
+ * We poll about twice per typical gap between items, and back off further when the
+ * feed has been quiet for much longer than its usual rhythm.
+ */
+function intervalFromHistory(publishedDates: Array<Date | undefined>, now: Date): number | undefined {
+  const times = publishedDates
+    .filter((d): d is Date => d instanceof Date && !isNaN(d.getTime()) && d.getTime() <= now.getTime())
+    .map(d => d.getTime())
+    .sort((a, b) => b - a)
+    .slice(0, HISTORY_SAMPLE_SIZE);
+
+  if (times.length === 0) return undefined;
+
+  const sinceLatest = (now.getTime() - times[0]) / 60000;
+
+  if (times.length === 1) {
+    return sinceLatest / 4;
+  }
+
+  const gaps: number[] = [];
+  for (let i = 0; i < times.length - 1; i++) {
+    gaps.push((times[i] - times[i + 1]) / 60000);
+  }
+  gaps.sort((a, b) => a - b);
+  const mid = Math.floor(gaps.length / 2);
+  const medianGap = gaps.length % 2 === 0 ? (gaps[mid - 1] + gaps[mid]) / 2 : gaps[mid];
+
+  return Math.max(medianGap / 2, sinceLatest / 4);
+}
+
+/**
+ * Compute how many minutes to wait before fetching a feed again.
+ *
+ * Posting history sets the baseline; publisher hints (`<ttl>`, `sy:updatePeriod`,
+ * HTTP cache lifetime) act as a floor, since they tell us not to ask more often.
+ * The result is always clamped to [MIN_REFRESH_INTERVAL_MINUTES, MAX_REFRESH_INTERVAL_MINUTES].
+ */
+export function computeRefreshInterval(hints: RefreshHints): number {
+  const now = hints.now ?? new Date();
+
+  let interval = intervalFromHistory(hints.publishedDates, now) ?? DEFAULT_REFRESH_INTERVAL_MINUTES;
+
+  const floors = [
+    positiveNumber(hints.ttlMinutes),
+    positiveNumber(hints.updatePeriodMinutes),
+    parseCacheLifetime(hints.cacheControl, hints.expires, now),
+  ].filter((n): n is number => n !== undefined);
+
+  if (floors.length > 0) {
+    interval = Math.max(interval, ...floors);
+  }
+
+  return clamp(interval);
+}
@@ -0,0 +1,193 @@
+// Automation rule conditions shared by the web client and the backend
+
+export type RuleField = 'title' | 'content' | 'author' | 'url' | 'domain' | 'media_kind' | 'age_hours';
+
+export type RuleOperator =
+  | 'contains' | 'not_contains' | 'equals' | 'not_equals'
+  | 'starts_with' | 'ends_with' | 'matches_regex'
+  | 'less_than' | 'greater_than'; // Numeric fields (age_hours)
+
+export interface RuleCondition {
+  kind: 'condition';
+  id: string;
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+  caseSensitive?: boolean; // Text operators compare case-insensitively by default
+}
+
+// 'and' = all children match, 'or' = any matches, 'not' = none match
+export interface RuleConditionGroup {
+  kind: 'group';
+  id: string;
+  operator: 'and' | 'or' | 'not';
+  children: (RuleCondition | RuleConditionGroup)[];
+}
+
+// The parts of an article conditions can look at
+export interface RuleSubject {
+  title?: string | null;
+  author?: string | null;
+  summary?: string | null;
+  content?: string | null; // HTML
+  url?: string | null;
+  mediaKind?: string | null;
+  publishedAt?: Date | string | null;
+}
+
+export const TEXT_OPERATORS: RuleOperator[] = ['contains', 'not_contains', 'equals', 'not_equals', 'starts_with', 'ends_with', 'matches_regex'];
+export const NUMERIC_OPERATORS: RuleOperator[] = ['less_than', 'greater_than'];
+
+export const RULE_FIELD_OPERATORS: Record<RuleField, RuleOperator[]> = {
+  title: TEXT_OPERATORS,
+  content: TEXT_OPERATORS,
+  author: TEXT_OPERATORS,
+  url: TEXT_OPERATORS,
+  domain: ['equals', 'not_equals', 'contains', 'ends_with', 'matches_regex'],
+  media_kind: ['equals', 'not_equals'],
+  age_hours: NUMERIC_OPERATORS,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Compiled patterns, keyed by flags + source; invalid patterns map to null.
+// Least recently used entries are dropped past REGEX_CACHE_SIZE.
+const REGEX_CACHE_SIZE = 100;
+const regexCache = new Map<string, RegExp | null>();
+
+function ruleRegex(source: string, caseSensitive?: boolean): RegExp | null {
+  const flags = caseSensitive ? '' : 'i';
+  const key = `${flags}/${source}`;
+  let pattern = regexCache.get(key);
+  if (pattern === undefined) {
+    try {
+      pattern = new RegExp(source, flags);
+    } catch {
+      pattern = null;
+    }
+  }
+  regexCache.delete(key);
+  regexCache.set(key, pattern);
+  if (regexCache.size > REGEX_CACHE_SIZE) {
+    regexCache.delete(regexCache.keys().next().value!);
+  }
+  return pattern;
+}
+
+function fieldValue(field: RuleField, subject: RuleSubject): string {
+  switch (field) {
+    case 'title':
+      return subject.title || '';
+    case 'content':
+      return `${subject.content || ''}\n${subject.summary || ''}`;
+    case 'author':
+      return subject.author || '';
+    case 'url':
+      return subject.url || '';
+    case 'domain':
+      try {
+        return subject.url ? new URL(subject.url).hostname.replace(/^www\./, '') : '';
+      } catch {
+        return '';
+      }
+    case 'media_kind':
+      return subject.mediaKind || 'none';
+    default:
+      return '';
+  }
+}
+
+function matchesCondition(condition: RuleCondition, subject: RuleSubject, now: number): boolean {
+  if (condition.field === 'age_hours') {
+    if (!subject.publishedAt) return false;
+    const ageHours = (now - new Date(subject.publishedAt).getTime()) / HOUR_MS;
+    const limit = Number(condition.value);
+    if (!Number.isFinite(limit)) return false;
+    return condition.operator === 'less_than' ? ageHours < limit
+      : condition.operator === 'greater_than' ? ageHours > limit
+      : false;
+  }
+
+  const text = fieldValue(condition.field, subject);
+
+  if (condition.operator === 'matches_regex') {
+    const pattern = ruleRegex(condition.value, condition.caseSensitive);
+    return !!pattern && pattern.test(text);
+  }
+
+  const fold = (value: string) => condition.caseSensitive ? value : value.toLowerCase();
+  const haystack = fold(text);
+  const needle = fold(condition.value.trim());
+
+  if (condition.field === 'domain' && (condition.operator === 'equals' || condition.operator === 'not_equals')) {
+    // "example.com" also covers its subdomains
+    const matches = haystack === needle || haystack.endsWith(`.${needle}`);
+    return condition.operator === 'equals' ? matches : !matches;
+  }
+
+  switch (condition.operator) {
+    case 'contains':
+      return haystack.includes(needle);
+    case 'not_contains':
+      return !haystack.includes(needle);
+    case 'equals':
+      return haystack === needle;
+    case 'not_equals':
+      return haystack !== needle;
+    case 'starts_with':
+      return haystack.startsWith(needle);
+    case 'ends_with':
+      return haystack.endsWith(needle);
+    default:
+      return false;
+  }
+}
+
+export function matchesRuleConditions(group: RuleConditionGroup, subject: RuleSubject, now = Date.now()): boolean {
+  const test = (child: RuleCondition | RuleConditionGroup): boolean => child.kind === 'group'
+    ? matchesRuleConditions(child, subject, now)
+    : matchesCondition(child, subject, now);
+
+  switch (group.operator) {
+    case 'and':
+      return group.children.every(test);
+    case 'or':
+      return group.children.some(test);
+    case 'not':
+      return !group.children.some(test);
+    default:
+      return false;
+  }
+}
+
+export function flattenRuleConditions(group: RuleConditionGroup): RuleCondition[] {
+  return group.children.flatMap(child => child.kind === 'group' ? flattenRuleConditions(child) : [child]);
+}
+
+/**
+ * Whether a condition tree uses regular expressions. They run on the user's
+ * device only; the backend refuses them, since a bad pattern could hang it.
+ */
+export function usesRegexConditions(group: RuleConditionGroup): boolean {
+  return flattenRuleConditions(group).some(condition => condition.operator === 'matches_regex');
+}
+
+/**
+ * Problem with a condition tree that would stop it from working, or null if
+ * it's fine. An empty tree is valid (it matches everything).
+ */
+export function validateRuleConditions(group: RuleConditionGroup): string | null {
+  for (const condition of flattenRuleConditions(group)) {
+    if (!RULE_FIELD_OPERATORS[condition.field]?.includes(condition.operator)) {
+      return `Unsupported condition: ${condition.field} ${condition.operator}`;
+    }
+    if (!condition.value.trim()) return 'Every condition needs a value';
+    if (condition.operator === 'matches_regex' && !ruleRegex(condition.value, condition.caseSensitive)) {
+      return `Invalid regular expression: ${condition.value}`;
+    }
+    if (condition.field === 'age_hours' && !Number.isFinite(Number(condition.value))) {
+      return 'Age must be a number of hours';
+    }
+  }
+  return null;
+}
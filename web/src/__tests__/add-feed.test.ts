@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Article, Feed, SearchDocument, SearchTerm } from '../lib/db';
+import { FeedService } from '../lib/feed-service';
+import { SearchIndex } from '../lib/search-index';
+import { ClusterService } from '../lib/cluster-service';
+
+const feeds = new Map<string, Feed>();
+const articles = new Map<string, Article>();
+const documents = new Map<string, SearchDocument>();
+let terms: SearchTerm[] = [];
+
+vi.mock('../lib/db', () => ({
+    db: {
+        transaction: (_mode: unknown, _tables: unknown, cb: () => unknown) => cb(),
+        feeds: {
+            add: async (feed: Feed) => { feeds.set(feed.id, feed); },
+            get: async (id: string) => feeds.get(id),
+        },
+        articles: {
+            bulkAdd: async (items: Article[]) => { items.forEach(a => articles.set(a.id, a)); },
+            bulkPut: async (items: Article[]) => { items.forEach(a => articles.set(a.id, a)); },
+            bulkGet: async (ids: string[]) => ids.map(id => articles.get(id)),
+            where: () => ({ anyOf: (ids: string[]) => ({ toArray: async () => ids.flatMap(id => articles.get(id) ?? []) }) }),
+        },
+        rules: { filter: () => ({ toArray: async () => [] }) },
+        searchTerms: {
+            where: (index: string) => index === 'articleID'
+                ? { anyOf: (ids: string[]) => ({ delete: async () => { terms = terms.filter(t => !ids.includes(t.articleID)); } }) }
+                : { startsWith: (prefix: string) => ({ toArray: async () => terms.filter(t => t.term.startsWith(prefix)) }) },
+            bulkPut: async (items: SearchTerm[]) => { terms.push(...items); },
+        },
+        searchDocuments: {
+            count: async () => documents.size,
+            bulkGet: async (ids: string[]) => ids.map(id => documents.get(id)),
+            bulkPut: async (items: SearchDocument[]) => { items.forEach(d => documents.set(d.articleID, d)); },
+        },
+    },
+}));
+
+vi.mock('../lib/icon-service', () => ({
+    IconService: { updateFeedIcon: vi.fn() }
+}));
+
+vi.mock('../lib/cluster-service', () => ({
+    ClusterService: {
+        fingerprint: vi.fn(async (a: Article) => ({ ...a, canonicalURL: a.url })),
+        clusterNew: vi.fn(),
+    }
+}));
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0">
+    <channel>
+        <title>Compiler Weekly</title>
+        <link>https://example.com</link>
+        <item>
+            <title>Borrow checker deep dive</title>
+            <link>https://example.com/borrow-checker</link>
+            <guid>https://example.com/borrow-checker</guid>
+            <pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>
+        </item>
+    </channel>
+</rss>`;
+
+describe('Adding a feed', () => {
+    beforeEach(() => {
+        feeds.clear();
+        articles.clear();
+        documents.clear();
+        terms = [];
+        global.fetch = vi.fn(async () => new Response(rss, { headers: { 'content-type': 'application/rss+xml' } }));
+        // No backfill: the first articles must be indexed when they are stored
+        vi.spyOn(SearchIndex, 'ensureIndexed').mockResolvedValue();
+        vi.mocked(ClusterService.clusterNew).mockClear();
+    });
+
+    it('should make the first articles searchable offline right away', async () => {
+        const feedId = await FeedService.addFeed('https://example.com/feed.xml');
+
+        const results = await SearchIndex.search('borrow', { feedId });
+
+        expect(results.map(a => a.title)).toEqual(['Borrow checker deep dive']);
+    });
+
+    it('should fingerprint the first articles and cluster them with stored copies', async () => {
+        const feedId = await FeedService.addFeed('https://example.com/feed.xml');
+
+        const [stored] = Array.from(articles.values());
+        expect(stored).toMatchObject({ feedID: feedId, canonicalURL: 'https://example.com/borrow-checker' });
+        expect(ClusterService.clusterNew).toHaveBeenCalledWith([stored]);
+    });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { clampMaxTokens, createAIProvider, parseJSONCompletion, MAX_TOKENS_LIMIT } from '@feedstream/common';
+
+interface Captured {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, unknown>;
+}
+
+// Answers like a provider would, and records what it was sent
+function mockServer(reply: (req: Captured) => { status?: number; body: unknown }) {
+    const requests: Captured[] = [];
+    const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+        const req = {
+            url: String(input),
+            headers: init?.headers as Record<string, string>,
+            body: JSON.parse(String(init?.body)),
+        };
+        requests.push(req);
+        const { status = 200, body } = reply(req);
+        return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    }) as typeof fetch;
+    return { requests, fetchImpl };
+}
+
+const MESSAGES = [
+    { role: 'system' as const, content: 'Be brief.' },
+    { role: 'user' as const, content: 'Hello' },
+];
+
+describe('AI providers', () => {
+    it('should talk to an OpenAI-compatible server at its base URL', async () => {
+        const server = mockServer(() => ({
+            body: {
+                model: 'llama3.2:3b',
+                choices: [{ message: { content: 'Hi!' }, finish_reason: 'stop' }],
+                usage: { prompt_tokens: 12, completion_tokens: 2 },
+            },
+        }));
+        const provider = createAIProvider(
+            { provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1/', model: 'llama3.2:3b' },
+            server.fetchImpl
+        );
+
+        const completion = await provider.complete({ messages: MESSAGES, maxTokens: 50000, json: true });
+
+        expect(completion).toEqual({ text: 'Hi!', model: 'llama3.2:3b', truncated: false, usage: { inputTokens: 12, outputTokens: 2 } });
+        const [req] = server.requests;
+        expect(req.url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(req.headers.Authorization).toBeUndefined();
+        expect(req.body.max_tokens).toBe(MAX_TOKENS_LIMIT);
+        expect(req.body.response_format).toBeUndefined();
+        expect(req.body.messages).toEqual(MESSAGES);
+    });
+
+    it('should send OpenAI its own token parameter and JSON mode', async () => {
+        const server = mockServer(() => ({ body: { choices: [{ message: { content: '{}' }, finish_reason: 'stop' }] } }));
+        const provider = createAIProvider({ provider: 'openai', apiKey: 'sk-test' }, server.fetchImpl);
+
+        const completion = await provider.complete({ messages: MESSAGES, json: true });
+
+        expect(completion.model).toBe('gpt-4o-mini');
+        const [req] = server.requests;
+        expect(req.url).toBe('https://api.openai.com/v1/chat/completions');
+        expect(req.headers.Authorization).toBe('Bearer sk-test');
+        expect(req.body.max_completion_tokens).toBe(1024);
+        expect(req.body.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should map messages onto the Anthropic API', async () => {
+        const server = mockServer(() => ({
+            body: {
+                model: 'claude-test',
+                content: [{ type: 'text', text: 'Hi' }, { type: 'text', text: ' there' }],
+                stop_reason: 'max_tokens',
+                usage: { input_tokens: 5, output_tokens: 3 },
+            },
+        }));
+        const provider = createAIProvider({ provider: 'anthropic', apiKey: 'key', model: 'claude-test', maxTokens: 300 }, server.fetchImpl);
+
+        const completion = await provider.complete({ messages: MESSAGES });
+
+        expect(completion).toEqual({ text: 'Hi there', model: 'claude-test', truncated: true, usage: { inputTokens: 5, outputTokens: 3 } });
+        const [req] = server.requests;
+        expect(req.url).toBe('https://api.anthropic.com/v1/messages');
+        expect(req.headers['x-api-key']).toBe('key');
+        expect(req.headers['anthropic-version']).toBeDefined();
+        expect(req.body).toMatchObject({ model: 'claude-test', max_tokens: 300, system: 'Be brief.', messages: [{ role: 'user', content: 'Hello' }] });
+    });
+
+    it('should map messages onto the Gemini API', async () => {
+        const server = mockServer(() => ({
+            body: { candidates: [{ content: { parts: [{ text: '[]' }] }, finishReason: 'STOP' }] },
+        }));
+        const provider = createAIProvider({ provider: 'gemini', apiKey: 'AIza-test' }, server.fetchImpl);
+
+        await provider.complete({ messages: [...MESSAGES, { role: 'assistant', content: 'Hi' }, { role: 'user', content: 'More' }], json: true });
+
+        const [req] = server.requests;
+        expect(req.url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent');
+        expect(req.url).not.toContain('key=');
+        expect(req.headers['x-goog-api-key']).toBe('AIza-test');
+        expect(req.body.systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] });
+        expect(req.body.contents).toEqual([
+            { role: 'user', parts: [{ text: 'Hello' }] },
+            { role: 'model', parts: [{ text: 'Hi' }] },
+            { role: 'user', parts: [{ text: 'More' }] },
+        ]);
+        expect(req.body.generationConfig).toEqual({ maxOutputTokens: 1024, responseMimeType: 'application/json' });
+    });
+
+    it('should report provider errors with the provider name and status', async () => {
+        const server = mockServer(() => ({ status: 429, body: { error: { message: 'Rate limit reached' } } }));
+        const provider = createAIProvider({ provider: 'openai', apiKey: 'sk-test' }, server.fetchImpl);
+
+        await expect(provider.complete({ messages: MESSAGES })).rejects.toThrow('OpenAI error 429: Rate limit reached');
+    });
+
+    it('should report an unreachable server', async () => {
+        const fetchImpl = (async () => { throw new TypeError('fetch failed'); }) as typeof fetch;
+        const provider = createAIProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:1234/v1', model: 'qwen' }, fetchImpl);
+
+        await expect(provider.complete({ messages: MESSAGES })).rejects.toThrow('Could not reach OpenAI-compatible server at http://localhost:1234');
+    });
+
+    it('should treat an empty reply cut off by the limit as an error', async () => {
+        const server = mockServer(() => ({ body: { choices: [{ message: { content: '' }, finish_reason: 'length' }] } }));
+        const provider = createAIProvider({ provider: 'openai', apiKey: 'sk-test' }, server.fetchImpl);
+
+        await expect(provider.complete({ messages: MESSAGES })).rejects.toThrow(/token limit/);
+    });
+
+    it('should refuse settings that cannot work', () => {
+        expect(() => createAIProvider({ provider: 'anthropic' })).toThrow('Anthropic API key not configured');
+        expect(() => createAIProvider({ provider: 'openai-compatible', model: 'x' })).toThrow(/Base URL not configured/);
+        expect(() => createAIProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:8080/v1' })).toThrow(/No model configured/);
+    });
+
+    it('should reject invalid model names and empty conversations', async () => {
+        const server = mockServer(() => ({ body: {} }));
+        const provider = createAIProvider({ provider: 'openai', apiKey: 'sk-test' }, server.fetchImpl);
+
+        await expect(provider.complete({ messages: MESSAGES, model: 'bad model?' })).rejects.toThrow(/Invalid model name/);
+        await expect(provider.complete({ messages: [MESSAGES[0]] })).rejects.toThrow('No messages to send');
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('should clamp token limits and parse fenced JSON replies', () => {
+        expect(clampMaxTokens(undefined)).toBe(1024);
+        expect(clampMaxTokens(0)).toBe(1);
+        expect(clampMaxTokens(99999)).toBe(MAX_TOKENS_LIMIT);
+        expect(clampMaxTokens(NaN, 256)).toBe(256);
+        expect(parseJSONCompletion('```json\n[{"a":1}]\n```')).toEqual([{ a: 1 }]);
+        expect(parseJSONCompletion(' {"ok":true} ')).toEqual({ ok: true });
+    });
+});
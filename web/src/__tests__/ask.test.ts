@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Article } from '../lib/db';
+import { AskService, NO_SOURCES_ANSWER, askMessages, questionTerms, splitCitations } from '../lib/ask-service';
+import { AIService } from '../lib/ai-service';
+import { searchArticles } from '../lib/api-client';
+
+const articles = new Map<string, Article>();
+const feedFolders: Record<string, string> = { tech: 'folder-1', news: 'folder-2' };
+
+// Articles matching each term, with a score
+const termScores: Record<string, Record<string, number>> = {};
+
+vi.mock('../lib/db', () => ({
+    db: {
+        articles: {
+            bulkGet: vi.fn(async (ids: string[]) => ids.map(id => articles.get(id))),
+            orderBy: () => ({
+                reverse: () => ({
+                    filter: (predicate: (a: Article) => boolean) => ({
+                        limit: (n: number) => ({
+                            toArray: async () => Array.from(articles.values())
+                                .sort((a, b) => b.publishedAt!.getTime() - a.publishedAt!.getTime())
+                                .filter(predicate)
+                                .slice(0, n),
+                        }),
+                    }),
+                }),
+            }),
+        },
+        feeds: {
+            where: () => ({
+                equals: (folderId: string) => ({
+                    primaryKeys: async () => Object.keys(feedFolders).filter(id => feedFolders[id] === folderId),
+                }),
+            }),
+        },
+    },
+}));
+
+vi.mock('../lib/search-index', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../lib/search-index')>(),
+    SearchIndex: {
+        ensureIndexed: vi.fn(async () => {}),
+        score: vi.fn(async (term: string) => new Map(Object.entries(termScores[term] ?? {}))),
+    },
+}));
+
+vi.mock('../lib/api-client', () => ({
+    searchArticles: vi.fn(async () => []),
+}));
+
+vi.mock('../lib/ai-service', () => ({
+    AIService: {
+        complete: vi.fn(async () => ({ text: 'Apple announced a new chip [1]. See also [9].', model: 'mock-model', truncated: false })),
+    },
+}));
+
+vi.mock('@/store/settingsStore', () => ({
+    useSettingsStore: { getState: () => ({}) },
+}));
+
+function addArticle(id: string, feedID: string, daysAgo: number, title = `Article ${id}`): Article {
+    const article: Article = {
+        id,
+        feedID,
+        title,
+        contentHTML: `<p>${title} body text.</p>`,
+        url: `https://example.com/${id}`,
+        publishedAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+        isRead: 0,
+        isBookmarked: 0,
+        mediaKind: 'none',
+        imageCacheStatus: 0,
+        playbackPosition: 0,
+        downloadStatus: 0,
+    };
+    articles.set(id, article);
+    return article;
+}
+
+describe('Ask your feeds', () => {
+    beforeEach(() => {
+        articles.clear();
+        for (const term of Object.keys(termScores)) delete termScores[term];
+        vi.clearAllMocks();
+    });
+
+    it('should keep only the subject of a question', () => {
+        expect(questionTerms('What did my feeds say about the Apple M5 chip this week?')).toEqual(['apple', 'm5', 'chip']);
+        expect(questionTerms('What happened today?')).toEqual([]);
+    });
+
+    it('should rank articles matching more terms first, within the scope', async () => {
+        addArticle('both', 'tech', 1);
+        addArticle('one', 'tech', 2);
+        addArticle('other-folder', 'news', 1);
+        addArticle('old', 'tech', 40);
+        termScores.apple = { both: 2, one: 3, 'other-folder': 5, old: 5 };
+        termScores.chip = { both: 2 };
+
+        const sources = await AskService.retrieve('apple chip', { folderId: 'folder-1', from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) });
+
+        expect(sources.map(s => s.id)).toEqual(['both', 'one']);
+        expect(sources[0].excerpt).toBe('Article both body text.');
+        expect(searchArticles).not.toHaveBeenCalled();
+    });
+
+    it('should use the newest articles in scope when the question has no subject', async () => {
+        addArticle('new', 'tech', 0);
+        addArticle('older', 'tech', 3);
+        addArticle('elsewhere', 'news', 0);
+
+        const sources = await AskService.retrieve('What happened this week?', { feedId: 'tech' });
+
+        expect(sources.map(s => s.id)).toEqual(['new', 'older']);
+    });
+
+    it('should fall back to the backend search when nothing is stored', async () => {
+        vi.mocked(searchArticles).mockResolvedValueOnce([
+            { id: 'remote', feedId: 'tech', title: 'Remote', content: '<p>From   the server</p>', publishedAt: '2026-10-01T00:00:00Z' },
+        ]);
+        const scope = { feedId: 'tech' };
+
+        const sources = await AskService.retrieve('apple chip', scope);
+
+        expect(searchArticles).toHaveBeenCalledWith('apple or chip', 8, scope);
+        expect(sources).toEqual([{
+            id: 'remote', feedID: 'tech', title: 'Remote', url: undefined,
+            publishedAt: new Date('2026-10-01T00:00:00Z'), excerpt: 'From the server',
+        }]);
+    });
+
+    it('should number the sources in the prompt and send earlier turns', () => {
+        const source = { id: 'a', feedID: 'tech', title: 'Apple M5', publishedAt: new Date('2026-10-10T12:00:00Z'), excerpt: 'Details' };
+        const messages = askMessages('And the price?', [source], [{ question: 'Any news on the M5?', answer: 'Yes [1].', sources: [source] }]);
+
+        expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+        expect(messages[0].content).toContain('[1]');
+        expect(messages[3].content).toContain('[1] Apple M5 (2026-10-10)\nDetails');
+        expect(messages[3].content).toContain('Question: And the price?');
+    });
+
+    it('should link citations of sources that were sent', () => {
+        expect(splitCitations('Chips [1][2] and more [7].', 2)).toEqual(['Chips ', 1, 2, ' and more [7].']);
+    });
+
+    it('should answer from the sources, or say nothing matched without asking', async () => {
+        addArticle('a', 'tech', 1, 'Apple chip');
+        termScores.apple = { a: 1 };
+
+        const turn = await AskService.ask('apple', {});
+        expect(turn).toMatchObject({ question: 'apple', model: 'mock-model', sources: [{ id: 'a' }] });
+        expect(splitCitations(turn.answer, turn.sources.length)).toContain(1);
+
+        const empty = await AskService.ask('bananas', {});
+        expect(empty.answer).toBe(NO_SOURCES_ANSWER);
+        expect(AIService.complete).toHaveBeenCalledTimes(1);
+    });
+});
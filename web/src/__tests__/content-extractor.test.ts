@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { applyContentRules, extractContent, extractPaginatedContent, isSupportedSelector } from '@feedstream/common';
+
+const PARAGRAPH = 'Rust makes concurrency safer by checking ownership at compile time, so data races become type errors, not late-night incidents. ';
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+    <title>Fearless Concurrency in Practice | Example Blog</title>
+    <meta property="og:image" content="/images/lead.jpg">
+    <meta property="og:site_name" content="Example Blog">
+    <script type="application/ld+json">
+        {"@context": "https://schema.org", "@type": "BlogPosting", "headline": "Fearless Concurrency in Practice",
+         "author": {"@type": "Person", "name": "Ferris Crab"}, "datePublished": "2026-01-05T09:30:00Z"}
+    </script>
+    <style>body { color: red; }</style>
+</head>
+<body>
+    <header class="site-header"><nav><a href="/">Home</a> <a href="/about">About</a></nav></header>
+    <div id="main">
+        <article class="post">
+            <h1>Fearless Concurrency in Practice</h1>
+            <div class="byline">By Ferris Crab</div>
+            <p>${PARAGRAPH}</p>
+            <p onclick="steal()" style="color: red">${PARAGRAPH}See <a href="../docs/threads.html">the threads chapter</a>.</p>
+            <figure>
+                <img src="data:image/gif;base64,R0lGOD" data-src="/images/diagram.png" alt="Ownership diagram">
+                <figcaption>Ownership, visualised</figcaption>
+            </figure>
+            <p>${PARAGRAPH}</p>
+            <div class="share-buttons"><a href="https://x.com/share">Share</a> <a href="https://facebook.com">Like</a></div>
+        </article>
+        <aside class="sidebar"><ul><li><a href="/a">Popular post one</a></li><li><a href="/b">Popular post two</a></li></ul></aside>
+    </div>
+    <div class="comments">Great post! Thanks for writing it, I learned a lot from it today.</div>
+    <footer>Copyright Example Blog</footer>
+    <script>trackPageView();</script>
+</body>
+</html>`;
+
+describe('content extraction', () => {
+    const extracted = extractContent(PAGE, 'https://example.com/blog/2026/fearless');
+
+    it('should keep the article and drop page furniture', () => {
+        expect(extracted).not.toBeNull();
+        expect(extracted!.textContent).toContain('data races become type errors');
+        expect(extracted!.content).not.toMatch(/Home|Popular post|Great post|Copyright|Share|trackPageView|color: red/);
+        expect(extracted!.content).not.toContain('onclick');
+    });
+
+    it('should read title, byline, date, site and lead image from metadata', () => {
+        expect(extracted!.title).toBe('Fearless Concurrency in Practice');
+        expect(extracted!.byline).toBe('Ferris Crab');
+        expect(extracted!.publishedAt).toBe('2026-01-05T09:30:00.000Z');
+        expect(extracted!.siteName).toBe('Example Blog');
+        expect(extracted!.leadImage).toBe('https://example.com/images/lead.jpg');
+    });
+
+    it('should not repeat the title heading or byline in the content', () => {
+        expect(extracted!.content).not.toContain('<h1');
+        expect(extracted!.content).not.toContain('By Ferris Crab');
+    });
+
+    it('should resolve relative links and lazy-loaded images', () => {
+        expect(extracted!.content).toContain('href="https://example.com/blog/docs/threads.html"');
+        expect(extracted!.content).toContain('src="https://example.com/images/diagram.png"');
+        expect(extracted!.content).toContain('<figcaption>Ownership, visualised</figcaption>');
+    });
+
+    it('should fall back to page markup when there is no metadata', () => {
+        const html = `<html><body><h1>Plain page</h1><p class="byline">by Jane Doe</p>
+            <time datetime="2025-12-24">Christmas Eve</time>
+            <div class="content"><p>${PARAGRAPH}</p><p>${PARAGRAPH}</p><img src="photo.jpg"></div></body></html>`;
+        const result = extractContent(html, 'https://example.org/posts/plain');
+
+        expect(result!.title).toBe('Plain page');
+        expect(result!.byline).toBe('Jane Doe');
+        expect(result!.publishedAt).toBe('2025-12-24T00:00:00.000Z');
+        expect(result!.leadImage).toBe('https://example.org/posts/photo.jpg');
+    });
+
+    it('should return null for pages without article text', () => {
+        expect(extractContent('<html><body><nav><a href="/">Home</a></nav><p>Short.</p></body></html>')).toBeNull();
+    });
+});
+
+describe('multi-page articles', () => {
+    const page = (n: number, nav: string) => `<html><body><article>
+        <p>Page ${n}: ${PARAGRAPH}</p><p>Still page ${n}: ${PARAGRAPH}</p></article>
+        <div class="pagination">${nav}</div></body></html>`;
+
+    const site: Record<string, string> = {
+        'https://example.com/story': page(1, '<a href="/story?page=2">2</a> <a href="/story?page=2">Next ›</a>'),
+        'https://example.com/story?page=2': page(2, '<a href="/story?page=3" rel="next">Next</a>'),
+        'https://example.com/story?page=3': page(3, '<a href="/story/different">Next article</a>'),
+    };
+    const fetchPage = async (url: string) => site[url] ? { html: site[url], url } : null;
+
+    it('should follow next-page links and stitch the pages', async () => {
+        const result = await extractPaginatedContent(site['https://example.com/story'], 'https://example.com/story', fetchPage);
+
+        expect(result!.pages).toBe(3);
+        expect(result!.textContent).toContain('Page 1:');
+        expect(result!.textContent).toContain('Page 3:');
+        expect(result!.content.indexOf('Page 2:')).toBeLessThan(result!.content.indexOf('Page 3:'));
+        expect(result!.nextPage).toBeUndefined();
+    });
+
+    it('should stop at the page limit', async () => {
+        const result = await extractPaginatedContent(site['https://example.com/story'], 'https://example.com/story', fetchPage, { maxPages: 2 });
+
+        expect(result!.pages).toBe(2);
+        expect(result!.textContent).not.toContain('Page 3:');
+        expect(result!.nextPage).toBe('https://example.com/story?page=3');
+    });
+
+    it('should stop when a page repeats earlier content', async () => {
+        // The site ignores the page parameter and serves page one again
+        const first = page(1, '<a href="/story/2" rel="next">Next</a>');
+        const result = await extractPaginatedContent(first, 'https://example.com/story', async url => ({ html: first, url }));
+
+        expect(result!.pages).toBe(1);
+    });
+
+    it('should not treat links to other articles as pagination', () => {
+        const html = page(1, '<a href="/other-story" rel="next">Next article</a> <a href="/story-archive/2">Older posts</a>');
+        expect(extractContent(html, 'https://example.com/story')!.nextPage).toBeUndefined();
+    });
+});
+
+describe('content rules', () => {
+    const url = 'https://example.com/blog/2026/fearless';
+
+    it('should use the content selector instead of scoring', () => {
+        const result = extractContent(PAGE, url, { contentSelector: '#main > aside, .sidebar li', minTextLength: 1 });
+
+        expect(result!.textContent).toContain('Popular post one');
+        expect(result!.textContent).not.toContain('data races');
+    });
+
+    it('should fall back to scoring when the content selector matches nothing or is unsupported', () => {
+        expect(extractContent(PAGE, url, { contentSelector: '.missing' })!.textContent).toContain('data races');
+        expect(extractContent(PAGE, url, { contentSelector: 'p:first-child' })!.textContent).toContain('data races');
+    });
+
+    it('should remove matching elements and strip images', () => {
+        const result = extractContent(PAGE, url, { removeSelector: 'p[style], figcaption', stripImages: true });
+
+        expect(result!.content).not.toContain('the threads chapter');
+        expect(result!.content).not.toMatch(/<img|<figure|Ownership, visualised/);
+        expect(result!.leadImage).toBe('https://example.com/images/lead.jpg');
+    });
+
+    it('should apply the rules to feed content', () => {
+        const html = '<p>Text</p><div class="ad promo">Buy now</div><img src="a.jpg">';
+
+        expect(applyContentRules(html, { removeSelector: 'div.promo', stripImages: true })).toBe('<p>Text</p>');
+        expect(applyContentRules(html, {})).toBe(html);
+        expect(isSupportedSelector('article > .entry-content, [data-role="body"]')).toBe(true);
+        expect(isSupportedSelector('a:hover')).toBe(false);
+    });
+});
+
+describe('sanitizing hostile markup', () => {
+    const url = 'https://example.com/blog/post';
+
+    // The content as a browser would see it
+    function render(body: string): Document {
+        const page = `<html><body><div id="c"><p>${PARAGRAPH}</p>${body}</div></body></html>`;
+        const content = extractContent(page, url, { contentSelector: '#c', minTextLength: 1 })!.content;
+        return new DOMParser().parseFromString(content, 'text/html');
+    }
+
+    function expectInert(body: string) {
+        const doc = render(body);
+        expect(doc.querySelectorAll('script, style, base, iframe, object, embed, math, svg, form')).toHaveLength(0);
+        for (const element of Array.from(doc.body.querySelectorAll('*'))) {
+            for (const attribute of Array.from(element.attributes)) {
+                expect(attribute.name).not.toMatch(/^on/i);
+                if (['href', 'src', 'poster', 'cite', 'action', 'formaction'].includes(attribute.name)) {
+                    expect(new URL(attribute.value, url).protocol).toMatch(/^(https?|mailto|tel|data):$/);
+                    expect(attribute.value).not.toMatch(/^\s*data:text/i);
+                }
+            }
+        }
+        return doc;
+    }
+
+    it('should survive unclosed and malformed tags', () => {
+        expectInert('<p>Hi <img src=x onerror=alert(1)');
+        expectInert('<p>Hi <img src=x onerror=alert(1)//</p>');
+        expectInert('<img/src=x/onerror=alert(1)>');
+        expectInert('<div<img src=x onerror=alert(1)>>text</div>');
+        expectInert('<p>a</b></i><script>alert(1)</p></script><img src=x onerror=alert(1)>');
+        expectInert('<scr<script>ipt>alert(1)</script>');
+        expectInert('<SCRIPT SRC=//evil.example/x.js></SCRIPT><ScRiPt>alert(1)</sCrIpT>');
+        expectInert('<script>alert(1)');
+        expectInert('<style>p{}</style><a href="/x" style="background:url(javascript:alert(1))">x</a>');
+    });
+
+    it('should keep script markup in attribute values as text', () => {
+        const doc = expectInert('<p title="<script>alert(1)</script>">Quoted</p><p title=\'"><img src=x onerror=alert(1)>\'>Single</p>');
+
+        const titled = Array.from(doc.querySelectorAll('p[title]')).map(p => p.getAttribute('title'));
+        expect(titled).toEqual(['<script>alert(1)</script>', '"><img src=x onerror=alert(1)>']);
+        expect(doc.querySelectorAll('img')).toHaveLength(0);
+    });
+
+    it('should drop comments, CDATA and raw-text tricks', () => {
+        expectInert('<!-- <script>alert(1)</script> --><p>After comment</p>');
+        expectInert('<!--><img src=x onerror=alert(1)>-->');
+        expectInert('<!--a--!><img src=x onerror=alert(1)>-->');
+        expectInert('<![CDATA[<img src=x onerror=alert(1)>]]>');
+        expectInert('<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>');
+        expectInert('<textarea><img src=x onerror=alert(1)></textarea>');
+        expectInert('<title><img src=x onerror=alert(1)></title>');
+        expectInert('<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>');
+        expectInert('<svg><script>alert(1)</script></svg><base href="https://evil.example/">');
+
+        const doc = render('<!-- hidden --><p>After comment</p>');
+        expect(doc.body.textContent).toContain('After comment');
+        expect(doc.body.innerHTML).not.toContain('hidden');
+    });
+
+    it('should drop javascript: URLs however they are written', () => {
+        const hrefs = [
+            'javascript:alert(1)',
+            'JaVaScRiPt:alert(1)',
+            '  javascript:alert(1)',
+            'jav&#x09;ascript:alert(1)',
+            'java&#10;script:alert(1)',
+            'java&#13;script:alert(1)',
+            '&#x01;javascript:alert(1)',
+            '&#106;avascript:alert(1)',
+            '&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)',
+            '&#106avascript:alert(1)',
+            'javascript&colon;alert(1)',
+            'vbscript:msgbox(1)',
+            'data:text/html,<script>alert(1)</script>',
+            'data&#x3A;text/html,<script>alert(1)</script>',
+        ];
+        for (const href of hrefs) {
+            expectInert(`<a href="${href}">link</a><img src="${href}"><video poster="${href}"></video><blockquote cite="${href}">q</blockquote>`);
+            expectInert(`<a href=${href.replace(/\s/g, '')}>unquoted</a>`);
+        }
+
+        const doc = render('<a href="/docs">Docs</a> <a href="mailto:me@example.com">Mail</a>');
+        expect(Array.from(doc.querySelectorAll('a')).map(a => a.getAttribute('href')))
+            .toEqual(['https://example.com/docs', 'mailto:me@example.com']);
+    });
+});
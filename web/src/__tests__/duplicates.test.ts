@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalURL, contentFingerprint, titleShingles, titleSimilarity } from '@feedstream/common';
+import { ClusterService } from '../lib/cluster-service';
+import { Article } from '../lib/db';
+
+const article = (id: string, feedID: string, fields: Partial<Article> = {}): Article => ({
+    id,
+    feedID,
+    title: `Article ${id}`,
+    isRead: 0,
+    isBookmarked: 0,
+    mediaKind: 'none',
+    playbackPosition: 0,
+    downloadStatus: 0,
+    imageCacheStatus: 0,
+    ...fields,
+});
+
+describe('Duplicate detection', () => {
+    it('should fold tracking and AMP variants onto one URL', () => {
+        const canonical = 'https://example.com/news/story?id=3';
+
+        expect(canonicalURL('http://www.example.com/news/story/?utm_source=rss&id=3&fbclid=abc#comments')).toBe(canonical);
+        expect(canonicalURL('https://amp.example.com/news/story/amp/?id=3')).toBe(canonical);
+        expect(canonicalURL('https://www.google.com/amp/s/example.com/news/story?id=3')).toBe(canonical);
+        expect(canonicalURL('https://example-com.cdn.ampproject.org/c/s/example.com/news/story.amp.html')).toBe('https://example.com/news/story.html');
+        expect(canonicalURL('https://example.com/news/story?id=4')).not.toBe(canonical);
+        expect(canonicalURL('not a url')).toBeUndefined();
+    });
+
+    it('should match titles that differ only in the site suffix or punctuation', () => {
+        const verge = titleShingles('Apple unveils a new iPhone with a bigger screen - The Verge');
+        const ars = titleShingles('Apple Unveils a New iPhone, With a Bigger Screen | Ars Technica');
+        const other = titleShingles('Apple unveils a new iPad with a faster chip');
+
+        expect(titleSimilarity(verge, ars)).toBe(1);
+        expect(titleSimilarity(verge, other)).toBeLessThan(0.6);
+        expect(titleSimilarity(new Set(), verge)).toBe(0);
+    });
+
+    it('should fingerprint text regardless of markup', () => {
+        const text = 'The council voted on Tuesday to move all bin collections to a new schedule. '.repeat(4);
+
+        expect(contentFingerprint(`<p>${text}</p>`)).toBe(contentFingerprint(`<div><b>${text.toUpperCase()}</b></div>`));
+        expect(contentFingerprint('<p>Comments</p>')).toBeUndefined();
+        expect(contentFingerprint(undefined)).toBeUndefined();
+    });
+});
+
+describe('ClusterService.group', () => {
+    it('should fold copies from other feeds into the first row', () => {
+        const rows = ClusterService.group([
+            article('a', 'feed-1', { clusterID: 'a' }),
+            article('b', 'feed-2'),
+            article('c', 'feed-2', { clusterID: 'a' }),
+            article('d', 'feed-3', { clusterID: 'a' }),
+        ]);
+
+        expect(rows.map(r => r.article.id)).toEqual(['a', 'b']);
+        expect(rows[0].duplicates.map(a => a.id)).toEqual(['c', 'd']);
+    });
+
+    it('should group unclustered articles by canonical URL', () => {
+        const rows = ClusterService.group([
+            article('a', 'feed-1', { url: 'https://example.com/story?utm_medium=rss' }),
+            article('b', 'feed-2', { url: 'https://www.example.com/story/' }),
+        ]);
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0].duplicates[0].id).toBe('b');
+    });
+
+    it('should keep repeats within one feed as separate rows', () => {
+        const rows = ClusterService.group([
+            article('a', 'feed-1', { clusterID: 'x' }),
+            article('b', 'feed-1', { clusterID: 'x' }),
+        ]);
+
+        expect(rows).toHaveLength(2);
+    });
+});
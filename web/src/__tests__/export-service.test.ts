@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExportService, ExportItem, htmlToMarkdown } from '../lib/export-service';
+import { createZip } from '../lib/zip';
+import { Highlight } from '../lib/db';
+
+vi.mock('../lib/db', () => ({
+    db: {}
+}));
+
+function highlight(text: string, note?: string): Highlight {
+    const date = new Date(2026, 0, 2, 3, 4, 5);
+    return {
+        id: text, articleID: 'a1', articleTitle: 'Title', text, prefix: '', suffix: '', start: 0,
+        color: 'yellow', note, createdAt: date, updatedAt: date,
+    };
+}
+
+const ITEM: ExportItem = {
+    title: 'Rust: "Fearless" Concurrency',
+    url: 'https://example.com/posts/rust',
+    author: 'Ferris',
+    feedTitle: 'Example Blog',
+    publishedAt: new Date('2026-01-01T00:00:00Z'),
+    tags: ['rust', 'read-later'],
+    isSaved: true,
+    html: '<p>Intro with <a href="/more">a link</a>.</p><ul><li>One</li><li>Two</li></ul>',
+    highlights: [highlight('Threads are hard', 'Not with Rust'), highlight('Line one\nline two')],
+};
+
+describe('export', () => {
+    it('should write Markdown with YAML front-matter, highlights and content', () => {
+        const markdown = ExportService.toMarkdown(ITEM);
+
+        expect(markdown).toContain('---\ntitle: "Rust: \\"Fearless\\" Concurrency"\nauthor: "Ferris"');
+        expect(markdown).toContain('tags:\n  - "rust"\n  - "read-later"\nhighlights: 2\n---');
+        expect(markdown).toContain('> Threads are hard\n\n**Note:** Not with Rust');
+        expect(markdown).toContain('> Line one\n> line two');
+        expect(markdown).toContain('Intro with [a link](https://example.com/more).\n\n- One\n- Two');
+    });
+
+    it('should convert common article markup to Markdown', () => {
+        const html = '<h2>Heading</h2><p><strong>Bold</strong> and <em>soft</em><br>next</p>'
+            + '<blockquote><p>Quoted</p></blockquote><pre><code>let x = 1;\n</code></pre>'
+            + '<img src="a.png" alt="Pic"><script>alert(1)</script>';
+
+        expect(htmlToMarkdown(html, 'https://example.com/')).toBe(
+            '## Heading\n\n**Bold** and *soft*  \nnext\n\n> Quoted\n\n```\nlet x = 1;\n```\n\n![Pic](https://example.com/a.png)'
+        );
+    });
+
+    it('should write one Readwise CSV row per highlight with quoting', () => {
+        const csv = ExportService.toReadwiseCSV([ITEM]).split('\r\n');
+
+        expect(csv[0]).toBe('Highlight,Title,Author,URL,Note,Location,Date');
+        expect(csv[1]).toBe('Threads are hard,"Rust: ""Fearless"" Concurrency",Ferris,https://example.com/posts/rust,Not with Rust,1,2026-01-02 03:04:05');
+        expect(csv[2].startsWith('"Line one\nline two",')).toBe(true);
+    });
+
+    it('should list only saved articles in the bookmarks file', () => {
+        const html = ExportService.toNetscapeHTML([ITEM, { ...ITEM, title: 'Just highlighted', isSaved: false }]);
+
+        expect(html).toContain('<!DOCTYPE NETSCAPE-Bookmark-file-1>');
+        expect(html).toContain('<A HREF="https://example.com/posts/rust" ADD_DATE="1767225600" TAGS="rust,read-later">Rust: &quot;Fearless&quot; Concurrency</A>');
+        expect(html).toContain('<DD>Not with Rust');
+        expect(html).not.toContain('Just highlighted');
+    });
+
+    it('should give every Markdown file a unique safe name', () => {
+        const zip = ExportService.toMarkdownZip([ITEM, ITEM]);
+        const text = new TextDecoder().decode(zip);
+
+        expect(text).toContain('FeedStream/Rust Fearless Concurrency.md');
+        expect(text).toContain('FeedStream/Rust Fearless Concurrency (2).md');
+    });
+
+    it('should write a valid stored zip', () => {
+        const zip = createZip([{ name: 'a.txt', content: 'hello' }]);
+        const view = new DataView(zip.buffer);
+
+        expect(view.getUint32(0, true)).toBe(0x04034B50);
+        expect(view.getUint32(14, true)).toBe(0x3610A686); // CRC-32 of "hello"
+        const end = zip.length - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054B50);
+        expect(view.getUint16(end + 10, true)).toBe(1);
+        expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014B50);
+    });
+});
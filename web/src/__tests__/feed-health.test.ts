@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+    classifyFeedError,
+    computeRetryDelay,
+    appendFeedHistory,
+    trackPermanentRedirect,
+    MAX_FEED_HISTORY,
+    REDIRECT_MIGRATION_THRESHOLD,
+} from '@feedstream/common';
+
+describe('feed-health', () => {
+    it('should classify HTTP failures and network errors', () => {
+        expect(classifyFeedError('HTTP 410')).toBe('gone');
+        expect(classifyFeedError('HTTP 404')).toBe('not_found');
+        expect(classifyFeedError('HTTP 503')).toBe('server');
+        expect(classifyFeedError('HTTP 502: Too many redirects')).toBe('moved');
+        expect(classifyFeedError('HTTP 502: Fetch failed: ENOTFOUND')).toBe('network');
+        expect(classifyFeedError('HTTP 502: Fetch failed')).toBe('network');
+        expect(classifyFeedError('HTTP 403: Redirect to private resource blocked')).toBe('moved');
+        expect(classifyFeedError('Timed out after 30s')).toBe('timeout');
+        expect(classifyFeedError('fetch failed: getaddrinfo ENOTFOUND example.invalid')).toBe('network');
+        expect(classifyFeedError(undefined)).toBe('unknown');
+    });
+
+    it('should back off exponentially for transient failures', () => {
+        expect(computeRetryDelay(0, 'Timed out after 30s')).toBe(0);
+        expect(computeRetryDelay(1, 'Timed out after 30s')).toBe(15);
+        expect(computeRetryDelay(2, 'Timed out after 30s')).toBe(30);
+        expect(computeRetryDelay(3, 'Timed out after 30s')).toBe(60);
+        expect(computeRetryDelay(50, 'Timed out after 30s')).toBe(24 * 60);
+    });
+
+    it('should probe gone feeds weekly instead of retrying quickly', () => {
+        expect(computeRetryDelay(1, 'HTTP 410')).toBe(7 * 24 * 60);
+        expect(computeRetryDelay(10, 'HTTP 410')).toBe(7 * 24 * 60);
+        expect(computeRetryDelay(1, 'HTTP 410')).toBeGreaterThan(computeRetryDelay(1, 'HTTP 500'));
+    });
+
+    it('should keep only the most recent history entries', () => {
+        let history = appendFeedHistory(undefined, { type: 'error', message: 'HTTP 500' });
+        for (let i = 0; i < MAX_FEED_HISTORY + 5; i++) {
+            history = appendFeedHistory(history, { type: 'error', message: `failure ${i}` });
+        }
+
+        expect(history).toHaveLength(MAX_FEED_HISTORY);
+        expect(history[history.length - 1].message).toBe(`failure ${MAX_FEED_HISTORY + 4}`);
+        expect(new Date(history[0].at).getTime()).not.toBeNaN();
+    });
+
+    describe('trackPermanentRedirect', () => {
+        const OLD = 'https://old.example.com/feed';
+        const NEW = 'https://new.example.com/feed';
+
+        it('should only migrate after repeated permanent redirects to the same URL', () => {
+            let state: { target?: string; count: number; migrate: boolean } = { count: 0, migrate: false };
+            for (let i = 1; i < REDIRECT_MIGRATION_THRESHOLD; i++) {
+                state = trackPermanentRedirect(OLD, state, NEW, true);
+                expect(state).toEqual({ target: NEW, count: i, migrate: false });
+            }
+
+            state = trackPermanentRedirect(OLD, state, NEW, true);
+            expect(state.migrate).toBe(true);
+        });
+
+        it('should reset on temporary redirects, a different target, or no redirect', () => {
+            const pending = { target: NEW, count: 2 };
+
+            expect(trackPermanentRedirect(OLD, pending, NEW, false)).toEqual({ count: 0, migrate: false });
+            expect(trackPermanentRedirect(OLD, pending, null, false)).toEqual({ count: 0, migrate: false });
+            expect(trackPermanentRedirect(OLD, pending, 'https://other.example.com/feed', true).count).toBe(1);
+        });
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { parseFeed } from '../lib/feed-parser';
+import { parseFeed as parseSharedFeed } from '@feedstream/common';
 
 // Mock crypto for stable ID generation in tests
 if (typeof global.crypto === 'undefined') {
@@ -101,4 +102,21 @@ describe('feed-parser', () => {
         
         expect(result.articles[0].publishedAt).toBeUndefined();
     });
+
+    it('should detect WebSub hub and self links', async () => {
+        const atom = `
+<feed xmlns="http://www.w3.org/2005/Atom">
+    <title>Pushed</title>
+    <link rel="hub" href="https://hub.example.com/"/>
+    <link rel="self" href="https://example.com/atom.xml"/>
+    <link rel="alternate" href="https://example.com/"/>
+</feed>`;
+        const result = await parseSharedFeed(atom, 'https://example.com/feed');
+
+        expect(result.hubUrl).toBe('https://hub.example.com/');
+        expect(result.selfUrl).toBe('https://example.com/atom.xml');
+
+        const plain = await parseSharedFeed(RSS_FIXTURE, 'https://testblog.com/rss');
+        expect(plain.hubUrl).toBeUndefined();
+    });
 });
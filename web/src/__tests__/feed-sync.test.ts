@@ -36,10 +36,18 @@ vi.mock('../lib/feed-parser', () => ({
     parseFeed: vi.fn()
 }));
 
+vi.mock('../lib/search-index', () => ({
+    SearchIndex: { indexArticles: vi.fn(), removeFeed: vi.fn() }
+}));
+
 vi.mock('../lib/icon-service', () => ({
     IconService: { updateFeedIcon: vi.fn() }
 }));
 
+vi.mock('../lib/cluster-service', () => ({
+    ClusterService: { fingerprint: async (a: Article) => a, clusterNew: vi.fn() }
+}));
+
 
 describe('FeedService Sync Logic', () => {
 
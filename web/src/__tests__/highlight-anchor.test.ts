@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { quoteAt, locateQuote, rangeToSpan, wrapSpan, unwrapMarks } from '../lib/highlight-anchor';
+
+const TEXT = 'The quick brown fox jumps over the lazy dog. Later, the lazy dog sleeps.';
+
+describe('highlight anchoring', () => {
+    it('should find an unchanged quote where it was made', () => {
+        const start = TEXT.indexOf('brown fox');
+        const quote = quoteAt(TEXT, start, start + 'brown fox'.length);
+
+        expect(locateQuote(TEXT, quote)).toEqual({ start, end: start + 9 });
+    });
+
+    it('should follow the quote when content is added before it', () => {
+        const start = TEXT.indexOf('brown fox');
+        const quote = quoteAt(TEXT, start, start + 9);
+        const updated = 'Update: corrected a typo. ' + TEXT;
+
+        const span = locateQuote(updated, quote);
+        expect(updated.slice(span!.start, span!.end)).toBe('brown fox');
+    });
+
+    it('should use the surrounding context to pick between repeated text', () => {
+        const second = TEXT.lastIndexOf('the lazy dog');
+        const quote = quoteAt(TEXT, second, second + 'the lazy dog'.length);
+
+        // Offset is stale, so only the context can tell the occurrences apart
+        expect(locateQuote(TEXT, { ...quote, start: 0 })).toEqual({ start: second, end: second + 12 });
+    });
+
+    it('should anchor text whose whitespace was reflowed', () => {
+        const start = TEXT.indexOf('jumps over');
+        const quote = quoteAt(TEXT, start, start + 'jumps over the'.length);
+        const reflowed = TEXT.replace('jumps over the', 'jumps\n  over\tthe');
+
+        const span = locateQuote(reflowed, quote);
+        expect(reflowed.slice(span!.start, span!.end)).toBe('jumps\n  over\tthe');
+    });
+
+    it('should return null when the text is gone', () => {
+        const quote = quoteAt(TEXT, 4, 9);
+        expect(locateQuote('Something else entirely.', quote)).toBeNull();
+    });
+
+    it('should wrap a span across elements and unwrap it again', () => {
+        const root = document.createElement('div');
+        root.innerHTML = '<p>Hello <em>brave</em> new world</p>';
+        const original = root.innerHTML;
+
+        const marks = wrapSpan(root, { start: 6, end: 15 }, { class: 'reader-highlight' });
+        expect(marks.map(m => m.textContent)).toEqual(['brave', ' new']);
+        expect(root.textContent).toBe('Hello brave new world');
+
+        const range = document.createRange();
+        range.setStart(marks[0].firstChild!, 0);
+        range.setEnd(marks[1].firstChild!, 4);
+        expect(rangeToSpan(root, range)).toEqual({ start: 6, end: 15 });
+
+        unwrapMarks(root, 'mark.reader-highlight');
+        expect(root.innerHTML).toBe(original);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseFeed, parseHTMLFeed, parsePageDate } from '@feedstream/common';
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+    <title>News | Example Town Council</title>
+    <link rel="shortcut icon" href="/favicon.ico">
+</head>
+<body>
+    <nav><a href="/">Home</a></nav>
+    <ul class="news">
+        <li class="news-item">
+            <a href="/news/bins"><img data-src="/img/bins.jpg" src="data:image/gif;base64,R0lGOD"></a>
+            <h3><a href="/news/bins">Bin collections move to Tuesdays</a></h3>
+            <span class="date">Posted: 5 January 2026</span>
+            <div class="teaser"><p>From February, <b>all</b> collections move.</p></div>
+        </li>
+        <li class="news-item">
+            <h3><a href="https://example.org/news/park">Park reopens</a></h3>
+            <time datetime="2026-01-02T10:00:00Z">2 Jan</time>
+        </li>
+        <li class="news-item">
+            <h3><a href="/news/park#comments">Park reopens</a></h3>
+        </li>
+        <li class="news-item"><span>Sponsored</span></li>
+    </ul>
+</body>
+</html>`;
+
+const URL = 'https://example.org/council/news';
+
+describe('HTML feeds', () => {
+    it('should turn matched items into articles', async () => {
+        const feed = await parseHTMLFeed(PAGE, URL, { item: 'ul.news > li', date: '.date', summary: '.teaser' });
+
+        expect(feed.type).toBe('html');
+        expect(feed.title).toBe('News | Example Town Council');
+        expect(feed.iconUrl).toBe('https://example.org/favicon.ico');
+        expect(feed.articles).toHaveLength(2);
+
+        const [bins, park] = feed.articles;
+        expect(bins.title).toBe('Bin collections move to Tuesdays');
+        expect(bins.url).toBe('https://example.org/news/bins');
+        expect(bins.summary).toBe('From February, all collections move.');
+        expect(bins.content).toContain('<b>all</b>');
+        expect(bins.thumbnailUrl).toBe('https://example.org/img/bins.jpg');
+        expect(bins.publishedAt).toEqual(new Date(2026, 0, 5));
+        expect(park.publishedAt?.toISOString()).toBe('2026-01-02T10:00:00.000Z');
+    });
+
+    it('should keep IDs stable and skip repeated links', async () => {
+        const first = await parseHTMLFeed(PAGE, URL, { item: '.news-item' });
+        const second = await parseHTMLFeed(PAGE, URL, { item: '.news-item' });
+
+        expect(first.articles.map(a => a.id)).toEqual(second.articles.map(a => a.id));
+        expect(first.articles.map(a => a.url)).toEqual(['https://example.org/news/bins', 'https://example.org/news/park']);
+    });
+
+    it('should use the title and link selectors when given', async () => {
+        const feed = await parseHTMLFeed(PAGE, URL, { item: '.news-item', title: '.date', link: 'h3 a' });
+
+        expect(feed.articles[0].title).toBe('Posted: 5 January 2026');
+        expect(feed.articles[0].url).toBe('https://example.org/news/bins');
+    });
+
+    it('should be reachable through parseFeed', async () => {
+        const feed = await parseFeed(PAGE, URL, { htmlSelectors: { item: 'h3' } });
+        expect(feed.articles[0].title).toBe('Bin collections move to Tuesdays');
+    });
+
+    it('should read relative dates', () => {
+        const now = new Date('2026-03-10T12:00:00Z');
+
+        expect(parsePageDate('3 hours ago', now)?.toISOString()).toBe('2026-03-10T09:00:00.000Z');
+        expect(parsePageDate('a day ago', now)?.toISOString()).toBe('2026-03-09T12:00:00.000Z');
+        expect(parsePageDate('Yesterday', now)?.toISOString()).toBe('2026-03-09T12:00:00.000Z');
+        expect(parsePageDate('soon', now)).toBeUndefined();
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { normalizeLabel, normalizeLabels } from '@feedstream/common';
+import { LabelService } from '../lib/label-service';
+import { Article } from '../lib/db';
+
+const store = new Map<string, Article>();
+
+vi.mock('../lib/db', () => ({
+    db: {
+        articles: {
+            get: vi.fn(async (id: string) => store.get(id)),
+            update: vi.fn(async (id: string, changes: Partial<Article>) => {
+                const existing = store.get(id);
+                if (existing) store.set(id, { ...existing, ...changes });
+            }),
+            bulkUpdate: vi.fn(async (updates: { key: string; changes: Partial<Article> }[]) => {
+                for (const { key, changes } of updates) {
+                    store.set(key, { ...store.get(key)!, ...changes });
+                }
+            }),
+            orderBy: () => ({
+                keys: async () => Array.from(store.values()).flatMap(a => a.tags ?? []),
+            }),
+            where: () => ({
+                equals: (label: string) => ({
+                    toArray: async () => Array.from(store.values()).filter(a => a.tags?.includes(label)),
+                }),
+            }),
+        },
+    },
+}));
+
+vi.mock('../lib/api-client', () => ({
+    setArticleLabels: vi.fn(async (_id: string, labels: string[]) => ({ labels })),
+    renameLabel: vi.fn(async () => ({ updated: 0 })),
+    deleteLabel: vi.fn(async () => ({ updated: 0 })),
+}));
+
+vi.mock('../lib/sync-service', () => ({
+    SyncService: { queueChange: vi.fn() }
+}));
+
+vi.mock('../lib/supabase-client', () => ({
+    isSupabaseConfigured: () => false
+}));
+
+function article(id: string, tags?: string[]): Article {
+    return { id, feedID: 'f1', title: id, isRead: 0, isBookmarked: 0, imageCacheStatus: 0, tags } as Article;
+}
+
+describe('labels', () => {
+    beforeEach(() => {
+        store.clear();
+        vi.clearAllMocks();
+    });
+
+    it('should normalize, de-duplicate and drop empty labels', () => {
+        expect(normalizeLabel('  Read Later ')).toBe('read-later');
+        expect(normalizeLabels(['Rust', 'rust', ' ', 'Read  Later'])).toEqual(['rust', 'read-later']);
+    });
+
+    it('should store labels on local articles', async () => {
+        store.set('a1', article('a1'));
+
+        const stored = await LabelService.setLabels('a1', ['Work', 'work', 'Follow Up']);
+
+        expect(stored).toEqual(['work', 'follow-up']);
+        expect(store.get('a1')?.tags).toEqual(['work', 'follow-up']);
+    });
+
+    it('should send labels for articles that only exist on the backend to the API', async () => {
+        const { setArticleLabels } = await import('../lib/api-client');
+
+        const stored = await LabelService.setLabels('remote-1', ['Work']);
+
+        expect(stored).toEqual(['work']);
+        expect(setArticleLabels).toHaveBeenCalledWith('remote-1', ['work']);
+    });
+
+    it('should count labels across articles', async () => {
+        store.set('a1', article('a1', ['work', 'rust']));
+        store.set('a2', article('a2', ['rust']));
+
+        expect(await LabelService.list()).toEqual([
+            { name: 'rust', count: 2 },
+            { name: 'work', count: 1 },
+        ]);
+    });
+
+    it('should rename and remove labels everywhere', async () => {
+        store.set('a1', article('a1', ['work', 'rust']));
+        store.set('a2', article('a2', ['rust', 'systems']));
+
+        expect(await LabelService.rename('Rust', 'systems')).toBe(2);
+        expect(store.get('a1')?.tags).toEqual(['work', 'systems']);
+        expect(store.get('a2')?.tags).toEqual(['systems']);
+
+        expect(await LabelService.remove('systems')).toBe(2);
+        expect(store.get('a1')?.tags).toEqual(['work']);
+        expect(store.get('a2')?.tags).toEqual([]);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { checkWatchedPage, diffLines, pageSnapshot, renderDiffHTML } from '@feedstream/common';
+
+const page = (plans: string) => `<!DOCTYPE html>
+<html>
+<head><title>Pricing - Example</title><script>var t = Date.now();</script></head>
+<body>
+    <nav><a href="/">Home</a> <a href="/blog">Blog</a></nav>
+    <main class="pricing">
+        <h1>Plans</h1>
+        ${plans}
+    </main>
+    <footer>Rendered at <span>12:00</span></footer>
+</body>
+</html>`;
+
+const BEFORE = page('<ul><li>Free: <b>$0</b></li><li>Pro: $10</li><li>Team: $25</li></ul>');
+const AFTER = page('<ul><li>Free: <b>$0</b></li><li>Pro: $12</li><li>Team: $25</li><li>Enterprise: call us</li></ul>');
+
+const URL = 'https://example.com/pricing';
+
+describe('Watched pages', () => {
+    it('should snapshot visible text as lines', () => {
+        expect(pageSnapshot(BEFORE, 'main')).toEqual(['Plans', 'Free: $0', 'Pro: $10', 'Team: $25']);
+        expect(pageSnapshot(BEFORE)).toContain('Rendered at 12:00');
+        expect(pageSnapshot(BEFORE).join('\n')).not.toContain('Date.now');
+    });
+
+    it('should throw when the selector matches nothing', () => {
+        expect(() => pageSnapshot(BEFORE, '.missing')).toThrow(/matches nothing/);
+    });
+
+    it('should diff lines with removals before additions', () => {
+        const diff = diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd']);
+        expect(diff).toEqual([
+            { type: 'same', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'x' },
+            { type: 'same', text: 'c' },
+            { type: 'added', text: 'd' },
+        ]);
+    });
+
+    it('should render changes with context and gaps', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', '8'];
+        const html = renderDiffHTML(diffLines(before, ['1', '2', '3', '4', '5', '6', '7', '<8>']), 1);
+
+        expect(html).not.toContain('<p>1</p>');
+        expect(html).toContain('<p class="diff-gap">…</p>');
+        expect(html).toContain('<p>7</p>');
+        expect(html).toContain('<del>8</del>');
+        expect(html).toContain('<ins>&lt;8&gt;</ins>');
+    });
+
+    it('should record a baseline, then report changes', async () => {
+        const first = await checkWatchedPage(BEFORE, URL, { selector: 'main' });
+        expect(first.feed.type).toBe('watch');
+        expect(first.feed.title).toBe('Pricing - Example');
+        expect(first.feed.articles).toHaveLength(0);
+        expect(first.state.hash).toBeTruthy();
+
+        const unchanged = await checkWatchedPage(BEFORE, URL, first.state);
+        expect(unchanged.feed.articles).toHaveLength(0);
+        expect(unchanged.state.hash).toBe(first.state.hash);
+
+        const now = new Date('2026-03-10T12:00:00Z');
+        const changed = await checkWatchedPage(AFTER, URL, first.state, now);
+        expect(changed.feed.articles).toHaveLength(1);
+
+        const [article] = changed.feed.articles;
+        expect(article.title).toBe('Pricing - Example changed');
+        expect(article.url).toBe(URL);
+        expect(article.mediaKind).toBe('diff');
+        expect(article.publishedAt).toEqual(now);
+        expect(article.summary).toBe('2 lines added, 1 line removed: Pro: $12');
+        expect(article.content).toContain('<del>Pro: $10</del>');
+        expect(article.content).toContain('<ins>Enterprise: call us</ins>');
+        expect(changed.state.selector).toBe('main');
+        expect(changed.state.snapshot).toContain('Enterprise: call us');
+    });
+
+    it('should ignore changes outside the selector', async () => {
+        const first = await checkWatchedPage(BEFORE, URL, { selector: 'main' });
+        const next = await checkWatchedPage(BEFORE.replace('12:00', '12:05'), URL, first.state);
+        expect(next.feed.articles).toHaveLength(0);
+    });
+});
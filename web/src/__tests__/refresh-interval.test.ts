@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+    computeRefreshInterval,
+    parseCacheLifetime,
+    parseUpdatePeriod,
+    MIN_REFRESH_INTERVAL_MINUTES,
+    MAX_REFRESH_INTERVAL_MINUTES,
+    DEFAULT_REFRESH_INTERVAL_MINUTES,
+} from '@feedstream/common';
+import { parseFeed } from '../lib/feed-parser';
+
+const NOW = new Date('2026-01-10T12:00:00Z');
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 60 * 60 * 1000);
+
+describe('refresh-interval', () => {
+    it('should fall back to the default without any history or hints', () => {
+        expect(computeRefreshInterval({ publishedDates: [], now: NOW })).toBe(DEFAULT_REFRESH_INTERVAL_MINUTES);
+    });
+
+    it('should poll frequently posting feeds more often than quiet ones', () => {
+        const busy = computeRefreshInterval({
+            publishedDates: [hoursAgo(1), hoursAgo(2), hoursAgo(3), hoursAgo(4)],
+            now: NOW,
+        });
+        const quiet = computeRefreshInterval({
+            publishedDates: [hoursAgo(24), hoursAgo(72), hoursAgo(120)],
+            now: NOW,
+        });
+
+        expect(busy).toBe(MIN_REFRESH_INTERVAL_MINUTES * 2);
+        expect(quiet).toBeGreaterThan(busy);
+    });
+
+    it('should clamp to the maximum for dormant feeds', () => {
+        const interval = computeRefreshInterval({
+            publishedDates: [hoursAgo(24 * 365), hoursAgo(24 * 400)],
+            now: NOW,
+        });
+        expect(interval).toBe(MAX_REFRESH_INTERVAL_MINUTES);
+    });
+
+    it('should treat ttl, sy:updatePeriod and cache headers as a floor', () => {
+        const history = [hoursAgo(0.5), hoursAgo(1), hoursAgo(1.5)];
+
+        expect(computeRefreshInterval({ publishedDates: history, ttlMinutes: 120, now: NOW })).toBe(120);
+        expect(computeRefreshInterval({ publishedDates: history, updatePeriodMinutes: 180, now: NOW })).toBe(180);
+        expect(computeRefreshInterval({ publishedDates: history, cacheControl: 'public, max-age=7200', now: NOW })).toBe(120);
+    });
+
+    it('should parse cache lifetimes from Cache-Control and Expires', () => {
+        expect(parseCacheLifetime('max-age=600')).toBe(10);
+        expect(parseCacheLifetime('no-cache, max-age=600')).toBeUndefined();
+        expect(parseCacheLifetime(null, new Date(NOW.getTime() + 30 * 60000).toUTCString(), NOW)).toBe(30);
+        expect(parseCacheLifetime(null, 'not a date', NOW)).toBeUndefined();
+    });
+
+    it('should convert syndication update periods to minutes', () => {
+        expect(parseUpdatePeriod('hourly')).toBe(60);
+        expect(parseUpdatePeriod('daily', 2)).toBe(720);
+        expect(parseUpdatePeriod('fortnightly')).toBeUndefined();
+    });
+
+    it('should expose ttl and syndication hints from parsed RSS', async () => {
+        const rss = `
+<rss version="2.0" xmlns:sy="http://purl.org/rss/1.0/modules/syndication/">
+    <channel>
+        <title>Hinted</title>
+        <ttl>90</ttl>
+        <sy:updatePeriod>daily</sy:updatePeriod>
+        <sy:updateFrequency>4</sy:updateFrequency>
+    </channel>
+</rss>`;
+        const result = await parseFeed(rss, 'https://example.com/rss');
+
+        expect(result.ttlMinutes).toBe(90);
+        expect(result.updatePeriodMinutes).toBe(360);
+    });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RulesEngine, RuleContext } from '../lib/rules-engine';
+import { Article, AutomationRule, RuleCondition, RuleConditionGroup } from '../lib/db';
+
+const mockRules: AutomationRule[] = [];
+const mockArticles = new Map<string, Article>();
+const mockFeeds = new Map<string, { id: string; folderID?: string }>();
+const storedArticles = () => Array.from(mockArticles.values()).sort((a, b) => a.id.localeCompare(b.id));
+
+vi.mock('../lib/db', () => ({
+    db: {
+        transaction: (_mode: unknown, _tables: unknown, cb: () => unknown) => cb(),
+        rules: { filter: () => ({ toArray: () => Promise.resolve(mockRules) }) },
+        feeds: {
+            toArray: () => Promise.resolve([{ id: 'f1', folderID: 'tech' }]),
+            get: async (id: string) => mockFeeds.get(id),
+            update: async (id: string, changes: { folderID?: string }) => { mockFeeds.set(id, { ...mockFeeds.get(id)!, ...changes }); }
+        },
+        folders: { get: async (id: string) => id === 'news' ? { id, name: 'News' } : undefined },
+        articles: {
+            count: () => Promise.resolve(mockArticles.size),
+            orderBy: () => ({ limit: (n: number) => ({ toArray: () => Promise.resolve(storedArticles().slice(0, n)) }) }),
+            where: () => ({
+                above: (id: string) => ({ limit: (n: number) => ({ toArray: () => Promise.resolve(storedArticles().filter(a => a.id > id).slice(0, n)) }) })
+            }),
+            bulkPut: async (items: Article[]) => { items.forEach(a => mockArticles.set(a.id, a)); },
+            bulkDelete: async (ids: string[]) => { ids.forEach(id => mockArticles.delete(id)); },
+            bulkUpdate: async (updates: { key: string; changes: Partial<Article> }[]) => {
+                updates.forEach(({ key, changes }) => mockArticles.set(key, { ...mockArticles.get(key)!, ...changes }));
+            }
+        },
+        ruleMatches: {
+            bulkGet: async (keys: unknown[]) => keys.map(() => undefined),
+            bulkPut: async () => {},
+            bulkDelete: async () => {},
+            where: () => ({ between: () => ({ reverse: () => ({ offset: () => ({ primaryKeys: async () => [] }) }) }) })
+        }
+    }
+}));
+
+vi.mock('../lib/search-index', () => ({
+    SearchIndex: { indexArticles: vi.fn(), removeArticles: vi.fn() }
+}));
+
+vi.mock('../lib/sync-service', () => ({
+    SyncService: { queueChange: vi.fn() }
+}));
+
+const NOW = new Date('2025-06-15T12:00:00Z').getTime();
+
+const context: RuleContext = {
+    folderByFeed: new Map([['f1', 'tech'], ['f2', undefined]]),
+    now: NOW,
+};
+
+function article(overrides: Partial<Article> = {}): Article {
+    return {
+        id: 'a1',
+        feedID: 'f1',
+        title: 'Rust 2.0 released',
+        author: 'Jane Doe',
+        url: 'https://www.blog.example.com/posts/rust',
+        summary: 'The new release is here',
+        publishedAt: new Date('2025-06-15T06:00:00Z'),
+        isRead: 0,
+        isBookmarked: 0,
+        mediaKind: 'none',
+        imageCacheStatus: 0,
+        ...overrides,
+    } as Article;
+}
+
+function cond(field: RuleCondition['field'], operator: RuleCondition['operator'], value: string, caseSensitive?: boolean): RuleCondition {
+    return { kind: 'condition', id: `${field}-${operator}`, field, operator, value, caseSensitive };
+}
+
+function group(operator: RuleConditionGroup['operator'], ...children: RuleConditionGroup['children']): RuleConditionGroup {
+    return { kind: 'group', id: operator, operator, children };
+}
+
+function rule(conditions: RuleConditionGroup, scope?: AutomationRule['scope'], actions: AutomationRule['actions'] = [{ type: 'mark_read' }]): AutomationRule {
+    return { id: 'r1', name: 'Test', conditions, scope, actions, isActive: true, createdAt: new Date() };
+}
+
+describe('RulesEngine', () => {
+    it('should combine conditions with AND, OR and NOT groups', () => {
+        const conditions = group('and',
+            cond('title', 'contains', 'rust'),
+            group('or', cond('author', 'equals', 'john doe'), cond('content', 'contains', 'RELEASE')),
+            group('not', cond('media_kind', 'equals', 'podcast'))
+        );
+
+        expect(RulesEngine.matches(rule(conditions), article(), context)).toBe(true);
+        expect(RulesEngine.matches(rule(conditions), article({ mediaKind: 'podcast' }), context)).toBe(false);
+        expect(RulesEngine.matches(rule(conditions), article({ summary: 'Nothing new' }), context)).toBe(false);
+    });
+
+    it('should match regular expressions and respect case sensitivity', () => {
+        expect(RulesEngine.matches(rule(group('and', cond('title', 'matches_regex', '^rust \\d'))), article(), context)).toBe(true);
+        expect(RulesEngine.matches(rule(group('and', cond('title', 'matches_regex', '^rust', true))), article(), context)).toBe(false);
+        expect(RulesEngine.matches(rule(group('and', cond('title', 'matches_regex', '(unclosed'))), article(), context)).toBe(false);
+    });
+
+    it('should match domains including subdomains', () => {
+        expect(RulesEngine.matches(rule(group('and', cond('domain', 'equals', 'example.com'))), article(), context)).toBe(true);
+        expect(RulesEngine.matches(rule(group('and', cond('domain', 'equals', 'ample.com'))), article(), context)).toBe(false);
+        expect(RulesEngine.matches(rule(group('and', cond('domain', 'not_equals', 'example.com'))), article({ url: 'https://other.org/x' }), context)).toBe(true);
+    });
+
+    it('should compare published age in hours', () => {
+        expect(RulesEngine.matches(rule(group('and', cond('age_hours', 'less_than', '12'))), article(), context)).toBe(true);
+        expect(RulesEngine.matches(rule(group('and', cond('age_hours', 'greater_than', '12'))), article(), context)).toBe(false);
+        expect(RulesEngine.matches(rule(group('and', cond('age_hours', 'greater_than', '1'))), article({ publishedAt: undefined }), context)).toBe(false);
+    });
+
+    it('should only apply scoped rules to their feed or folder', () => {
+        const conditions = group('and', cond('title', 'contains', 'rust'));
+
+        expect(RulesEngine.matches(rule(conditions, { type: 'folder', id: 'tech' }), article(), context)).toBe(true);
+        expect(RulesEngine.matches(rule(conditions, { type: 'folder', id: 'tech' }), article({ feedID: 'f2' }), context)).toBe(false);
+        expect(RulesEngine.matches(rule(conditions, { type: 'feed', id: 'f2' }), article({ feedID: 'f2' }), context)).toBe(true);
+    });
+
+    it('should apply every action of a matching rule', async () => {
+        mockRules.splice(0, mockRules.length,
+            rule(group('and', cond('title', 'contains', 'rust')), undefined, [{ type: 'star' }, { type: 'tag', tag: ' Systems Programming ' }]),
+            { ...rule(group('and', cond('author', 'contains', 'jane')), undefined, [{ type: 'tag', tag: 'systems-programming' }, { type: 'mark_read' }]), id: 'r2' }
+        );
+
+        const [result] = await RulesEngine.applyRules([article({ tags: ['existing'] })]);
+
+        expect(result.isBookmarked).toBe(1);
+        expect(result.isRead).toBe(1);
+        expect(result.tags).toEqual(['existing', 'systems-programming']);
+        mockRules.length = 0;
+    });
+
+    it('should move the feeds of matching articles to a folder', async () => {
+        mockFeeds.clear();
+        mockFeeds.set('f1', { id: 'f1', folderID: 'tech' });
+        mockFeeds.set('f2', { id: 'f2' });
+        mockFeeds.set('f3', { id: 'f3' });
+        mockRules.splice(0, mockRules.length,
+            rule(group('and', cond('title', 'contains', 'rust')), undefined, [{ type: 'move_to_folder', folderId: 'news' }])
+        );
+
+        await RulesEngine.runActions([
+            article({ id: 'a1', feedID: 'f1' }),
+            article({ id: 'a2', feedID: 'f2' }),
+            article({ id: 'a3', feedID: 'f2' }),
+            article({ id: 'a4', feedID: 'f3', title: 'Other' }),
+        ]);
+
+        expect(mockFeeds.get('f1')!.folderID).toBe('news');
+        expect(mockFeeds.get('f2')!.folderID).toBe('news');
+        expect(mockFeeds.get('f3')!.folderID).toBeUndefined();
+        mockRules.length = 0;
+    });
+
+    it('should preview matches across chunks without changing anything', async () => {
+        mockArticles.clear();
+        for (let i = 0; i < 1200; i++) {
+            const a = article({ id: `a${String(i).padStart(4, '0')}`, title: i % 3 === 0 ? 'Rust news' : 'Other news' });
+            mockArticles.set(a.id, a);
+        }
+
+        const preview = await RulesEngine.preview(rule(group('and', cond('title', 'contains', 'rust'))), 10);
+
+        expect(preview.total).toBe(400);
+        expect(preview.articles).toHaveLength(10);
+        expect(storedArticles().every(a => a.isRead === 0)).toBe(true);
+    });
+
+    it('should apply a rule to stored articles and undo it', async () => {
+        mockArticles.clear();
+        ['a1', 'a2', 'a3'].forEach(id => mockArticles.set(id, article({ id, title: id === 'a3' ? 'Other' : 'Rust news' })));
+        mockArticles.set('a4', article({ id: 'a4', title: 'Rust sponsor' }));
+        const original = storedArticles();
+        const progress: number[] = [];
+
+        const tagRule = rule(group('and', cond('title', 'contains', 'rust')), undefined, [{ type: 'tag', tag: 'rust' }, { type: 'mark_read' }]);
+        const application = await RulesEngine.applyToExisting(tagRule, processed => progress.push(processed));
+
+        expect(mockArticles.get('a1')).toMatchObject({ isRead: 1, tags: ['rust'] });
+        expect(mockArticles.get('a3')).toMatchObject({ isRead: 0 });
+        expect(application.changed).toHaveLength(3);
+        expect(progress).toEqual([4]);
+
+        const deleteRule = rule(group('and', cond('title', 'contains', 'sponsor')), undefined, [{ type: 'delete' }]);
+        const deletion = await RulesEngine.applyToExisting(deleteRule);
+        expect(mockArticles.has('a4')).toBe(false);
+
+        await RulesEngine.undo(deletion);
+        await RulesEngine.undo(application);
+
+        expect(storedArticles()).toEqual(original);
+    });
+
+    it('should reject rules that cannot work', () => {
+        expect(RulesEngine.validate(rule(group('and', cond('title', 'contains', ''))))).toMatch(/value/);
+        expect(RulesEngine.validate(rule(group('and', cond('title', 'contains', 'x')), undefined, []))).toMatch(/action/);
+        expect(RulesEngine.validate(rule(group('and', cond('title', 'contains', 'x')), undefined, [{ type: 'webhook', url: 'ftp://x' }]))).toMatch(/URL/);
+        expect(RulesEngine.validate(rule(group('and', cond('title', 'contains', 'x')), undefined, [{ type: 'move_to_folder', folderId: '' }]))).toMatch(/folder/);
+        expect(RulesEngine.validate(rule(group('and', cond('title', 'matches_regex', '[a-'))))).toMatch(/regular expression/);
+        expect(RulesEngine.validate(rule(group('and')))).toMatch(/condition/);
+        expect(RulesEngine.validate(rule(group('and'), { type: 'feed', id: 'f1' }))).toBeNull();
+    });
+});
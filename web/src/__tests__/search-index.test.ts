@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, tokenizeQuery, indexTerms, stripHTML } from '../lib/search-index';
+
+describe('search-index', () => {
+    it('should tokenize without HTML, stopwords or accents', () => {
+        const text = stripHTML('<p>The <b>Café</b> &amp; the <a href="https://example.com/span">Bakery</a></p><script>var x = 1;</script>');
+
+        expect(tokenize(text)).toEqual(['cafe', 'bakery']);
+    });
+
+    it('should not index attribute values or tag names', () => {
+        const terms = indexTerms({ title: 'Plain', contentHTML: '<div class="sponsored"><img src="tracker.png">Body</div>' });
+
+        expect(terms.has('sponsored')).toBe(false);
+        expect(terms.has('tracker')).toBe(false);
+        expect(terms.has('div')).toBe(false);
+        expect(terms.has('body')).toBe(true);
+    });
+
+    it('should weight title matches above body matches', () => {
+        const terms = indexTerms({
+            title: 'Rust release notes',
+            contentHTML: '<p>Details about the compiler and the release.</p>',
+        });
+
+        expect(terms.get('rust')!).toBeGreaterThan(terms.get('compiler')!);
+        expect(terms.get('release')!).toBeGreaterThan(terms.get('rust')!);
+    });
+
+    it('should dampen repeated terms', () => {
+        const once = indexTerms({ title: 'x', contentHTML: 'kubernetes' }).get('kubernetes')!;
+        const many = indexTerms({ title: 'x', contentHTML: 'kubernetes '.repeat(100) }).get('kubernetes')!;
+
+        expect(many).toBeGreaterThan(once);
+        expect(many).toBeLessThan(once * 10);
+    });
+
+    it('should keep a trailing stopword in queries for prefix matching', () => {
+        expect(tokenizeQuery('history of the')).toEqual(['history', 'the']);
+        expect(tokenizeQuery('the history')).toEqual(['history']);
+        expect(tokenizeQuery('react react')).toEqual(['react']);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { matchesSmartFolder, normalizeCriteria } from '../lib/smart-folder-service';
+import { Article } from '../lib/db';
+
+vi.mock('../lib/sync-service', () => ({
+    SyncService: { queueChange: vi.fn() }
+}));
+
+vi.mock('../lib/supabase-client', () => ({
+    isSupabaseConfigured: () => false
+}));
+
+const NOW = new Date('2025-06-15T12:00:00Z').getTime();
+
+function article(overrides: Partial<Article> = {}): Article {
+    return {
+        id: 'a1',
+        feedID: 'f1',
+        title: 'Article',
+        author: 'Jane Doe',
+        publishedAt: new Date('2025-06-14T12:00:00Z'),
+        isRead: 0,
+        isBookmarked: 0,
+        mediaKind: 'none',
+        imageCacheStatus: 0,
+        ...overrides,
+    } as Article;
+}
+
+describe('smart folders', () => {
+    it('should match everything with empty criteria', () => {
+        expect(matchesSmartFolder(article({ isRead: 1 }), {}, null, NOW)).toBe(true);
+    });
+
+    it('should filter by source feeds', () => {
+        const sources = new Set(['f2']);
+
+        expect(matchesSmartFolder(article(), {}, sources, NOW)).toBe(false);
+        expect(matchesSmartFolder(article({ feedID: 'f2' }), {}, sources, NOW)).toBe(true);
+    });
+
+    it('should combine read state, bookmark, media and author criteria', () => {
+        const criteria = { readState: 'unread' as const, bookmarkedOnly: true, mediaKinds: ['podcast'], author: 'jane' };
+
+        expect(matchesSmartFolder(article({ isBookmarked: 1, mediaKind: 'podcast' }), criteria, null, NOW)).toBe(true);
+        expect(matchesSmartFolder(article({ isBookmarked: 1, mediaKind: 'podcast', isRead: 1 }), criteria, null, NOW)).toBe(false);
+        expect(matchesSmartFolder(article({ mediaKind: 'podcast' }), criteria, null, NOW)).toBe(false);
+        expect(matchesSmartFolder(article({ isBookmarked: 1 }), criteria, null, NOW)).toBe(false);
+        expect(matchesSmartFolder(article({ isBookmarked: 1, mediaKind: 'podcast', author: 'John' }), criteria, null, NOW)).toBe(false);
+    });
+
+    it('should exclude articles older than the age limit', () => {
+        const old = article({ publishedAt: new Date('2025-06-01T12:00:00Z') });
+
+        expect(matchesSmartFolder(old, { maxAgeDays: 7 }, null, NOW)).toBe(false);
+        expect(matchesSmartFolder(old, { maxAgeDays: 30 }, null, NOW)).toBe(true);
+        expect(matchesSmartFolder(article({ publishedAt: undefined }), { maxAgeDays: 30 }, null, NOW)).toBe(false);
+    });
+
+    it('should drop empty criteria when normalizing', () => {
+        expect(normalizeCriteria({
+            feedIDs: [],
+            keyword: '  rust ',
+            author: ' ',
+            mediaKinds: ['youtube'],
+            bookmarkedOnly: false,
+            maxAgeDays: 0,
+        })).toEqual({ keyword: 'rust', mediaKinds: ['youtube'] });
+    });
+});
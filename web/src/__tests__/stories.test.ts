@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { clusterStories, topicVectors } from '../lib/story-service';
+import { Article } from '../lib/db';
+
+let nextId = 0;
+const article = (title: string, summary: string, hoursAgo = 0): Article => ({
+    id: `a${nextId++}`,
+    feedID: 'feed-1',
+    title,
+    summary,
+    publishedAt: new Date(Date.UTC(2026, 2, 10, 12) - hoursAgo * 60 * 60 * 1000),
+    isRead: 0,
+    isBookmarked: 0,
+    mediaKind: 'none',
+    playbackPosition: 0,
+    downloadStatus: 0,
+    imageCacheStatus: 0,
+});
+
+const ARTICLES = [
+    article('Apple announces iPhone 18 with a bigger screen', 'Apple revealed the iPhone 18 at its September event.', 1),
+    article('Hands-on with the new iPhone 18', 'We spent an hour with the iPhone 18 and its bigger screen.', 2),
+    article('iPhone 18 prices leak ahead of the Apple event', 'Apple iPhone 18 pricing appears in a retailer listing.', 3),
+    article('Council approves new cycle lanes downtown', 'The city council voted to build cycle lanes on Main Street.', 4),
+    article('Cycle lanes on Main Street: what changes for drivers', 'Council plans for cycle lanes mean less parking downtown.', 5),
+    article('Recipe: slow-cooked lamb shoulder', 'A Sunday roast that looks after itself.', 6),
+];
+
+describe('Stories', () => {
+    it('should build unit-length vectors', () => {
+        const vectors = topicVectors(ARTICLES);
+        for (const vector of vectors.values()) {
+            const length = Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+            expect(length).toBeCloseTo(1);
+        }
+    });
+
+    it('should group articles on the same topic', () => {
+        const { stories, unclustered } = clusterStories(ARTICLES);
+
+        expect(stories).toHaveLength(2);
+        expect(stories[0].articles.map(a => a.title)).toEqual(ARTICLES.slice(0, 3).map(a => a.title));
+        expect(stories[1].articles.map(a => a.title)).toEqual(ARTICLES.slice(3, 5).map(a => a.title));
+        expect(unclustered.map(a => a.title)).toEqual(['Recipe: slow-cooked lamb shoulder']);
+    });
+
+    it('should label stories with their shared terms as written', () => {
+        const { stories } = clusterStories(ARTICLES);
+
+        expect(stories[0].label.split(' · ')).toContain('iPhone');
+        expect(stories[1].label.toLowerCase()).toMatch(/cycle|lanes/);
+        expect(stories[0].articles).toContain(stories[0].representative);
+        expect(stories[0].id).toBe(stories[0].representative.id);
+    });
+
+    it('should leave unrelated articles unclustered', () => {
+        const { stories, unclustered } = clusterStories(ARTICLES.slice(3, 6).filter((_, i) => i !== 1));
+        expect(stories).toHaveLength(0);
+        expect(unclustered).toHaveLength(2);
+    });
+});
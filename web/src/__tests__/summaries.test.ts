@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Article } from '../lib/db';
+import {
+    SummaryService,
+    articleText,
+    isLongArticle,
+    summaryBullets,
+    summaryMessages,
+    LONG_ARTICLE_WORDS,
+} from '../lib/summary-service';
+import { AIService } from '../lib/ai-service';
+
+const store = new Map<string, Article>();
+
+vi.mock('../lib/db', () => ({
+    db: {
+        articles: {
+            get: vi.fn(async (id: string) => store.get(id)),
+            bulkGet: vi.fn(async (ids: string[]) => ids.map(id => store.get(id))),
+            update: vi.fn(async (id: string, changes: Partial<Article>) => {
+                const existing = store.get(id);
+                if (existing) store.set(id, { ...existing, ...changes });
+            }),
+        },
+    },
+}));
+
+vi.mock('../lib/ai-service', () => ({
+    AIService: {
+        isConfigured: vi.fn(() => true),
+        complete: vi.fn(async () => ({ text: '- One\n- Two', model: 'mock-model', truncated: false })),
+    },
+}));
+
+vi.mock('@/store/settingsStore', () => ({
+    useSettingsStore: { getState: () => ({ summaryStyle: 'bullets' }) },
+}));
+
+function makeArticle(id: string, overrides: Partial<Article> = {}): Article {
+    const article: Article = {
+        id,
+        feedID: 'feed-1',
+        title: `Article ${id}`,
+        contentHTML: '<p>Short text.</p>',
+        isRead: 0,
+        isBookmarked: 0,
+        mediaKind: 'none',
+        imageCacheStatus: 0,
+        playbackPosition: 0,
+        downloadStatus: 0,
+        ...overrides,
+    };
+    store.set(id, article);
+    return article;
+}
+
+const longHTML = `<p>${Array(LONG_ARTICLE_WORDS).fill('word').join(' ')}</p>`;
+
+describe('Article summaries', () => {
+    beforeEach(() => {
+        store.clear();
+        vi.clearAllMocks();
+    });
+
+    it('should read the reader view first, one line per block', () => {
+        const article = makeArticle('a', {
+            contentHTML: '<p>Feed excerpt</p>',
+            readerHTML: '<h1>Title</h1><p>First   paragraph.</p><script>track()</script><ul><li>Item</li></ul>',
+        });
+        expect(articleText(article)).toBe('Title\nFirst paragraph.\nItem');
+        expect(articleText(makeArticle('b', { contentHTML: undefined, summary: 'Just a <b>summary</b>' }))).toBe('Just a summary');
+    });
+
+    it('should ask for the chosen style and cap the text sent', () => {
+        const article = makeArticle('a');
+        const [system, user] = summaryMessages(article, 'x'.repeat(50_000), 'takeaways');
+        expect(system.content).toContain('takeaways');
+        expect(user.content).toContain('Title: Article a');
+        expect(user.content.length).toBeLessThan(21_000);
+    });
+
+    it('should recognise bulleted summaries', () => {
+        expect(summaryBullets('- One\n\n* Two\n• Three')).toEqual(['One', 'Two', 'Three']);
+        expect(summaryBullets('A sentence.\n- A bullet')).toBeNull();
+    });
+
+    it('should cache summaries on the article by style', async () => {
+        const article = makeArticle('a', { aiSummaries: { tldr: { text: 'Old', model: 'm', createdAt: new Date() } } });
+
+        const summary = await SummaryService.summarize(article, 'bullets');
+        expect(summary.text).toBe('- One\n- Two');
+        expect(store.get('a')!.aiSummaries).toMatchObject({ tldr: { text: 'Old' }, bullets: { text: '- One\n- Two', model: 'mock-model' } });
+
+        await SummaryService.summarize(store.get('a')!, 'bullets');
+        expect(AIService.complete).toHaveBeenCalledTimes(1);
+
+        await SummaryService.summarize(store.get('a')!, 'bullets', true);
+        expect(AIService.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse articles without text', async () => {
+        const article = makeArticle('a', { contentHTML: '<img src="x.png">' });
+        await expect(SummaryService.summarize(article, 'tldr')).rejects.toThrow('no text');
+        expect(AIService.complete).not.toHaveBeenCalled();
+    });
+
+    it('should explain a selection with the text around it', async () => {
+        const article = makeArticle('a');
+        const fullText = 'Before the passage. The Fed raised rates by 25bp. After the passage.';
+        const start = fullText.indexOf('The Fed');
+        const end = fullText.indexOf(' After');
+
+        await SummaryService.explain(article, fullText, start, end);
+
+        const [messages] = vi.mocked(AIService.complete).mock.calls[0];
+        expect(messages[1].content).toContain('Selected passage:\nThe Fed raised rates by 25bp.');
+        expect(messages[1].content).toContain('Before the passage.');
+    });
+
+    it('should pre-generate summaries for long unread articles only', async () => {
+        makeArticle('long', { contentHTML: longHTML });
+        makeArticle('short');
+        makeArticle('read', { contentHTML: longHTML, isRead: 1 });
+        makeArticle('done', { contentHTML: longHTML, aiSummaries: { bullets: { text: '- Done', model: 'm', createdAt: new Date() } } });
+
+        expect(isLongArticle(store.get('long')!)).toBe(true);
+        expect(await SummaryService.pregenerate(['long', 'short', 'read', 'done', 'missing'])).toBe(1);
+        expect(store.get('long')!.aiSummaries?.bullets?.text).toBe('- One\n- Two');
+        expect(store.get('short')!.aiSummaries).toBeUndefined();
+    });
+
+    it('should stop pre-generating at the first failure', async () => {
+        makeArticle('one', { contentHTML: longHTML });
+        makeArticle('two', { contentHTML: longHTML });
+        vi.mocked(AIService.complete).mockRejectedValueOnce(new Error('OpenAI error 429: Rate limit reached'));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await SummaryService.pregenerate(['one', 'two'])).toBe(0);
+        expect(AIService.complete).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Article } from '../lib/db';
+import { SearchIndex } from '../lib/search-index';
+import { searchFilters } from '../hooks/useArticles';
+
+const store = new Map<string, Article>();
+
+vi.mock('../lib/db', () => ({
+    db: {
+        articles: {
+            bulkGet: vi.fn(async (ids: string[]) => ids.map(id => store.get(id))),
+        },
+    },
+}));
+
+function addArticle(id: string, tags?: string[]): Article {
+    const article: Article = {
+        id,
+        feedID: 'feed-1',
+        title: `Rust ${id}`,
+        tags,
+        isRead: 0,
+        isBookmarked: 0,
+        mediaKind: 'none',
+        imageCacheStatus: 0,
+        playbackPosition: 0,
+        downloadStatus: 0,
+    };
+    store.set(id, article);
+    return article;
+}
+
+describe('Searching within a view', () => {
+    beforeEach(() => {
+        store.clear();
+        vi.spyOn(SearchIndex, 'ensureIndexed').mockResolvedValue();
+        vi.spyOn(SearchIndex, 'score').mockImplementation(async () => new Map(Array.from(store.keys(), id => [id, 1])));
+    });
+
+    it('should limit label views to the label, not a feed', () => {
+        expect(searchFilters('label:Work')).toEqual({ label: 'Work' });
+        expect(searchFilters('0b6c3a4e-2f1d-4c8b-9e7a-5d3f1c2b4a60')).toEqual({ feedId: '0b6c3a4e-2f1d-4c8b-9e7a-5d3f1c2b4a60' });
+        expect(searchFilters('today')).toEqual({});
+    });
+
+    it('should only find articles with the label', async () => {
+        addArticle('labelled', ['work']);
+        addArticle('other', ['home']);
+        addArticle('untagged');
+
+        const results = await SearchIndex.search('rust', searchFilters('label:Work'));
+
+        expect(results.map(a => a.id)).toEqual(['labelled']);
+    });
+});
@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+    AI_PROVIDERS,
+    createAIProvider,
+    isAIProviderKind,
+    AIMessage,
+    AIProvider,
+    AIProviderKind,
+} from '@feedstream/common';
 
 /**
  * AI API Proxy Route
  *
- * Securely proxies requests to OpenAI and Gemini APIs, keeping API keys server-side.
+ * Runs chat completions against OpenAI, Gemini, Anthropic or an
+ * OpenAI-compatible server (Ollama, llama.cpp, LM Studio), keeping API keys
+ * server-side. Replies are normalized to { text, model, truncated, usage }.
  *
  * Features:
  * - Rate limiting (100 requests/minute per IP)
  * - Request size limit (100KB)
- * - Endpoint allowlist (prevents abuse)
+ * - Fixed provider URLs; the compatible server is set by AI_BASE_URL and AI_MODEL
  * - Server-side API keys with optional user override
  */
 
@@ -20,31 +30,23 @@ const MAX_REQUEST_SIZE = 100 * 1024; // 100KB
 // In-memory rate limiting store (consider Redis for production at scale)
 const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
 
-// Allowed API endpoints (prevent SSRF and abuse)
-const ALLOWED_ENDPOINTS = {
-    openai: {
-        baseUrl: 'https://api.openai.com/v1',
-        endpoints: [
-            'chat/completions',
-            'completions',
-            'embeddings',
-        ],
-    },
-    gemini: {
-        baseUrl: 'https://generativelanguage.googleapis.com/v1beta/models',
-        endpoints: [
-            'gemini-2.0-flash:generateContent',
-            'gemini-2.5-flash:generateContent',
-            'gemini-1.5-flash:generateContent',
-            'gemini-1.5-pro:generateContent',
-        ],
-    },
+// Key used when the request doesn't bring its own
+const SERVER_KEYS: Record<AIProviderKind, string | undefined> = {
+    openai: process.env.OPENAI_API_KEY,
+    gemini: process.env.GEMINI_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY,
+    'openai-compatible': process.env.AI_API_KEY,
 };
 
+const MESSAGE_ROLES = new Set(['system', 'user', 'assistant']);
+
 interface AIProxyRequest {
-    provider: 'openai' | 'gemini';
-    endpoint: string;
-    body: object;
+    provider: AIProviderKind;
+    messages: AIMessage[];
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    json?: boolean;
     useServerKey?: boolean;
 }
 
@@ -91,21 +93,10 @@ setInterval(() => {
     }
 }, 60_000); // Clean every minute
 
-function validateEndpoint(provider: 'openai' | 'gemini', endpoint: string): boolean {
-    const config = ALLOWED_ENDPOINTS[provider];
-    if (!config) return false;
-    return config.endpoints.some(allowed => endpoint === allowed || endpoint.startsWith(allowed.split(':')[0]));
-}
-
-function buildTargetUrl(provider: 'openai' | 'gemini', endpoint: string, apiKey?: string): string {
-    const config = ALLOWED_ENDPOINTS[provider];
-
-    if (provider === 'openai') {
-        return `${config.baseUrl}/${endpoint}`;
-    } else {
-        // Gemini uses query param for API key
-        return `${config.baseUrl}/${endpoint}${apiKey ? `?key=${apiKey}` : ''}`;
-    }
+function validateMessages(messages: unknown): messages is AIMessage[] {
+    return Array.isArray(messages) && messages.length > 0 && messages.every(m =>
+        m && typeof m === 'object' && MESSAGE_ROLES.has(m.role) && typeof m.content === 'string'
+    );
 }
 
 export async function POST(request: NextRequest) {
@@ -141,79 +132,72 @@ export async function POST(request: NextRequest) {
         const body = await request.json() as AIProxyRequest;
 
         // Validate required fields
-        if (!body.provider || !body.endpoint || !body.body) {
+        if (!body.provider || !body.messages) {
             return NextResponse.json(
-                { error: 'Missing required fields: provider, endpoint, body' },
+                { error: 'Missing required fields: provider, messages' },
                 { status: 400 }
             );
         }
 
         // Validate provider
-        if (body.provider !== 'openai' && body.provider !== 'gemini') {
+        if (!isAIProviderKind(body.provider)) {
             return NextResponse.json(
-                { error: 'Invalid provider. Must be "openai" or "gemini".' },
+                { error: `Invalid provider. Must be one of: ${Object.keys(AI_PROVIDERS).join(', ')}.` },
                 { status: 400 }
             );
         }
 
-        // Validate endpoint (prevent SSRF/abuse)
-        if (!validateEndpoint(body.provider, body.endpoint)) {
+        if (!validateMessages(body.messages)) {
             return NextResponse.json(
-                { error: `Endpoint "${body.endpoint}" is not allowed for provider "${body.provider}".` },
-                { status: 403 }
+                { error: 'Messages must be a non-empty list of { role, content }' },
+                { status: 400 }
             );
         }
 
-        // Determine API key (server > user-provided header)
-        let apiKey: string | undefined;
+        // Determine API key (user-provided header unless the server key is requested)
         const userApiKey = request.headers.get('x-api-key');
-
-        if (body.provider === 'openai') {
-            // Priority: Server env key > User-provided header
-            apiKey = (!body.useServerKey && userApiKey) ? userApiKey : process.env.OPENAI_API_KEY;
-        } else {
-            apiKey = (!body.useServerKey && userApiKey) ? userApiKey : process.env.GEMINI_API_KEY;
-        }
-
-        if (!apiKey) {
+        const apiKey = (!body.useServerKey && userApiKey) ? userApiKey : SERVER_KEYS[body.provider];
+        const isCompatible = body.provider === 'openai-compatible';
+
+        let provider: AIProvider;
+        try {
+            provider = createAIProvider({
+                provider: body.provider,
+                apiKey,
+                // The compatible server's address comes only from the server env (prevents SSRF)
+                baseUrl: isCompatible ? process.env.AI_BASE_URL : undefined,
+                model: isCompatible ? process.env.AI_MODEL || body.model : undefined,
+            });
+        } catch (error) {
             return NextResponse.json(
-                { error: `No API key available for ${body.provider}. Configure server key or provide via x-api-key header.` },
-                { status: 401 }
+                { error: error instanceof Error ? error.message : 'AI provider not configured' },
+                { status: apiKey || isCompatible ? 400 : 401 }
             );
         }
 
-        // Build target URL
-        const targetUrl = buildTargetUrl(body.provider, body.endpoint, body.provider === 'gemini' ? apiKey : undefined);
-
-        // Build headers
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
+        const rateLimitHeaders = {
+            'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
+            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+            'X-RateLimit-Reset': Math.ceil(rateLimit.resetAt / 1000).toString(),
         };
 
-        if (body.provider === 'openai') {
-            headers['Authorization'] = `Bearer ${apiKey}`;
+        try {
+            const completion = await provider.complete({
+                messages: body.messages,
+                model: body.model,
+                maxTokens: body.maxTokens,
+                temperature: body.temperature,
+                json: body.json,
+            });
+            return NextResponse.json(completion, { headers: rateLimitHeaders });
+        } catch (error) {
+            // Provider failures already carry a readable message
+            return NextResponse.json(
+                { error: error instanceof Error ? error.message : 'AI request failed' },
+                { status: 502, headers: rateLimitHeaders }
+            );
         }
 
-        // Make the proxied request
-        const response = await fetch(targetUrl, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(body.body),
-        });
-
-        // Get response data
-        const responseData = await response.json();
-
-        // Return response with rate limit headers
-        return NextResponse.json(responseData, {
-            status: response.ok ? 200 : response.status,
-            headers: {
-                'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-                'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-                'X-RateLimit-Reset': Math.ceil(rateLimit.resetAt / 1000).toString(),
-            },
-        });
-
     } catch (error) {
         console.error('AI Proxy Error:', error);
 
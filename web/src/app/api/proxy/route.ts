@@ -21,6 +21,9 @@ export async function GET(request: NextRequest) {
         let currentUrl = url;
         let response: Response | null = null;
         let redirects = 5;
+        // A chain only counts as a permanent move if every hop was 301/308
+        let redirected = false;
+        let permanentRedirect = true;
 
         // Build headers - include conditional headers for smart caching
         const headers: Record<string, string> = {
@@ -35,11 +38,28 @@ export async function GET(request: NextRequest) {
         if (ifNoneMatch) headers['If-None-Match'] = ifNoneMatch;
         if (ifModifiedSince) headers['If-Modified-Since'] = ifModifiedSince;
 
+        // Per-feed overrides for sites that block unknown agents or need a session
+        const userAgent = request.headers.get('x-proxy-user-agent');
+        const cookie = request.headers.get('x-proxy-cookie');
+        if (userAgent) headers['User-Agent'] = userAgent;
+        // Responses made with the user's cookie must not land in shared caches
+        const cacheControl = cookie ? 'private, no-store' : 's-maxage=60, stale-while-revalidate=300';
+        const cookieHost = new URL(url).host;
+
         while (redirects > 0) {
-            response = await fetch(currentUrl, {
-                headers,
-                redirect: 'manual', // CRITICAL: Stop auto-following
-            });
+            // The cookie only goes to the host it was configured for, not to redirect targets
+            const sendCookie = cookie && new URL(currentUrl).host === cookieHost;
+            try {
+                response = await fetch(currentUrl, {
+                    headers: sendCookie ? { ...headers, 'Cookie': cookie } : headers,
+                    redirect: 'manual', // CRITICAL: Stop auto-following
+                });
+            } catch (error) {
+                // DNS failures, refused connections etc. Reported apart from redirect
+                // loops so feed health doesn't mistake them for a moved feed.
+                const code = (error as { cause?: { code?: string } }).cause?.code;
+                return NextResponse.json({ error: code ? `Fetch failed: ${code}` : 'Fetch failed' }, { status: 502 });
+            }
 
             // Check for redirect status codes
             if (response.status >= 300 && response.status < 400) {
@@ -55,6 +75,11 @@ export async function GET(request: NextRequest) {
                     return NextResponse.json({ error: 'Redirect to private resource blocked' }, { status: 403 });
                 }
 
+                redirected = true;
+                if (response.status !== 301 && response.status !== 308) {
+                    permanentRedirect = false;
+                }
+
                 currentUrl = resolvedUrl;
                 redirects--;
                 continue;
@@ -65,13 +90,29 @@ export async function GET(request: NextRequest) {
         }
 
         if (!response || redirects === 0) {
-            return NextResponse.json({ error: 'Too many redirects or fetch failed' }, { status: 502 });
+            return NextResponse.json({ error: 'Too many redirects' }, { status: 502 });
         }
 
+        // Upstream freshness hints, exposed under separate names because our own
+        // Cache-Control governs the proxy response. Used for adaptive refresh intervals.
+        const upstreamCacheControl = response.headers.get('cache-control');
+        const upstreamExpires = response.headers.get('expires');
+
+        // Report where we ended up so clients can migrate permanently moved feeds
+        const setUpstreamHeaders = (responseHeaders: Headers) => {
+            if (upstreamCacheControl) responseHeaders.set('X-Upstream-Cache-Control', upstreamCacheControl);
+            if (upstreamExpires) responseHeaders.set('X-Upstream-Expires', upstreamExpires);
+            if (redirected) {
+                responseHeaders.set('X-Final-URL', currentUrl);
+                responseHeaders.set('X-Redirect-Permanent', String(permanentRedirect));
+            }
+        };
+
         // Handle 304 Not Modified - pass through for smart caching
         if (response.status === 304) {
             const responseHeaders = new Headers();
-            responseHeaders.set('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+            responseHeaders.set('Cache-Control', cacheControl);
+            setUpstreamHeaders(responseHeaders);
             return new NextResponse(null, { status: 304, headers: responseHeaders });
         }
 
@@ -87,13 +128,14 @@ export async function GET(request: NextRequest) {
 
         const responseHeaders = new Headers();
         responseHeaders.set('Content-Type', contentType);
-        responseHeaders.set('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+        responseHeaders.set('Cache-Control', cacheControl);
 
         // Preserve caching headers for smart feed refresh
         const etag = response.headers.get('etag');
         const lastModified = response.headers.get('last-modified');
         if (etag) responseHeaders.set('ETag', etag);
         if (lastModified) responseHeaders.set('Last-Modified', lastModified);
+        setUpstreamHeaders(responseHeaders);
 
         return new NextResponse(text, { headers: responseHeaders });
 
@@ -1,12 +1,25 @@
 'use client';
 
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db, Feed, Folder } from '@/lib/db';
+import { db, Feed, FeedReaderSettings, Folder } from '@/lib/db';
 import { useState } from 'react';
-import { Trash2, FolderPlus, ArrowLeft, MoreVertical, FolderOpen, Rss, Play, Radio, MoveRight, Check, X, Edit2, MessageCircle, Sparkles } from 'lucide-react';
+import { Trash2, FolderPlus, ArrowLeft, MoreVertical, FolderOpen, Rss, Play, Radio, MoveRight, Check, X, Edit2, MessageCircle, Sparkles, AlertTriangle, RefreshCw, ChevronDown, ChevronRight, BookOpen, Globe, Eye } from 'lucide-react';
 import Link from 'next/link';
 import { clsx } from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
 import { uuidv4 } from '@/lib/utils';
+import { FeedService } from '@/lib/feed-service';
+import { LONG_ARTICLE_WORDS } from '@/lib/summary-service';
+import { classifyFeedError, describeFeedErrorKind, isSupportedSelector } from '@feedstream/common';
+
+// Feeds with this many consecutive failures (or removed by the publisher) are listed as broken
+const BROKEN_FEED_THRESHOLD = 3;
+
+function isBroken(feed: Feed): boolean {
+    if (!feed.consecutiveFailures) return false;
+    return feed.consecutiveFailures >= BROKEN_FEED_THRESHOLD || classifyFeedError(feed.lastError) === 'gone';
+}
 
 export default function ManageFeedsPage() {
     const feeds = useLiveQuery(() => db.feeds.toArray()) || [];
@@ -19,8 +32,7 @@ export default function ManageFeedsPage() {
 
     const handleDeleteFeed = async (feedId: string) => {
         if (!confirm('Delete this feed and all its articles?')) return;
-        await db.articles.where('feedID').equals(feedId).delete();
-        await db.feeds.delete(feedId);
+        await FeedService.deleteFeed(feedId);
     };
 
     const handleDeleteFolder = async (folderId: string) => {
@@ -50,6 +62,7 @@ export default function ManageFeedsPage() {
     };
 
     const rootFeeds = feeds.filter(f => !f.folderID);
+    const brokenFeeds = feeds.filter(isBroken);
 
     const [showBulkRenameModal, setShowBulkRenameModal] = useState(false);
     const [findText, setFindText] = useState('');
@@ -190,6 +203,11 @@ export default function ManageFeedsPage() {
                 )}
 
                 <div className="max-w-2xl mx-auto space-y-6">
+                    {/* Broken Feeds */}
+                    {brokenFeeds.length > 0 && (
+                        <BrokenFeedsSection feeds={brokenFeeds} onDeleteFeed={handleDeleteFeed} />
+                    )}
+
                     {/* Folders */}
                     {folders.map(folder => (
                         <FolderGroup
@@ -304,12 +322,15 @@ function FeedRow({ feed, onDelete, onMove, isLast }: { feed: Feed; onDelete: ()
         if (feed.type === 'youtube') return Play;
         if (feed.type === 'podcast') return Radio;
         if (feed.type === 'reddit') return MessageCircle;
+        if (feed.type === 'html') return Globe;
+        if (feed.type === 'watch') return Eye;
         return Rss;
     };
     const Icon = getIcon();
     const [showMenu, setShowMenu] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
     const [editTitle, setEditTitle] = useState(feed.title);
+    const [showReaderSettings, setShowReaderSettings] = useState(false);
 
     const handleTypeChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
         await db.feeds.update(feed.id, { type: e.target.value as any });
@@ -368,6 +389,8 @@ function FeedRow({ feed, onDelete, onMove, isLast }: { feed: Feed; onDelete: ()
                                 <option value="podcast">Podcast</option>
                                 <option value="youtube">YouTube</option>
                                 <option value="reddit">Reddit</option>
+                                {feed.htmlSelectors && <option value="html">Web Page</option>}
+                                {feed.pageWatch && <option value="watch">Watched Page</option>}
                             </select>
                         </div>
                     </>
@@ -384,6 +407,16 @@ function FeedRow({ feed, onDelete, onMove, isLast }: { feed: Feed; onDelete: ()
                     >
                         <Edit2 size={16} />
                     </button>
+                    <button
+                        onClick={() => setShowReaderSettings(true)}
+                        className={clsx(
+                            "p-2 rounded-full hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors",
+                            feed.readerSettings ? "text-brand" : "text-zinc-400 hover:text-zinc-900 dark:hover:text-white"
+                        )}
+                        title="Reader Settings"
+                    >
+                        <BookOpen size={16} />
+                    </button>
                     <button onClick={onMove} className="p-2 text-zinc-400 hover:text-brand rounded-full hover:bg-brand/10 transition-colors" title="Move">
                         <MoveRight size={16} />
                     </button>
@@ -413,6 +446,12 @@ function FeedRow({ feed, onDelete, onMove, isLast }: { feed: Feed; onDelete: ()
                                 >
                                     <Edit2 size={16} /> Rename Feed
                                 </button>
+                                <button
+                                    onClick={() => { setShowMenu(false); setShowReaderSettings(true); }}
+                                    className="w-full text-left px-4 py-3 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 flex items-center gap-2"
+                                >
+                                    <BookOpen size={16} /> Reader Settings
+                                </button>
                                 <button
                                     onClick={() => { setShowMenu(false); onMove(); }}
                                     className="w-full text-left px-4 py-3 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 flex items-center gap-2"
@@ -430,10 +469,159 @@ function FeedRow({ feed, onDelete, onMove, isLast }: { feed: Feed; onDelete: ()
                     )}
                 </div>
             )}
+
+            {showReaderSettings && (
+                <ReaderSettingsModal feed={feed} onClose={() => setShowReaderSettings(false)} />
+            )}
         </li>
     );
 }
 
+function ReaderSettingsModal({ feed, onClose }: { feed: Feed; onClose: () => void }) {
+    const current = feed.readerSettings ?? {};
+    const [alwaysFullText, setAlwaysFullText] = useState(!!current.alwaysFullText);
+    const [stripImages, setStripImages] = useState(!!current.stripImages);
+    const [autoSummarize, setAutoSummarize] = useState(!!current.autoSummarize);
+    const [contentSelector, setContentSelector] = useState(current.contentSelector ?? '');
+    const [removeSelector, setRemoveSelector] = useState(current.removeSelector ?? '');
+    const [userAgent, setUserAgent] = useState(current.userAgent ?? '');
+    const [cookie, setCookie] = useState(current.cookie ?? '');
+
+    const invalidContent = !!contentSelector.trim() && !isSupportedSelector(contentSelector);
+    const invalidRemove = !!removeSelector.trim() && !isSupportedSelector(removeSelector);
+
+    const handleSave = async () => {
+        if (invalidContent || invalidRemove) return;
+
+        const settings: FeedReaderSettings = {
+            ...(alwaysFullText && { alwaysFullText }),
+            ...(stripImages && { stripImages }),
+            ...(autoSummarize && { autoSummarize }),
+            ...(contentSelector.trim() && { contentSelector: contentSelector.trim() }),
+            ...(removeSelector.trim() && { removeSelector: removeSelector.trim() }),
+            ...(userAgent.trim() && { userAgent: userAgent.trim() }),
+            ...(cookie.trim() && { cookie: cookie.trim() }),
+        };
+        await db.feeds.update(feed.id, { readerSettings: Object.keys(settings).length > 0 ? settings : undefined });
+
+        // Reader content cached under the old rules is extracted again on next open
+        const rulesChanged = settings.contentSelector !== current.contentSelector
+            || settings.removeSelector !== current.removeSelector
+            || !!settings.stripImages !== !!current.stripImages;
+        if (rulesChanged) {
+            await db.articles.where('feedID').equals(feed.id).modify(article => {
+                delete article.readerHTML;
+                delete article.contentPrefetchedAt;
+            });
+        }
+
+        toast.success('Reader settings saved');
+        onClose();
+    };
+
+    const inputClass = "w-full px-3 py-2 text-sm rounded-lg border bg-white dark:bg-zinc-800 font-mono";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-zinc-900 rounded-xl w-full max-w-md shadow-xl max-h-[90vh] flex flex-col">
+                <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
+                    <h3 className="font-semibold">Reader Settings</h3>
+                    <p className="text-xs text-zinc-500 truncate">{feed.title}</p>
+                </div>
+                <div className="p-4 space-y-4 overflow-y-auto">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input type="checkbox" checked={alwaysFullText} onChange={e => setAlwaysFullText(e.target.checked)} className="mt-1" />
+                        <span>
+                            <span className="text-sm font-medium block">Always fetch full article</span>
+                            <span className="text-xs text-zinc-500">Download the article page on refresh, for feeds that only include a summary</span>
+                        </span>
+                    </label>
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input type="checkbox" checked={stripImages} onChange={e => setStripImages(e.target.checked)} className="mt-1" />
+                        <span>
+                            <span className="text-sm font-medium block">Strip images</span>
+                            <span className="text-xs text-zinc-500">Remove images from article content</span>
+                        </span>
+                    </label>
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input type="checkbox" checked={autoSummarize} onChange={e => setAutoSummarize(e.target.checked)} className="mt-1" />
+                        <span>
+                            <span className="text-sm font-medium block">Summarize long articles</span>
+                            <span className="text-xs text-zinc-500">Generate AI summaries on refresh for unread articles over {LONG_ARTICLE_WORDS} words, in your preferred summary style</span>
+                        </span>
+                    </label>
+
+                    <div>
+                        <label className="text-sm font-medium block mb-1">Content selector</label>
+                        <input
+                            type="text"
+                            placeholder="article .entry-content"
+                            value={contentSelector}
+                            onChange={e => setContentSelector(e.target.value)}
+                            className={clsx(inputClass, invalidContent ? "border-red-500" : "border-zinc-200 dark:border-zinc-700")}
+                        />
+                        <p className={clsx("text-xs mt-1", invalidContent ? "text-red-500" : "text-zinc-500")}>
+                            {invalidContent
+                                ? 'Use tag, #id, .class and [attribute] selectors, combined with spaces, > or commas'
+                                : 'CSS selector for the article body. Leave empty to detect it automatically.'}
+                        </p>
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium block mb-1">Remove selector</label>
+                        <input
+                            type="text"
+                            placeholder=".newsletter-signup, .related-posts"
+                            value={removeSelector}
+                            onChange={e => setRemoveSelector(e.target.value)}
+                            className={clsx(inputClass, invalidRemove ? "border-red-500" : "border-zinc-200 dark:border-zinc-700")}
+                        />
+                        <p className={clsx("text-xs mt-1", invalidRemove ? "text-red-500" : "text-zinc-500")}>
+                            {invalidRemove
+                                ? 'Use tag, #id, .class and [attribute] selectors, combined with spaces, > or commas'
+                                : 'Elements to drop from the article, in the page and in the feed\'s own content'}
+                        </p>
+                    </div>
+
+                    <div>
+                        <label className="text-sm font-medium block mb-1">User agent</label>
+                        <input
+                            type="text"
+                            placeholder="Default browser user agent"
+                            value={userAgent}
+                            onChange={e => setUserAgent(e.target.value)}
+                            className={clsx(inputClass, "border-zinc-200 dark:border-zinc-700")}
+                        />
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium block mb-1">Cookie</label>
+                        <input
+                            type="password"
+                            placeholder="name=value; other=value"
+                            value={cookie}
+                            onChange={e => setCookie(e.target.value)}
+                            className={clsx(inputClass, "border-zinc-200 dark:border-zinc-700")}
+                            autoComplete="off"
+                        />
+                        <p className="text-xs text-zinc-500 mt-1">Sent when fetching this feed and its articles, but not to sites they redirect to. Useful for a subscriber session. Stored on this device and in backups.</p>
+                    </div>
+                </div>
+                <div className="p-3 border-t border-zinc-200 dark:border-zinc-800 flex gap-2">
+                    <button onClick={onClose} className="flex-1 py-2 text-zinc-500 hover:text-zinc-900 dark:hover:text-white rounded-lg border border-zinc-200 dark:border-zinc-700">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={invalidContent || invalidRemove}
+                        className="flex-1 py-2 bg-brand text-white rounded-lg font-medium hover:brightness-110 disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
 function FolderGroup({ folder, feeds, onDeleteFolder, onDeleteFeed, onMoveFeed }: { 
     folder: Folder; 
     feeds: Feed[]; 
@@ -544,3 +732,123 @@ function FolderGroup({ folder, feeds, onDeleteFolder, onDeleteFeed, onMoveFeed }
         </div>
     );
 }
+
+function BrokenFeedsSection({ feeds, onDeleteFeed }: { feeds: Feed[]; onDeleteFeed: (id: string) => void }) {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-xl border border-amber-300/60 dark:border-amber-700/40">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className={clsx(
+                    "w-full px-4 py-3 bg-amber-50 dark:bg-amber-900/20 flex items-center gap-3 text-left rounded-t-xl",
+                    !isExpanded && "rounded-b-xl"
+                )}
+            >
+                <AlertTriangle size={18} className="text-amber-500" />
+                <span className="font-medium flex-1">Broken Feeds</span>
+                <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                    {feeds.length}
+                </span>
+                {isExpanded ? <ChevronDown size={16} className="text-zinc-400" /> : <ChevronRight size={16} className="text-zinc-400" />}
+            </button>
+            {isExpanded && (
+                <ul>
+                    {feeds.map(feed => (
+                        <BrokenFeedRow key={feed.id} feed={feed} onDelete={() => onDeleteFeed(feed.id)} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+function BrokenFeedRow({ feed, onDelete }: { feed: Feed; onDelete: () => void }) {
+    const [isRetrying, setIsRetrying] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+
+    const kind = classifyFeedError(feed.lastError);
+    const nextRetry = FeedService.nextRetryAt(feed);
+    const history = [...(feed.history || [])].reverse();
+
+    const handleRetry = async () => {
+        setIsRetrying(true);
+        try {
+            await FeedService.refreshFeed(feed);
+            const updated = await db.feeds.get(feed.id);
+            if (updated && !updated.consecutiveFailures) {
+                toast.success(`${feed.title} is working again`);
+            } else {
+                toast.error(updated?.lastError || 'Retry failed');
+            }
+        } finally {
+            setIsRetrying(false);
+        }
+    };
+
+    return (
+        <li className="px-4 py-3 border-t border-zinc-100 dark:border-zinc-800 first:border-t-0 last:rounded-b-xl">
+            <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">{feed.title}</p>
+                    <p className="text-xs text-zinc-500 truncate">{feed.feedURL}</p>
+                    <p className="text-xs mt-1 text-amber-600 dark:text-amber-400">
+                        {describeFeedErrorKind(kind)}
+                        {feed.lastError && <span className="text-zinc-500"> · {feed.lastError}</span>}
+                    </p>
+                    <p className="text-xs text-zinc-400">
+                        {feed.consecutiveFailures} failed attempts
+                        {nextRetry && (
+                            nextRetry.getTime() > Date.now()
+                                ? ` · next retry ${formatDistanceToNow(nextRetry, { addSuffix: true })}`
+                                : ' · retry pending'
+                        )}
+                    </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <button
+                        onClick={handleRetry}
+                        disabled={isRetrying}
+                        className="p-2 text-zinc-400 hover:text-brand rounded-full hover:bg-brand/10 transition-colors disabled:opacity-50"
+                        title="Retry Now"
+                    >
+                        <RefreshCw size={16} className={clsx(isRetrying && "animate-spin")} />
+                    </button>
+                    <button onClick={onDelete} className="p-2 text-zinc-400 hover:text-red-500 rounded-full hover:bg-red-500/10 transition-colors" title="Unsubscribe">
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            </div>
+
+            {history.length > 0 && (
+                <div className="mt-2">
+                    <button
+                        onClick={() => setShowHistory(!showHistory)}
+                        className="text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-white flex items-center gap-1"
+                    >
+                        {showHistory ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        History
+                    </button>
+                    {showHistory && (
+                        <ul className="mt-1 space-y-1 text-xs border-l-2 border-zinc-200 dark:border-zinc-700 pl-3">
+                            {history.map((entry, index) => (
+                                <li key={`${entry.at}-${index}`} className="flex gap-2">
+                                    <span className="text-zinc-400 shrink-0">
+                                        {formatDistanceToNow(new Date(entry.at), { addSuffix: true })}
+                                    </span>
+                                    <span className={clsx(
+                                        entry.type === 'error' && "text-red-500",
+                                        entry.type === 'recovered' && "text-emerald-500",
+                                        entry.type === 'moved' && "text-blue-500"
+                                    )}>
+                                        {entry.message}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </li>
+    );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import { SmartFolderService } from '@/lib/smart-folder-service';
+import { ArticleList } from '@/components/ArticleList';
+import { SmartFolderEditor } from '@/components/SmartFolderEditor';
+import { ArrowLeft, Sparkles, Pencil, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+
+export default function SmartFolderPage() {
+    const params = useParams();
+    const router = useRouter();
+    const id = params.id as string;
+    const [isEditing, setIsEditing] = useState(false);
+
+    const folder = useLiveQuery(() => db.smartFolders.get(id), [id]);
+    const articles = useLiveQuery(
+        () => folder ? SmartFolderService.getArticles(folder.criteria) : Promise.resolve(undefined),
+        [folder]
+    );
+
+    const handleDelete = async () => {
+        if (!folder || !confirm(`Delete smart folder "${folder.name}"? Articles are not affected.`)) return;
+        await SmartFolderService.delete(folder.id);
+        toast.success('Smart folder deleted');
+        router.push('/');
+    };
+
+    if (!folder) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-zinc-50 dark:bg-zinc-950">
+                <div className="text-zinc-400">Loading smart folder...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-screen flex flex-col bg-zinc-50 dark:bg-zinc-950">
+            <header className="header-blur sticky top-0 z-30 border-b border-zinc-200/50 dark:border-zinc-800/50">
+                <div className="h-14 flex items-center gap-3 px-4 sm:px-6">
+                    <Link
+                        href="/"
+                        className="p-2 -ml-2 rounded-full text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors md:hidden"
+                    >
+                        <ArrowLeft size={20} />
+                    </Link>
+                    <Sparkles className="text-brand" size={20} />
+                    <div className="flex-1 min-w-0">
+                        <h1 className="text-lg font-bold tracking-tight truncate">{folder.name}</h1>
+                        <p className="text-xs text-zinc-500">{articles?.length || 0} articles</p>
+                    </div>
+                    <button
+                        onClick={() => setIsEditing(true)}
+                        className="p-2 rounded-full text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Edit smart folder"
+                    >
+                        <Pencil size={18} />
+                    </button>
+                    <button
+                        onClick={handleDelete}
+                        className="p-2 rounded-full text-zinc-500 hover:text-red-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Delete smart folder"
+                    >
+                        <Trash2 size={18} />
+                    </button>
+                </div>
+            </header>
+            <div className="flex-1 overflow-hidden">
+                {articles && articles.length > 0 ? (
+                    <ArticleList articles={articles} />
+                ) : (
+                    <div className="flex flex-col items-center justify-center h-full text-zinc-400 gap-2">
+                        <Sparkles size={48} className="opacity-20" />
+                        <p>{articles ? 'No articles match this smart folder' : 'Loading...'}</p>
+                    </div>
+                )}
+            </div>
+
+            {isEditing && (
+                <SmartFolderEditor isOpen folder={folder} onClose={() => setIsEditing(false)} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { formatDistanceToNow } from 'date-fns';
+import { clsx } from 'clsx';
+import { Highlighter, Trash2, ExternalLink, Search } from 'lucide-react';
+import { Highlight } from '@/lib/db';
+import { HighlightService } from '@/lib/highlight-service';
+import { AppHeader } from '@/components/AppHeader';
+
+const COLOR_BARS: Record<Highlight['color'], string> = {
+    yellow: 'border-yellow-400',
+    green: 'border-green-400',
+    blue: 'border-blue-400',
+    pink: 'border-pink-400',
+};
+
+interface HighlightGroup {
+    key: string;
+    title: string;
+    articleID: string;
+    articleURL?: string;
+    highlights: Highlight[];
+}
+
+export default function HighlightsPage() {
+    const [query, setQuery] = useState('');
+    const highlights = useLiveQuery(() => HighlightService.all());
+
+    // Grouped by article, newest highlight first
+    const groups = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        const byArticle = new Map<string, HighlightGroup>();
+
+        for (const highlight of highlights ?? []) {
+            if (needle && !`${highlight.text}\n${highlight.note ?? ''}\n${highlight.articleTitle}`.toLowerCase().includes(needle)) continue;
+
+            const key = highlight.articleURL || highlight.articleID;
+            const group = byArticle.get(key) ?? {
+                key,
+                title: highlight.articleTitle,
+                articleID: highlight.articleID,
+                articleURL: highlight.articleURL,
+                highlights: [],
+            };
+            group.highlights.push(highlight);
+            byArticle.set(key, group);
+        }
+        return Array.from(byArticle.values());
+    }, [highlights, query]);
+
+    return (
+        <div className="h-screen flex flex-col bg-zinc-50 dark:bg-zinc-950">
+            <AppHeader
+                title="Highlights"
+                icon={<Highlighter className="text-brand" size={20} />}
+            />
+            <div className="flex-1 overflow-y-auto">
+                <div className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+                    {highlights && highlights.length > 0 && (
+                        <div className="relative">
+                            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" />
+                            <input
+                                type="text"
+                                value={query}
+                                onChange={e => setQuery(e.target.value)}
+                                placeholder="Search highlights and notes..."
+                                className="w-full bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-brand outline-none"
+                            />
+                        </div>
+                    )}
+
+                    {groups.map(group => (
+                        <section key={group.key} className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-4 space-y-4">
+                            <div className="flex items-start justify-between gap-3">
+                                {group.articleID ? (
+                                    <Link href={`/article/${group.articleID}`} className="font-semibold hover:text-brand transition-colors">
+                                        {group.title}
+                                    </Link>
+                                ) : (
+                                    <span className="font-semibold">{group.title}</span>
+                                )}
+                                {group.articleURL && (
+                                    <a href={group.articleURL} target="_blank" rel="noopener noreferrer" className="p-1 text-zinc-400 hover:text-brand shrink-0" title="Open original">
+                                        <ExternalLink size={16} />
+                                    </a>
+                                )}
+                            </div>
+
+                            {group.highlights.map(highlight => (
+                                <div key={highlight.id} className="group flex gap-3">
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        <blockquote className={clsx("border-l-4 pl-3 text-zinc-700 dark:text-zinc-300", COLOR_BARS[highlight.color])}>
+                                            {highlight.text}
+                                        </blockquote>
+                                        {highlight.note && (
+                                            <p className="pl-4 text-sm text-zinc-500 dark:text-zinc-400 whitespace-pre-wrap">{highlight.note}</p>
+                                        )}
+                                        <p className="pl-4 text-xs text-zinc-400">
+                                            {formatDistanceToNow(highlight.createdAt, { addSuffix: true })}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => HighlightService.delete(highlight.id)}
+                                        className="self-start p-1.5 rounded-lg text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                        title="Remove highlight"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            ))}
+                        </section>
+                    ))}
+
+                    {highlights && groups.length === 0 && (
+                        <div className="flex flex-col items-center justify-center py-24 text-zinc-400 gap-2">
+                            <Highlighter size={48} className="opacity-20" />
+                            <p>{highlights.length === 0 ? 'Select text in an article to highlight it' : 'No highlights match your search'}</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
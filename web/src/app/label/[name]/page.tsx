@@ -0,0 +1,88 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { normalizeLabel } from '@feedstream/common';
+import { LabelService } from '@/lib/label-service';
+import { useArticles } from '@/hooks/useArticles';
+import { ArticleList } from '@/components/ArticleList';
+import { ArrowLeft, Tag, Pencil, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+
+export default function LabelPage() {
+    const params = useParams();
+    const router = useRouter();
+    const name = normalizeLabel(decodeURIComponent(params.name as string));
+
+    const local = useLiveQuery(() => LabelService.articles(name), [name]);
+    const { articles: remote } = useArticles(`label:${name}`);
+
+    // Local articles first; backend copies of the same article are dropped by URL
+    const articles = useMemo(() => {
+        if (!local) return undefined;
+        const seen = new Set(local.map(a => a.url || a.id));
+        const extra = (remote ?? []).filter(a => !seen.has(a.url || a.id));
+        return [...local, ...extra];
+    }, [local, remote]);
+
+    const handleRename = async () => {
+        const newName = prompt('Rename label', name);
+        if (!newName || normalizeLabel(newName) === name) return;
+        await LabelService.rename(name, newName);
+        toast.success('Label renamed');
+        router.replace(`/label/${encodeURIComponent(normalizeLabel(newName))}`);
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(`Remove the label "${name}" from every article? Articles are not deleted.`)) return;
+        await LabelService.remove(name);
+        toast.success('Label removed');
+        router.push('/');
+    };
+
+    return (
+        <div className="h-screen flex flex-col bg-zinc-50 dark:bg-zinc-950">
+            <header className="header-blur sticky top-0 z-30 border-b border-zinc-200/50 dark:border-zinc-800/50">
+                <div className="h-14 flex items-center gap-3 px-4 sm:px-6">
+                    <Link
+                        href="/"
+                        className="p-2 -ml-2 rounded-full text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors md:hidden"
+                    >
+                        <ArrowLeft size={20} />
+                    </Link>
+                    <Tag className="text-brand" size={20} />
+                    <div className="flex-1 min-w-0">
+                        <h1 className="text-lg font-bold tracking-tight truncate">{name}</h1>
+                        <p className="text-xs text-zinc-500">{articles?.length || 0} articles</p>
+                    </div>
+                    <button
+                        onClick={handleRename}
+                        className="p-2 rounded-full text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Rename label"
+                    >
+                        <Pencil size={18} />
+                    </button>
+                    <button
+                        onClick={handleDelete}
+                        className="p-2 rounded-full text-zinc-500 hover:text-red-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="Remove label"
+                    >
+                        <Trash2 size={18} />
+                    </button>
+                </div>
+            </header>
+            <div className="flex-1 overflow-hidden">
+                {articles && articles.length > 0 ? (
+                    <ArticleList articles={articles} />
+                ) : (
+                    <div className="flex flex-col items-center justify-center h-full text-zinc-400 gap-2">
+                        <Tag size={48} className="opacity-20" />
+                        <p>{articles ? 'No articles with this label' : 'Loading...'}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
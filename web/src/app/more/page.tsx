@@ -10,6 +10,7 @@ import {
     Youtube,
     Mic,
     FolderOpen,
+    Highlighter,
     Rss,
     Clock,
     Settings as SettingsIcon,
@@ -166,6 +167,14 @@ export default function MorePage() {
                                 <span className="flex-1 font-medium">History</span>
                                 <ChevronRight size={18} className="text-zinc-400" />
                             </Link>
+                            <Link
+                                href="/highlights"
+                                className="flex items-center gap-3 px-4 py-3 active:bg-zinc-100 dark:active:bg-zinc-800 transition-colors"
+                            >
+                                <Highlighter size={20} className="text-zinc-500 shrink-0" />
+                                <span className="flex-1 font-medium">Highlights</span>
+                                <ChevronRight size={18} className="text-zinc-400" />
+                            </Link>
                             <Link
                                 href="/feeds/manage"
                                 className="flex items-center gap-3 px-4 py-3 active:bg-zinc-100 dark:active:bg-zinc-800 transition-colors"
@@ -5,14 +5,19 @@ import { ArticleList } from "@/components/ArticleList";
 import { useState, useEffect } from "react";
 import { AppHeader } from "@/components/AppHeader";
 import { clsx } from "clsx";
-import { Sparkles, Loader2, X } from 'lucide-react';
+import { Sparkles, Loader2, X, BookmarkPlus, Layers, MessageSquareText } from 'lucide-react';
 import { AIService } from "@/lib/ai-service";
 import { useSettingsStore } from "@/store/settingsStore";
 import { Article } from "@/lib/db";
 import DOMPurify from 'dompurify';
+import { SmartFolderEditor } from "@/components/SmartFolderEditor";
+import { StoryList } from "@/components/StoryList";
+import { AskPanel } from "@/components/AskPanel";
+
+const STORY_DAYS = [1, 3, 7];
 
 function BriefingCard() {
-  const { openaiApiKey, geminiApiKey } = useSettingsStore();
+  const { openaiApiKey, geminiApiKey, anthropicApiKey, aiProvider } = useSettingsStore();
   const [briefing, setBriefing] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -37,7 +42,8 @@ function BriefingCard() {
     localStorage.setItem(`briefing-dismissed-${today}`, 'true');
   };
 
-  if ((!openaiApiKey && !geminiApiKey) || !isVisible) return null;
+  const hasAI = openaiApiKey || geminiApiKey || anthropicApiKey || aiProvider === 'openai-compatible';
+  if (!hasAI || !isVisible) return null;
 
   const handleGenerate = async () => {
     setLoading(true);
@@ -104,6 +110,10 @@ export default function HomePage() {
   const [view, setView] = useState('today');
   const [limit, setLimit] = useState(100);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [showStories, setShowStories] = useState(false);
+  const [storyDays, setStoryDays] = useState(3);
+  const [showAsk, setShowAsk] = useState(false);
   const { articles, isLoading } = useArticles(view, limit, searchQuery);
 
   // Reset limit when view changes
@@ -126,7 +136,43 @@ export default function HomePage() {
       {/* Filter Tabs */}
       <div className="px-4 sm:px-6 py-3 border-b border-zinc-200/50 dark:border-zinc-800/50 bg-white/50 dark:bg-zinc-950/50 backdrop-blur-sm sticky top-14 z-20">
         <div className="flex gap-2 overflow-x-auto scrollbar-hide">
-          {['today', 'last24h', 'week', 'all'].map(v => (
+          <button
+            onClick={() => setShowStories(prev => !prev)}
+            className={clsx(
+              "px-3 py-1.5 text-xs font-medium rounded-full border transition-all whitespace-nowrap shrink-0 flex items-center gap-1.5",
+              showStories
+                ? "bg-brand text-white border-transparent"
+                : "bg-transparent border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-300 dark:hover:border-zinc-700"
+            )}
+            title="Group unread articles by topic"
+          >
+            <Layers size={14} />
+            Stories
+          </button>
+          <button
+            onClick={() => setShowAsk(true)}
+            className="px-3 py-1.5 text-xs font-medium rounded-full border transition-all whitespace-nowrap shrink-0 flex items-center gap-1.5 bg-transparent border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-300 dark:hover:border-zinc-700"
+            title="Ask questions about your articles"
+          >
+            <MessageSquareText size={14} />
+            Ask
+          </button>
+          <span className="w-px bg-zinc-200 dark:bg-zinc-800 shrink-0" />
+          {showStories && STORY_DAYS.map(days => (
+            <button
+              key={days}
+              onClick={() => setStoryDays(days)}
+              className={clsx(
+                "px-3 py-1.5 text-xs font-medium rounded-full border transition-all whitespace-nowrap shrink-0",
+                storyDays === days
+                  ? "bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 border-transparent"
+                  : "bg-transparent border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-300 dark:hover:border-zinc-700"
+              )}
+            >
+              {days === 1 ? 'Last 24h' : `${days} days`}
+            </button>
+          ))}
+          {!showStories && ['today', 'last24h', 'week', 'all'].map(v => (
             <button
               key={v}
               onClick={() => setView(v)}
@@ -140,12 +186,23 @@ export default function HomePage() {
               {v === 'last24h' ? 'Last 24h' : v}
             </button>
           ))}
+          {!showStories && searchQuery.trim() && (
+            <button
+              onClick={() => setShowSaveSearch(true)}
+              className="ml-auto px-3 py-1.5 text-xs font-medium rounded-full border border-brand/30 text-brand hover:bg-brand/10 transition-all whitespace-nowrap shrink-0 flex items-center gap-1.5"
+            >
+              <BookmarkPlus size={14} />
+              Save search
+            </button>
+          )}
         </div>
       </div>
 
       {/* Content Area */}
       <div className="flex-1 overflow-hidden">
-        {articles ? (
+        {showStories ? (
+          <StoryList days={storyDays} />
+        ) : articles ? (
           <ArticleList
             articles={articles}
             onLoadMore={handleLoadMore}
@@ -161,6 +218,16 @@ export default function HomePage() {
           </div>
         )}
       </div>
+
+      {showAsk && <AskPanel onClose={() => setShowAsk(false)} />}
+
+      {showSaveSearch && (
+        <SmartFolderEditor
+          isOpen
+          onClose={() => setShowSaveSearch(false)}
+          initialCriteria={{ keyword: searchQuery.trim() }}
+        />
+      )}
     </div>
   );
 }
@@ -1,10 +1,12 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { AI_PROVIDERS, AIProviderKind } from '@feedstream/common';
 import { useSettingsStore } from '@/store/settingsStore';
 import { OpmlService } from '@/lib/opml-service';
 import { BackupService } from '@/lib/backup-service';
+import { ExportService } from '@/lib/export-service';
 import Link from 'next/link';
 import { Sparkles, Workflow, Loader2, Bell } from 'lucide-react';
 import { NotificationSettings } from '@/components/NotificationSettings';
@@ -13,19 +15,35 @@ import { useUIStore } from '@/store/uiStore';
 import { toast } from 'sonner';
 
 export default function SettingsPage() {
-    const { geminiApiKey, setGeminiApiKey } = useSettingsStore();
+    const {
+        openaiApiKey, geminiApiKey, anthropicApiKey, aiProvider, aiModel,
+        setOpenaiApiKey, setGeminiApiKey, setAnthropicApiKey, setAIProvider, setAIModel,
+    } = useSettingsStore();
     const { isImporting, current, total, feedName, startImport, setImportProgress, endImport } = useUIStore();
-    const [gKey, setGKey] = useState('');
-
-    useEffect(() => {
-        setGKey(geminiApiKey);
-    }, [geminiApiKey]);
+    // Unsaved edits, shown over the stored values
+    const [aiEdits, setAIEdits] = useState<{ provider?: AIProviderKind; model?: string; keys?: Partial<Record<AIProviderKind, string>> }>({});
+    const storedKeys: Record<AIProviderKind, string> = { openai: openaiApiKey, gemini: geminiApiKey, anthropic: anthropicApiKey, 'openai-compatible': '' };
+    const draftProvider = aiEdits.provider ?? aiProvider;
+    const draftModel = aiEdits.model ?? aiModel;
+    const draftKeys = { ...storedKeys, ...aiEdits.keys };
 
     const handleSaveAI = () => {
-        setGeminiApiKey(gKey);
-        toast.success('AI Key Saved!');
+        const model = draftModel.trim();
+        if (model && !/^[\w.:/-]+$/.test(model)) {
+            toast.error('Invalid model name');
+            return;
+        }
+        setAIProvider(draftProvider);
+        setAIModel(model);
+        setOpenaiApiKey(draftKeys.openai);
+        setGeminiApiKey(draftKeys.gemini);
+        setAnthropicApiKey(draftKeys.anthropic);
+        setAIEdits({});
+        toast.success('AI Settings Saved!');
     };
 
+    const providerInfo = AI_PROVIDERS[draftProvider];
+
     const handleReset = async () => {
         if (confirm('Are you sure you want to clear all local data?')) {
             // Clear localStorage
@@ -89,25 +107,53 @@ export default function SettingsPage() {
                             </p>
                         </div>
                         <p className="text-xs text-zinc-500">
-                            Configure Gemini to enable "Daily Briefings" and auto-summarization. Key is stored locally and included in Master Backups.
+                            Choose the model behind "Daily Briefings" and auto-summarization. Keys are stored locally and included in Master Backups.
                         </p>
                         <div className="space-y-3">
                             <div>
-                                <label className="block text-xs text-zinc-500 mb-1">Gemini Key (AIza...)</label>
+                                <label className="block text-xs text-zinc-500 mb-1">Provider</label>
+                                <select
+                                    className="w-full text-sm p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950"
+                                    value={draftProvider}
+                                    onChange={(e) => setAIEdits(prev => ({ ...prev, provider: e.target.value as AIProviderKind }))}
+                                >
+                                    {(Object.keys(AI_PROVIDERS) as AIProviderKind[]).map(kind => (
+                                        <option key={kind} value={kind}>{AI_PROVIDERS[kind].label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-zinc-500 mb-1">Model</label>
                                 <input
-                                    type="password"
+                                    type="text"
                                     className="w-full text-sm p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950"
-                                    value={gKey}
-                                    onChange={(e) => setGKey(e.target.value)}
-                                    placeholder="AIza..."
+                                    value={draftModel}
+                                    onChange={(e) => setAIEdits(prev => ({ ...prev, model: e.target.value }))}
+                                    placeholder={providerInfo.defaultModel ?? 'Set by the server (AI_MODEL)'}
                                 />
                             </div>
+                            {providerInfo.needsKey ? (
+                                <div>
+                                    <label className="block text-xs text-zinc-500 mb-1">{providerInfo.label} Key</label>
+                                    <input
+                                        type="password"
+                                        className="w-full text-sm p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950"
+                                        value={draftKeys[draftProvider]}
+                                        onChange={(e) => setAIEdits(prev => ({ ...prev, keys: { ...prev.keys, [draftProvider]: e.target.value } }))}
+                                        placeholder="Leave empty to use the server's key"
+                                    />
+                                </div>
+                            ) : (
+                                <p className="text-xs text-zinc-500">
+                                    Runs against a local server such as Ollama, llama.cpp or LM Studio. Its address is set on the server with AI_BASE_URL (e.g. http://localhost:11434/v1).
+                                </p>
+                            )}
                         </div>
                         <button
                             onClick={handleSaveAI}
                             className="w-full py-2 bg-purple-600 text-white rounded text-sm font-medium hover:brightness-110 transition-all"
                         >
-                            Save AI Key
+                            Save AI Settings
                         </button>
                     </div>
                 </section>
@@ -184,6 +230,38 @@ export default function SettingsPage() {
 
                         <div className="h-px bg-zinc-200 dark:bg-zinc-800" />
 
+                        {/* Reading Notes */}
+                        <div>
+                            <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 mb-2">Export Saved Articles &amp; Highlights</p>
+                            <p className="text-xs text-zinc-500 mb-3">
+                                Markdown files with front-matter for Obsidian or any notes app, a Readwise-compatible highlights CSV, or a bookmarks file for browsers and read-later services.
+                            </p>
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                {([
+                                    ['markdown', 'Markdown (.zip)', 'articles'],
+                                    ['readwise', 'Highlights CSV', 'highlights'],
+                                    ['bookmarks', 'Bookmarks HTML', 'bookmarks'],
+                                ] as const).map(([exportFormat, label, noun]) => (
+                                    <button
+                                        key={exportFormat}
+                                        onClick={async () => {
+                                            try {
+                                                const count = await ExportService.export(exportFormat);
+                                                toast.success(`Exported ${count} ${noun}`);
+                                            } catch (e) {
+                                                toast.error('Export failed: ' + (e instanceof Error ? e.message : 'Unknown error'));
+                                            }
+                                        }}
+                                        className="flex-1 px-4 py-2 bg-zinc-200 dark:bg-zinc-800 rounded-lg text-sm font-medium hover:bg-zinc-300 dark:hover:bg-zinc-700 transition"
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="h-px bg-zinc-200 dark:bg-zinc-800" />
+
                         {/* Master Backup */}
                         <div>
                             <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 mb-2">Master Backup</p>
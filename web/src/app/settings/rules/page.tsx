@@ -3,57 +3,155 @@
 import React, { useState } from 'react';
 import { AppHeader } from '@/components/AppHeader';
 import { useLiveQuery } from 'dexie-react-hooks';
+import Dexie from 'dexie';
 import { db, AutomationRule } from '@/lib/db';
-import { Trash2, Plus, Play, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { Trash2, Plus, Pencil, CheckCircle2, XCircle, AlertCircle, History, Eye, Play, Undo2, X, Loader2 } from 'lucide-react';
 import { uuidv4 } from '@/lib/utils';
+import { RulesEngine, RuleApplication, RulePreview, describeAction } from '@/lib/rules-engine';
+import { RuleBuilder, RuleActionsEditor, describeConditions, newGroup } from '@/components/RuleBuilder';
 import { clsx } from 'clsx';
 import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import Link from 'next/link';
+
+type RuleDraft = Pick<AutomationRule, 'name' | 'conditions' | 'scope' | 'actions' | 'isActive'> & { id?: string };
+
+function emptyRule(): RuleDraft {
+    return {
+        name: '',
+        conditions: newGroup(),
+        actions: [{ type: 'mark_read' }],
+        isActive: true
+    };
+}
 
 export default function RulesPage() {
     const rules = useLiveQuery(() => db.rules.toArray()) || [];
+    const feeds = useLiveQuery(() => db.feeds.toArray()) || [];
+    const folders = useLiveQuery(() => db.folders.orderBy('position').toArray()) || [];
     const [isCreating, setIsCreating] = useState(false);
-    const [newRule, setNewRule] = useState<Partial<AutomationRule>>({
-        name: '',
-        conditionType: 'title_contains',
-        conditionValue: '',
-        action: 'mark_read',
-        isActive: true
-    });
+    const [newRule, setNewRule] = useState<RuleDraft>(emptyRule);
+    const [preview, setPreview] = useState<{ name: string; result: RulePreview } | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [progress, setProgress] = useState<{ ruleId: string; processed: number; total: number } | null>(null);
+    const [lastApplication, setLastApplication] = useState<{ name: string; application: RuleApplication } | null>(null);
+
+    const feedTitles = new Map(feeds.map(f => [f.id, f.title]));
 
     const handleSave = async () => {
-        if (!newRule.name || !newRule.conditionValue) {
-            toast.error("Please fill in all fields");
+        const problem = RulesEngine.validate(newRule);
+        if (problem) {
+            toast.error(problem);
             return;
         }
 
-        await db.rules.add({
-            id: uuidv4(),
-            name: newRule.name,
-            conditionType: newRule.conditionType as any,
-            conditionValue: newRule.conditionValue,
-            action: newRule.action as any,
-            isActive: newRule.isActive ?? true,
-            createdAt: new Date()
-        });
+        const existing = newRule.id ? await db.rules.get(newRule.id) : undefined;
+        if (existing) {
+            await db.rules.put({
+                ...existing,
+                name: newRule.name.trim(),
+                conditions: newRule.conditions,
+                scope: newRule.scope,
+                actions: newRule.actions
+            });
+        } else {
+            await db.rules.add({
+                id: uuidv4(),
+                name: newRule.name.trim(),
+                conditions: newRule.conditions,
+                scope: newRule.scope,
+                actions: newRule.actions,
+                isActive: newRule.isActive ?? true,
+                createdAt: new Date()
+            });
+        }
 
         setIsCreating(false);
-        setNewRule({
-            name: '',
-            conditionType: 'title_contains',
-            conditionValue: '',
-            action: 'mark_read',
-            isActive: true
-        });
+        setNewRule(emptyRule());
+    };
+
+    const handleEdit = (rule: AutomationRule) => {
+        setNewRule({ id: rule.id, name: rule.name, conditions: rule.conditions, scope: rule.scope, actions: rule.actions, isActive: rule.isActive });
+        setIsCreating(true);
+    };
+
+    const handleCancel = () => {
+        setIsCreating(false);
+        setNewRule(emptyRule());
+    };
+
+    const handlePreview = async (rule: AutomationRule | RuleDraft) => {
+        const problem = RulesEngine.validate(rule);
+        if (problem) {
+            toast.error(problem);
+            return;
+        }
+
+        setIsPreviewing(true);
+        try {
+            const result = await RulesEngine.preview({ createdAt: new Date(), ...rule, id: rule.id ?? 'preview' });
+            setPreview({ name: rule.name, result });
+        } catch (e) {
+            toast.error(e instanceof Error ? e.message : 'Preview failed');
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleApplyToExisting = async (rule: AutomationRule) => {
+        if (progress) return;
+
+        const { total } = await RulesEngine.preview(rule, 0);
+        if (total === 0) {
+            toast.info(`"${rule.name}" doesn't match any stored articles`);
+            return;
+        }
+        if (!confirm(`Apply "${rule.name}" to ${total} existing articles? Notifications, webhooks and other side effects are skipped.`)) return;
+
+        setProgress({ ruleId: rule.id, processed: 0, total: 0 });
+        try {
+            const application = await RulesEngine.applyToExisting(rule, (processed, all) => {
+                setProgress({ ruleId: rule.id, processed, total: all });
+            });
+            setLastApplication({ name: rule.name, application });
+            setPreview(null);
+            toast.success(`Applied "${rule.name}" to ${total} articles`, {
+                action: { label: 'Undo', onClick: () => handleUndo(application) }
+            });
+        } catch (e) {
+            toast.error(e instanceof Error ? e.message : 'Failed to apply rule');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleUndo = async (application: RuleApplication) => {
+        try {
+            await RulesEngine.undo(application);
+            setLastApplication(current => current?.application === application ? null : current);
+            toast.success('Changes undone');
+        } catch (e) {
+            toast.error(e instanceof Error ? e.message : 'Undo failed');
+        }
+    };
+
+    const scopeLabel = (scope: AutomationRule['scope']) => {
+        if (!scope) return null;
+        const name = scope.type === 'feed'
+            ? feeds.find(f => f.id === scope.id)?.title
+            : folders.find(f => f.id === scope.id)?.name;
+        return `In ${scope.type} "${name ?? 'deleted'}"`;
     };
 
     const handleDelete = async (id: string) => {
         if (confirm("Delete this rule?")) {
             await db.rules.delete(id);
+            await RulesEngine.clearMatches(id);
         }
     };
 
     const toggleActive = async (rule: AutomationRule) => {
-        await db.rules.update(rule.id, { isActive: !rule.isActive });
+        await db.rules.put({ ...rule, isActive: !rule.isActive });
     };
 
     return (
@@ -76,61 +174,70 @@ export default function RulesPage() {
                 {/* Create Form */}
                 {isCreating ? (
                     <div className="bg-white dark:bg-zinc-900 rounded-xl p-6 border border-zinc-200 dark:border-zinc-800 shadow-sm space-y-4 animate-in slide-in-from-top-4">
-                        <h3 className="font-semibold text-lg">New Rule</h3>
+                        <h3 className="font-semibold text-lg">{newRule.id ? 'Edit Rule' : 'New Rule'}</h3>
                         
-                        <div>
-                            <label className="block text-xs font-medium text-zinc-500 mb-1">Rule Name</label>
-                            <input
-                                type="text"
-                                className="w-full bg-zinc-50 dark:bg-zinc-800 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand"
-                                placeholder="e.g. Filter Sponsorships"
-                                value={newRule.name}
-                                onChange={e => setNewRule({ ...newRule, name: e.target.value })}
-                            />
-                        </div>
-
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div>
-                                <label className="block text-xs font-medium text-zinc-500 mb-1">If...</label>
-                                <select
-                                    className="w-full bg-zinc-50 dark:bg-zinc-800 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand"
-                                    value={newRule.conditionType}
-                                    onChange={e => setNewRule({ ...newRule, conditionType: e.target.value as any })}
-                                >
-                                    <option value="title_contains">Title Contains</option>
-                                    <option value="content_contains">Content Contains</option>
-                                    <option value="author_contains">Author Contains</option>
-                                    {/* Feed ID selector would go here in advanced version */}
-                                </select>
-                            </div>
-                            <div>
-                                <label className="block text-xs font-medium text-zinc-500 mb-1">Value</label>
+                                <label className="block text-xs font-medium text-zinc-500 mb-1">Rule Name</label>
                                 <input
                                     type="text"
                                     className="w-full bg-zinc-50 dark:bg-zinc-800 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand"
-                                    placeholder="Text to match..."
-                                    value={newRule.conditionValue}
-                                    onChange={e => setNewRule({ ...newRule, conditionValue: e.target.value })}
+                                    placeholder="e.g. Filter Sponsorships"
+                                    value={newRule.name}
+                                    onChange={e => setNewRule({ ...newRule, name: e.target.value })}
                                 />
                             </div>
+                            <div>
+                                <label className="block text-xs font-medium text-zinc-500 mb-1">Applies to</label>
+                                <select
+                                    className="w-full bg-zinc-50 dark:bg-zinc-800 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand"
+                                    value={newRule.scope ? `${newRule.scope.type}:${newRule.scope.id}` : ''}
+                                    onChange={e => {
+                                        const [type, id] = e.target.value.split(':');
+                                        setNewRule({ ...newRule, scope: id ? { type: type as 'feed' | 'folder', id } : undefined });
+                                    }}
+                                >
+                                    <option value="">All feeds</option>
+                                    {folders.length > 0 && (
+                                        <optgroup label="Folders">
+                                            {folders.map(f => <option key={f.id} value={`folder:${f.id}`}>{f.name}</option>)}
+                                        </optgroup>
+                                    )}
+                                    <optgroup label="Feeds">
+                                        {feeds.map(f => <option key={f.id} value={`feed:${f.id}`}>{f.title}</option>)}
+                                    </optgroup>
+                                </select>
+                            </div>
                         </div>
 
                         <div>
-                            <label className="block text-xs font-medium text-zinc-500 mb-1">Then...</label>
-                            <select
-                                className="w-full bg-zinc-50 dark:bg-zinc-800 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand"
-                                value={newRule.action}
-                                onChange={e => setNewRule({ ...newRule, action: e.target.value as any })}
-                            >
-                                <option value="mark_read">Mark as Read</option>
-                                <option value="star">Star / Bookmark</option>
-                                <option value="delete">Delete Permanently</option>
-                            </select>
+                            <label className="block text-xs font-medium text-zinc-500 mb-2">If...</label>
+                            <RuleBuilder
+                                group={newRule.conditions}
+                                onChange={conditions => setNewRule({ ...newRule, conditions })}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-medium text-zinc-500 mb-2">Then...</label>
+                            <RuleActionsEditor
+                                actions={newRule.actions}
+                                folders={folders}
+                                onChange={actions => setNewRule({ ...newRule, actions })}
+                            />
                         </div>
 
                         <div className="flex justify-end gap-3 pt-2">
                             <button
-                                onClick={() => setIsCreating(false)}
+                                onClick={() => handlePreview(newRule)}
+                                disabled={isPreviewing}
+                                className="mr-auto px-4 py-2 text-sm text-zinc-500 hover:text-brand flex items-center gap-1.5 disabled:opacity-50"
+                            >
+                                {isPreviewing ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
+                                Preview Matches
+                            </button>
+                            <button
+                                onClick={handleCancel}
                                 className="px-4 py-2 text-sm text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300"
                             >
                                 Cancel
@@ -153,31 +260,100 @@ export default function RulesPage() {
                     </button>
                 )}
 
+                {/* Undo last retroactive run */}
+                {lastApplication && (
+                    <div className="bg-white dark:bg-zinc-900 rounded-xl p-4 border border-zinc-200 dark:border-zinc-800 shadow-sm flex items-center gap-3 text-sm">
+                        <span className="flex-1 text-zinc-600 dark:text-zinc-400">
+                            Applied {`"${lastApplication.name}"`}: {lastApplication.application.changed.length} changed, {lastApplication.application.deleted.length} deleted
+                        </span>
+                        <button
+                            onClick={() => handleUndo(lastApplication.application)}
+                            className="px-3 py-1.5 rounded-lg text-brand hover:bg-brand/10 flex items-center gap-1.5 font-medium"
+                        >
+                            <Undo2 size={16} /> Undo
+                        </button>
+                    </div>
+                )}
+
+                {/* Dry run results */}
+                {preview && (
+                    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-200 dark:border-zinc-800">
+                            <h3 className="font-semibold text-sm">
+                                {preview.name || 'This rule'} would affect {preview.result.total} stored {preview.result.total === 1 ? 'article' : 'articles'}
+                            </h3>
+                            <button onClick={() => setPreview(null)} className="p-1 rounded text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100" title="Close preview">
+                                <X size={16} />
+                            </button>
+                        </div>
+                        {preview.result.articles.length > 0 && (
+                            <ul className="max-h-80 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800">
+                                {preview.result.articles.map(article => (
+                                    <li key={article.id} className="px-4 py-2 text-sm">
+                                        <Link href={`/article/${article.id}`} className="block truncate text-zinc-800 dark:text-zinc-200 hover:text-brand">
+                                            {article.title}
+                                        </Link>
+                                        <span className="text-xs text-zinc-500">
+                                            {feedTitles.get(article.feedID) ?? 'Unknown feed'}
+                                            {article.publishedAt && ` • ${formatDistanceToNow(article.publishedAt, { addSuffix: true })}`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {preview.result.total > preview.result.articles.length && (
+                            <p className="px-4 py-2 text-xs text-zinc-500 border-t border-zinc-200 dark:border-zinc-800">
+                                Showing the newest {preview.result.articles.length}
+                            </p>
+                        )}
+                    </div>
+                )}
+
                 {/* Rules List */}
                 <div className="space-y-3">
                     {rules.map(rule => (
                         <div key={rule.id} className={clsx(
-                            "bg-white dark:bg-zinc-900 rounded-xl p-4 border shadow-sm flex items-center gap-4 transition-all",
+                            "bg-white dark:bg-zinc-900 rounded-xl p-4 border shadow-sm flex items-start gap-4 transition-all",
                             rule.isActive ? "border-zinc-200 dark:border-zinc-800" : "opacity-60 border-zinc-100 dark:border-zinc-800/50"
                         )}>
-                            <div className="flex-1">
+                            <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 mb-1">
                                     <h4 className="font-semibold text-zinc-900 dark:text-zinc-100">{rule.name}</h4>
                                     {!rule.isActive && <span className="text-xs bg-zinc-100 dark:bg-zinc-800 px-2 py-0.5 rounded text-zinc-500">Disabled</span>}
                                 </div>
                                 <div className="text-sm text-zinc-500 flex items-center gap-1.5 flex-wrap">
-                                    <span className="bg-zinc-100 dark:bg-zinc-800 px-1.5 rounded border border-zinc-200 dark:border-zinc-700 text-xs">If {rule.conditionType.replace('_', ' ')}</span>
-                                    <span className="font-medium text-zinc-700 dark:text-zinc-300">"{rule.conditionValue}"</span>
+                                    {rule.scope && (
+                                        <span className="bg-zinc-100 dark:bg-zinc-800 px-1.5 rounded border border-zinc-200 dark:border-zinc-700 text-xs">{scopeLabel(rule.scope)}</span>
+                                    )}
+                                    {rule.conditions.children.length > 0 && (
+                                        <span className="font-medium text-zinc-700 dark:text-zinc-300 break-all">If {describeConditions(rule.conditions)}</span>
+                                    )}
                                     <span>→</span>
-                                    <span className={clsx(
-                                        "px-1.5 rounded border text-xs font-medium",
-                                        rule.action === 'delete' ? "bg-red-50 text-red-600 border-red-100" :
-                                        rule.action === 'star' ? "bg-amber-50 text-amber-600 border-amber-100" :
-                                        "bg-emerald-50 text-emerald-600 border-emerald-100"
-                                    )}>
-                                        {rule.action.replace('_', ' ')}
-                                    </span>
+                                    {rule.actions.map((action, i) => (
+                                        <span key={i} className={clsx(
+                                            "px-1.5 rounded border text-xs font-medium break-all",
+                                            action.type === 'delete' ? "bg-red-50 text-red-600 border-red-100" :
+                                            action.type === 'star' ? "bg-amber-50 text-amber-600 border-amber-100" :
+                                            "bg-emerald-50 text-emerald-600 border-emerald-100"
+                                        )}>
+                                            {action.type === 'move_to_folder'
+                                                ? `move to ${folders.find(f => f.id === action.folderId)?.name ?? 'deleted folder'}`
+                                                : describeAction(action).replace('_', ' ')}
+                                        </span>
+                                    ))}
                                 </div>
+                                {progress?.ruleId === rule.id && (
+                                    <div className="mt-3">
+                                        <div className="h-1.5 bg-zinc-100 dark:bg-zinc-800 rounded-full overflow-hidden">
+                                            <div
+                                                className="h-full bg-brand transition-all"
+                                                style={{ width: `${progress.total ? (progress.processed / progress.total) * 100 : 0}%` }}
+                                            />
+                                        </div>
+                                        <p className="text-xs text-zinc-500 mt-1">Checked {progress.processed} of {progress.total} articles</p>
+                                    </div>
+                                )}
+                                <RuleMatchLog ruleId={rule.id} />
                             </div>
 
                             <div className="flex items-center gap-2">
@@ -188,6 +364,29 @@ export default function RulesPage() {
                                 >
                                     {rule.isActive ? <CheckCircle2 size={20} /> : <XCircle size={20} />}
                                 </button>
+                                <button
+                                    onClick={() => handlePreview(rule)}
+                                    disabled={isPreviewing}
+                                    className="p-2 rounded-lg text-zinc-400 hover:text-brand hover:bg-brand/10 transition-colors disabled:opacity-50"
+                                    title="Preview matches"
+                                >
+                                    <Eye size={20} />
+                                </button>
+                                <button
+                                    onClick={() => handleApplyToExisting(rule)}
+                                    disabled={!!progress}
+                                    className="p-2 rounded-lg text-zinc-400 hover:text-brand hover:bg-brand/10 transition-colors disabled:opacity-50"
+                                    title="Apply to existing articles"
+                                >
+                                    <Play size={20} />
+                                </button>
+                                <button
+                                    onClick={() => handleEdit(rule)}
+                                    className="p-2 rounded-lg text-zinc-400 hover:text-brand hover:bg-brand/10 transition-colors"
+                                    title="Edit"
+                                >
+                                    <Pencil size={20} />
+                                </button>
                                 <button
                                     onClick={() => handleDelete(rule.id)}
                                     className="p-2 rounded-lg text-zinc-400 hover:text-red-500 hover:bg-red-50 transition-colors"
@@ -204,3 +403,45 @@ export default function RulesPage() {
         </div>
     );
 }
+
+function RuleMatchLog({ ruleId }: { ruleId: string }) {
+    const [isOpen, setIsOpen] = useState(false);
+    const count = useLiveQuery(() => db.ruleMatches.where('ruleID').equals(ruleId).count(), [ruleId]);
+    const matches = useLiveQuery(
+        () => isOpen
+            ? db.ruleMatches.where('[ruleID+matchedAt]').between([ruleId, Dexie.minKey], [ruleId, Dexie.maxKey]).reverse().limit(20).toArray()
+            : [],
+        [ruleId, isOpen]
+    ) || [];
+
+    if (!count) return null;
+
+    return (
+        <div className="mt-2">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="text-xs text-zinc-500 hover:text-brand flex items-center gap-1"
+            >
+                <History size={12} />
+                {count} {count === 1 ? 'match' : 'matches'}
+            </button>
+            {isOpen && (
+                <ul className="mt-2 space-y-1 text-xs border-l-2 border-zinc-100 dark:border-zinc-800 pl-3">
+                    {matches.map(match => (
+                        <li key={match.articleID} className="flex items-baseline gap-2">
+                            <span className="text-zinc-400 shrink-0">{formatDistanceToNow(match.matchedAt, { addSuffix: true })}</span>
+                            {match.actions.includes('delete') ? (
+                                <span className="truncate text-zinc-500 line-through">{match.articleTitle}</span>
+                            ) : (
+                                <Link href={`/article/${match.articleID}`} className="truncate text-zinc-700 dark:text-zinc-300 hover:text-brand">
+                                    {match.articleTitle}
+                                </Link>
+                            )}
+                            {match.error && <span className="text-red-500 shrink-0" title={match.error}>failed</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
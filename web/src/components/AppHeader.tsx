@@ -66,10 +66,10 @@ export function AppHeader({
         return () => clearInterval(interval);
     }, [lastRefreshTime, syncInterval]);
 
-    const performSync = useCallback(async () => {
+    const performSync = useCallback(async (force = false) => {
         if (isSyncing) return;
         setLastRefreshTime(Date.now());
-        await runSync();
+        await runSync(force);
     }, [isSyncing, runSync, setLastRefreshTime]);
 
     // Auto-refresh when timer reaches 0
@@ -95,7 +95,7 @@ export function AppHeader({
     }, [lastRefreshTime, isSyncing, showRefresh, performSync, syncInterval]);
 
     const handleSync = () => {
-        performSync();
+        performSync(true);
     };
 
     return (
@@ -2,13 +2,15 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { formatDistanceToNow } from 'date-fns';
-import { Check, Bookmark, Youtube, Radio, Rss, Mic, Play, MessageCircle } from 'lucide-react';
+import { Check, Bookmark, Youtube, Radio, Rss, Mic, Play, MessageCircle, Tag } from 'lucide-react';
 import { clsx } from 'clsx';
 import { Article, Feed, db } from '@/lib/db';
 import { MemoizedArticleSwipeRow as ArticleSwipeRow } from './ArticleSwipeRow';
 import { useAudioStore } from '@/store/audioStore';
 import { ArticleVideoPlayer } from './article/ArticleVideoPlayer';
+import { LabelPicker } from './LabelPicker';
 
 const YOUTUBE_PATTERNS = [
     /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?|live|shorts)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/
@@ -22,10 +24,15 @@ interface ArticleItemProps {
     isSelected?: boolean;
     onToggleRead?: (id: string) => void;
     onToggleBookmark?: (id: string) => void;
+    alsoIn?: string[]; // Titles of other feeds with the same story
 }
 
-function ArticleItemComponent({ article, feed, isSelected, onToggleRead, onToggleBookmark }: ArticleItemProps) {
+function ArticleItemComponent({ article, feed, isSelected, onToggleRead, onToggleBookmark, alsoIn = [] }: ArticleItemProps) {
     const [isVideoPlaying, setIsVideoPlaying] = useState(false);
+    const [isLabelPickerOpen, setIsLabelPickerOpen] = useState(false);
+    const [savedLabels, setSavedLabels] = useState<string[] | null>(null); // Set after editing, until the list refreshes
+    const router = useRouter();
+    const labels = savedLabels ?? article.tags ?? [];
 
 
 
@@ -135,6 +142,18 @@ function ArticleItemComponent({ article, feed, isSelected, onToggleRead, onToggl
         // For non-podcasts, let the Link navigate normally
     };
 
+    const openLabelPicker = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsLabelPickerOpen(true);
+    };
+
+    const openLabel = (e: React.MouseEvent, label: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        router.push(`/label/${encodeURIComponent(label)}`);
+    };
+
     const handleVideoClick = (e: React.MouseEvent) => {
         e.preventDefault();
         e.stopPropagation();
@@ -142,187 +161,239 @@ function ArticleItemComponent({ article, feed, isSelected, onToggleRead, onToggl
     };
 
     return (
-        <ArticleSwipeRow
-            isRead={article.isRead}
-            isBookmarked={article.isBookmarked}
-            onSwipeRight={() => onToggleRead?.(article.id)}
-            onSwipeLeft={() => onToggleBookmark?.(article.id)}
-        >
-            <Link href={`/article/${article.id}`} className="block" onClick={handleArticleClick}>
-                <article className={clsx(
-                    "article-item relative px-4 sm:px-6 py-4 transition-colors select-none",
-                    "hover:bg-zinc-100 dark:hover:bg-zinc-900/50",
-                    "border-b border-zinc-200 dark:border-zinc-800/50",
-                    isSelected && "bg-brand/5 dark:bg-brand/10 border-l-4 border-l-brand pl-3 sm:pl-5"
-                )}>
-                    {/* Mobile: Vertical Layout | Desktop: Horizontal Layout */}
-                    <div className="flex flex-col md:flex-row md:gap-4">
-                        {/* Content */}
-                        <div className="flex-1 min-w-0 flex flex-col">
-                            {/* Meta Line - Feed info ABOVE title on mobile */}
-                            <div className="flex items-center gap-2 text-sm text-zinc-500 mb-2 md:order-2 md:mt-0">
-                                {/* Feed Icon */}
-                                {feed?.iconURL && (
-                                    <img
-                                        src={feed.iconURL}
-                                        alt=""
-                                        className="w-4 h-4 rounded object-cover shrink-0 bg-zinc-200 dark:bg-zinc-800"
-                                        loading="lazy"
-                                        decoding="async"
-                                        onError={(e) => e.currentTarget.style.display = 'none'}
-                                    />
-                                )}
+        <>
+            <ArticleSwipeRow
+                isRead={article.isRead}
+                isBookmarked={article.isBookmarked}
+                onSwipeRight={() => onToggleRead?.(article.id)}
+                onSwipeLeft={() => onToggleBookmark?.(article.id)}
+            >
+                <Link href={`/article/${article.id}`} className="block" onClick={handleArticleClick}>
+                    <article className={clsx(
+                        "article-item relative px-4 sm:px-6 py-4 transition-colors select-none",
+                        "hover:bg-zinc-100 dark:hover:bg-zinc-900/50",
+                        "border-b border-zinc-200 dark:border-zinc-800/50",
+                        isSelected && "bg-brand/5 dark:bg-brand/10 border-l-4 border-l-brand pl-3 sm:pl-5"
+                    )}>
+                        {/* Mobile: Vertical Layout | Desktop: Horizontal Layout */}
+                        <div className="flex flex-col md:flex-row md:gap-4">
+                            {/* Content */}
+                            <div className="flex-1 min-w-0 flex flex-col">
+                                {/* Meta Line - Feed info ABOVE title on mobile */}
+                                <div className="flex items-center gap-2 text-sm text-zinc-500 mb-2 md:order-2 md:mt-0">
+                                    {/* Feed Icon */}
+                                    {feed?.iconURL && (
+                                        <img
+                                            src={feed.iconURL}
+                                            alt=""
+                                            className="w-4 h-4 rounded object-cover shrink-0 bg-zinc-200 dark:bg-zinc-800"
+                                            loading="lazy"
+                                            decoding="async"
+                                            onError={(e) => e.currentTarget.style.display = 'none'}
+                                        />
+                                    )}
 
-                                {article.mediaKind === 'podcast' ? (
-                                    <div className="flex items-center gap-1 text-purple-600 dark:text-purple-400">
-                                        {!feed?.iconURL && <Mic size={12} />}
-                                        <span className="font-medium text-purple-600 dark:text-purple-400 truncate max-w-[150px]">
-                                            {feed?.title || 'Unknown Feed'}
+                                    {article.mediaKind === 'podcast' ? (
+                                        <div className="flex items-center gap-1 text-purple-600 dark:text-purple-400">
+                                            {!feed?.iconURL && <Mic size={12} />}
+                                            <span className="font-medium text-purple-600 dark:text-purple-400 truncate max-w-[150px]">
+                                                {feed?.title || 'Unknown Feed'}
+                                            </span>
+                                        </div>
+                                    ) : (
+                                        <span className="font-medium text-brand truncate max-w-[150px] flex items-center gap-1">
+                                            {feed?.title || 'Loading...'}
+                                        </span>
+                                    )}
+                                    <span className="text-zinc-300 dark:text-zinc-600">•</span>
+                                    <time
+                                        className="shrink-0 text-sm text-orange-500 dark:text-orange-400 font-medium flex items-center gap-1.5"
+                                        suppressHydrationWarning
+                                    >
+                                        {relativeTime}
+                                        <TypeIcon size={14} className="text-zinc-400 dark:text-zinc-500" />
+                                    </time>
+                                    {alsoIn.length > 0 && (
+                                        <span className="shrink-0 text-xs text-zinc-400 dark:text-zinc-500" title={alsoIn.join(', ')}>
+                                            also in {alsoIn.length} {alsoIn.length === 1 ? 'feed' : 'feeds'}
                                         </span>
+                                    )}
+                                </div>
+
+                                {/* Title */}
+                                <h3 className={clsx(
+                                    "text-[17px] font-semibold leading-snug line-clamp-2 tracking-tight flex items-start gap-2 mb-2 md:order-1",
+                                    article.isRead
+                                        ? "text-zinc-500 dark:text-zinc-500"
+                                        : "text-zinc-900 dark:text-zinc-100"
+                                )}>
+                                    {!article.isRead && (
+                                        <span className="shrink-0 w-2 h-2 rounded-full bg-emerald-500 mt-1.5" title="Unread" />
+                                    )}
+                                    {article.title}
+                                </h3>
+
+                                {/* Preview Text - Desktop only */}
+                                <p className="hidden md:block text-sm text-zinc-500 dark:text-zinc-400 line-clamp-2 leading-relaxed mb-2 md:order-3">
+                                    {previewText}
+                                </p>
+
+                                {/* Labels */}
+                                {labels.length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5 mb-2 md:order-3">
+                                        {labels.map(label => (
+                                            <button
+                                                key={label}
+                                                onClick={(e) => openLabel(e, label)}
+                                                className="px-2 py-0.5 text-xs font-medium rounded-full bg-brand/10 text-brand hover:bg-brand/20 transition-colors"
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
                                     </div>
-                                ) : (
-                                    <span className="font-medium text-brand truncate max-w-[150px] flex items-center gap-1">
-                                        {feed?.title || 'Loading...'}
-                                    </span>
                                 )}
-                                <span className="text-zinc-300 dark:text-zinc-600">•</span>
-                                <time
-                                    className="shrink-0 text-sm text-orange-500 dark:text-orange-400 font-medium flex items-center gap-1.5"
-                                    suppressHydrationWarning
-                                >
-                                    {relativeTime}
-                                    <TypeIcon size={14} className="text-zinc-400 dark:text-zinc-500" />
-                                </time>
+
+                                {/* Actions - Desktop only */}
+                                <div className="hidden md:flex items-center gap-3 md:order-4">
+                                    <button
+                                        onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleRead?.(article.id); }}
+                                        className={clsx(
+                                            "p-1.5 rounded-full transition-colors",
+                                            article.isRead ? "text-brand bg-brand/10" : "text-zinc-400 hover:text-brand hover:bg-brand/10"
+                                        )}
+                                    >
+                                        <Check size={16} strokeWidth={2.5} />
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleBookmark?.(article.id); }}
+                                        className={clsx(
+                                            "p-1.5 rounded-full transition-colors",
+                                            article.isBookmarked ? "text-amber-500 bg-amber-500/10" : "text-zinc-400 hover:text-amber-500 hover:bg-amber-500/10"
+                                        )}
+                                    >
+                                        <Bookmark size={16} className={article.isBookmarked ? "fill-current" : ""} />
+                                    </button>
+                                    <button
+                                        onClick={openLabelPicker}
+                                        className={clsx(
+                                            "p-1.5 rounded-full transition-colors",
+                                            labels.length > 0 ? "text-brand bg-brand/10" : "text-zinc-400 hover:text-brand hover:bg-brand/10"
+                                        )}
+                                        title="Labels"
+                                    >
+                                        <Tag size={16} />
+                                    </button>
+                                </div>
                             </div>
 
-                            {/* Title */}
-                            <h3 className={clsx(
-                                "text-[17px] font-semibold leading-snug line-clamp-2 tracking-tight flex items-start gap-2 mb-2 md:order-1",
-                                article.isRead
-                                    ? "text-zinc-500 dark:text-zinc-500"
-                                    : "text-zinc-900 dark:text-zinc-100"
-                            )}>
-                                {!article.isRead && (
-                                    <span className="shrink-0 w-2 h-2 rounded-full bg-emerald-500 mt-1.5" title="Unread" />
-                                )}
-                                {article.title}
-                            </h3>
-
-                            {/* Preview Text - Desktop only */}
-                            <p className="hidden md:block text-sm text-zinc-500 dark:text-zinc-400 line-clamp-2 leading-relaxed mb-2 md:order-3">
-                                {previewText}
-                            </p>
-
-                            {/* Actions - Desktop only */}
-                            <div className="hidden md:flex items-center gap-3 md:order-4">
-                                <button
-                                    onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleRead?.(article.id); }}
+                            {/* Image/Video - Full width on mobile, right side on desktop */}
+                            {article.thumbnailPath && (
+                                <div
                                     className={clsx(
-                                        "p-1.5 rounded-full transition-colors",
-                                        article.isRead ? "text-brand bg-brand/10" : "text-zinc-400 hover:text-brand hover:bg-brand/10"
+                                        "mt-3 md:mt-0 md:shrink-0",
+                                        "w-full aspect-video", // Mobile: Force 16:9 video ratio
+                                        isVideoPlaying ? "md:w-[320px] md:h-[180px]" : "md:w-28 md:h-28 md:aspect-auto",
+                                        "relative group/thumb cursor-pointer transition-all duration-300 ease-out"
                                     )}
+                                    onClick={article.mediaKind === 'youtube' ? handleVideoClick : article.mediaKind === 'podcast' ? handlePlay : undefined}
                                 >
-                                    <Check size={16} strokeWidth={2.5} />
-                                </button>
-                                <button
-                                    onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleBookmark?.(article.id); }}
-                                    className={clsx(
-                                        "p-1.5 rounded-full transition-colors",
-                                        article.isBookmarked ? "text-amber-500 bg-amber-500/10" : "text-zinc-400 hover:text-amber-500 hover:bg-amber-500/10"
+                                    {/* Show embedded video on mobile when playing */}
+                                    {isVideoPlaying && videoId ? (
+                                        <div className="w-full h-full bg-black rounded-lg overflow-hidden">
+                                            {article.mediaKind === 'youtube' ? (
+                                                <ArticleVideoPlayer 
+                                                    articleId={article.id} 
+                                                    videoId={videoId} 
+                                                    playbackPosition={article.playbackPosition} 
+                                                    className="w-full h-full" 
+                                                />
+                                            ) : (
+                                                <iframe
+                                                    src={`https://www.youtube-nocookie.com/embed/${videoId}?autoplay=1&playsinline=1&modestbranding=1&rel=0`}
+                                                    className="w-full h-full"
+                                                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share; fullscreen"
+                                                    allowFullScreen
+                                                    style={{ border: 0, minHeight: '180px' }}
+                                                />
+                                            )}
+                                        </div>
+                                    ) : (
+                                        <img
+                                            src={article.thumbnailPath}
+                                            alt=""
+                                            className={clsx(
+                                                "w-full object-cover rounded-lg bg-zinc-200 dark:bg-zinc-800 img-blur-up",
+                                                "h-full", // Always fill container
+                                                (article.mediaKind === 'podcast' || article.mediaKind === 'youtube') && "group-hover/thumb:brightness-75 transition-all"
+                                            )}
+                                            loading="lazy"
+                                            decoding="async"
+                                            onLoad={(e) => e.currentTarget.classList.add('loaded')}
+                                            onError={(e) => {
+                                                // Hide the entire thumbnail container when image fails to load
+                                                const container = e.currentTarget.closest('.group\\/thumb');
+                                                if (container) (container as HTMLElement).style.display = 'none';
+                                            }}
+                                        />
                                     )}
-                                >
-                                    <Bookmark size={16} className={article.isBookmarked ? "fill-current" : ""} />
-                                </button>
-                            </div>
+
+                                    {/* Play button overlay */}
+                                    {!isVideoPlaying && (article.mediaKind === 'podcast' || article.mediaKind === 'youtube') && (
+                                        <div className="absolute inset-0 flex items-center justify-center opacity-80 group-hover/thumb:opacity-100 transition-opacity pointer-events-none">
+                                            <div className="bg-white/90 dark:bg-black/80 rounded-full p-3 md:p-2 shadow-lg">
+                                                <Play size={24} className="fill-current text-zinc-900 dark:text-zinc-100 ml-0.5 md:w-5 md:h-5" />
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                         </div>
 
-                        {/* Image/Video - Full width on mobile, right side on desktop */}
-                        {article.thumbnailPath && (
-                            <div
+                        {/* Mobile Actions - Below image */}
+                        <div className="flex md:hidden items-center gap-3 mt-3">
+                            <button
+                                onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleRead?.(article.id); }}
                                 className={clsx(
-                                    "mt-3 md:mt-0 md:shrink-0",
-                                    "w-full aspect-video", // Mobile: Force 16:9 video ratio
-                                    isVideoPlaying ? "md:w-[320px] md:h-[180px]" : "md:w-28 md:h-28 md:aspect-auto",
-                                    "relative group/thumb cursor-pointer transition-all duration-300 ease-out"
+                                    "p-1.5 rounded-full transition-colors",
+                                    article.isRead ? "text-brand bg-brand/10" : "text-zinc-400 hover:text-brand hover:bg-brand/10"
                                 )}
-                                onClick={article.mediaKind === 'youtube' ? handleVideoClick : article.mediaKind === 'podcast' ? handlePlay : undefined}
                             >
-                                {/* Show embedded video on mobile when playing */}
-                                {isVideoPlaying && videoId ? (
-                                    <div className="w-full h-full bg-black rounded-lg overflow-hidden">
-                                        {article.mediaKind === 'youtube' ? (
-                                            <ArticleVideoPlayer 
-                                                articleId={article.id} 
-                                                videoId={videoId} 
-                                                playbackPosition={article.playbackPosition} 
-                                                className="w-full h-full" 
-                                            />
-                                        ) : (
-                                            <iframe
-                                                src={`https://www.youtube-nocookie.com/embed/${videoId}?autoplay=1&playsinline=1&modestbranding=1&rel=0`}
-                                                className="w-full h-full"
-                                                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share; fullscreen"
-                                                allowFullScreen
-                                                style={{ border: 0, minHeight: '180px' }}
-                                            />
-                                        )}
-                                    </div>
-                                ) : (
-                                    <img
-                                        src={article.thumbnailPath}
-                                        alt=""
-                                        className={clsx(
-                                            "w-full object-cover rounded-lg bg-zinc-200 dark:bg-zinc-800 img-blur-up",
-                                            "h-full", // Always fill container
-                                            (article.mediaKind === 'podcast' || article.mediaKind === 'youtube') && "group-hover/thumb:brightness-75 transition-all"
-                                        )}
-                                        loading="lazy"
-                                        decoding="async"
-                                        onLoad={(e) => e.currentTarget.classList.add('loaded')}
-                                        onError={(e) => {
-                                            // Hide the entire thumbnail container when image fails to load
-                                            const container = e.currentTarget.closest('.group\\/thumb');
-                                            if (container) (container as HTMLElement).style.display = 'none';
-                                        }}
-                                    />
+                                <Check size={16} strokeWidth={2.5} />
+                            </button>
+                            <button
+                                onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleBookmark?.(article.id); }}
+                                className={clsx(
+                                    "p-1.5 rounded-full transition-colors",
+                                    article.isBookmarked ? "text-amber-500 bg-amber-500/10" : "text-zinc-400 hover:text-amber-500 hover:bg-amber-500/10"
                                 )}
-
-                                {/* Play button overlay */}
-                                {!isVideoPlaying && (article.mediaKind === 'podcast' || article.mediaKind === 'youtube') && (
-                                    <div className="absolute inset-0 flex items-center justify-center opacity-80 group-hover/thumb:opacity-100 transition-opacity pointer-events-none">
-                                        <div className="bg-white/90 dark:bg-black/80 rounded-full p-3 md:p-2 shadow-lg">
-                                            <Play size={24} className="fill-current text-zinc-900 dark:text-zinc-100 ml-0.5 md:w-5 md:h-5" />
-                                        </div>
-                                    </div>
+                            >
+                                <Bookmark size={16} className={article.isBookmarked ? "fill-current" : ""} />
+                            </button>
+                            <button
+                                onClick={openLabelPicker}
+                                className={clsx(
+                                    "p-1.5 rounded-full transition-colors",
+                                    labels.length > 0 ? "text-brand bg-brand/10" : "text-zinc-400 hover:text-brand hover:bg-brand/10"
                                 )}
-                            </div>
-                        )}
-                    </div>
-
-                    {/* Mobile Actions - Below image */}
-                    <div className="flex md:hidden items-center gap-3 mt-3">
-                        <button
-                            onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleRead?.(article.id); }}
-                            className={clsx(
-                                "p-1.5 rounded-full transition-colors",
-                                article.isRead ? "text-brand bg-brand/10" : "text-zinc-400 hover:text-brand hover:bg-brand/10"
-                            )}
-                        >
-                            <Check size={16} strokeWidth={2.5} />
-                        </button>
-                        <button
-                            onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleBookmark?.(article.id); }}
-                            className={clsx(
-                                "p-1.5 rounded-full transition-colors",
-                                article.isBookmarked ? "text-amber-500 bg-amber-500/10" : "text-zinc-400 hover:text-amber-500 hover:bg-amber-500/10"
-                            )}
-                        >
-                            <Bookmark size={16} className={article.isBookmarked ? "fill-current" : ""} />
-                        </button>
-                    </div>
-                </article>
-            </Link>
-        </ArticleSwipeRow>
+                                title="Labels"
+                            >
+                                <Tag size={16} />
+                            </button>
+                        </div>
+                    </article>
+                </Link>
+            </ArticleSwipeRow>
+
+            {isLabelPickerOpen && (
+                <LabelPicker
+                    isOpen
+                    onClose={() => setIsLabelPickerOpen(false)}
+                    articleId={article.id}
+                    labels={labels}
+                    onChange={setSavedLabels}
+                />
+            )}
+        </>
     );
 }
 
@@ -332,8 +403,10 @@ export const ArticleItem = React.memo(ArticleItemComponent, (prev, next) => {
         prev.article.id === next.article.id &&
         prev.article.isRead === next.article.isRead &&
         prev.article.isBookmarked === next.article.isBookmarked &&
+        prev.article.tags === next.article.tags &&
         prev.isSelected === next.isSelected &&
-        prev.feed?.id === next.feed?.id
+        prev.feed?.id === next.feed?.id &&
+        prev.alsoIn?.join() === next.alsoIn?.join()
     );
 });
 
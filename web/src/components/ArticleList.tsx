@@ -3,6 +3,7 @@
 import React, { useEffect, useRef, useMemo, useState, useCallback } from 'react';
 import { Virtuoso, VirtuosoHandle } from 'react-virtuoso';
 import { Article } from '@/lib/db';
+import { ClusterService } from '@/lib/cluster-service';
 import { ArticleItem } from './ArticleItem';
 import { usePathname, useRouter } from 'next/navigation';
 import { useScrollStore } from '@/store/scrollStore';
@@ -100,7 +101,7 @@ export function ArticleList({ articles, onLoadMore, header }: ArticleListProps)
             updatePullPosition(60, true); // Snap to loading position
 
             try {
-                await runSync();
+                await runSync(true);
             } catch (e) {
                 console.error("Refresh failed", e);
             } finally {
@@ -138,17 +139,22 @@ export function ArticleList({ articles, onLoadMore, header }: ArticleListProps)
         return map;
     }, [feeds]);
 
+    // Copies of one story from several feeds share a row
+    const rows = useMemo(() => ClusterService.group(articles ?? []), [articles]);
+
     const handleToggleRead = useCallback(async (id: string) => {
         try {
             const { markArticleRead } = await import('@/lib/api-client');
-            const article = articles?.find(a => a.id === id);
-            if (article) {
-                await markArticleRead(id, !article.isRead);
+            const row = rows.find(r => r.article.id === id);
+            if (row) {
+                // Reading the story reads every copy of it
+                const isRead = !row.article.isRead;
+                await Promise.all([row.article, ...row.duplicates].map(a => markArticleRead(a.id, isRead)));
             }
         } catch (e) {
             console.error("Failed to toggle read status:", e);
         }
-    }, [articles]);
+    }, [rows]);
 
     const handleToggleBookmark = useCallback(async (id: string) => {
         try {
@@ -164,7 +170,7 @@ export function ArticleList({ articles, onLoadMore, header }: ArticleListProps)
 
     // Keyboard Navigation
     const { selectedIndex } = useKeyboardNav({
-        count: articles?.length || 0,
+        count: rows.length,
         onNext: (index) => {
             virtuosoRef.current?.scrollToIndex({ index, align: 'center', behavior: 'smooth' });
         },
@@ -172,13 +178,13 @@ export function ArticleList({ articles, onLoadMore, header }: ArticleListProps)
             virtuosoRef.current?.scrollToIndex({ index, align: 'center', behavior: 'smooth' });
         },
         onSelect: (index) => {
-            const article = articles?.[index];
+            const article = rows[index]?.article;
             if (article) {
                 router.push(`/article/${article.id}`);
             }
         },
         onMarkRead: (index) => {
-            const article = articles?.[index];
+            const article = rows[index]?.article;
             if (article) {
                 handleToggleRead(article.id);
             }
@@ -295,18 +301,19 @@ export function ArticleList({ articles, onLoadMore, header }: ArticleListProps)
             >
                 <Virtuoso
                     ref={virtuosoRef}
-                    data={articles}
+                    data={rows}
                     overscan={200}
-                    computeItemKey={(index, item) => item.id}
+                    computeItemKey={(index, row) => row.article.id}
                     components={{ Header: () => <>{header}</> }}
                     atTopStateChange={setAtTop}
                     initialTopMostItemIndex={getScrollPosition(pathname)}
                     endReached={onLoadMore}
-                    itemContent={(index, article) => (
+                    itemContent={(index, { article, duplicates }) => (
                         <ArticleItem
                             key={article.id}
                             article={article}
                             feed={feedsMap.get(article.feedID)}
+                            alsoIn={duplicates.map(d => feedsMap.get(d.feedID)?.title || 'Unknown Feed')}
                             isSelected={index === selectedIndex}
                             onToggleRead={handleToggleRead}
                             onToggleBookmark={handleToggleBookmark}
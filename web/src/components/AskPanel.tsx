@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { Loader2, MessageSquareText, Send, Trash2, X } from 'lucide-react';
+import { db } from '@/lib/db';
+import { AIService } from '@/lib/ai-service';
+import { AskService, AskScope, AskTurn, splitCitations } from '@/lib/ask-service';
+
+type DateRange = 'any' | '1' | '7' | '30' | 'custom';
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+    { value: 'any', label: 'Any time' },
+    { value: '1', label: 'Last 24 hours' },
+    { value: '7', label: 'Past week' },
+    { value: '30', label: 'Past month' },
+    { value: 'custom', label: 'Custom range' },
+];
+
+interface AskPanelProps {
+    onClose: () => void;
+}
+
+/**
+ * Chat drawer for asking questions about stored articles. Answers cite
+ * their sources, which link to the Reader.
+ */
+export function AskPanel({ onClose }: AskPanelProps) {
+    const feeds = useLiveQuery(() => db.feeds.orderBy('sortOrder').toArray(), []);
+    const folders = useLiveQuery(() => db.folders.orderBy('position').toArray(), []);
+
+    const [source, setSource] = useState(''); // '', 'feed:<id>' or 'folder:<id>'
+    const [range, setRange] = useState<DateRange>('7');
+    const [customFrom, setCustomFrom] = useState('');
+    const [customTo, setCustomTo] = useState('');
+
+    const [question, setQuestion] = useState('');
+    const [turns, setTurns] = useState<AskTurn[]>([]);
+    const [pending, setPending] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    const feedTitles = useMemo(() => new Map((feeds ?? []).map(f => [f.id, f.title])), [feeds]);
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [turns, pending]);
+
+    const buildScope = (): AskScope => {
+        const scope: AskScope = {};
+        const [kind, id] = source.split(':');
+        if (kind === 'feed') scope.feedId = id;
+        if (kind === 'folder') scope.folderId = id;
+
+        if (range === 'custom') {
+            if (customFrom) scope.from = new Date(`${customFrom}T00:00:00`);
+            if (customTo) scope.to = new Date(`${customTo}T23:59:59.999`);
+        } else if (range !== 'any') {
+            scope.from = new Date(Date.now() - parseInt(range) * 24 * 60 * 60 * 1000);
+        }
+        return scope;
+    };
+
+    const handleAsk = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = question.trim();
+        if (!text || pending) return;
+
+        setQuestion('');
+        setPending(text);
+        setError(null);
+        try {
+            const turn = await AskService.ask(text, buildScope(), turns);
+            setTurns(prev => [...prev, turn]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not answer the question');
+            setQuestion(text);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const selectClass = "text-sm px-2 py-1.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950";
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end">
+            <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative w-full sm:w-[30rem] h-full bg-white dark:bg-zinc-900 shadow-2xl border-l border-zinc-200 dark:border-zinc-800 flex flex-col">
+                <div className="flex items-center gap-2 px-4 h-14 border-b border-zinc-200 dark:border-zinc-800 shrink-0">
+                    <MessageSquareText size={18} className="text-brand" />
+                    <h2 className="font-semibold mr-auto">Ask Your Feeds</h2>
+                    {turns.length > 0 && (
+                        <button
+                            onClick={() => setTurns([])}
+                            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+                            title="Clear conversation"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+                        title="Close"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {/* Scope */}
+                <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-800 flex flex-wrap gap-2 shrink-0">
+                    <select className={`${selectClass} flex-1 min-w-0`} value={source} onChange={e => setSource(e.target.value)}>
+                        <option value="">All feeds</option>
+                        {(folders ?? []).length > 0 && (
+                            <optgroup label="Folders">
+                                {folders!.map(folder => <option key={folder.id} value={`folder:${folder.id}`}>{folder.name}</option>)}
+                            </optgroup>
+                        )}
+                        <optgroup label="Feeds">
+                            {(feeds ?? []).map(feed => <option key={feed.id} value={`feed:${feed.id}`}>{feed.title}</option>)}
+                        </optgroup>
+                    </select>
+                    <select className={selectClass} value={range} onChange={e => setRange(e.target.value as DateRange)}>
+                        {DATE_RANGES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                    </select>
+                    {range === 'custom' && (
+                        <div className="w-full flex items-center gap-2 text-sm">
+                            <input type="date" className={`${selectClass} flex-1`} value={customFrom} onChange={e => setCustomFrom(e.target.value)} aria-label="From" />
+                            <span className="text-zinc-400">to</span>
+                            <input type="date" className={`${selectClass} flex-1`} value={customTo} onChange={e => setCustomTo(e.target.value)} aria-label="To" />
+                        </div>
+                    )}
+                </div>
+
+                {/* Conversation */}
+                <div className="flex-1 overflow-y-auto px-4 py-4 space-y-6">
+                    {turns.length === 0 && !pending && (
+                        <p className="text-sm text-zinc-500 text-center mt-8">
+                            Ask what your feeds said about a topic, e.g. &ldquo;What happened with the EU AI Act?&rdquo;
+                        </p>
+                    )}
+
+                    {turns.map((turn, i) => (
+                        <div key={i} className="space-y-3">
+                            <p className="ml-auto w-fit max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm bg-brand text-white text-sm">{turn.question}</p>
+                            <p className="text-sm leading-relaxed whitespace-pre-line text-zinc-800 dark:text-zinc-200">
+                                {splitCitations(turn.answer, turn.sources.length).map((part, j) => typeof part === 'number' ? (
+                                    <Link
+                                        key={j}
+                                        href={`/article/${turn.sources[part - 1].id}`}
+                                        className="text-brand font-medium hover:underline"
+                                        title={turn.sources[part - 1].title}
+                                    >
+                                        [{part}]
+                                    </Link>
+                                ) : part)}
+                            </p>
+                            {turn.sources.length > 0 && (
+                                <ol className="space-y-1 text-xs">
+                                    {turn.sources.map((source, n) => (
+                                        <li key={source.id} className="flex gap-2">
+                                            <span className="text-zinc-400 shrink-0">[{n + 1}]</span>
+                                            <Link href={`/article/${source.id}`} className="min-w-0 hover:text-brand">
+                                                <span className="font-medium line-clamp-1">{source.title}</span>
+                                                <span className="text-zinc-500">
+                                                    {feedTitles.get(source.feedID) ?? 'Unknown feed'}
+                                                    {source.publishedAt && ` · ${format(source.publishedAt, 'MMM d')}`}
+                                                </span>
+                                            </Link>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </div>
+                    ))}
+
+                    {pending && (
+                        <div className="space-y-3">
+                            <p className="ml-auto w-fit max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm bg-brand text-white text-sm">{pending}</p>
+                            <p className="text-sm text-zinc-500 flex items-center gap-2">
+                                <Loader2 size={14} className="animate-spin" /> Reading your articles...
+                            </p>
+                        </div>
+                    )}
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    <div ref={bottomRef} />
+                </div>
+
+                {/* Input */}
+                <div className="p-3 border-t border-zinc-200 dark:border-zinc-800 shrink-0">
+                    {AIService.isConfigured() ? (
+                        <form onSubmit={handleAsk} className="flex gap-2">
+                            <input
+                                type="text"
+                                value={question}
+                                onChange={e => setQuestion(e.target.value)}
+                                placeholder="Ask about your feeds..."
+                                className="flex-1 text-sm px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950 focus:ring-2 focus:ring-brand outline-none"
+                                autoFocus
+                            />
+                            <button
+                                type="submit"
+                                disabled={!question.trim() || !!pending}
+                                className="px-3 py-2 rounded-lg bg-brand text-white hover:brightness-110 disabled:opacity-50 transition"
+                                title="Ask"
+                            >
+                                <Send size={16} />
+                            </button>
+                        </form>
+                    ) : (
+                        <p className="text-sm text-zinc-500 text-center">
+                            Choose an AI provider in <Link href="/settings" className="underline">Settings</Link> to ask questions.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
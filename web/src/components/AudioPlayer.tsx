@@ -6,11 +6,13 @@ import { useAudioStore } from '@/store/audioStore';
 import { Play, Pause, X, ChevronUp, ChevronDown, SkipBack, SkipForward, Moon } from 'lucide-react';
 import { clsx } from 'clsx';
 import { format } from 'date-fns';
+import { db } from '@/lib/db';
+import { PlaybackQueueService } from '@/lib/playback-queue';
 
 export function AudioPlayer() {
     const {
         currentTrack, isPlaying, progress, duration, currentTime, playbackRate, sleepTimerEndTime,
-        play, pause, setProgress, setDuration, setPlaybackRate, setSleepTimer, cancelSleepTimer, close, toggleExpand, isExpanded
+        play, pause, setTrack, setProgress, setDuration, setPlaybackRate, setSleepTimer, cancelSleepTimer, close, toggleExpand, isExpanded
     } = useAudioStore();
 
     const audioRef = useRef<HTMLAudioElement>(null);
@@ -107,6 +109,25 @@ export function AudioPlayer() {
         }
     };
 
+    // Continue with the next queued episode, if any
+    const handleEnded = async () => {
+        const next = await PlaybackQueueService.shift();
+        if (!next?.enclosureURL) {
+            pause();
+            return;
+        }
+
+        const feed = await db.feeds.get(next.feedID);
+        setTrack({
+            id: next.id,
+            url: next.enclosureURL,
+            title: next.title,
+            artist: feed?.title,
+            artwork: next.thumbnailPath,
+            duration: next.duration
+        });
+    };
+
     const formatTime = (seconds: number) => {
         if (!seconds) return "0:00";
         const m = Math.floor(seconds / 60);
@@ -121,7 +142,7 @@ export function AudioPlayer() {
             <audio
                 ref={audioRef}
                 onTimeUpdate={handleTimeUpdate}
-                onEnded={() => pause()}
+                onEnded={handleEnded}
                 className="hidden"
             />
 
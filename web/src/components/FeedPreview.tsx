@@ -6,16 +6,19 @@ import { clsx } from 'clsx';
 import { parseFeed } from '@/lib/feed-parser';
 import { formatDistanceToNow } from 'date-fns';
 import { Article } from '@/lib/db';
+import type { HtmlFeedSelectors } from '@feedstream/common';
 
 interface FeedPreviewProps {
     feedUrl: string;
+    htmlSelectors?: HtmlFeedSelectors; // Preview a scraped web page; re-parsed live as the selectors change
     onCancel: () => void;
     onConfirm: () => void;
 }
 
-export function FeedPreview({ feedUrl, onCancel, onConfirm }: FeedPreviewProps) {
+export function FeedPreview({ feedUrl, htmlSelectors, onCancel, onConfirm }: FeedPreviewProps) {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [pageText, setPageText] = useState<string | null>(null);
     const [feedData, setFeedData] = useState<{
         title: string;
         description?: string;
@@ -23,10 +26,16 @@ export function FeedPreview({ feedUrl, onCancel, onConfirm }: FeedPreviewProps)
         articles: Article[];
     } | null>(null);
 
+    const isPage = !!htmlSelectors;
+    // Parsing depends on the selectors' values, not the object passed in
+    const selectorsKey = htmlSelectors ? JSON.stringify(htmlSelectors) : '';
+
+    // Fetch once per URL; selector edits only re-parse
     useEffect(() => {
         const fetchPreview = async () => {
             setLoading(true);
             setError(null);
+            setPageText(null);
 
             try {
                 // Fetch feed via proxy
@@ -34,28 +43,48 @@ export function FeedPreview({ feedUrl, onCancel, onConfirm }: FeedPreviewProps)
                 const response = await fetch(proxyUrl);
 
                 if (!response.ok) {
-                    throw new Error('Failed to fetch feed');
+                    throw new Error(isPage ? 'Failed to fetch page' : 'Failed to fetch feed');
                 }
 
-                const text = await response.text();
-                const parsed = await parseFeed(text, feedUrl);
+                setPageText(await response.text());
+            } catch (e: any) {
+                console.error('Feed preview error:', e);
+                setError(e.message || 'Failed to load feed preview');
+                setLoading(false);
+            }
+        };
+
+        fetchPreview();
+    }, [feedUrl, isPage]);
+
+    useEffect(() => {
+        if (pageText === null) return;
+        let cancelled = false;
 
+        const parsePreview = async () => {
+            try {
+                const selectors: HtmlFeedSelectors | undefined = selectorsKey ? JSON.parse(selectorsKey) : undefined;
+                const parsed = await parseFeed(pageText, feedUrl, selectors);
+                if (cancelled) return;
+                setError(null);
                 setFeedData({
                     title: parsed.title || 'Untitled Feed',
                     description: parsed.site,
                     icon: parsed.avatarURL,
-                    articles: parsed.articles.slice(0, 5) // Only show first 5
+                    articles: parsed.articles.slice(0, selectors ? 10 : 5) // Scraped pages show more, to check the selectors
                 });
-            } catch (e: any) {
+            } catch (e) {
+                if (cancelled) return;
                 console.error('Feed preview error:', e);
-                setError(e.message || 'Failed to load feed preview');
+                setError(e instanceof Error ? e.message : 'Failed to load feed preview');
             } finally {
-                setLoading(false);
+                if (!cancelled) setLoading(false);
             }
         };
 
-        fetchPreview();
-    }, [feedUrl]);
+        parsePreview();
+        return () => { cancelled = true; };
+    }, [pageText, feedUrl, selectorsKey]);
 
     if (loading) {
         return (
@@ -118,7 +147,7 @@ export function FeedPreview({ feedUrl, onCancel, onConfirm }: FeedPreviewProps)
             {/* Recent Articles */}
             <div>
                 <h4 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">
-                    Recent Articles ({feedData.articles.length})
+                    {htmlSelectors ? 'Matched Items' : 'Recent Articles'} ({feedData.articles.length})
                 </h4>
 
                 {feedData.articles.length > 0 ? (
@@ -131,6 +160,12 @@ export function FeedPreview({ feedUrl, onCancel, onConfirm }: FeedPreviewProps)
                                 <h5 className="text-sm font-medium text-zinc-900 dark:text-zinc-100 line-clamp-2 mb-1">
                                     {article.title}
                                 </h5>
+                                {htmlSelectors && article.url && (
+                                    <p className="text-xs text-brand truncate mb-1">{article.url}</p>
+                                )}
+                                {htmlSelectors && article.summary && (
+                                    <p className="text-xs text-zinc-600 dark:text-zinc-400 line-clamp-2 mb-1">{article.summary}</p>
+                                )}
                                 {article.publishedAt && (
                                     <p className="text-xs text-zinc-500">
                                         {formatDistanceToNow(article.publishedAt, { addSuffix: true })}
@@ -141,7 +176,7 @@ export function FeedPreview({ feedUrl, onCancel, onConfirm }: FeedPreviewProps)
                     </div>
                 ) : (
                     <p className="text-sm text-zinc-500 text-center py-8">
-                        No recent articles found
+                        {htmlSelectors ? 'No items match the item selector' : 'No recent articles found'}
                     </p>
                 )}
             </div>
@@ -3,21 +3,22 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { FeedSearchService, FeedSearchResult } from '@/lib/feed-search-service';
 import { FeedType, db } from '@/lib/db';
-import { Search, Plus, Loader2, Rss, Youtube, Mic, Hash, X, Link as LinkIcon, List, Sparkles, Check } from 'lucide-react';
+import { Search, Plus, Loader2, Rss, Youtube, Mic, Hash, X, Link as LinkIcon, List, Sparkles, Check, Globe, Eye } from 'lucide-react';
 import { clsx } from 'clsx';
-import { FeedService } from '@/lib/feed-service';
+import { FeedService, AddFeedOptions } from '@/lib/feed-service';
 import { FolderSelector } from './FolderSelector';
 import { URLDetector } from '@/lib/url-detector';
 import { FeedPreview } from './FeedPreview';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { toast } from 'sonner';
+import { isSupportedSelector, type HtmlFeedSelectors } from '@feedstream/common';
 
 interface FeedSearchModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
-type TabType = 'search' | 'url' | 'bulk';
+type TabType = 'search' | 'url' | 'page' | 'bulk';
 
 const FEED_TABS: { id: 'all' | FeedType, label: string, icon: any }[] = [
     { id: 'all', label: 'All', icon: Search },
@@ -27,6 +28,16 @@ const FEED_TABS: { id: 'all' | FeedType, label: string, icon: any }[] = [
     { id: 'rss', label: 'RSS', icon: Rss },
 ];
 
+const EMPTY_SELECTORS: HtmlFeedSelectors = { item: '', title: '', link: '', date: '', summary: '' };
+
+const SELECTOR_FIELDS: { key: keyof HtmlFeedSelectors; label: string; placeholder: string }[] = [
+    { key: 'item', label: 'Item', placeholder: 'article.post' },
+    { key: 'title', label: 'Title', placeholder: 'h2 (default: first heading)' },
+    { key: 'link', label: 'Link', placeholder: 'a.permalink (default: title link)' },
+    { key: 'date', label: 'Date', placeholder: 'time, .date' },
+    { key: 'summary', label: 'Summary', placeholder: '.excerpt' },
+];
+
 export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
     const [activeTab, setActiveTab] = useState<TabType>('url');
     const [query, setQuery] = useState('');
@@ -38,6 +49,11 @@ export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
     const [bulkUrls, setBulkUrls] = useState('');
     const [bulkProgress, setBulkProgress] = useState<{ current: number; total: number } | null>(null);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [pageUrl, setPageUrl] = useState('');
+    const [pageMode, setPageMode] = useState<'items' | 'watch'>('items');
+    const [watchSelector, setWatchSelector] = useState('');
+    const [pageSelectors, setPageSelectors] = useState<HtmlFeedSelectors>(EMPTY_SELECTORS);
+    const [pagePreview, setPagePreview] = useState<{ url: string; selectors: HtmlFeedSelectors } | null>(null);
 
     // Get existing feeds to check if already added
     const existingFeeds = useLiveQuery(() => db.feeds.toArray()) || [];
@@ -50,9 +66,28 @@ export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
             setResults([]);
             setBulkUrls('');
             setSelectedFolderId(null);
+            setPageUrl('');
+            setPageSelectors(EMPTY_SELECTORS);
+            setWatchSelector('');
         }
     }, [isOpen]);
 
+    const invalidSelectors = SELECTOR_FIELDS
+        .filter(({ key }) => pageSelectors[key]?.trim() && !isSupportedSelector(pageSelectors[key]!))
+        .map(({ key }) => key);
+    const watchSelectorInvalid = watchSelector.trim() !== '' && !isSupportedSelector(watchSelector);
+
+    // Live preview of a scraped page, once typing settles and the selectors parse
+    useEffect(() => {
+        const timeoutId = setTimeout(() => {
+            const url = pageUrl.trim();
+            const valid = URLDetector.isValidURL(url) && pageSelectors.item.trim() && SELECTOR_FIELDS.every(({ key }) =>
+                !pageSelectors[key]?.trim() || isSupportedSelector(pageSelectors[key]!));
+            setPagePreview(valid ? { url, selectors: pageSelectors } : null);
+        }, 400);
+        return () => clearTimeout(timeoutId);
+    }, [pageUrl, pageSelectors]);
+
     // Search with debounce
     useEffect(() => {
         if (activeTab !== 'search') return;
@@ -77,12 +112,12 @@ export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
         return () => clearTimeout(timeoutId);
     }, [query, feedTypeFilter, activeTab]);
 
-    const handleAdd = async (url: string, title?: string) => {
+    const handleAdd = async (url: string, title?: string, options?: AddFeedOptions) => {
         setAddingUrl(url);
         try {
-            // Auto-convert YouTube/Reddit URLs
-            const convertedUrl = await URLDetector.convertToFeedURL(url);
-            await FeedService.addFeed(convertedUrl, selectedFolderId || undefined);
+            // Auto-convert YouTube/Reddit URLs; web pages are used as given
+            const convertedUrl = options ? url : await URLDetector.convertToFeedURL(url);
+            await FeedService.addFeed(convertedUrl, selectedFolderId || undefined, options);
             onClose();
             toast.success(`Added ${title || 'feed'}`);
         } catch (e: any) {
@@ -107,6 +142,25 @@ export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
         setPreviewUrl(null);
     };
 
+    const handleAddPage = async () => {
+        // Empty optional selectors fall back to the parser's defaults
+        const optional = (value?: string) => value?.trim() || undefined;
+        await handleAdd(pageUrl.trim(), undefined, {
+            htmlSelectors: {
+                item: pageSelectors.item.trim(),
+                title: optional(pageSelectors.title),
+                link: optional(pageSelectors.link),
+                date: optional(pageSelectors.date),
+                summary: optional(pageSelectors.summary),
+            },
+        });
+    };
+
+    const handleWatchPage = async () => {
+        await handleAdd(pageUrl.trim(), undefined, { watch: { selector: watchSelector.trim() || undefined } });
+    };
+
+
     const handleBulkAdd = async () => {
         const urls = bulkUrls.split('\n').map(u => u.trim()).filter(u => u);
         if (urls.length === 0) return;
@@ -196,6 +250,18 @@ export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
                             <Search size={16} />
                             Search
                         </button>
+                        <button
+                            onClick={() => setActiveTab('page')}
+                            className={clsx(
+                                "px-4 py-2 text-sm font-medium border-b-2 transition-colors flex items-center gap-2",
+                                activeTab === 'page'
+                                    ? "border-brand text-brand"
+                                    : "border-transparent text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+                            )}
+                        >
+                            <Globe size={16} />
+                            Web Page
+                        </button>
                         <button
                             onClick={() => setActiveTab('bulk')}
                             className={clsx(
@@ -351,6 +417,130 @@ export function FeedSearchModal({ isOpen, onClose }: FeedSearchModalProps) {
                         </div>
                     )}
 
+                    {activeTab === 'page' && (
+                        <div className="p-4 sm:p-6 space-y-4">
+                            <div className="flex gap-2">
+                                {([['items', 'List Items', List], ['watch', 'Watch Changes', Eye]] as const).map(([mode, label, Icon]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setPageMode(mode)}
+                                        className={clsx(
+                                            "flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-colors",
+                                            pageMode === mode
+                                                ? "bg-zinc-900 text-white dark:bg-white dark:text-zinc-900"
+                                                : "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                                        )}
+                                    >
+                                        <Icon size={14} />
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                                {pageMode === 'items'
+                                    ? 'Follow a site without a feed. Pick the repeating element for each entry with a CSS selector; the other selectors are relative to it.'
+                                    : 'Get an article showing what changed whenever the page does. Narrow it to part of the page with a CSS selector to ignore ads and timestamps.'}
+                            </p>
+
+                            <div className="relative">
+                                <Globe className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={18} />
+                                <input
+                                    type="text"
+                                    placeholder="https://example.com/news"
+                                    className="w-full pl-10 pr-4 py-3 bg-zinc-100 dark:bg-zinc-800 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand text-zinc-900 dark:text-zinc-100"
+                                    value={pageUrl}
+                                    onChange={(e) => setPageUrl(e.target.value)}
+                                    autoFocus
+                                />
+                            </div>
+
+                            {pageMode === 'items' ? (
+                                <>
+                                <div className="grid grid-cols-[5rem_1fr] gap-2 items-center">
+                                    {SELECTOR_FIELDS.map(field => (
+                                        <React.Fragment key={field.key}>
+                                            <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                                                {field.label}{field.key === 'item' && <span className="text-red-500">*</span>}
+                                            </label>
+                                            <input
+                                                type="text"
+                                                placeholder={field.placeholder}
+                                                value={pageSelectors[field.key] ?? ''}
+                                                onChange={(e) => setPageSelectors(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                                className={clsx(
+                                                    "w-full px-3 py-2 text-sm font-mono bg-zinc-100 dark:bg-zinc-800 rounded-lg focus:outline-none focus:ring-2 text-zinc-900 dark:text-zinc-100",
+                                                    invalidSelectors.includes(field.key) ? "ring-2 ring-red-500 focus:ring-red-500" : "focus:ring-brand"
+                                                )}
+                                            />
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                                {invalidSelectors.length > 0 && (
+                                    <p className="text-xs text-red-500">
+                                        Use tag, #id, .class and [attribute] selectors, combined with spaces, &gt; or commas
+                                    </p>
+                                )}
+                                </>
+                            ) : (
+                                <>
+                                    <input
+                                        type="text"
+                                        placeholder="Selector (optional), e.g. main .changelog"
+                                        value={watchSelector}
+                                        onChange={(e) => setWatchSelector(e.target.value)}
+                                        className={clsx(
+                                            "w-full px-3 py-2 text-sm font-mono bg-zinc-100 dark:bg-zinc-800 rounded-lg focus:outline-none focus:ring-2 text-zinc-900 dark:text-zinc-100",
+                                            watchSelectorInvalid ? "ring-2 ring-red-500 focus:ring-red-500" : "focus:ring-brand"
+                                        )}
+                                    />
+                                    {watchSelectorInvalid && (
+                                        <p className="text-xs text-red-500">
+                                            Use tag, #id, .class and [attribute] selectors, combined with spaces, &gt; or commas
+                                        </p>
+                                    )}
+                                </>
+                            )}
+
+                            <FolderSelector
+                                selectedFolderId={selectedFolderId}
+                                onChange={setSelectedFolderId}
+                            />
+
+                            {pageMode === 'watch' && (
+                                <button
+                                    onClick={handleWatchPage}
+                                    disabled={!URLDetector.isValidURL(pageUrl.trim()) || watchSelectorInvalid || !!addingUrl}
+                                    className="w-full py-3 bg-brand text-white rounded-lg hover:bg-brand/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                                >
+                                    {addingUrl ? (
+                                        <div className="flex items-center justify-center gap-2">
+                                            <Loader2 className="animate-spin" size={20} />
+                                            Adding...
+                                        </div>
+                                    ) : (
+                                        'Watch Page'
+                                    )}
+                                </button>
+                            )}
+                            {pageMode === 'items' && (pagePreview ? (
+                                <div className="border border-zinc-200 dark:border-zinc-800 rounded-lg">
+                                    <FeedPreview
+                                        feedUrl={pagePreview.url}
+                                        htmlSelectors={pagePreview.selectors}
+                                        onCancel={() => { setPageUrl(''); setPageSelectors(EMPTY_SELECTORS); }}
+                                        onConfirm={handleAddPage}
+                                    />
+                                </div>
+                            ) : (
+                                <div className="text-center p-8 text-zinc-400">
+                                    <Globe className="mx-auto mb-2 opacity-20" size={48} />
+                                    <p className="text-sm">Enter a page URL and an item selector to preview</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {activeTab === 'bulk' && (
                         <div className="p-4 sm:p-6 space-y-4">
                             <p className="text-sm text-zinc-600 dark:text-zinc-400">
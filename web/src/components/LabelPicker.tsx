@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { clsx } from 'clsx';
+import { X, Tag, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { normalizeLabel } from '@feedstream/common';
+import { LabelService } from '@/lib/label-service';
+
+interface LabelPickerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    articleId: string;
+    labels: string[];
+    onChange?: (labels: string[]) => void;
+}
+
+/**
+ * Modal for attaching labels to one article. Rendered into document.body so it
+ * isn't clipped by (or navigates through) the list row it was opened from.
+ */
+export function LabelPicker({ isOpen, onClose, articleId, labels, onChange }: LabelPickerProps) {
+    const [selected, setSelected] = useState<string[]>(labels);
+    const [draft, setDraft] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const known = useLiveQuery(() => LabelService.list()) || [];
+
+    if (!isOpen || typeof document === 'undefined') return null;
+
+    const toggle = (label: string) => {
+        setSelected(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]);
+    };
+
+    const addDraft = () => {
+        const label = normalizeLabel(draft);
+        if (label && !selected.includes(label)) setSelected(prev => [...prev, label]);
+        setDraft('');
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const stored = await LabelService.setLabels(articleId, draft.trim() ? [...selected, draft] : selected);
+            onChange?.(stored);
+            onClose();
+        } catch (e) {
+            toast.error(e instanceof Error ? e.message : 'Failed to save labels');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Labels in use elsewhere plus any picked here that are new
+    const options = Array.from(new Set([...known.map(l => l.name), ...selected])).sort();
+
+    const chip = (active: boolean) => clsx(
+        "px-3 py-1.5 text-xs font-medium rounded-full border transition-all flex items-center gap-1.5",
+        active
+            ? "bg-brand/10 border-brand text-brand"
+            : "border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:border-zinc-300 dark:hover:border-zinc-600"
+    );
+
+    return createPortal(
+        <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="bg-white dark:bg-zinc-900 rounded-xl w-full max-w-sm shadow-2xl border border-zinc-200 dark:border-zinc-800 flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="px-5 py-4 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <h2 className="text-lg font-bold dark:text-white flex items-center gap-2">
+                        <Tag size={18} className="text-brand" />
+                        Labels
+                    </h2>
+                    <button onClick={onClose} className="p-2 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 rounded-full hover:bg-zinc-100 dark:hover:bg-zinc-800">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    <form
+                        className="flex gap-2"
+                        onSubmit={e => { e.preventDefault(); addDraft(); }}
+                    >
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={e => setDraft(e.target.value)}
+                            className="flex-1 bg-zinc-100 dark:bg-zinc-800 border border-transparent rounded-lg px-3 py-2 text-sm dark:text-white focus:ring-2 focus:ring-brand outline-none"
+                            placeholder="New label..."
+                            autoFocus
+                        />
+                        <button type="submit" disabled={!draft.trim()} className="p-2 rounded-lg text-brand hover:bg-brand/10 disabled:opacity-40" title="Add label">
+                            <Plus size={18} />
+                        </button>
+                    </form>
+
+                    {options.length > 0 ? (
+                        <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+                            {options.map(label => (
+                                <button key={label} onClick={() => toggle(label)} className={chip(selected.includes(label))}>
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-zinc-500">No labels yet. Type one above to create it.</p>
+                    )}
+                </div>
+
+                <div className="px-5 py-4 border-t border-zinc-200 dark:border-zinc-800 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium rounded-lg text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="px-4 py-2 text-sm font-medium rounded-lg bg-brand text-white hover:bg-brand/90 disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+}
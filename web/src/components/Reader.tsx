@@ -3,13 +3,21 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import DOMPurify from 'dompurify';
-import { Article } from '@/lib/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { applyContentRules } from '@feedstream/common';
+import { db, Article, HighlightColor } from '@/lib/db';
 import { format } from 'date-fns';
 import { ExternalLink, BookOpen, ZoomIn, ZoomOut, Share, Palette, Moon, Sun, Headphones, Square } from 'lucide-react';
 import { decodeHTMLEntities } from '@/lib/utils';
-import { db } from '@/lib/db';
 import { clsx } from 'clsx';
 import { ArticleVideoPlayer } from './article/ArticleVideoPlayer';
+import { HighlightMenu } from './article/HighlightMenu';
+import { ArticleSummaryCard } from './article/ArticleSummaryCard';
+import { ExplainCard, Explanation } from './article/ExplainCard';
+import { HighlightService } from '@/lib/highlight-service';
+import { PrefetchService } from '@/lib/prefetch-service';
+import { SummaryService } from '@/lib/summary-service';
+import { TextSpan, locateQuote, quoteAt, rangeToSpan, unwrapMarks, wrapSpan } from '@/lib/highlight-anchor';
 
 import { toast } from 'sonner';
 import './Reader.css';
@@ -56,6 +64,13 @@ interface ReaderProps {
 
 type ReaderTheme = 'light' | 'sepia' | 'navy' | 'black';
 
+const HIGHLIGHT_SELECTOR = 'mark[data-highlight-id]';
+
+// What the floating highlight menu is acting on
+type HighlightTarget =
+    | { kind: 'selection'; span: TextSpan; top: number; left: number }
+    | { kind: 'highlight'; id: string; top: number; left: number; withNote?: boolean };
+
 export function Reader({ article }: ReaderProps) {
     const [content, setContent] = useState<string>('');
     const [isReaderMode, setIsReaderMode] = useState(false);
@@ -67,6 +82,20 @@ export function Reader({ article }: ReaderProps) {
     const [isSpeaking, setIsSpeaking] = useState(false);
     const speechRef = useRef<SpeechSynthesisUtterance | null>(null);
 
+    // Highlights
+    const contentRef = useRef<HTMLDivElement>(null);
+    const [highlightTarget, setHighlightTarget] = useState<HighlightTarget | null>(null);
+    const [unplacedHighlights, setUnplacedHighlights] = useState(0);
+    const highlights = useLiveQuery(() => HighlightService.forArticle(article), [article.id, article.url]);
+
+    // "Explain this" for a selection
+    const [explanation, setExplanation] = useState<Explanation | null>(null);
+
+    // Per-feed reader settings from Manage Feeds
+    const readerSettings = useLiveQuery(() => db.feeds.get(article.feedID).then(feed => feed?.readerSettings), [article.feedID]);
+    const removeSelector = readerSettings?.removeSelector;
+    const stripImages = readerSettings?.stripImages;
+
     // Load saved preferences if available (could be moved to store)
     useEffect(() => {
         const savedTheme = localStorage.getItem('reader-theme') as ReaderTheme;
@@ -137,27 +166,18 @@ export function Reader({ article }: ReaderProps) {
     };
 
 
-    // Helper to fetch and parse with Readability
+    // Helper to fetch and extract the main content (shared extractor in @feedstream/common)
     const fetchReaderContent = async () => {
         if (!article.url) return null;
 
         try {
-            const proxyUrl = `/api/proxy?url=${encodeURIComponent(article.url)}`;
-            const res = await fetch(proxyUrl);
-            if (!res.ok) return null;
-            const html = await res.text();
-
-            const parser = new DOMParser();
-            const doc = parser.parseFromString(html, "text/html");
-
-            const { Readability } = await import('@mozilla/readability');
-            const reader = new Readability(doc);
-            const parsed = reader.parse();
-
-            if (parsed && parsed.content) {
-                const cleanHtml = DOMPurify.sanitize(parsed.content, getSanitizeOptions());
+            // Read the settings directly; the live query may not have loaded yet
+            const feed = await db.feeds.get(article.feedID);
+            const extracted = await PrefetchService.fetchReadableContent(article.url, feed?.readerSettings);
+            if (extracted) {
+                const cleanHtml = DOMPurify.sanitize(extracted.content, getSanitizeOptions());
                 // Cache in DB
-                await db.articles.update(article.id, { readerHTML: cleanHtml });
+                await PrefetchService.saveReadableContent(article, extracted, cleanHtml);
                 return cleanHtml;
             }
         } catch (e) {
@@ -169,6 +189,13 @@ export function Reader({ article }: ReaderProps) {
     // Memoize options to avoid re-creating hook on every render
     const sanitizeOptions = React.useMemo(() => getSanitizeOptions(), []);
 
+    // The feed's own content, with the feed's remove selector and image rule applied
+    const sanitizeFeedContent = React.useCallback((html: string) => {
+        // Decode entities first to handle double-escaped content (common in Reddit feeds)
+        const decoded = decodeHTMLEntities(html);
+        return DOMPurify.sanitize(applyContentRules(decoded, { removeSelector, stripImages }), sanitizeOptions);
+    }, [removeSelector, stripImages, sanitizeOptions]);
+
     // 1. Initial Content Resolution (Fast)
     useEffect(() => {
         // If we have cached reader content, use it immediately
@@ -181,17 +208,16 @@ export function Reader({ article }: ReaderProps) {
         // Fallback to RSS content (Sanitize once)
         const initialHtml = article.contentHTML || article.summary || '';
         if (initialHtml) {
-            // Decode entities first to handle double-escaped content (common in Reddit feeds)
-            const decoded = decodeHTMLEntities(initialHtml);
-            setContent(DOMPurify.sanitize(decoded, sanitizeOptions));
+            setContent(sanitizeFeedContent(initialHtml));
         }
-    }, [article.id, article.readerHTML, article.contentHTML, article.summary, sanitizeOptions]);
+    }, [article.id, article.readerHTML, article.contentHTML, article.summary, sanitizeFeedContent]);
 
     // 2. Background Fetch & Enhancement (Slow)
     useEffect(() => {
         const enhanceContent = async () => {
             // Auto-fetch reader content for RSS feeds if not cached
-            const shouldAutoReader = article.mediaKind !== 'youtube' && article.mediaKind !== 'podcast';
+            // Page-change diffs are the content; the page itself is what they compare against
+            const shouldAutoReader = article.mediaKind !== 'youtube' && article.mediaKind !== 'podcast' && article.mediaKind !== 'diff';
             
             if (shouldAutoReader && article.url && !article.readerHTML) {
                 setLoading(true);
@@ -231,9 +257,7 @@ export function Reader({ article }: ReaderProps) {
     const toggleReaderMode = async () => {
         if (isReaderMode) {
             // Revert to RSS content
-            const rawHtml = article.contentHTML || article.summary || '';
-            const decoded = decodeHTMLEntities(rawHtml);
-            setContent(DOMPurify.sanitize(decoded, getSanitizeOptions()));
+            setContent(sanitizeFeedContent(article.contentHTML || article.summary || ''));
             setIsReaderMode(false);
             return;
         }
@@ -248,31 +272,10 @@ export function Reader({ article }: ReaderProps) {
 
         setLoading(true);
         try {
-            // Fetch via proxy to avoid CORS
-            const proxyUrl = `/api/proxy?url=${encodeURIComponent(article.url)}`;
-            const res = await fetch(proxyUrl);
-            if (!res.ok) throw new Error("Failed to fetch article");
-            const html = await res.text();
-
-            // Client-side parsing using Readability
-            // We need to create a DOM document from the string
-            const parser = new DOMParser();
-            const doc = parser.parseFromString(html, "text/html");
-
-            // We need to dynamically import Readability to avoid SSR issues if any (though this is 'use client')
-            const { Readability } = await import('@mozilla/readability');
-            const reader = new Readability(doc);
-            const parsed = reader.parse();
-
-            if (parsed && parsed.content) {
-                const cleanHtml = DOMPurify.sanitize(parsed.content, getSanitizeOptions());
+            const cleanHtml = await fetchReaderContent();
+            if (cleanHtml) {
                 setContent(cleanHtml);
                 setIsReaderMode(true);
-
-                // Optional: Save to DB for cache
-                await db.articles.update(article.id, {
-                    readerHTML: cleanHtml
-                });
             } else {
                 toast.error("Could not parse article content");
             }
@@ -285,6 +288,92 @@ export function Reader({ article }: ReaderProps) {
         }
     };
 
+    // Re-anchor highlights whenever the content or the highlights change
+    useEffect(() => {
+        const root = contentRef.current;
+        if (!root || !highlights) return;
+
+        unwrapMarks(root, HIGHLIGHT_SELECTOR);
+        const text = root.textContent || '';
+        let unplaced = 0;
+
+        for (const highlight of highlights) {
+            const span = locateQuote(text, highlight);
+            if (!span) {
+                unplaced++;
+                continue;
+            }
+            wrapSpan(root, span, {
+                'data-highlight-id': highlight.id,
+                class: `reader-highlight reader-highlight-${highlight.color}`,
+                ...(highlight.note ? { 'data-note': '', title: highlight.note } : {}),
+            });
+        }
+        setUnplacedHighlights(unplaced);
+    }, [content, highlights]);
+
+    const handleSelectionEnd = () => {
+        const root = contentRef.current;
+        const selection = window.getSelection();
+        if (!root || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+        const range = selection.getRangeAt(0);
+        const span = rangeToSpan(root, range);
+        if (!span) return;
+
+        // Don't include whitespace selected at either end
+        const text = root.textContent || '';
+        while (span.start < span.end && /\s/.test(text[span.start])) span.start++;
+        while (span.end > span.start && /\s/.test(text[span.end - 1])) span.end--;
+        if (span.start === span.end) return;
+
+        const rect = range.getBoundingClientRect();
+        setHighlightTarget({ kind: 'selection', span, top: rect.top, left: rect.left + rect.width / 2 });
+    };
+
+    const handleContentClick = (e: React.MouseEvent) => {
+        const mark = (e.target as HTMLElement).closest(HIGHLIGHT_SELECTOR);
+        if (!mark || !window.getSelection()?.isCollapsed) return;
+
+        const rect = mark.getBoundingClientRect();
+        setHighlightTarget({ kind: 'highlight', id: mark.getAttribute('data-highlight-id')!, top: rect.top, left: rect.left + rect.width / 2 });
+    };
+
+    const createHighlight = async (color: HighlightColor, withNote: boolean) => {
+        const root = contentRef.current;
+        if (!root || highlightTarget?.kind !== 'selection') return;
+
+        const { span, top, left } = highlightTarget;
+        const highlight = await HighlightService.create(article, quoteAt(root.textContent || '', span.start, span.end), color);
+        window.getSelection()?.removeAllRanges();
+        setHighlightTarget(withNote ? { kind: 'highlight', id: highlight.id, top, left, withNote } : null);
+    };
+
+    const explainSelection = async () => {
+        const root = contentRef.current;
+        if (!root || highlightTarget?.kind !== 'selection') return;
+
+        const { span } = highlightTarget;
+        const fullText = root.textContent || '';
+        const quote = fullText.slice(span.start, span.end);
+        window.getSelection()?.removeAllRanges();
+        setHighlightTarget(null);
+        setExplanation({ quote });
+
+        // Ignore the answer if another passage was picked meanwhile
+        const settle = (result: Partial<Explanation>) =>
+            setExplanation(prev => prev?.quote === quote ? { quote, ...result } : prev);
+        try {
+            settle({ text: await SummaryService.explain(article, fullText, span.start, span.end) });
+        } catch (e) {
+            settle({ error: e instanceof Error ? e.message : 'Explanation failed' });
+        }
+    };
+
+    const activeHighlight = highlightTarget?.kind === 'highlight'
+        ? highlights?.find(h => h.id === highlightTarget.id)
+        : undefined;
+
     // Theme Classes - explicit colors that override system dark mode
     const getThemeClasses = () => {
         switch (theme) {
@@ -385,12 +474,49 @@ export function Reader({ article }: ReaderProps) {
                     )}
                 </header>
 
+                {article.mediaKind !== 'diff' && <ArticleSummaryCard article={article} />}
+
                 <div
+                    ref={contentRef}
                     className="reader-content prose prose-zinc dark:prose-invert prose-lg max-w-none"
                     style={{ fontSize: `${zoom}%` }}
+                    onMouseUp={handleSelectionEnd}
+                    onTouchEnd={handleSelectionEnd}
+                    onClick={handleContentClick}
                     dangerouslySetInnerHTML={{ __html: content }}
                 />
 
+                {unplacedHighlights > 0 && (
+                    <p className="mt-8 text-sm opacity-60">
+                        {unplacedHighlights === 1 ? '1 highlight' : `${unplacedHighlights} highlights`} no longer match the article text. They are still listed on the Highlights page.
+                    </p>
+                )}
+
+                {highlightTarget?.kind === 'selection' && (
+                    <HighlightMenu
+                        position={highlightTarget}
+                        onCreate={createHighlight}
+                        onExplain={explainSelection}
+                        onClose={() => setHighlightTarget(null)}
+                    />
+                )}
+                {activeHighlight && highlightTarget?.kind === 'highlight' && (
+                    <HighlightMenu
+                        key={activeHighlight.id}
+                        position={highlightTarget}
+                        highlight={activeHighlight}
+                        startWithNote={highlightTarget.withNote}
+                        onUpdate={changes => HighlightService.update(activeHighlight.id, changes)}
+                        onDelete={() => {
+                            HighlightService.delete(activeHighlight.id);
+                            setHighlightTarget(null);
+                        }}
+                        onClose={() => setHighlightTarget(null)}
+                    />
+                )}
+
+                {explanation && <ExplainCard explanation={explanation} onClose={() => setExplanation(null)} />}
+
                 {
                     loading && (
                         <div className="fixed inset-0 flex items-center justify-center bg-white/50 dark:bg-black/50 backdrop-blur-sm z-50">
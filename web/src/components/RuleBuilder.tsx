@@ -0,0 +1,307 @@
+'use client';
+
+import { clsx } from 'clsx';
+import { Plus, X, Layers } from 'lucide-react';
+import { Folder, RuleAction, RuleCondition, RuleConditionGroup, RuleField, RuleOperator } from '@/lib/db';
+import { RULE_FIELD_OPERATORS } from '@/lib/rules-engine';
+import { uuidv4 } from '@/lib/utils';
+
+const MAX_DEPTH = 2; // Root group plus one level of nested groups
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+    title: 'Title',
+    content: 'Content',
+    author: 'Author',
+    url: 'URL',
+    domain: 'Domain',
+    media_kind: 'Media type',
+    age_hours: 'Age (hours)',
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+    contains: 'contains',
+    not_contains: 'does not contain',
+    equals: 'is',
+    not_equals: 'is not',
+    starts_with: 'starts with',
+    ends_with: 'ends with',
+    matches_regex: 'matches regex',
+    less_than: 'less than',
+    greater_than: 'more than',
+};
+
+const GROUP_LABELS: Record<RuleConditionGroup['operator'], string> = {
+    and: 'All of',
+    or: 'Any of',
+    not: 'None of',
+};
+
+const MEDIA_KINDS = [
+    { value: 'none', label: 'Article' },
+    { value: 'youtube', label: 'YouTube' },
+    { value: 'podcast', label: 'Podcast' },
+    { value: 'video', label: 'Video' },
+    { value: 'audio', label: 'Audio' },
+];
+
+export function newCondition(field: RuleField = 'title'): RuleCondition {
+    return { kind: 'condition', id: uuidv4(), field, operator: RULE_FIELD_OPERATORS[field][0], value: field === 'media_kind' ? 'none' : '' };
+}
+
+export function newGroup(operator: RuleConditionGroup['operator'] = 'and', children = [newCondition()]): RuleConditionGroup {
+    return { kind: 'group', id: uuidv4(), operator, children };
+}
+
+/**
+ * One-line summary of a condition tree, e.g. `Title contains "rust" AND NOT (Domain is "x.com")`.
+ */
+export function describeConditions(group: RuleConditionGroup): string {
+    const parts = group.children.map(child => child.kind === 'group'
+        ? `(${describeConditions(child)})`
+        : `${RULE_FIELD_LABELS[child.field]} ${RULE_OPERATOR_LABELS[child.operator]} "${child.value}"`
+    );
+    if (group.operator === 'not') return `NOT (${parts.join(' OR ')})`;
+    return parts.join(group.operator === 'and' ? ' AND ' : ' OR ');
+}
+
+function isTextField(field: RuleField): boolean {
+    return field !== 'media_kind' && field !== 'age_hours';
+}
+
+const selectClass = "bg-zinc-50 dark:bg-zinc-800 border-none rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand";
+
+function ConditionRow({ condition, onChange, onRemove }: {
+    condition: RuleCondition;
+    onChange: (condition: RuleCondition) => void;
+    onRemove: () => void;
+}) {
+    const operators = RULE_FIELD_OPERATORS[condition.field];
+    const isText = isTextField(condition.field);
+
+    const changeField = (field: RuleField) => {
+        const fresh = newCondition(field);
+        onChange({
+            ...condition,
+            field,
+            operator: RULE_FIELD_OPERATORS[field].includes(condition.operator) ? condition.operator : fresh.operator,
+            // Keep the typed value when switching between text fields
+            value: isText && isTextField(field) ? condition.value : fresh.value,
+        });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select className={selectClass} value={condition.field} onChange={e => changeField(e.target.value as RuleField)}>
+                {Object.entries(RULE_FIELD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+            <select className={selectClass} value={condition.operator} onChange={e => onChange({ ...condition, operator: e.target.value as RuleOperator })}>
+                {operators.map(op => (
+                    <option key={op} value={op}>{RULE_OPERATOR_LABELS[op]}</option>
+                ))}
+            </select>
+            {condition.field === 'media_kind' ? (
+                <select className={clsx(selectClass, "flex-1 min-w-[8rem]")} value={condition.value} onChange={e => onChange({ ...condition, value: e.target.value })}>
+                    {MEDIA_KINDS.map(kind => (
+                        <option key={kind.value} value={kind.value}>{kind.label}</option>
+                    ))}
+                </select>
+            ) : (
+                <input
+                    type={condition.field === 'age_hours' ? 'number' : 'text'}
+                    min={condition.field === 'age_hours' ? 0 : undefined}
+                    className={clsx(selectClass, "flex-1 min-w-[8rem]", condition.operator === 'matches_regex' && "font-mono")}
+                    placeholder={condition.operator === 'matches_regex' ? '^\\[Sponsored\\]' : condition.field === 'domain' ? 'example.com' : 'Text to match...'}
+                    value={condition.value}
+                    onChange={e => onChange({ ...condition, value: e.target.value })}
+                />
+            )}
+            {isText && (
+                <label className="flex items-center gap-1 text-xs text-zinc-500" title="Case sensitive">
+                    <input type="checkbox" checked={!!condition.caseSensitive} onChange={e => onChange({ ...condition, caseSensitive: e.target.checked || undefined })} className="rounded accent-brand" />
+                    Aa
+                </label>
+            )}
+            <button onClick={onRemove} className="p-1.5 rounded-lg text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors" title="Remove condition">
+                <X size={16} />
+            </button>
+        </div>
+    );
+}
+
+interface RuleBuilderProps {
+    group: RuleConditionGroup;
+    onChange: (group: RuleConditionGroup) => void;
+    onRemove?: () => void; // Absent for the root group
+    depth?: number;
+}
+
+export function RuleBuilder({ group, onChange, onRemove, depth = 1 }: RuleBuilderProps) {
+    const updateChild = (index: number, child: RuleCondition | RuleConditionGroup) => {
+        const children = [...group.children];
+        children[index] = child;
+        onChange({ ...group, children });
+    };
+
+    const removeChild = (index: number) => {
+        onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+    };
+
+    return (
+        <div className={clsx("space-y-3", depth > 1 && "pl-3 border-l-2 border-brand/30")}>
+            <div className="flex items-center gap-2">
+                <select
+                    className={clsx(selectClass, "font-medium")}
+                    value={group.operator}
+                    onChange={e => onChange({ ...group, operator: e.target.value as RuleConditionGroup['operator'] })}
+                >
+                    {Object.entries(GROUP_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                <span className="text-xs text-zinc-500">these conditions</span>
+                {onRemove && (
+                    <button onClick={onRemove} className="ml-auto p-1.5 rounded-lg text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors" title="Remove group">
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            {group.children.map((child, index) => child.kind === 'group' ? (
+                <RuleBuilder
+                    key={child.id}
+                    group={child}
+                    depth={depth + 1}
+                    onChange={updated => updateChild(index, updated)}
+                    onRemove={() => removeChild(index)}
+                />
+            ) : (
+                <ConditionRow
+                    key={child.id}
+                    condition={child}
+                    onChange={updated => updateChild(index, updated)}
+                    onRemove={() => removeChild(index)}
+                />
+            ))}
+
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onChange({ ...group, children: [...group.children, newCondition()] })}
+                    className="px-2 py-1 text-xs font-medium rounded-lg text-brand hover:bg-brand/10 flex items-center gap-1"
+                >
+                    <Plus size={14} /> Condition
+                </button>
+                {depth < MAX_DEPTH && (
+                    <button
+                        onClick={() => onChange({ ...group, children: [...group.children, newGroup('or')] })}
+                        className="px-2 py-1 text-xs font-medium rounded-lg text-brand hover:bg-brand/10 flex items-center gap-1"
+                    >
+                        <Layers size={14} /> Group
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export const RULE_ACTION_LABELS: Record<RuleAction['type'], string> = {
+    mark_read: 'Mark as read',
+    star: 'Star / Bookmark',
+    tag: 'Apply tag',
+    notify: 'Send notification',
+    prefetch: 'Save for offline',
+    queue_playback: 'Add to playback queue',
+    webhook: 'POST to webhook',
+    move_to_folder: 'Move feed to folder',
+    delete: 'Delete permanently',
+};
+
+function newAction(type: RuleAction['type']): RuleAction {
+    switch (type) {
+        case 'tag':
+            return { type, tag: '' };
+        case 'webhook':
+            return { type, url: '' };
+        case 'move_to_folder':
+            return { type, folderId: '' };
+        default:
+            return { type };
+    }
+}
+
+export function RuleActionsEditor({ actions, folders, onChange }: {
+    actions: RuleAction[];
+    folders: Folder[];
+    onChange: (actions: RuleAction[]) => void;
+}) {
+    const update = (index: number, action: RuleAction) => {
+        const next = [...actions];
+        next[index] = action;
+        onChange(next);
+    };
+
+    const unused = (Object.keys(RULE_ACTION_LABELS) as RuleAction['type'][])
+        .filter(type => type === 'tag' || type === 'webhook' || !actions.some(a => a.type === type));
+
+    return (
+        <div className="space-y-2">
+            {actions.map((action, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                    <select
+                        className={selectClass}
+                        value={action.type}
+                        onChange={e => update(index, newAction(e.target.value as RuleAction['type']))}
+                    >
+                        {Object.entries(RULE_ACTION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    {action.type === 'tag' && (
+                        <input
+                            type="text"
+                            className={clsx(selectClass, "flex-1 min-w-[8rem]")}
+                            placeholder="Tag name"
+                            value={action.tag}
+                            onChange={e => update(index, { ...action, tag: e.target.value })}
+                        />
+                    )}
+                    {action.type === 'webhook' && (
+                        <input
+                            type="url"
+                            className={clsx(selectClass, "flex-1 min-w-[12rem]")}
+                            placeholder="https://example.com/hook"
+                            value={action.url}
+                            onChange={e => update(index, { ...action, url: e.target.value })}
+                        />
+                    )}
+                    {action.type === 'move_to_folder' && (
+                        <select
+                            className={clsx(selectClass, "flex-1 min-w-[8rem]")}
+                            value={action.folderId}
+                            onChange={e => update(index, { ...action, folderId: e.target.value })}
+                        >
+                            <option value="">Choose a folder...</option>
+                            {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                        </select>
+                    )}
+                    <button
+                        onClick={() => onChange(actions.filter((_, i) => i !== index))}
+                        className="p-1.5 rounded-lg text-zinc-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        title="Remove action"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            ))}
+            {unused.length > 0 && (
+                <button
+                    onClick={() => onChange([...actions, newAction(unused[0])])}
+                    className="px-2 py-1 text-xs font-medium rounded-lg text-brand hover:bg-brand/10 flex items-center gap-1"
+                >
+                    <Plus size={14} /> Action
+                </button>
+            )}
+        </div>
+    );
+}
@@ -5,11 +5,13 @@ import { Rss, GripVertical, Settings, MoveRight, Trash2, FolderOpen } from 'luci
 import { clsx } from 'clsx';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '@/lib/db';
+import { FeedService } from '@/lib/feed-service';
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useScrollStore } from '@/store/scrollStore';
 import { useUIStore } from '@/store/uiStore';
 import { NavigationLinks } from './sidebar/NavigationLinks';
 import { SmartFolders } from './sidebar/SmartFolders';
+import { Labels } from './sidebar/Labels';
 import { Subscriptions } from './sidebar/Subscriptions';
 
 interface SidebarProps {
@@ -101,8 +103,7 @@ export function Sidebar({ className }: SidebarProps) {
 
     const handleDeleteFeed = async (feedId: string) => {
         if (!confirm('Delete this feed and all its articles?')) return;
-        await db.articles.where('feedID').equals(feedId).delete();
-        await db.feeds.delete(feedId);
+        await FeedService.deleteFeed(feedId);
         setContextMenu(null);
     };
 
@@ -174,6 +175,7 @@ export function Sidebar({ className }: SidebarProps) {
             <nav className="flex-1 p-3 space-y-1 overflow-y-auto">
                 <NavigationLinks counts={counts} pathname={pathname} />
                 <SmartFolders counts={mediaCounts} pathname={pathname} />
+                <Labels pathname={pathname} />
                 <Subscriptions 
                     feeds={feeds} 
                     folders={folders} 
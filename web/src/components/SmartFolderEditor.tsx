@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { clsx } from 'clsx';
+import { X, Sparkles, FolderOpen, Rss } from 'lucide-react';
+import { toast } from 'sonner';
+import { db, SmartFolder, SmartFolderCriteria } from '@/lib/db';
+import { SmartFolderService, SMART_FOLDER_MEDIA_KINDS } from '@/lib/smart-folder-service';
+
+interface SmartFolderEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    folder?: SmartFolder; // Edit an existing smart folder
+    initialCriteria?: SmartFolderCriteria; // e.g. the current search
+    onSaved?: (folder: SmartFolder) => void;
+}
+
+const AGE_OPTIONS = [
+    { value: 0, label: 'Any time' },
+    { value: 1, label: 'Last 24 hours' },
+    { value: 3, label: 'Last 3 days' },
+    { value: 7, label: 'Last week' },
+    { value: 30, label: 'Last month' },
+    { value: 365, label: 'Last year' },
+];
+
+function toggle<T>(list: T[] | undefined, value: T): T[] {
+    const current = list ?? [];
+    return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+}
+
+export function SmartFolderEditor({ isOpen, onClose, folder, initialCriteria, onSaved }: SmartFolderEditorProps) {
+    const [name, setName] = useState(folder?.name ?? initialCriteria?.keyword ?? '');
+    const [criteria, setCriteria] = useState<SmartFolderCriteria>(folder?.criteria ?? initialCriteria ?? {});
+    const [isSaving, setIsSaving] = useState(false);
+
+    const feeds = useLiveQuery(() => db.feeds.toArray().then(all => all.sort((a, b) => a.title.localeCompare(b.title)))) || [];
+    const folders = useLiveQuery(() => db.folders.orderBy('position').toArray()) || [];
+
+    if (!isOpen) return null;
+
+    const update = (changes: Partial<SmartFolderCriteria>) => setCriteria(prev => ({ ...prev, ...changes }));
+
+    const handleSave = async () => {
+        if (!name.trim()) {
+            toast.error('Give the smart folder a name');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            let saved: SmartFolder | undefined;
+            if (folder) {
+                await SmartFolderService.update(folder.id, { name, criteria });
+                saved = await db.smartFolders.get(folder.id);
+            } else {
+                saved = await SmartFolderService.create(name, criteria);
+            }
+            toast.success(folder ? 'Smart folder updated' : 'Smart folder created');
+            if (saved) onSaved?.(saved);
+            onClose();
+        } catch (e) {
+            toast.error(e instanceof Error ? e.message : 'Failed to save smart folder');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const chip = (active: boolean) => clsx(
+        "px-3 py-1.5 text-xs font-medium rounded-full border transition-all flex items-center gap-1.5",
+        active
+            ? "bg-brand/10 border-brand text-brand"
+            : "border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:border-zinc-300 dark:hover:border-zinc-600"
+    );
+
+    const inputClass = "w-full bg-zinc-100 dark:bg-zinc-800 border border-transparent rounded-lg px-3 py-2 text-sm dark:text-white focus:ring-2 focus:ring-brand outline-none";
+    const labelClass = "block text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="bg-white dark:bg-zinc-900 rounded-xl w-full max-w-lg shadow-2xl border border-zinc-200 dark:border-zinc-800 max-h-[85vh] flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="px-5 py-4 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                    <h2 className="text-lg font-bold dark:text-white flex items-center gap-2">
+                        <Sparkles size={18} className="text-brand" />
+                        {folder ? 'Edit Smart Folder' : 'New Smart Folder'}
+                    </h2>
+                    <button onClick={onClose} className="p-2 text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 rounded-full hover:bg-zinc-100 dark:hover:bg-zinc-800">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-5 space-y-5">
+                    <div>
+                        <label className={labelClass}>Name</label>
+                        <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} placeholder="e.g. Unread Rust news" autoFocus />
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>Keyword</label>
+                            <input type="text" value={criteria.keyword ?? ''} onChange={e => update({ keyword: e.target.value })} className={inputClass} placeholder="Matches title and text" />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Author</label>
+                            <input type="text" value={criteria.author ?? ''} onChange={e => update({ author: e.target.value })} className={inputClass} placeholder="Contains..." />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Type</label>
+                        <div className="flex flex-wrap gap-2">
+                            {SMART_FOLDER_MEDIA_KINDS.map(kind => (
+                                <button key={kind.value} onClick={() => update({ mediaKinds: toggle(criteria.mediaKinds, kind.value) })} className={chip(!!criteria.mediaKinds?.includes(kind.value))}>
+                                    {kind.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>State</label>
+                            <select
+                                value={criteria.readState ?? ''}
+                                onChange={e => update({ readState: (e.target.value || undefined) as SmartFolderCriteria['readState'] })}
+                                className={inputClass}
+                            >
+                                <option value="">Read and unread</option>
+                                <option value="unread">Unread only</option>
+                                <option value="read">Read only</option>
+                            </select>
+                            <label className="flex items-center gap-2 mt-3 text-sm text-zinc-700 dark:text-zinc-300">
+                                <input type="checkbox" checked={!!criteria.bookmarkedOnly} onChange={e => update({ bookmarkedOnly: e.target.checked })} className="rounded accent-brand" />
+                                Bookmarked only
+                            </label>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Age</label>
+                            <select value={criteria.maxAgeDays ?? 0} onChange={e => update({ maxAgeDays: Number(e.target.value) || undefined })} className={inputClass}>
+                                {AGE_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Sources <span className="normal-case font-normal">(none selected = all feeds)</span></label>
+                        <div className="max-h-48 overflow-y-auto rounded-lg border border-zinc-200 dark:border-zinc-800 divide-y divide-zinc-100 dark:divide-zinc-800">
+                            {folders.map(f => (
+                                <label key={f.id} className="flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800/50">
+                                    <input type="checkbox" checked={!!criteria.folderIDs?.includes(f.id)} onChange={() => update({ folderIDs: toggle(criteria.folderIDs, f.id) })} className="rounded accent-brand" />
+                                    <FolderOpen size={14} className="text-amber-500 shrink-0" />
+                                    <span className="truncate">{f.name}</span>
+                                </label>
+                            ))}
+                            {feeds.map(f => (
+                                <label key={f.id} className="flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800/50">
+                                    <input type="checkbox" checked={!!criteria.feedIDs?.includes(f.id)} onChange={() => update({ feedIDs: toggle(criteria.feedIDs, f.id) })} className="rounded accent-brand" />
+                                    <Rss size={14} className="text-zinc-400 shrink-0" />
+                                    <span className="truncate">{f.title}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="px-5 py-4 border-t border-zinc-200 dark:border-zinc-800 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm text-zinc-500 hover:text-zinc-900 dark:hover:text-white">Cancel</button>
+                    <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 text-sm bg-brand text-white rounded-lg hover:bg-brand/90 disabled:opacity-50">
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Check, ChevronDown, ChevronRight, Layers, Rss } from 'lucide-react';
+import { db, Article } from '@/lib/db';
+import { FeedService } from '@/lib/feed-service';
+import { StoryService, Story } from '@/lib/story-service';
+import { ArticleItem } from './ArticleItem';
+import { ArticleSkeleton } from './ArticleSkeleton';
+
+// Unclustered articles shown before "Show more"
+const UNCLUSTERED_PAGE = 50;
+
+interface StoryListProps {
+    days: number;
+}
+
+/**
+ * Unread articles of the last few days grouped into topic stories, from
+ * local data only.
+ */
+export function StoryList({ days }: StoryListProps) {
+    const groups = useLiveQuery(() => StoryService.unread(days), [days]);
+    const feeds = useLiveQuery(() => db.feeds.toArray(), []);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [unclusteredLimit, setUnclusteredLimit] = useState(UNCLUSTERED_PAGE);
+
+    const feedsMap = useMemo(() => new Map((feeds ?? []).map(f => [f.id, f])), [feeds]);
+
+    const articlesById = useMemo(() => {
+        const map = new Map<string, Article>();
+        for (const story of groups?.stories ?? []) story.articles.forEach(a => map.set(a.id, a));
+        for (const article of groups?.unclustered ?? []) map.set(article.id, article);
+        return map;
+    }, [groups]);
+
+    const handleToggleRead = useCallback(async (id: string) => {
+        const article = articlesById.get(id);
+        if (article) await FeedService.toggleReadStatus(id, !article.isRead);
+    }, [articlesById]);
+
+    const handleToggleBookmark = useCallback(async (id: string) => {
+        const article = articlesById.get(id);
+        if (article) await FeedService.toggleBookmark(id, !article.isBookmarked);
+    }, [articlesById]);
+
+    const toggleExpanded = (id: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const renderArticle = (article: Article) => (
+        <ArticleItem
+            key={article.id}
+            article={article}
+            feed={feedsMap.get(article.feedID)}
+            onToggleRead={handleToggleRead}
+            onToggleBookmark={handleToggleBookmark}
+        />
+    );
+
+    if (!groups) {
+        return (
+            <div className="flex-1 overflow-hidden">
+                <ArticleSkeleton count={6} />
+            </div>
+        );
+    }
+
+    if (groups.stories.length === 0 && groups.unclustered.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center p-12 text-zinc-400 h-full">
+                <div className="w-16 h-16 bg-zinc-100 dark:bg-zinc-800/50 rounded-full flex items-center justify-center mb-4">
+                    <Rss size={32} className="opacity-20" />
+                </div>
+                <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100 mb-1">All Caught Up</h3>
+                <p className="text-sm text-zinc-500 max-w-xs text-center">No unread articles from this period are stored on this device.</p>
+            </div>
+        );
+    }
+
+    const feedCount = (story: Story) => new Set(story.articles.map(a => a.feedID)).size;
+
+    return (
+        <div className="h-full overflow-y-auto ios-scroll">
+            {groups.stories.map(story => {
+                const others = story.articles.filter(a => a.id !== story.representative.id);
+                const isExpanded = expanded.has(story.id);
+                return (
+                    <section key={story.id} className="border-b-4 border-zinc-100 dark:border-zinc-900">
+                        <div className="flex items-center gap-2 px-4 sm:px-6 pt-4 pb-1">
+                            <Layers size={16} className="text-brand shrink-0" />
+                            <h2 className="font-semibold text-zinc-900 dark:text-zinc-100 truncate">{story.label}</h2>
+                            <span className="text-xs text-zinc-500 shrink-0">
+                                {story.articles.length} articles · {feedCount(story)} {feedCount(story) === 1 ? 'feed' : 'feeds'}
+                            </span>
+                            <button
+                                onClick={() => StoryService.markRead(story)}
+                                className="ml-auto p-1.5 rounded-full text-zinc-400 hover:text-brand hover:bg-brand/10 transition-colors shrink-0"
+                                title="Mark story as read"
+                            >
+                                <Check size={16} strokeWidth={2.5} />
+                            </button>
+                        </div>
+
+                        {renderArticle(story.representative)}
+
+                        <button
+                            onClick={() => toggleExpanded(story.id)}
+                            className="w-full flex items-center gap-1.5 px-4 sm:px-6 py-2 text-sm text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+                        >
+                            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            {isExpanded ? 'Hide' : 'Show'} {others.length} more
+                        </button>
+                        {isExpanded && others.map(renderArticle)}
+                    </section>
+                );
+            })}
+
+            {groups.unclustered.length > 0 && (
+                <section>
+                    <h2 className="px-4 sm:px-6 pt-4 pb-2 text-sm font-semibold uppercase tracking-wider text-zinc-500">
+                        Other Unread
+                    </h2>
+                    {groups.unclustered.slice(0, unclusteredLimit).map(renderArticle)}
+                    {groups.unclustered.length > unclusteredLimit && (
+                        <button
+                            onClick={() => setUnclusteredLimit(prev => prev + UNCLUSTERED_PAGE)}
+                            className="w-full py-4 text-sm font-medium text-brand hover:bg-brand/5"
+                        >
+                            Show more
+                        </button>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+}
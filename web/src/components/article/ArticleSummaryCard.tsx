@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { clsx } from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import { Article, SummaryStyle } from '@/lib/db';
+import { AIService } from '@/lib/ai-service';
+import { SUMMARY_STYLES, SummaryService, summaryBullets } from '@/lib/summary-service';
+import { useSettingsStore } from '@/store/settingsStore';
+
+interface ArticleSummaryCardProps {
+    article: Article;
+}
+
+/**
+ * Summary card at the top of the Reader: pick a style, generate or refresh.
+ * Summaries are cached on the article, so the card shows them instantly.
+ */
+export function ArticleSummaryCard({ article }: ArticleSummaryCardProps) {
+    const { summaryStyle, setSummaryStyle } = useSettingsStore();
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const summary = article.aiSummaries?.[summaryStyle];
+    const bullets = summary && summaryBullets(summary.text);
+
+    const generate = async (style: SummaryStyle, refresh = false) => {
+        setLoading(true);
+        setError(null);
+        try {
+            await SummaryService.summarize(article, style, refresh);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Summary failed');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const pickStyle = (style: SummaryStyle) => {
+        setSummaryStyle(style);
+        setError(null);
+    };
+
+    return (
+        <div className="mb-8 rounded-2xl border border-purple-500/20 bg-purple-500/5 p-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <Sparkles size={16} className="text-purple-500" />
+                <span className="text-sm font-semibold mr-auto">Summary</span>
+                <div className="flex rounded-lg bg-black/5 dark:bg-white/10 p-0.5">
+                    {(Object.keys(SUMMARY_STYLES) as SummaryStyle[]).map(style => (
+                        <button
+                            key={style}
+                            onClick={() => pickStyle(style)}
+                            className={clsx(
+                                "px-2.5 py-1 text-xs font-medium rounded-md transition-colors",
+                                summaryStyle === style ? "bg-purple-600 text-white" : "opacity-70 hover:opacity-100"
+                            )}
+                        >
+                            {SUMMARY_STYLES[style].label}
+                        </button>
+                    ))}
+                </div>
+                {summary && (
+                    <button
+                        onClick={() => generate(summaryStyle, true)}
+                        disabled={loading}
+                        className="p-1.5 rounded-lg opacity-60 hover:opacity-100 hover:bg-black/5 dark:hover:bg-white/10 transition disabled:opacity-30"
+                        title="Summarize again"
+                    >
+                        <RefreshCw size={14} className={clsx(loading && "animate-spin")} />
+                    </button>
+                )}
+            </div>
+
+            {summary ? (
+                <div className="mt-3 text-[0.95em] leading-relaxed">
+                    {bullets ? (
+                        <ul className="list-disc pl-5 space-y-1">
+                            {bullets.map((item, i) => <li key={i}>{item}</li>)}
+                        </ul>
+                    ) : (
+                        <p className="whitespace-pre-line">{summary.text}</p>
+                    )}
+                    <p className="mt-2 text-xs opacity-50">
+                        {summary.model} · {formatDistanceToNow(summary.createdAt, { addSuffix: true })}
+                    </p>
+                </div>
+            ) : !AIService.isConfigured() ? (
+                <p className="mt-3 text-sm opacity-70">
+                    Choose an AI provider in <Link href="/settings" className="underline">Settings</Link> to summarize articles.
+                </p>
+            ) : (
+                <button
+                    onClick={() => generate(summaryStyle)}
+                    disabled={loading}
+                    className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg bg-purple-600 text-white hover:brightness-110 transition disabled:opacity-60"
+                >
+                    {loading ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                    {loading ? 'Summarizing...' : `Summarize (${SUMMARY_STYLES[summaryStyle].label})`}
+                </button>
+            )}
+
+            {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+        </div>
+    );
+}
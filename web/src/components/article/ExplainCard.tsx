@@ -0,0 +1,48 @@
+'use client';
+
+import { Loader2, Sparkles, X } from 'lucide-react';
+
+export interface Explanation {
+    quote: string;
+    text?: string; // Unset while loading
+    error?: string;
+}
+
+interface ExplainCardProps {
+    explanation: Explanation;
+    onClose: () => void;
+}
+
+/**
+ * Bottom sheet with the AI's explanation of a Reader selection
+ */
+export function ExplainCard({ explanation, onClose }: ExplainCardProps) {
+    const { quote, text, error } = explanation;
+
+    return (
+        <div className="fixed inset-x-0 bottom-0 z-50 p-4 pointer-events-none">
+            <div className="max-w-2xl mx-auto bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 rounded-2xl shadow-2xl border border-zinc-200 dark:border-zinc-800 p-4 pointer-events-auto max-h-[50vh] overflow-y-auto">
+                <div className="flex items-start gap-2 mb-3">
+                    <Sparkles size={16} className="text-purple-500 mt-0.5 shrink-0" />
+                    <blockquote className="flex-1 text-sm italic text-zinc-500 line-clamp-3">{quote}</blockquote>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors shrink-0"
+                        title="Close"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+                {error ? (
+                    <p className="text-sm text-red-500">{error}</p>
+                ) : text ? (
+                    <p className="text-sm leading-relaxed whitespace-pre-line">{text}</p>
+                ) : (
+                    <p className="text-sm text-zinc-500 flex items-center gap-2">
+                        <Loader2 size={14} className="animate-spin" /> Explaining...
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
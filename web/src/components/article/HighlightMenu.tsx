@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Sparkles, StickyNote, Trash2, X } from 'lucide-react';
+import { Highlight, HighlightColor } from '@/lib/db';
+import { HIGHLIGHT_COLORS } from '@/lib/highlight-service';
+
+interface HighlightMenuProps {
+    position: { top: number; left: number }; // Viewport coordinates of the selection's top centre
+    highlight?: Highlight; // Editing an existing highlight; otherwise creating one from the selection
+    onCreate?: (color: HighlightColor, withNote: boolean) => void;
+    onUpdate?: (changes: Partial<Pick<Highlight, 'color' | 'note'>>) => void;
+    onDelete?: () => void;
+    onExplain?: () => void; // Ask the AI provider about the selection
+    onClose: () => void;
+    startWithNote?: boolean;
+}
+
+/**
+ * Floating menu above a Reader selection or highlight: colour swatches,
+ * an optional note, delete and "explain this".
+ */
+export function HighlightMenu({ position, highlight, onCreate, onUpdate, onDelete, onExplain, onClose, startWithNote }: HighlightMenuProps) {
+    const [isEditingNote, setIsEditingNote] = useState(!!startWithNote || !!highlight?.note);
+    const [note, setNote] = useState(highlight?.note ?? '');
+
+    const pickColor = (color: HighlightColor) => {
+        if (highlight) onUpdate?.({ color });
+        else onCreate?.(color, false);
+    };
+
+    return (
+        <div
+            className="fixed z-50 -translate-x-1/2 -translate-y-full bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 rounded-xl shadow-2xl border border-zinc-200 dark:border-zinc-800 p-2 space-y-2"
+            style={{ top: Math.max(position.top - 8, 8), left: position.left }}
+            // Keep the text selection alive while using the menu
+            onMouseDown={e => {
+                if (!(e.target instanceof HTMLTextAreaElement)) e.preventDefault();
+            }}
+        >
+            <div className="flex items-center gap-1.5">
+                {HIGHLIGHT_COLORS.map(color => (
+                    <button
+                        key={color}
+                        onClick={() => pickColor(color)}
+                        className={clsx(
+                            `reader-highlight-${color}`,
+                            "w-7 h-7 rounded-full border-2 transition-transform hover:scale-110",
+                            highlight?.color === color ? "border-zinc-900 dark:border-white" : "border-transparent"
+                        )}
+                        title={`Highlight ${color}`}
+                    />
+                ))}
+
+                <div className="w-px h-6 bg-zinc-200 dark:bg-zinc-800 mx-1" />
+
+                <button
+                    onClick={() => highlight ? setIsEditingNote(true) : onCreate?.(HIGHLIGHT_COLORS[0], true)}
+                    className={clsx(
+                        "p-1.5 rounded-lg transition-colors",
+                        isEditingNote ? "text-brand bg-brand/10" : "text-zinc-500 hover:text-brand hover:bg-brand/10"
+                    )}
+                    title="Add note"
+                >
+                    <StickyNote size={16} />
+                </button>
+                {onExplain && (
+                    <button
+                        onClick={onExplain}
+                        className="p-1.5 rounded-lg text-zinc-500 hover:text-purple-500 hover:bg-purple-500/10 transition-colors"
+                        title="Explain this"
+                    >
+                        <Sparkles size={16} />
+                    </button>
+                )}
+                {highlight && (
+                    <button
+                        onClick={onDelete}
+                        className="p-1.5 rounded-lg text-zinc-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        title="Remove highlight"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                )}
+                <button
+                    onClick={onClose}
+                    className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+                    title="Close"
+                >
+                    <X size={16} />
+                </button>
+            </div>
+
+            {highlight && isEditingNote && (
+                <div className="w-64 space-y-2">
+                    <textarea
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        placeholder="Add a note..."
+                        className="w-full bg-zinc-100 dark:bg-zinc-800 border border-transparent rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand outline-none resize-none"
+                    />
+                    <div className="flex justify-end">
+                        <button
+                            onClick={() => { onUpdate?.({ note }); onClose(); }}
+                            disabled={note === (highlight.note ?? '')}
+                            className="px-3 py-1.5 text-xs font-medium rounded-lg bg-brand text-white hover:bg-brand/90 disabled:opacity-50"
+                        >
+                            Save note
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Tag } from 'lucide-react';
+import { SidebarLink } from './SidebarLink';
+import { LabelService, LabelCount } from '@/lib/label-service';
+import { useUIStore } from '@/store/uiStore';
+
+interface LabelsProps {
+    pathname: string;
+}
+
+export const Labels = React.memo(function Labels({ pathname }: LabelsProps) {
+    const local = useLiveQuery(() => LabelService.list());
+    const [remote, setRemote] = useState<LabelCount[]>([]);
+    const syncVersion = useUIStore(s => s.syncVersion);
+
+    // Labels on articles that only exist on the backend
+    useEffect(() => {
+        import('@/lib/api-client')
+            .then(({ getLabels }) => getLabels())
+            .then(setRemote)
+            .catch(() => setRemote([]));
+    }, [syncVersion]);
+
+    const labels = useMemo(() => {
+        const counts = new Map((local ?? []).map(l => [l.name, l.count]));
+        for (const label of remote) {
+            counts.set(label.name, Math.max(counts.get(label.name) ?? 0, label.count));
+        }
+        return Array.from(counts, ([name, count]) => ({ name, count }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }, [local, remote]);
+
+    if (labels.length === 0) return null;
+
+    return (
+        <nav className="space-y-1 mt-6">
+            <div className="px-3 py-2">
+                <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Labels</span>
+            </div>
+            {labels.map(label => {
+                const href = `/label/${encodeURIComponent(label.name)}`;
+                return (
+                    <SidebarLink
+                        key={label.name}
+                        href={href}
+                        label={label.name}
+                        icon={Tag}
+                        count={label.count}
+                        isActive={pathname === href}
+                    />
+                );
+            })}
+        </nav>
+    );
+});
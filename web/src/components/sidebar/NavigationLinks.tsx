@@ -3,7 +3,7 @@
 
 import React from 'react';
 import { SidebarLink } from './SidebarLink';
-import { Calendar, LayoutGrid, Bookmark, Clock, BarChart3, Settings } from 'lucide-react';
+import { Calendar, LayoutGrid, Bookmark, Clock, BarChart3, Settings, Highlighter } from 'lucide-react';
 
 interface NavigationLinksProps {
     counts: {
@@ -20,6 +20,7 @@ export const NavigationLinks = React.memo(({ counts, pathname }: NavigationLinks
         { href: '/feeds/all', label: 'All Articles', icon: LayoutGrid, count: counts.all },
         { href: '/saved', label: 'Bookmarks', icon: Bookmark, count: counts.saved },
         { href: '/history', label: 'History', icon: Clock },
+        { href: '/highlights', label: 'Highlights', icon: Highlighter },
         { href: '/stats', label: 'Stats', icon: BarChart3 },
     ];
 
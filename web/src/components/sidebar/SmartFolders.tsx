@@ -1,9 +1,14 @@
 
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { SidebarLink } from './SidebarLink';
-import { FileText, MessageCircle, Youtube, Mic } from 'lucide-react';
+import { FileText, MessageCircle, Youtube, Mic, Sparkles, Plus } from 'lucide-react';
+import { db, SmartFolder } from '@/lib/db';
+import { SmartFolderService } from '@/lib/smart-folder-service';
+import { SearchIndex } from '@/lib/search-index';
+import { SmartFolderEditor } from '../SmartFolderEditor';
 
 interface SmartFoldersProps {
     counts: {
@@ -15,7 +20,32 @@ interface SmartFoldersProps {
     pathname: string;
 }
 
+function SavedSmartFolderLink({ folder, pathname }: { folder: SmartFolder; pathname: string }) {
+    const href = `/folder/smart/${folder.id}`;
+    const count = useLiveQuery(() => SmartFolderService.countUnread(folder.criteria), [folder]);
+
+    return (
+        <SidebarLink
+            href={href}
+            label={folder.name}
+            icon={Sparkles}
+            count={count}
+            isActive={pathname === href}
+        />
+    );
+}
+
 export const SmartFolders = React.memo(({ counts, pathname }: SmartFoldersProps) => {
+    const [showEditor, setShowEditor] = useState(false);
+    const savedFolders = useLiveQuery(() => db.smartFolders.orderBy('position').toArray());
+
+    // Keyword folders read the search index; make sure older articles are in it
+    useEffect(() => {
+        if (savedFolders?.some(f => f.criteria.keyword)) {
+            SearchIndex.ensureIndexed();
+        }
+    }, [savedFolders]);
+
     const smartFolders = [
         { href: '/folder/rss', label: 'RSS', icon: FileText, count: counts.rss },
         { href: '/folder/reddit', label: 'Reddit', icon: MessageCircle, count: counts.reddit },
@@ -25,8 +55,15 @@ export const SmartFolders = React.memo(({ counts, pathname }: SmartFoldersProps)
 
     return (
         <nav className="space-y-1 mt-6">
-            <div className="px-3 py-2 text-xs font-semibold text-zinc-500 uppercase tracking-wider">
-                Smart Folders
+            <div className="px-3 py-2 flex items-center justify-between">
+                <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Smart Folders</span>
+                <button
+                    onClick={() => setShowEditor(true)}
+                    className="p-1 rounded text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                    title="New smart folder"
+                >
+                    <Plus size={14} />
+                </button>
             </div>
             {smartFolders.map(link => (
                 <SidebarLink
@@ -35,6 +72,12 @@ export const SmartFolders = React.memo(({ counts, pathname }: SmartFoldersProps)
                     isActive={pathname === link.href}
                 />
             ))}
+            {savedFolders?.map(folder => (
+                <SavedSmartFolderLink key={folder.id} folder={folder} pathname={pathname} />
+            ))}
+            {showEditor && (
+                <SmartFolderEditor isOpen onClose={() => setShowEditor(false)} />
+            )}
         </nav>
     );
 });
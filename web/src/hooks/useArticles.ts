@@ -1,14 +1,16 @@
 import { useState, useEffect, useCallback } from "react";
 import { Article } from "@/lib/db";
 import { useUIStore } from "@/store/uiStore";
-import { getArticles, searchArticles } from "@/lib/api-client";
+import { getArticles, getLabelArticles, searchArticles } from "@/lib/api-client";
+import { SearchIndex } from "@/lib/search-index";
 
 /**
  * useArticles Hook - Backend Version
  * 
  * Fetches articles from the backend API instead of IndexedDB
  * Provides better performance for 230+ feeds
- * Supports server-side search
+ * Searches the local index first (instant, works offline) and
+ * falls back to server-side search when nothing is stored locally
  */
 
 interface ArticleWithState extends Article {
@@ -17,8 +19,20 @@ interface ArticleWithState extends Article {
     playbackPosition: number;
 }
 
+const BUILT_IN_VIEWS = ['all', 'today', 'last24h', 'week', 'saved', 'history', 'youtube', 'podcasts', 'reddit'];
+
+/**
+ * What a search within a view is limited to: a label view's label, or a feed
+ * view's feed. Other views search everything.
+ */
+export function searchFilters(view: string): { feedId?: string; label?: string } {
+    if (view.startsWith('label:')) return { label: view.slice('label:'.length) };
+    if (!BUILT_IN_VIEWS.includes(view)) return { feedId: view };
+    return {};
+}
+
 export function useArticles(
-    view: 'today' | 'last24h' | 'week' | 'all' | 'saved' | 'history' | 'youtube' | 'podcasts' | 'reddit' | string = 'all',
+    view: 'today' | 'last24h' | 'week' | 'all' | 'saved' | 'history' | 'youtube' | 'podcasts' | 'reddit' | `label:${string}` | string = 'all',
     limit = 100,
     searchQuery: string = ''
 ) {
@@ -37,8 +51,18 @@ export function useArticles(
             let data: any[] = [];
 
             if (searchQuery && searchQuery.trim().length > 0) {
+                const filters = searchFilters(view);
+
+                const local = await SearchIndex.search(searchQuery, { ...filters, limit });
+                if (local.length > 0 || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+                    setArticles(local);
+                    return;
+                }
+
                 // Use backend search API
-                data = await searchArticles(searchQuery, limit);
+                data = await searchArticles(searchQuery, limit, filters);
+            } else if (view.startsWith('label:')) {
+                data = await getLabelArticles(view.slice('label:'.length), limit);
             } else {
                 // Map view to API parameters
                 const options: any = { limit };
@@ -96,6 +120,7 @@ export function useArticles(
                 enclosureURL: a.enclosureUrl,
                 enclosureType: a.enclosureType,
                 playbackPosition: a.playbackPosition || 0,
+                tags: a.tags,
                 downloadStatus: 0,
                 imageCacheStatus: 0,
             }));
@@ -12,7 +12,8 @@ import { db } from '@/lib/db';
 export function useSync() {
     const { startSync, setProgress, endSync } = useUIStore();
 
-    const runSync = useCallback(async () => {
+    // force is for manual refreshes: feeds that aren't due yet are fetched too
+    const runSync = useCallback(async (force = false) => {
         console.log('[useSync] Starting backend sync');
 
         startSync(0); // 0 = unknown total initially
@@ -20,7 +21,7 @@ export function useSync() {
 
         try {
             // Use backend API for feed syncing
-            const result = await syncAllFeeds();
+            const result = await syncAllFeeds(force);
             
             console.log(`[useSync] Sync complete: ${result.successful}/${result.totalFeeds} feeds synced, ${result.newArticles} new articles`);
             
@@ -1,4 +1,6 @@
+import type { AICompletion, AIMessage, AIProviderKind } from '@feedstream/common';
 import { generateBriefing, getTodayBriefing, getFeedRecommendations } from './api-client';
+import { useSettingsStore } from '@/store/settingsStore';
 
 /**
  * AI Service using Backend API
@@ -7,7 +9,62 @@ import { generateBriefing, getTodayBriefing, getFeedRecommendations } from './ap
  * This provides better performance and keeps API keys secure
  */
 
+export interface CompletionOptions {
+    maxTokens?: number;
+    temperature?: number;
+    json?: boolean;
+}
+
+// The locally stored key for each provider; the compatible server's key lives on the server
+function userKey(provider: AIProviderKind): string {
+    const settings = useSettingsStore.getState();
+    switch (provider) {
+        case 'openai': return settings.openaiApiKey;
+        case 'gemini': return settings.geminiApiKey;
+        case 'anthropic': return settings.anthropicApiKey;
+        default: return '';
+    }
+}
+
 export class AIService {
+    /**
+     * Whether the selected provider can be used from this device
+     */
+    static isConfigured(): boolean {
+        const { aiProvider } = useSettingsStore.getState();
+        return aiProvider === 'openai-compatible' || !!userKey(aiProvider);
+    }
+
+    /**
+     * Run a chat completion with the provider and model chosen in Settings,
+     * through the server-side AI proxy
+     */
+    static async complete(messages: AIMessage[], options: CompletionOptions = {}): Promise<AICompletion> {
+        const { aiProvider, aiModel } = useSettingsStore.getState();
+        const key = userKey(aiProvider);
+
+        const response = await fetch('/api/ai-proxy', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(key && { 'x-api-key': key }),
+            },
+            body: JSON.stringify({
+                provider: aiProvider,
+                model: aiModel || undefined,
+                messages,
+                ...options,
+                useServerKey: !key,
+            }),
+        });
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(data.error || `AI request failed (${response.status})`);
+        }
+        return data as AICompletion;
+    }
+
     /**
      * Generate daily briefing using backend AI service
      */
@@ -7,6 +7,7 @@
 
 import { getApiUrl } from './api-config';
 import { uuidv4 } from './utils';
+import type { RuleConditionGroup } from '@feedstream/common';
 
 const API_BASE_URL = getApiUrl();
 
@@ -71,8 +72,9 @@ export async function syncFeed(id: string) {
   return apiClient(`/feeds/${id}/sync`, { method: 'POST' });
 }
 
-export async function syncAllFeeds() {
-  return apiClient('/feeds/sync-all', { method: 'POST' });
+// force also refreshes feeds whose refresh interval hasn't elapsed yet
+export async function syncAllFeeds(force = false) {
+  return apiClient(`/feeds/sync-all${force ? '?force=true' : ''}`, { method: 'POST' });
 }
 
 // === ARTICLES ===
@@ -94,8 +96,28 @@ export async function getArticles(options?: {
   return apiClient(`/articles?${params.toString()}`);
 }
 
-export async function searchArticles(query: string, limit = 50) {
-  return apiClient(`/articles/search?q=${encodeURIComponent(query)}&limit=${limit}`);
+// `query` supports websearch syntax: "exact phrase", or, -excluded
+export async function searchArticles(query: string, limit = 50, filters?: {
+  feedId?: string;
+  folderId?: string;
+  label?: string;
+  from?: Date;
+  to?: Date;
+  read?: boolean;
+  bookmarked?: boolean;
+  offset?: number;
+}) {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  if (filters?.feedId) params.append('feedId', filters.feedId);
+  if (filters?.folderId) params.append('folderId', filters.folderId);
+  if (filters?.label) params.append('label', filters.label);
+  if (filters?.from) params.append('from', filters.from.toISOString());
+  if (filters?.to) params.append('to', filters.to.toISOString());
+  if (filters?.read !== undefined) params.append('read', String(filters.read));
+  if (filters?.bookmarked !== undefined) params.append('bookmarked', String(filters.bookmarked));
+  if (filters?.offset) params.append('offset', String(filters.offset));
+
+  return apiClient(`/articles/search?${params.toString()}`);
 }
 
 export async function markArticleRead(id: string, isRead: boolean) {
@@ -112,6 +134,45 @@ export async function markArticleBookmarked(id: string, isBookmarked: boolean) {
   });
 }
 
+export async function setArticleLabels(id: string, labels: string[]): Promise<{ labels: string[] }> {
+  return apiClient(`/articles/${id}/labels`, {
+    method: 'PUT',
+    body: { labels },
+  });
+}
+
+// Main content extracted from the article page by the backend
+export async function getReadableArticle(id: string, refresh = false): Promise<{
+  content: string;
+  author: string | null;
+  thumbnailUrl: string | null;
+  fetchedAt: string;
+}> {
+  return apiClient(`/articles/${id}/readable${refresh ? '?refresh=true' : ''}`);
+}
+
+// === LABELS ===
+
+export async function getLabels(): Promise<Array<{ name: string; count: number }>> {
+  return apiClient('/labels');
+}
+
+export async function getLabelArticles(name: string, limit = 50, offset = 0) {
+  const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+  return apiClient(`/labels/${encodeURIComponent(name)}/articles?${params.toString()}`);
+}
+
+export async function renameLabel(name: string, newName: string): Promise<{ updated: number }> {
+  return apiClient(`/labels/${encodeURIComponent(name)}`, {
+    method: 'PATCH',
+    body: { name: newName },
+  });
+}
+
+export async function deleteLabel(name: string): Promise<{ updated: number }> {
+  return apiClient(`/labels/${encodeURIComponent(name)}`, { method: 'DELETE' });
+}
+
 // === FOLDERS ===
 
 export async function getFolders() {
@@ -125,6 +186,46 @@ export async function createFolder(name: string, position?: number) {
   });
 }
 
+// === RULES ===
+
+// Server-side rules run when the backend stores new articles; 'delete' keeps them from being stored
+export interface ServerRule {
+  id: string;
+  name: string;
+  conditions: RuleConditionGroup;
+  feedId: string | null;
+  folderId: string | null;
+  actions: Array<'mark_read' | 'star' | 'delete'>;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ServerRuleInput = Pick<ServerRule, 'name' | 'conditions' | 'actions'> &
+  Partial<Pick<ServerRule, 'feedId' | 'folderId' | 'isActive'>>;
+
+export async function getRules(): Promise<ServerRule[]> {
+  return apiClient('/rules');
+}
+
+export async function createRule(rule: ServerRuleInput): Promise<ServerRule> {
+  return apiClient('/rules', {
+    method: 'POST',
+    body: rule,
+  });
+}
+
+export async function updateRule(id: string, rule: ServerRuleInput): Promise<ServerRule> {
+  return apiClient(`/rules/${id}`, {
+    method: 'PUT',
+    body: rule,
+  });
+}
+
+export async function deleteRule(id: string) {
+  return apiClient(`/rules/${id}`, { method: 'DELETE' });
+}
+
 // === AI FEATURES ===
 
 export async function generateBriefing(): Promise<{ content: string }> {
@@ -0,0 +1,204 @@
+import type { AIMessage } from '@feedstream/common';
+import { db, Article } from './db';
+import { AIService } from './ai-service';
+import { searchArticles } from './api-client';
+import { SearchIndex, stripHTML, tokenize } from './search-index';
+import { articleText } from './summary-service';
+
+/**
+ * "Ask your feeds": questions answered from stored articles.
+ *
+ * The question's terms are looked up in the local search index (any term
+ * may match; articles matching more rank higher), falling back to the
+ * backend's search when nothing local matches. The best articles within the
+ * scope are numbered and sent as context through the AI proxy, and the model
+ * cites them as [1], [2]...
+ */
+
+export interface AskScope {
+    feedId?: string;
+    folderId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+export interface AskSource {
+    id: string;
+    feedID: string;
+    title: string;
+    url?: string;
+    publishedAt?: Date;
+    excerpt: string;
+}
+
+export interface AskTurn {
+    question: string;
+    answer: string;
+    sources: AskSource[]; // Numbered from 1 in the order sent
+    model?: string; // Unset when no articles matched and nothing was asked
+}
+
+// Backend search results, which use the server's column names
+interface BackendSearchResult {
+    id: string;
+    feedId: string;
+    title: string;
+    summary?: string | null;
+    content?: string | null;
+    readerContent?: string | null;
+    url?: string | null;
+    publishedAt?: string | null;
+}
+
+// Words that make up the question rather than its subject
+const QUESTION_WORDS = new Set([
+    'about', 'any', 'anything', 'article', 'articles', 'been', 'can', 'did', 'does', 'feed',
+    'feeds', 'happened', 'happening', 'how', 'latest', 'me', 'month', 'my', 'new', 'news',
+    'recent', 'recently', 'say', 'said', 'says', 'tell', 'today', 'week', 'whats', 'where',
+    'why', 'written', 'wrote', 'year', 'yesterday',
+]);
+
+const MAX_SOURCES = 8;
+const EXCERPT_CHARS = 1_500;
+const MAX_CANDIDATES = 200;
+const HISTORY_TURNS = 3; // Earlier questions and answers sent for follow-ups
+const ANSWER_MAX_TOKENS = 800;
+
+export const NO_SOURCES_ANSWER = "I couldn't find any stored articles about that in the selected feeds and dates.";
+
+/**
+ * The question's subject terms, without stopwords and question phrasing
+ */
+export function questionTerms(question: string): string[] {
+    return Array.from(new Set(tokenize(question).filter(t => !QUESTION_WORDS.has(t))));
+}
+
+export function inScope(article: { feedID: string; publishedAt?: Date }, scope: AskScope, feedIds?: Set<string>): boolean {
+    if (feedIds && !feedIds.has(article.feedID)) return false;
+    const published = article.publishedAt?.getTime();
+    if (scope.from && (!published || published < scope.from.getTime())) return false;
+    if (scope.to && (!published || published > scope.to.getTime())) return false;
+    return true;
+}
+
+function localSource(article: Article): AskSource {
+    return {
+        id: article.id,
+        feedID: article.feedID,
+        title: article.title,
+        url: article.url,
+        publishedAt: article.publishedAt,
+        excerpt: articleText(article).slice(0, EXCERPT_CHARS),
+    };
+}
+
+function backendSource(result: BackendSearchResult): AskSource {
+    const html = result.readerContent || result.content || result.summary || '';
+    return {
+        id: result.id,
+        feedID: result.feedId,
+        title: result.title,
+        url: result.url ?? undefined,
+        publishedAt: result.publishedAt ? new Date(result.publishedAt) : undefined,
+        excerpt: stripHTML(html).replace(/\s+/g, ' ').trim().slice(0, EXCERPT_CHARS),
+    };
+}
+
+export function askMessages(question: string, sources: AskSource[], history: AskTurn[] = [], now = new Date()): AIMessage[] {
+    const context = sources.map((source, i) => {
+        const date = source.publishedAt ? ` (${source.publishedAt.toISOString().slice(0, 10)})` : '';
+        return `[${i + 1}] ${source.title}${date}\n${source.excerpt}`;
+    }).join('\n\n');
+
+    return [
+        {
+            role: 'system',
+            content: `You answer questions about the user's news feeds using only the numbered articles provided. Cite the articles you use with their numbers in square brackets, like [1] or [2][3]. If the articles don't answer the question, say so rather than guessing. Be concise and use plain text. Today is ${now.toISOString().slice(0, 10)}.`,
+        },
+        ...history.slice(-HISTORY_TURNS).flatMap((turn): AIMessage[] => [
+            { role: 'user', content: turn.question },
+            { role: 'assistant', content: turn.answer },
+        ]),
+        { role: 'user', content: `Articles:\n\n${context}\n\nQuestion: ${question}` },
+    ];
+}
+
+/**
+ * An answer split into text and citation numbers (1-based), keeping only
+ * citations of sources that exist
+ */
+export function splitCitations(answer: string, sourceCount: number): Array<string | number> {
+    const parts: Array<string | number> = [];
+    let last = 0;
+    for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+        const n = parseInt(match[1]);
+        if (n < 1 || n > sourceCount) continue;
+        if (match.index > last) parts.push(answer.slice(last, match.index));
+        parts.push(n);
+        last = match.index + match[0].length;
+    }
+    if (last < answer.length) parts.push(answer.slice(last));
+    return parts;
+}
+
+export class AskService {
+    /**
+     * The stored articles most relevant to a question within the scope.
+     * Without subject terms ("what happened this week?") the newest are used.
+     */
+    static async retrieve(question: string, scope: AskScope = {}): Promise<AskSource[]> {
+        const terms = questionTerms(question);
+        const feedIds = scope.folderId
+            ? new Set(await db.feeds.where('folderID').equals(scope.folderId).primaryKeys())
+            : scope.feedId ? new Set([scope.feedId]) : undefined;
+
+        if (terms.length === 0) {
+            const newest = await db.articles
+                .orderBy('publishedAt')
+                .reverse()
+                .filter(a => inScope(a, scope, feedIds))
+                .limit(MAX_SOURCES)
+                .toArray();
+            return newest.map(localSource);
+        }
+
+        await SearchIndex.ensureIndexed();
+        const scores = new Map<string, number>();
+        for (const term of terms) {
+            for (const [id, score] of await SearchIndex.score(term)) {
+                scores.set(id, (scores.get(id) || 0) + score);
+            }
+        }
+
+        const ranked = Array.from(scores.keys())
+            .sort((a, b) => scores.get(b)! - scores.get(a)!)
+            .slice(0, MAX_CANDIDATES);
+        const local = (await db.articles.bulkGet(ranked))
+            .filter((a): a is Article => !!a && inScope(a, scope, feedIds))
+            .slice(0, MAX_SOURCES);
+        if (local.length > 0 || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+            return local.map(localSource);
+        }
+
+        // Nothing stored on this device; the backend search uses websearch syntax
+        const results: BackendSearchResult[] = await searchArticles(terms.join(' or '), MAX_SOURCES, scope);
+        return results.map(backendSource);
+    }
+
+    /**
+     * Answer a question from the articles in scope. Earlier turns of the
+     * conversation are sent along so follow-up questions work.
+     */
+    static async ask(question: string, scope: AskScope = {}, history: AskTurn[] = []): Promise<AskTurn> {
+        const sources = await this.retrieve(question, scope);
+        if (sources.length === 0) {
+            return { question, answer: NO_SOURCES_ANSWER, sources };
+        }
+
+        const completion = await AIService.complete(askMessages(question, sources, history), {
+            maxTokens: ANSWER_MAX_TOKENS,
+            temperature: 0.2,
+        });
+        return { question, answer: completion.text.trim(), sources, model: completion.model };
+    }
+}
@@ -1,4 +1,5 @@
-import { db, Feed, Folder, Article } from './db';
+import { isAIProviderKind, AIProviderKind } from '@feedstream/common';
+import { db, Feed, Folder, Article, Highlight } from './db';
 import { useSettingsStore } from '@/store/settingsStore';
 import { encrypt, decrypt, isEncryptedFormat, generateSecureToken } from './encryption-service';
 
@@ -8,9 +9,13 @@ export interface MasterBackup {
     folders: Folder[];
     feeds: Feed[];
     articles: Partial<Article>[];
+    highlights?: Highlight[]; // Absent in backups made before highlights existed
     settings: {
         openaiApiKey?: string;
         geminiApiKey?: string;
+        anthropicApiKey?: string;
+        aiProvider?: AIProviderKind;
+        aiModel?: string;
         syncEndpoint?: string;
         syncUsername?: string;
         syncApiKey?: string;
@@ -26,17 +31,18 @@ export interface EncryptedBackup {
 
 export class BackupService {
     static async createMasterBackup(): Promise<MasterBackup> {
-        const [folders, feeds, articles] = await Promise.all([
+        const [folders, feeds, articles, highlights] = await Promise.all([
             db.folders.toArray(),
             db.feeds.toArray(),
             db.articles.toArray(),
+            db.highlights.toArray(),
         ]);
 
         const settings = useSettingsStore.getState();
 
         // For articles, we only backup essential state to keep file size reasonable
         // We exclude large contentHTML/readerHTML as those can be re-fetched,
-        // but we keep isRead, isBookmarked, and basic metadata.
+        // but we keep isRead, isBookmarked, labels, and basic metadata.
         const essentialArticles = articles.map(a => ({
             id: a.id,
             feedID: a.feedID,
@@ -47,6 +53,7 @@ export class BackupService {
             isBookmarked: a.isBookmarked,
             mediaKind: a.mediaKind,
             thumbnailPath: a.thumbnailPath,
+            tags: a.tags,
         }));
 
         // Record successful backup
@@ -58,9 +65,13 @@ export class BackupService {
             folders,
             feeds,
             articles: essentialArticles,
+            highlights,
             settings: {
                 openaiApiKey: settings.openaiApiKey,
                 geminiApiKey: settings.geminiApiKey,
+                anthropicApiKey: settings.anthropicApiKey,
+                aiProvider: settings.aiProvider,
+                aiModel: settings.aiModel,
                 syncEndpoint: settings.syncEndpoint,
                 syncUsername: settings.syncUsername,
                 syncApiKey: settings.syncApiKey,
@@ -109,12 +120,13 @@ export class BackupService {
             throw new Error("Invalid backup file: Missing feeds or folders.");
         }
 
-        await db.transaction('rw', db.folders, db.feeds, db.articles, async () => {
+        await db.transaction('rw', [db.folders, db.feeds, db.articles, db.highlights], async () => {
             // Clear existing
             await Promise.all([
                 db.folders.clear(),
                 db.feeds.clear(),
                 db.articles.clear(),
+                db.highlights.clear(),
             ]);
 
             // Restore data
@@ -132,6 +144,14 @@ export class BackupService {
                 })) as Article[];
                 await db.articles.bulkAdd(articlesToRestore);
             }
+
+            if (backup.highlights?.length) {
+                await db.highlights.bulkAdd(backup.highlights.map(h => ({
+                    ...h,
+                    createdAt: new Date(h.createdAt),
+                    updatedAt: new Date(h.updatedAt),
+                })));
+            }
         });
 
         // Restore Settings
@@ -139,6 +159,9 @@ export class BackupService {
             const store = useSettingsStore.getState();
             if (backup.settings.openaiApiKey) store.setOpenaiApiKey(backup.settings.openaiApiKey);
             if (backup.settings.geminiApiKey) store.setGeminiApiKey(backup.settings.geminiApiKey);
+            if (backup.settings.anthropicApiKey) store.setAnthropicApiKey(backup.settings.anthropicApiKey);
+            if (isAIProviderKind(backup.settings.aiProvider)) store.setAIProvider(backup.settings.aiProvider);
+            if (backup.settings.aiModel) store.setAIModel(backup.settings.aiModel);
             if (backup.settings.syncEndpoint) {
                 store.setSyncConfig(
                     backup.settings.syncEndpoint,
@@ -1,4 +1,5 @@
 import { db } from './db';
+import { SearchIndex } from './search-index';
 import { useSettingsStore } from '@/store/settingsStore';
 
 /**
@@ -136,11 +137,13 @@ export class CacheManager {
             const oldArticles = await query.filter(a => a.isBookmarked !== 1).toArray();
             const ids = oldArticles.map(a => a.id);
             await db.articles.bulkDelete(ids);
+            await SearchIndex.removeArticles(ids);
             return ids.length;
         } else {
             const oldArticles = await query.toArray();
             const ids = oldArticles.map(a => a.id);
             await db.articles.bulkDelete(ids);
+            await SearchIndex.removeArticles(ids);
             return ids.length;
         }
     }
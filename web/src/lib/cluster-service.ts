@@ -0,0 +1,150 @@
+import {
+    canonicalURL,
+    contentFingerprint,
+    titleShingles,
+    titleSimilarity,
+    TITLE_SIMILARITY_THRESHOLD,
+} from '@feedstream/common';
+import { db, Article } from './db';
+import { md5 } from './utils';
+
+// Copies of one story published further apart than this aren't matched by title
+const TITLE_MATCH_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Recent articles compared by title per merge, newest first
+const MAX_TITLE_CANDIDATES = 2000;
+
+// Shorter titles ("Weekly update", "Episode 12") match unrelated stories
+const MIN_TITLE_SHINGLES = 3;
+
+// One row in an article list: a story and its copies in other feeds
+export interface ArticleCluster {
+    article: Article; // The first copy in list order
+    duplicates: Article[]; // At most one per other feed
+}
+
+function publishedTime(article: Article): number {
+    return article.publishedAt ? new Date(article.publishedAt).getTime() : Date.now();
+}
+
+/**
+ * Groups copies of the same story published by different feeds. Articles are
+ * matched at merge time by content hash, canonical URL or a similar title
+ * published around the same time; matches share a `clusterID`, so lists can
+ * show them as one row and reading one reads them all.
+ */
+export class ClusterService {
+    /**
+     * Fill in the fields clusters are matched on. Doesn't touch the database.
+     */
+    static async fingerprint(article: Article): Promise<Article> {
+        const fingerprint = contentFingerprint(article.contentHTML || article.summary);
+        return {
+            ...article,
+            canonicalURL: article.url ? canonicalURL(article.url) : undefined,
+            content_hash: fingerprint ? await md5(fingerprint) : undefined,
+        };
+    }
+
+    /**
+     * Join newly stored articles to clusters from other feeds. Expects the
+     * articles to be fingerprinted; run inside the merge transaction.
+     */
+    static async clusterNew(stored: Article[]): Promise<void> {
+        // A watched page's changes are only ever about that page
+        const articles = stored.filter(a => a.mediaKind !== 'diff');
+        if (articles.length === 0) return;
+
+        const hashes = articles.map(a => a.content_hash).filter((h): h is string => !!h);
+        const urls = articles.map(a => a.canonicalURL).filter((u): u is string => !!u);
+        const since = new Date(Math.min(...articles.map(publishedTime)) - TITLE_MATCH_WINDOW_MS);
+
+        // Exact matches first, so they win over a similar title
+        const candidates = new Map<string, Article>();
+        const found = [
+            ...(hashes.length > 0 ? await db.articles.where('content_hash').anyOf(hashes).toArray() : []),
+            ...(urls.length > 0 ? await db.articles.where('canonicalURL').anyOf(urls).toArray() : []),
+            ...await db.articles.where('publishedAt').above(since).reverse().limit(MAX_TITLE_CANDIDATES).toArray(),
+        ];
+        for (const candidate of found) {
+            if (!candidates.has(candidate.id)) candidates.set(candidate.id, candidate);
+        }
+
+        const shingles = new Map<string, Set<string>>();
+        const shinglesOf = (article: Article) => {
+            let set = shingles.get(article.id);
+            if (!set) {
+                set = titleShingles(article.title);
+                shingles.set(article.id, set);
+            }
+            return set;
+        };
+
+        const sameStory = (article: Article, candidate: Article) =>
+            (!!article.content_hash && article.content_hash === candidate.content_hash) ||
+            (!!article.canonicalURL && article.canonicalURL === candidate.canonicalURL) ||
+            (Math.abs(publishedTime(article) - publishedTime(candidate)) <= TITLE_MATCH_WINDOW_MS &&
+                shinglesOf(article).size >= MIN_TITLE_SHINGLES &&
+                titleSimilarity(shinglesOf(article), shinglesOf(candidate)) >= TITLE_SIMILARITY_THRESHOLD);
+
+        const changes = new Map<string, string>(); // article ID -> cluster ID
+        for (const article of articles) {
+            let match: Article | undefined;
+            for (const candidate of candidates.values()) {
+                if (candidate.feedID !== article.feedID && sameStory(article, candidate)) {
+                    match = candidate;
+                    break;
+                }
+            }
+            if (!match) continue;
+
+            // The first copy names the cluster
+            const clusterID = match.clusterID ?? match.id;
+            if (!match.clusterID) {
+                match.clusterID = clusterID;
+                changes.set(match.id, clusterID);
+            }
+            changes.set(article.id, clusterID);
+        }
+
+        if (changes.size > 0) {
+            await db.articles.bulkUpdate(Array.from(changes, ([key, clusterID]) => ({ key, changes: { clusterID } })));
+        }
+    }
+
+    /**
+     * Mark an article and every other copy of its story read or unread.
+     */
+    static async setRead(articleId: string, isRead: boolean): Promise<void> {
+        const article = await db.articles.get(articleId);
+        const ids = article?.clusterID
+            ? await db.articles.where('clusterID').equals(article.clusterID).primaryKeys()
+            : [articleId];
+        await db.articles.bulkUpdate(ids.map(key => ({ key, changes: { isRead: isRead ? 1 : 0 } })));
+    }
+
+    /**
+     * Fold a list into rows, keeping list order. Copies are grouped by cluster,
+     * or by canonical URL for articles that weren't merged locally; a row takes
+     * one copy per feed, so a feed's own repeats stay separate.
+     */
+    static group(articles: Article[]): ArticleCluster[] {
+        const rows: ArticleCluster[] = [];
+        const byKey = new Map<string, ArticleCluster>();
+
+        for (const article of articles) {
+            const key = article.clusterID ?? article.canonicalURL ?? (article.url ? canonicalURL(article.url) : undefined);
+            const row = key ? byKey.get(key) : undefined;
+
+            if (row && row.article.feedID !== article.feedID && !row.duplicates.some(d => d.feedID === article.feedID)) {
+                row.duplicates.push(article);
+                continue;
+            }
+
+            const created: ArticleCluster = { article, duplicates: [] };
+            rows.push(created);
+            if (key && !row) byKey.set(key, created);
+        }
+        return rows;
+    }
+}
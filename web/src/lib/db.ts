@@ -1,9 +1,10 @@
 
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
+import { uuidv4, type ContentRules, type FeedHistoryEntry, type HtmlFeedSelectors, type PageWatchState, type RuleConditionGroup } from '@feedstream/common';
 
 // Interfaces matching the iOS schema
 
-export type FeedType = 'rss' | 'atom' | 'json' | 'youtube' | 'reddit' | 'podcast';
+export type FeedType = 'rss' | 'atom' | 'json' | 'youtube' | 'reddit' | 'podcast' | 'html' | 'watch';
 
 export interface Folder {
   id: string;
@@ -11,23 +12,39 @@ export interface Folder {
   position: number;
 }
 
+// Per-feed reader options, set in Manage Feeds. The content rules feed the shared extractor
+export interface FeedReaderSettings extends ContentRules {
+  alwaysFullText?: boolean; // Fetch the article page on refresh instead of relying on the feed's summary
+  userAgent?: string; // Sent by the proxy instead of its default
+  cookie?: string; // Cookie header for the feed's own host, e.g. a subscriber session
+  autoSummarize?: boolean; // Summarize long articles on refresh, in the preferred summary style
+}
+
 export interface Feed {
   id: string;
   title: string;
   siteURL?: string;
   isFaviconLoaded?: boolean;
   feedURL: string;
+  originalFeedURL?: string; // Set when feedURL migrates after a permanent redirect; article IDs stay derived from it
+  redirectTarget?: string; // Pending permanent-redirect destination
+  redirectCount?: number; // Consecutive refreshes that ended at redirectTarget
   type: FeedType;
   folderID?: string;
   faviconPath?: string;
   iconURL?: string; // NEW: Favicon/channel icon URL
-  lastSync?: Date;
+  lastSync?: Date; // Last refresh attempt, successful or not
   etag?: string;
   lastModified?: string;
   defaultViewMode?: string;
+  readerSettings?: FeedReaderSettings;
+  htmlSelectors?: HtmlFeedSelectors; // For 'html' feeds: how entries are scraped from the page at feedURL
+  pageWatch?: PageWatchState; // For 'watch' feeds: selector and the last snapshot of the page
   lastError?: string;
   lastSuccessfulSync?: Date;
+  refreshInterval?: number; // Minutes between refreshes, adapted to posting frequency
   consecutiveFailures: number;
+  history?: FeedHistoryEntry[]; // Recent failures, recoveries and URL moves
   isPaused: boolean;
   sortOrder: number;
   isFavorite: boolean;
@@ -47,7 +64,7 @@ export interface Article {
   updatedAt?: Date;
   isRead: number; // 0 = unread, 1 = read
   isBookmarked: number; // 0 = no, 1 = yes
-  mediaKind: string; // 'none' | 'video' | 'audio'
+  mediaKind: string; // 'none' | 'video' | 'audio' | 'diff' (a watched page's changes)
   thumbnailPath?: string;
   duration?: number;
   cachedReadingTime?: number;
@@ -62,8 +79,16 @@ export interface Article {
   enclosureURL?: string;
   enclosureType?: string;
 
-  // Content Hash (Deduplication)
-  content_hash?: string;
+  // Deduplication, set when merged (see cluster-service.ts)
+  content_hash?: string; // md5 of the normalized start of the text
+  canonicalURL?: string; // url without tracking parameters or AMP variants
+  clusterID?: string; // Shared by copies of one story in different feeds; the first copy's id
+
+  // Lowercase labels, e.g. applied by rule actions
+  tags?: string[];
+
+  // AI summaries by style (see summary-service.ts); dropped when the feed updates the article
+  aiSummaries?: Partial<Record<SummaryStyle, ArticleSummary>>;
 
   // Podcast
   playbackPosition: number;
@@ -72,6 +97,14 @@ export interface Article {
   playedAt?: Date;
 }
 
+export type SummaryStyle = 'tldr' | 'bullets' | 'takeaways';
+
+export interface ArticleSummary {
+  text: string;
+  model: string;
+  createdAt: Date;
+}
+
 export interface PlaybackQueueItem {
   id: string;
   articleID: string;
@@ -79,6 +112,61 @@ export interface PlaybackQueueItem {
   addedAt: Date;
 }
 
+// Saved query shown in the sidebar as a smart folder. Every set field must
+// match; feedIDs and folderIDs together describe one set of sources.
+export interface SmartFolderCriteria {
+  feedIDs?: string[];
+  folderIDs?: string[];
+  keyword?: string; // Matched through the search index
+  author?: string; // Case-insensitive substring
+  mediaKinds?: string[]; // 'none' | 'youtube' | 'podcast' | 'video'
+  readState?: 'unread' | 'read'; // Unset = any
+  bookmarkedOnly?: boolean;
+  maxAgeDays?: number;
+}
+
+export interface SmartFolder {
+  id: string;
+  name: string;
+  criteria: SmartFolderCriteria;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+// Text highlight in the Reader. Anchored by quote (text plus surrounding
+// context) rather than DOM position, so it survives content updates;
+// `start` is only a hint for picking between repeated quotes.
+export interface Highlight {
+  id: string;
+  articleID: string;
+  articleURL?: string; // Identifies the article across devices
+  articleTitle: string; // Kept for listing after the article is pruned
+  text: string;
+  prefix: string;
+  suffix: string;
+  start: number; // Character offset in the article text when created
+  color: HighlightColor;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Inverted index for offline full-text search, maintained by SearchIndex
+export interface SearchTerm {
+  term: string;
+  articleID: string;
+  weight: number; // Field-weighted term frequency
+}
+
+export interface SearchDocument {
+  articleID: string;
+  feedID: string;
+  indexedAt: Date;
+}
+
 export interface FeedCollectionMembership {
   id: string;
   feedID: string;
@@ -94,8 +182,13 @@ export class FeedStreamDB extends Dexie {
   playbackQueue!: EntityTable<PlaybackQueueItem, 'id'>;
   feedCollectionMembership!: EntityTable<FeedCollectionMembership, 'id'>;
   rules!: EntityTable<AutomationRule, 'id'>;
+  ruleMatches!: Table<RuleMatch, [string, string]>;
   briefings!: EntityTable<DailyBriefing, 'id'>;
   syncQueue!: EntityTable<SyncQueueItem, 'id'>;
+  searchTerms!: Table<SearchTerm, [string, string]>;
+  searchDocuments!: EntityTable<SearchDocument, 'articleID'>;
+  smartFolders!: EntityTable<SmartFolder, 'id'>;
+  highlights!: EntityTable<Highlight, 'id'>;
 
   constructor() {
     super('FeedStreamDB');
@@ -164,32 +257,98 @@ export class FeedStreamDB extends Dexie {
         briefings: 'id, date, generatedAt',
         syncQueue: '++id, table, recordId, createdAt, attempts'
     });
-  }
 
-  async search(query: string, limit: number = 50): Promise<Article[]> {
-    const q = query.toLowerCase();
-    return this.articles
-      .filter(a => 
-        (a.title && a.title.toLowerCase().includes(q)) || 
-        (a.summary && a.summary.toLowerCase().includes(q)) ||
-        (a.contentHTML && a.contentHTML.toLowerCase().includes(q) || false)
-      )
-      .limit(limit)
-      .reverse() // Newest first usually implies higher id/insertion order, or we should sort by publishedAt
-      .sortBy('publishedAt');
+    // Schema version 10: Inverted search index (see search-index.ts)
+    // Existing articles are indexed lazily by SearchIndex.ensureIndexed()
+    this.version(10).stores({
+        searchTerms: '[term+articleID], term, articleID',
+        searchDocuments: 'articleID, feedID'
+    });
+
+    // Schema version 11: User-defined smart folders (saved queries)
+    this.version(11).stores({
+        smartFolders: 'id, position'
+    });
+
+    // Schema version 12: Rules are condition trees instead of one substring match
+    this.version(12).stores({}).upgrade(tx => tx.table('rules').toCollection().modify(rule => {
+        if (rule.conditions) return;
+
+        if (rule.conditionType === 'feed_is') {
+            rule.scope = { type: 'feed', id: rule.conditionValue };
+            rule.conditions = { kind: 'group', id: uuidv4(), operator: 'and', children: [] };
+        } else {
+            const field = rule.conditionType === 'content_contains' ? 'content'
+                : rule.conditionType === 'author_contains' ? 'author' : 'title';
+            rule.conditions = {
+                kind: 'group',
+                id: uuidv4(),
+                operator: 'and',
+                children: [{ kind: 'condition', id: uuidv4(), field, operator: 'contains', value: rule.conditionValue ?? '' }],
+            };
+        }
+        delete rule.conditionType;
+        delete rule.conditionValue;
+    }));
+
+    // Schema version 13: Article tags, multiple actions per rule and a rule match log
+    this.version(13).stores({
+        articles: 'id, feedID, [feedID+isRead+publishedAt], [isRead+publishedAt], publishedAt, url, content_hash, [contentPrefetchedAt+isRead], isBookmarked, mediaKind, [mediaKind+publishedAt], [isBookmarked+publishedAt], [feedID+publishedAt], *tags',
+        ruleMatches: '[ruleID+articleID], ruleID, [ruleID+matchedAt], matchedAt'
+    }).upgrade(tx => tx.table('rules').toCollection().modify(rule => {
+        if (rule.actions) return;
+        rule.actions = rule.action === 'tag_important'
+            ? [{ type: 'tag', tag: 'important' }]
+            : [{ type: rule.action }];
+        delete rule.action;
+    }));
+
+    // Schema version 14: Reader highlights
+    this.version(14).stores({
+        highlights: 'id, articleID, articleURL, createdAt'
+    });
+
+    // Schema version 15: Duplicate clusters
+    this.version(15).stores({
+        articles: 'id, feedID, [feedID+isRead+publishedAt], [isRead+publishedAt], publishedAt, url, content_hash, [contentPrefetchedAt+isRead], isBookmarked, mediaKind, [mediaKind+publishedAt], [isBookmarked+publishedAt], [feedID+publishedAt], *tags, canonicalURL, clusterID'
+    });
   }
 }
 
+export type { RuleField, RuleOperator, RuleCondition, RuleConditionGroup } from '@feedstream/common';
+
+export type RuleAction =
+  | { type: 'mark_read' }
+  | { type: 'star' }
+  | { type: 'delete' }
+  | { type: 'tag'; tag: string }
+  | { type: 'notify' }
+  | { type: 'prefetch' }
+  | { type: 'queue_playback' }
+  | { type: 'webhook'; url: string }
+  | { type: 'move_to_folder'; folderId: string }; // Moves the article's feed
+
 export interface AutomationRule {
   id: string;
   name: string;
-  conditionType: 'title_contains' | 'content_contains' | 'feed_is' | 'author_contains';
-  conditionValue: string; // e.g. "Sponsor" or FeedID
-  action: 'mark_read' | 'delete' | 'star' | 'tag_important';
+  conditions: RuleConditionGroup;
+  scope?: { type: 'feed' | 'folder'; id: string }; // Unset = every feed
+  actions: RuleAction[];
   isActive: boolean;
   createdAt: Date;
 }
 
+// One article a rule acted on; at most one entry per rule and article
+export interface RuleMatch {
+  ruleID: string;
+  articleID: string;
+  articleTitle: string;
+  feedID: string;
+  actions: string[]; // e.g. ['tag:important', 'notify']
+  error?: string; // First action that failed
+  matchedAt: Date;
+}
+
 export interface DailyBriefing {
   id: string;
   date: string; // YYYY-MM-DD key
@@ -200,7 +359,7 @@ export interface DailyBriefing {
 
 export interface SyncQueueItem {
   id?: number;
-  table: 'folders' | 'feeds' | 'articles';
+  table: 'folders' | 'feeds' | 'articles' | 'smartFolders' | 'highlights';
   recordId: string;
   operation: 'insert' | 'update' | 'delete';
   data: object;
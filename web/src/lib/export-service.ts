@@ -0,0 +1,353 @@
+import { format } from 'date-fns';
+import { db, Article, Highlight } from './db';
+import { createZip } from './zip';
+
+/**
+ * One exported article: a saved article, or an article that only has
+ * highlights (possibly pruned locally, or synced from another device).
+ */
+export interface ExportItem {
+    title: string;
+    url?: string;
+    author?: string;
+    feedTitle?: string;
+    publishedAt?: Date;
+    tags: string[];
+    isSaved: boolean;
+    html?: string; // Reader or feed content, when the article is still local
+    highlights: Highlight[]; // In reading order
+}
+
+export type ExportFormat = 'markdown' | 'readwise' | 'bookmarks';
+
+const MAX_FILENAME_LENGTH = 100;
+
+export class ExportService {
+    /**
+     * Saved articles plus every article with highlights, newest first.
+     */
+    static async collect(): Promise<ExportItem[]> {
+        const [saved, highlights, feeds] = await Promise.all([
+            db.articles.where('isBookmarked').equals(1).toArray(),
+            db.highlights.toArray(),
+            db.feeds.toArray(),
+        ]);
+        const feedTitles = new Map(feeds.map(f => [f.id, f.title]));
+
+        // Highlights are matched to articles by ID, or by URL when they came from another device
+        const byArticle = new Map<string, Highlight[]>();
+        for (const highlight of highlights) {
+            const key = highlight.articleURL || highlight.articleID;
+            byArticle.set(key, [...(byArticle.get(key) ?? []), highlight]);
+        }
+        const takeHighlights = (article: Article) => {
+            const found = [article.url, article.id].flatMap(key => {
+                if (!key || !byArticle.has(key)) return [];
+                const list = byArticle.get(key)!;
+                byArticle.delete(key);
+                return list;
+            });
+            return found.sort((a, b) => a.start - b.start);
+        };
+
+        const fromArticle = (article: Article, isSaved: boolean): ExportItem => ({
+            title: article.title,
+            url: article.url,
+            author: article.author,
+            feedTitle: feedTitles.get(article.feedID),
+            publishedAt: article.publishedAt,
+            tags: article.tags ?? [],
+            isSaved,
+            html: article.readerHTML || article.contentHTML || article.summary,
+            highlights: takeHighlights(article),
+        });
+
+        const items = saved.map(article => fromArticle(article, true));
+
+        // Highlighted articles that aren't saved
+        const remainingIDs = Array.from(new Set(Array.from(byArticle.values()).map(list => list[0].articleID)));
+        const highlighted = await db.articles.bulkGet(remainingIDs);
+        for (const article of highlighted) {
+            if (article && (byArticle.has(article.id) || (article.url && byArticle.has(article.url)))) {
+                items.push(fromArticle(article, false));
+            }
+        }
+
+        // Articles no longer stored locally
+        for (const list of byArticle.values()) {
+            const first = list[0];
+            items.push({
+                title: first.articleTitle,
+                url: first.articleURL,
+                tags: [],
+                isSaved: false,
+                highlights: [...list].sort((a, b) => a.start - b.start),
+            });
+        }
+
+        const latest = (item: ExportItem) => Math.max(
+            item.publishedAt?.getTime() ?? 0,
+            ...item.highlights.map(h => h.createdAt.getTime())
+        );
+        return items.sort((a, b) => latest(b) - latest(a));
+    }
+
+    /**
+     * A Markdown note with YAML front-matter, suitable for an Obsidian vault.
+     */
+    static toMarkdown(item: ExportItem): string {
+        const frontMatter = [
+            '---',
+            `title: ${yamlString(item.title)}`,
+            item.author && `author: ${yamlString(item.author)}`,
+            item.url && `url: ${yamlString(item.url)}`,
+            item.feedTitle && `source: ${yamlString(item.feedTitle)}`,
+            item.publishedAt && `published: ${item.publishedAt.toISOString()}`,
+            `saved: ${item.isSaved}`,
+            item.tags.length > 0 ? `tags:\n${item.tags.map(t => `  - ${yamlString(t)}`).join('\n')}` : 'tags: []',
+            `highlights: ${item.highlights.length}`,
+            '---',
+        ].filter(Boolean).join('\n');
+
+        const sections = [frontMatter, `# ${item.title}`];
+        if (item.url) sections.push(`[Open original](${item.url})`);
+
+        if (item.highlights.length > 0) {
+            sections.push('## Highlights');
+            for (const highlight of item.highlights) {
+                const quote = highlight.text.split('\n').map(line => `> ${line}`).join('\n');
+                sections.push(highlight.note ? `${quote}\n\n**Note:** ${highlight.note}` : quote);
+            }
+        }
+
+        const body = item.html ? htmlToMarkdown(item.html, item.url) : '';
+        if (body) sections.push('## Content', body);
+
+        return sections.join('\n\n') + '\n';
+    }
+
+    /**
+     * Zip of one Markdown file per article, in a FeedStream folder.
+     */
+    static toMarkdownZip(items: ExportItem[]): Uint8Array {
+        const used = new Set<string>();
+        const entries = items.map(item => {
+            const base = fileName(item.title);
+            let name = base;
+            for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+            used.add(name.toLowerCase());
+
+            return {
+                name: `FeedStream/${name}.md`,
+                content: this.toMarkdown(item),
+                modifiedAt: item.publishedAt,
+            };
+        });
+        return createZip(entries);
+    }
+
+    /**
+     * One row per highlight, in Readwise's CSV import format (also read by
+     * Omnivore-style importers).
+     */
+    static toReadwiseCSV(items: ExportItem[]): string {
+        const rows = [['Highlight', 'Title', 'Author', 'URL', 'Note', 'Location', 'Date']];
+        for (const item of items) {
+            item.highlights.forEach((highlight, index) => {
+                rows.push([
+                    highlight.text,
+                    item.title,
+                    item.author ?? '',
+                    item.url ?? '',
+                    highlight.note ?? '',
+                    String(index + 1),
+                    format(highlight.createdAt, 'yyyy-MM-dd HH:mm:ss'),
+                ]);
+            });
+        }
+        return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Saved articles as a Netscape bookmarks file, importable by browsers
+     * and most read-later services. Labels become bookmark tags.
+     */
+    static toNetscapeHTML(items: ExportItem[]): string {
+        const lines = [
+            '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+            '<!-- This is an automatically generated file.',
+            '     It will be read and overwritten.',
+            '     DO NOT EDIT! -->',
+            '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+            '<TITLE>Bookmarks</TITLE>',
+            '<H1>FeedStream Saved Articles</H1>',
+            '<DL><p>',
+        ];
+
+        for (const item of items) {
+            if (!item.isSaved || !item.url) continue;
+
+            const addDate = Math.floor((item.publishedAt?.getTime() ?? Date.now()) / 1000);
+            const tags = item.tags.length > 0 ? ` TAGS="${escapeHTML(item.tags.join(','))}"` : '';
+            lines.push(`    <DT><A HREF="${escapeHTML(item.url)}" ADD_DATE="${addDate}"${tags}>${escapeHTML(item.title)}</A>`);
+
+            const notes = item.highlights.map(h => h.note).filter(Boolean);
+            if (notes.length > 0) lines.push(`    <DD>${escapeHTML(notes.join(' / '))}`);
+        }
+
+        lines.push('</DL><p>');
+        return lines.join('\n') + '\n';
+    }
+
+    static async export(exportFormat: ExportFormat): Promise<number> {
+        const items = await this.collect();
+        const date = new Date().toISOString().split('T')[0];
+
+        switch (exportFormat) {
+            case 'markdown':
+                this.download(this.toMarkdownZip(items), `feedstream_notes_${date}.zip`, 'application/zip');
+                return items.length;
+            case 'readwise':
+                this.download(this.toReadwiseCSV(items), `feedstream_highlights_${date}.csv`, 'text/csv');
+                return items.reduce((sum, item) => sum + item.highlights.length, 0);
+            case 'bookmarks': {
+                const saved = items.filter(item => item.isSaved && item.url);
+                this.download(this.toNetscapeHTML(saved), `feedstream_bookmarks_${date}.html`, 'text/html');
+                return saved.length;
+            }
+        }
+    }
+
+    private static download(data: string | Uint8Array, filename: string, type: string) {
+        const blob = new Blob([data as BlobPart], { type });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+}
+
+// JSON strings are valid YAML double-quoted scalars
+function yamlString(value: string): string {
+    return JSON.stringify(value);
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHTML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Safe on Windows, macOS and in Obsidian links
+function fileName(title: string): string {
+    const cleaned = title
+        .replace(/[\\/:*?"<>|#^[\]]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, MAX_FILENAME_LENGTH)
+        .replace(/^\.+/, '');
+    return cleaned || 'Untitled';
+}
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'IFRAME', 'svg', 'BUTTON', 'FORM']);
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'FIGURE', 'MAIN', 'ASIDE', 'TABLE', 'DL']);
+
+/**
+ * Markdown for the common article markup: headings, paragraphs, emphasis,
+ * links, images, lists, quotes and code. Anything else keeps its text.
+ */
+export function htmlToMarkdown(html: string, baseURL?: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    const absolute = (url: string | null) => {
+        if (!url) return '';
+        try {
+            return baseURL ? new URL(url, baseURL).href : url;
+        } catch {
+            return url;
+        }
+    };
+
+    const children = (node: Node): string => Array.from(node.childNodes).map(convert).join('');
+
+    const list = (element: Element, ordered: boolean): string => {
+        const items = Array.from(element.children).filter(child => child.tagName === 'LI');
+        const lines = items.map((item, index) => {
+            const marker = ordered ? `${index + 1}. ` : '- ';
+            const content = children(item).trim().replace(/\n{2,}/g, '\n');
+            return marker + content.split('\n').join('\n' + ' '.repeat(marker.length));
+        });
+        return `\n\n${lines.join('\n')}\n\n`;
+    };
+
+    function convert(node: Node): string {
+        if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+        if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+        const element = node as Element;
+        const tag = element.tagName;
+        if (SKIPPED_TAGS.has(tag)) return '';
+
+        switch (tag) {
+            case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+                return `\n\n${'#'.repeat(Number(tag[1]))} ${children(element).trim()}\n\n`;
+            case 'BR':
+                return '  \n';
+            case 'HR':
+                return '\n\n---\n\n';
+            case 'STRONG': case 'B': {
+                const text = children(element).trim();
+                return text ? `**${text}**` : '';
+            }
+            case 'EM': case 'I': {
+                const text = children(element).trim();
+                return text ? `*${text}*` : '';
+            }
+            case 'CODE':
+                return `\`${element.textContent ?? ''}\``;
+            case 'PRE':
+                return `\n\n\`\`\`\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+            case 'A': {
+                const text = children(element).trim();
+                const href = absolute(element.getAttribute('href'));
+                return href && text ? `[${text}](${href})` : text;
+            }
+            case 'IMG': {
+                const src = absolute(element.getAttribute('src'));
+                return src ? `![${element.getAttribute('alt') ?? ''}](${src})` : '';
+            }
+            case 'UL':
+                return list(element, false);
+            case 'OL':
+                return list(element, true);
+            case 'BLOCKQUOTE': {
+                const text = children(element).trim().replace(/\n{3,}/g, '\n\n');
+                return `\n\n${text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`;
+            }
+            case 'FIGCAPTION': {
+                const text = children(element).trim();
+                return text ? `\n\n*${text}*\n\n` : '';
+            }
+            case 'TR':
+                return `${children(element).trim()}\n`;
+            case 'TD': case 'TH':
+                return `${children(element).trim()} `;
+            default:
+                return BLOCK_TAGS.has(tag) ? `\n\n${children(element).trim()}\n\n` : children(element);
+        }
+    }
+
+    return convert(doc.body)
+        .split('\n')
+        // Drop stray spaces left by collapsed whitespace, keeping hard line breaks
+        .map(line => line.trim() ? line.replace(/^ (?=\S)/, '').replace(/ +$/, spaces => spaces.length >= 2 ? '  ' : '') : '')
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
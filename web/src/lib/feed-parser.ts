@@ -1,4 +1,4 @@
-import { parseFeed as commonParseFeed, ParsedFeed, ParsedArticle } from '@feedstream/common';
+import { parseFeed as commonParseFeed, checkWatchedPage, ParsedFeed, ParsedArticle, HtmlFeedSelectors, PageWatchState } from '@feedstream/common';
 import { Article, FeedType } from './db';
 
 export interface NormalizedFeed {
@@ -7,20 +7,39 @@ export interface NormalizedFeed {
     kind: FeedType;
     articles: Article[];
     avatarURL?: string;
+    ttlMinutes?: number;
+    updatePeriodMinutes?: number;
     rawData?: any;
 }
 
-export async function parseFeed(data: string | object, sourceURL: string): Promise<NormalizedFeed> {
-    const parsed = await commonParseFeed(data, sourceURL);
+// Pass htmlSelectors to scrape a web page instead of parsing a feed
+export async function parseFeed(data: string | object, sourceURL: string, htmlSelectors?: HtmlFeedSelectors): Promise<NormalizedFeed> {
+    const parsed = await commonParseFeed(data, sourceURL, { htmlSelectors });
     
     // Map FeedType
     let kind: FeedType = 'rss';
     if (parsed.type === 'youtube') kind = 'youtube';
     else if (parsed.type === 'reddit') kind = 'reddit';
     else if (parsed.type === 'json') kind = 'json';
+    else if (parsed.type === 'html') kind = 'html';
     
     // Map Articles
-    const articles: Article[] = parsed.articles.map(a => ({
+    const articles = parsed.articles.map(toArticle);
+
+    return {
+        title: parsed.title,
+        site: parsed.siteUrl,
+        kind,
+        articles,
+        avatarURL: parsed.iconUrl,
+        ttlMinutes: parsed.ttlMinutes,
+        updatePeriodMinutes: parsed.updatePeriodMinutes,
+        rawData: parsed.rawData
+    };
+}
+
+function toArticle(a: ParsedArticle): Article {
+    return {
         id: a.id,
         feedID: '', // Set by caller
         title: a.title,
@@ -40,14 +59,19 @@ export async function parseFeed(data: string | object, sourceURL: string): Promi
         downloadStatus: 0,
         imageCacheStatus: 0,
         author: a.author
-    }));
+    };
+}
 
+// Check a watched page against its last snapshot; the feed has an article only when it changed
+export async function parseWatchedPage(html: string, sourceURL: string, state: PageWatchState): Promise<{ normalized: NormalizedFeed; state: PageWatchState }> {
+    const result = await checkWatchedPage(html, sourceURL, state);
     return {
-        title: parsed.title,
-        site: parsed.siteUrl,
-        kind,
-        articles,
-        avatarURL: parsed.iconUrl,
-        rawData: parsed.rawData
+        normalized: {
+            title: result.feed.title,
+            site: result.feed.siteUrl,
+            kind: 'watch',
+            articles: result.feed.articles.map(toArticle),
+        },
+        state: result.state,
     };
 }
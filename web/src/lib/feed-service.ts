@@ -1,21 +1,56 @@
 
-import { db, Feed, Article } from './db';
-import { parseFeed } from './feed-parser';
+import { db, Feed, Article, FeedReaderSettings } from './db';
+import { parseFeed, parseWatchedPage, NormalizedFeed } from './feed-parser';
 import { useSettingsStore } from '@/store/settingsStore';
 import { md5, uuidv4 } from './utils';
 import { IconService } from './icon-service';
+import { ClusterService } from './cluster-service';
 import { RulesEngine } from './rules-engine';
+import { SearchIndex } from './search-index';
+import { PrefetchService, proxyHeaders } from './prefetch-service';
+import { SummaryService } from './summary-service';
+import {
+    applyContentRules,
+    HtmlFeedSelectors,
+    computeRefreshInterval,
+    computeRetryDelay,
+    appendFeedHistory,
+    trackPermanentRedirect,
+    DEFAULT_REFRESH_INTERVAL_MINUTES,
+    REDIRECT_MIGRATION_THRESHOLD,
+} from '@feedstream/common';
+
+// Articles fetched in full per refresh of an "always full text" feed, newest first
+const MAX_FULL_TEXT_PER_REFRESH = 10;
+
+// For pages without a feed: scrape entries with htmlSelectors, or watch the page for changes
+export interface AddFeedOptions {
+    htmlSelectors?: HtmlFeedSelectors;
+    watch?: { selector?: string };
+}
 
 export class FeedService {
 
-    static async addFeed(url: string, folderId?: string): Promise<string> {
+    static async addFeed(url: string, folderId?: string, options: AddFeedOptions = {}): Promise<string> {
+        const { htmlSelectors, watch } = options;
+
         // 1. Fetch and Parse to validate and get Meta
         const proxyUrl = `/api/proxy?url=${encodeURIComponent(url)}`;
         const response = await fetch(proxyUrl);
         if (!response.ok) throw new Error('Failed to fetch feed');
 
         const text = await response.text();
-        const normalized = await parseFeed(text, url);
+        let normalized: NormalizedFeed;
+        let pageWatch: Feed['pageWatch'];
+        if (watch) {
+            // The first check records the baseline snapshot
+            ({ normalized, state: pageWatch } = await parseWatchedPage(text, url, { selector: watch.selector }));
+        } else {
+            normalized = await parseFeed(text, url, htmlSelectors);
+        }
+        if (htmlSelectors && normalized.articles.length === 0) {
+            throw new Error('No items match the item selector');
+        }
 
         const feedId = uuidv4();
 
@@ -26,6 +61,8 @@ export class FeedService {
             feedURL: url,
             siteURL: normalized.site,
             type: normalized.kind,
+            htmlSelectors,
+            pageWatch,
             folderID: folderId,
             isPaused: false,
             consecutiveFailures: 0,
@@ -35,19 +72,8 @@ export class FeedService {
         });
 
         // 3. Add Articles
-        // Since it's new, we can just bulk add all
-        let articlesWithFeedId = normalized.articles.map(a => ({
-            ...a,
-            feedID: feedId,
-            isRead: 0
-        }));
-
-        // Apply Rules
-        articlesWithFeedId = await RulesEngine.applyRules(articlesWithFeedId);
-
-        if (articlesWithFeedId.length > 0) {
-            await db.articles.bulkAdd(articlesWithFeedId);
-        }
+        // Same path as a refresh: rules, fingerprints and clusters, search index
+        await this.mergeArticles(feedId, normalized.articles);
 
         // 4. Fetch and update feed icon
         const feed = await db.feeds.get(feedId);
@@ -76,12 +102,17 @@ export class FeedService {
             const proxyUrl = `${baseUrl}/api/proxy?url=${encodeURIComponent(feed.feedURL)}`;
 
             // Build headers with conditional caching
-            const headers: Record<string, string> = {};
+            const headers: Record<string, string> = proxyHeaders(feed.readerSettings);
             if (feed.etag) headers['If-None-Match'] = feed.etag;
             if (feed.lastModified) headers['If-Modified-Since'] = feed.lastModified;
 
+            await db.feeds.update(feed.id, { lastSync: new Date() });
             const response = await fetch(proxyUrl, { headers, signal: combinedSignal });
 
+            if (response.ok || response.status === 304) {
+                feed = { ...feed, ...(await this.trackRedirect(feed, response)) };
+            }
+
             // Handle 304 Not Modified - feed unchanged, skip parsing
             if (response.status === 304) {
                 console.log(`[RefreshFeed] ${feed.title} unchanged (304)`);
@@ -89,16 +120,16 @@ export class FeedService {
                     lastSuccessfulSync: new Date(),
                     lastError: undefined,
                     consecutiveFailures: 0,
+                    ...this.recoveryHistory(feed),
                 });
                 return 0;
             }
 
             if (!response.ok) {
                 console.error(`[RefreshFeed] HTTP error ${response.status} for ${feed.title}`);
-                await db.feeds.update(feed.id, {
-                    lastError: `HTTP ${response.status}`,
-                    consecutiveFailures: (feed.consecutiveFailures || 0) + 1
-                });
+                // The proxy explains its own failures (redirect loops, blocked redirects)
+                const detail = await response.json().then(body => body?.error).catch(() => undefined);
+                await this.recordFailure(feed, detail ? `HTTP ${response.status}: ${detail}` : `HTTP ${response.status}`);
                 return 0;
             }
 
@@ -110,14 +141,31 @@ export class FeedService {
             if (signal?.aborted) return 0;
 
             console.log(`[RefreshFeed] Fetched ${text.length} bytes for ${feed.title}`);
-            const normalized = await parseFeed(text, feed.feedURL);
+            let normalized: NormalizedFeed;
+            let pageWatch: Feed['pageWatch'];
+            if (feed.pageWatch) {
+                ({ normalized, state: pageWatch } = await parseWatchedPage(text, feed.feedURL, feed.pageWatch));
+            } else {
+                normalized = await parseFeed(text, feed.originalFeedURL || feed.feedURL, feed.htmlSelectors);
+            }
             console.log(`[RefreshFeed] Parsed ${normalized.articles.length} articles for ${feed.title}`);
 
+            const refreshInterval = computeRefreshInterval({
+                publishedDates: normalized.articles.map(a => a.publishedAt),
+                ttlMinutes: normalized.ttlMinutes,
+                updatePeriodMinutes: normalized.updatePeriodMinutes,
+                cacheControl: response.headers.get('x-upstream-cache-control'),
+                expires: response.headers.get('x-upstream-expires'),
+            });
+
             // Update Feed Meta (if changed, optional, but good for title updates)
             await db.feeds.update(feed.id, {
                 lastSuccessfulSync: new Date(),
                 lastError: undefined,
                 consecutiveFailures: 0,
+                ...this.recoveryHistory(feed),
+                refreshInterval,
+                ...(pageWatch && { pageWatch }),
                 ...(newEtag && { etag: newEtag }),
                 ...(newLastModified && { lastModified: newLastModified }),
             });
@@ -130,29 +178,177 @@ export class FeedService {
             }
 
             // Merge Articles
-            const newCount = await this.mergeArticles(feed.id, normalized.articles);
+            const incoming = this.applyReaderSettings(normalized.articles, feed.readerSettings);
+            const newCount = await this.mergeArticles(feed.id, incoming);
             console.log(`[RefreshFeed] Completed refresh for ${feed.title} (New: ${newCount})`);
             clearTimeout(timeoutId);
+
+            const settings = feed.readerSettings;
+            if (settings?.alwaysFullText || settings?.autoSummarize) {
+                // Non-blocking, like the icon update; summaries wait for the full text
+                const ids = incoming.map(a => a.id);
+                (settings.alwaysFullText ? this.fetchFullText(ids, settings) : Promise.resolve())
+                    .then(() => settings.autoSummarize ? SummaryService.pregenerate(ids) : 0)
+                    .catch(console.error);
+            }
             return newCount;
 
         } catch (e: any) {
             clearTimeout(timeoutId);
             if (e.name === 'AbortError') {
+                // Our own timeout counts as a failure; a caller cancelling does not
+                if (timeoutController.signal.aborted && !signal?.aborted) {
+                    await this.recordFailure(feed, `Timed out after ${timeoutMs / 1000}s`);
+                    return 0;
+                }
                 console.log(`[RefreshFeed] Aborted: ${feed.title}`);
                 return 0;
             }
             console.error(`Failed to sync feed ${feed.title}`, e);
-            await db.feeds.update(feed.id, {
-                lastError: e.message || 'Unknown error',
-                consecutiveFailures: (feed.consecutiveFailures || 0) + 1
-            });
+            await this.recordFailure(feed, e.message || 'Unknown error');
             return 0;
         }
     }
 
-    static async refreshAllFeeds(onProgress?: (completed: number, total: number, message: string) => void, signal?: AbortSignal): Promise<number> {
+    /**
+     * Apply a feed's remove selector and image rule to the content it ships
+     */
+    private static applyReaderSettings(articles: Article[], settings?: FeedReaderSettings): Article[] {
+        if (!settings?.removeSelector && !settings?.stripImages) return articles;
+        return articles.map(article => ({
+            ...article,
+            contentHTML: article.contentHTML && applyContentRules(article.contentHTML, settings),
+            summary: article.summary && applyContentRules(article.summary, settings),
+        }));
+    }
+
+    /**
+     * Fetch full article pages for a feed whose entries are only summaries,
+     * so they read in full and offline. Each article is tried once; the
+     * Reader retries on open.
+     */
+    private static async fetchFullText(articleIds: string[], settings: FeedReaderSettings): Promise<void> {
+        // Sanitizing needs a DOM, which the sync worker doesn't have
+        if (typeof document === 'undefined') return;
+
+        const articles = (await db.articles.bulkGet(articleIds))
+            .filter((a): a is Article => !!a && !!a.url && !a.readerHTML && !a.contentPrefetchedAt)
+            .filter(a => a.mediaKind !== 'youtube' && a.mediaKind !== 'podcast' && a.mediaKind !== 'diff')
+            .slice(0, MAX_FULL_TEXT_PER_REFRESH);
+
+        for (const article of articles) {
+            await PrefetchService.cacheReadableContent(article, settings);
+            await db.articles.update(article.id, { contentPrefetchedAt: new Date() });
+        }
+    }
+
+    /**
+     * Follow up on a permanent (301/308) redirect reported by the proxy. After
+     * REDIRECT_MIGRATION_THRESHOLD consecutive refreshes land on the same URL, the
+     * stored feedURL is rewritten unless another subscription already uses it.
+     * Returns the changes written so the caller can keep its copy current.
+     */
+    private static async trackRedirect(feed: Feed, response: Response): Promise<Partial<Feed>> {
+        const tracking = trackPermanentRedirect(
+            feed.feedURL,
+            { target: feed.redirectTarget, count: feed.redirectCount },
+            response.headers.get('x-final-url'),
+            response.headers.get('x-redirect-permanent') === 'true'
+        );
+
+        let changes: Partial<Feed>;
+
+        if (!tracking.migrate) {
+            if (tracking.target === feed.redirectTarget && tracking.count === (feed.redirectCount || 0)) {
+                return {};
+            }
+            changes = { redirectTarget: tracking.target, redirectCount: tracking.count };
+        } else {
+            const newURL = tracking.target!;
+            const existing = await db.feeds.where('feedURL').equals(newURL).first();
+
+            if (existing && existing.id !== feed.id) {
+                // &feedURL is unique - leave both subscriptions alone and tell the user once
+                changes = { redirectTarget: tracking.target, redirectCount: tracking.count };
+                if (tracking.count === REDIRECT_MIGRATION_THRESHOLD) {
+                    changes.history = appendFeedHistory(feed.history, {
+                        type: 'moved',
+                        message: `Moved permanently to ${newURL}, which is already subscribed as "${existing.title}"`,
+                    });
+                }
+            } else {
+                console.log(`[RefreshFeed] ${feed.title} moved permanently to ${newURL}`);
+                changes = {
+                    feedURL: newURL,
+                    originalFeedURL: feed.originalFeedURL || feed.feedURL,
+                    redirectTarget: undefined,
+                    redirectCount: 0,
+                    history: appendFeedHistory(feed.history, {
+                        type: 'moved',
+                        message: `Moved permanently from ${feed.feedURL} to ${newURL}`,
+                    }),
+                };
+            }
+        }
+
+        await db.feeds.update(feed.id, changes);
+        return changes;
+    }
+
+    private static async recordFailure(feed: Feed, message: string) {
+        await db.feeds.update(feed.id, {
+            lastError: message,
+            consecutiveFailures: (feed.consecutiveFailures || 0) + 1,
+            history: appendFeedHistory(feed.history, { type: 'error', message }),
+        });
+    }
+
+    private static recoveryHistory(feed: Feed): Partial<Feed> {
+        if (!feed.consecutiveFailures) return {};
+        return {
+            history: appendFeedHistory(feed.history, {
+                type: 'recovered',
+                message: `Recovered after ${feed.consecutiveFailures} failed attempts`,
+            }),
+        };
+    }
+
+    /**
+     * When a failing feed may be probed again, based on exponential backoff from
+     * its last attempt. Returns undefined for healthy feeds.
+     */
+    static nextRetryAt(feed: Feed): Date | undefined {
+        if (!feed.consecutiveFailures) return undefined;
+        const lastAttempt = feed.lastSync ? new Date(feed.lastSync).getTime() : 0;
+        return new Date(lastAttempt + computeRetryDelay(feed.consecutiveFailures, feed.lastError) * 60 * 1000);
+    }
+
+    /**
+     * Whether a feed should be refreshed now. Failing feeds wait out their backoff;
+     * healthy feeds wait for their adaptive refresh interval since the last successful sync.
+     * Feeds that have never synced (or have no interval yet) are always due.
+     */
+    static isDue(feed: Feed, now: Date = new Date()): boolean {
+        const retryAt = this.nextRetryAt(feed);
+        if (retryAt) return retryAt.getTime() <= now.getTime();
+        if (!feed.lastSuccessfulSync) return true;
+        const intervalMs = (feed.refreshInterval || DEFAULT_REFRESH_INTERVAL_MINUTES) * 60 * 1000;
+        return new Date(feed.lastSuccessfulSync).getTime() + intervalMs <= now.getTime();
+    }
+
+    /**
+     * Whether a refresh of all feeds should fetch this one. Skips feeds whose
+     * refresh interval hasn't elapsed so quiet sources aren't hammered; failing
+     * feeds always wait out their backoff, even on a forced refresh.
+     */
+    static shouldRefresh(feed: Feed, force: boolean, now: Date = new Date()): boolean {
+        return !feed.isPaused && (this.isDue(feed, now) || (force && !feed.consecutiveFailures));
+    }
+
+    static async refreshAllFeeds(onProgress?: (completed: number, total: number, message: string) => void, signal?: AbortSignal, force: boolean = false): Promise<number> {
         const localFeeds = await db.feeds.toArray();
-        const feedsToSync = localFeeds.filter(f => !f.isPaused);
+        const now = new Date();
+        const feedsToSync = localFeeds.filter(f => this.shouldRefresh(f, force, now));
 
         console.log(`[RefreshAll] Found ${localFeeds.length} feeds, syncing ${feedsToSync.length}`);
 
@@ -174,29 +370,12 @@ export class FeedService {
         let startedCount = 0;
         let totalNewArticles = 0;
         const total = feedsToSync.length;
-        
-        // Track feeds that failed consecutively to avoid hammering dead feeds
-        const failedFeeds = new Set<string>();
 
         const processNext = async (): Promise<void> => {
             if (signal?.aborted || startedCount >= total) return;
 
             const feed = feedsToSync[startedCount];
             startedCount++;
-            
-            // Skip feeds that have failed 5+ times consecutively
-            if (feed.consecutiveFailures >= 5) {
-                if (!failedFeeds.has(feed.id)) {
-                    console.log(`[RefreshAll] Skipping ${feed.title} - ${feed.consecutiveFailures} consecutive failures`);
-                    failedFeeds.add(feed.id);
-                }
-                completedCount++;
-                if (onProgress && !signal?.aborted) {
-                    onProgress(completedCount, total, completedCount === total ? 'Finished' : `Updating feeds...`);
-                }
-                await processNext();
-                return;
-            }
 
             if (onProgress) {
                 onProgress(completedCount, total, `Updating ${feed.title}...`);
@@ -208,10 +387,6 @@ export class FeedService {
             try {
                 const newCount = await this.refreshFeed(feed, signal);
                 totalNewArticles += newCount;
-                // Reset failed status on success
-                if (feed.consecutiveFailures > 0) {
-                    failedFeeds.delete(feed.id);
-                }
             } catch (e) {
                 console.error(`[RefreshAll] Error refreshing ${feed.title}:`, e);
             } finally {
@@ -243,14 +418,14 @@ export class FeedService {
         console.log(`[MergeArticles] Processing ${incoming.length} articles for feed ${feedId}`);
 
         // Apply Rules FIRST
-        const mappedIncoming = incoming.map(a => ({ ...a, feedID: feedId }));
+        const mappedIncoming = await Promise.all(incoming.map(a => ClusterService.fingerprint({ ...a, feedID: feedId })));
         const processedIncoming = await RulesEngine.applyRules(mappedIncoming);
 
         // 1. Get existing articles for this feed to check status
         const incomingIds = processedIncoming.map(a => a.id);
         if (incomingIds.length === 0) return 0; // All filtered out
 
-        return await db.transaction('rw', db.articles, async () => {
+        const newArticles = await db.transaction('rw', [db.articles, db.searchTerms, db.searchDocuments], async () => {
             const existingArticles = await db.articles.where('id').anyOf(incomingIds).toArray();
             const existingMap = new Map(existingArticles.map(a => [a.id, a]));
 
@@ -279,9 +454,13 @@ export class FeedService {
                             // Using bitwise OR as numeric boolean logic (if either is 1, result is 1)
                             isRead: existing.isRead | item.isRead,
                             isBookmarked: existing.isBookmarked | item.isBookmarked,
+                            tags: existing.tags || item.tags
+                                ? Array.from(new Set([...(existing.tags ?? []), ...(item.tags ?? [])]))
+                                : undefined,
                             playbackPosition: existing.playbackPosition,
                             downloadStatus: existing.downloadStatus,
-                            contentPrefetchedAt: existing.contentPrefetchedAt
+                            contentPrefetchedAt: existing.contentPrefetchedAt,
+                            clusterID: existing.clusterID
                         });
                     }
                 }
@@ -292,6 +471,7 @@ export class FeedService {
             if (newArticles.length > 0) {
                 await db.articles.bulkPut(newArticles);
                 console.log(`[MergeArticles] Successfully added ${newArticles.length} articles`);
+                await ClusterService.clusterNew(newArticles);
             }
 
             if (updates.length > 0) {
@@ -299,20 +479,28 @@ export class FeedService {
                 console.log(`[MergeArticles] Successfully updated ${updates.length} articles`);
             }
 
-            return newArticles.length;
+            await SearchIndex.indexArticles([...newArticles, ...updates]);
+
+            return newArticles;
         });
+
+        // Notifications, webhooks etc. shouldn't hold up the refresh
+        void RulesEngine.runActions(newArticles).catch(console.error);
+
+        return newArticles.length;
     }
 
     static async deleteFeed(id: string) {
-        await db.transaction('rw', db.feeds, db.articles, async () => {
+        await db.transaction('rw', [db.feeds, db.articles, db.searchTerms, db.searchDocuments], async () => {
             await db.articles.where('feedID').equals(id).delete();
             await db.feeds.delete(id);
+            await SearchIndex.removeFeed(id);
         });
     }
 
     static async toggleReadStatus(articleId: string, isRead: boolean) {
-        // 1. Optimistic Update Local
-        await db.articles.update(articleId, { isRead: isRead ? 1 : 0 });
+        // 1. Optimistic Update Local, for every copy of the story
+        await ClusterService.setRead(articleId, isRead);
     }
 
     static async toggleBookmark(articleId: string, isBookmarked: boolean) {
@@ -0,0 +1,146 @@
+/**
+ * Anchoring for Reader highlights.
+ *
+ * A highlight is stored as a text quote: the selected text, a little context
+ * on either side and its offset at the time. Offsets are character positions
+ * in the content root's textContent. When the content changes (a feed update,
+ * or switching between feed and reader view) the quote is searched for again
+ * and the context decides between repeated occurrences.
+ */
+
+const CONTEXT_CHARS = 32;
+
+export interface TextQuote {
+    text: string;
+    prefix: string;
+    suffix: string;
+    start: number;
+}
+
+export interface TextSpan {
+    start: number;
+    end: number;
+}
+
+export function quoteAt(fullText: string, start: number, end: number): TextQuote {
+    return {
+        text: fullText.slice(start, end),
+        prefix: fullText.slice(Math.max(0, start - CONTEXT_CHARS), start),
+        suffix: fullText.slice(end, end + CONTEXT_CHARS),
+        start,
+    };
+}
+
+function sharedSuffixLength(a: string, b: string): number {
+    let n = 0;
+    while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+    return n;
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+    let n = 0;
+    while (n < a.length && n < b.length && a[n] === b[n]) n++;
+    return n;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Every place the quote occurs; whitespace runs match any whitespace so reflowed text still anchors
+function occurrences(fullText: string, text: string): TextSpan[] {
+    const spans: TextSpan[] = [];
+    for (let i = fullText.indexOf(text); i !== -1; i = fullText.indexOf(text, i + 1)) {
+        spans.push({ start: i, end: i + text.length });
+    }
+    if (spans.length > 0) return spans;
+
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return spans;
+
+    const pattern = new RegExp(words.map(escapeRegExp).join('\\s+'), 'g');
+    for (const match of fullText.matchAll(pattern)) {
+        spans.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+    return spans;
+}
+
+/**
+ * Where the quote is in `fullText` now, or null if the text is gone.
+ */
+export function locateQuote(fullText: string, quote: TextQuote): TextSpan | null {
+    if (!quote.text.trim()) return null;
+
+    let best: TextSpan | null = null;
+    let bestScore = -1;
+    let bestDistance = Infinity;
+
+    for (const span of occurrences(fullText, quote.text)) {
+        const before = fullText.slice(Math.max(0, span.start - quote.prefix.length), span.start);
+        const after = fullText.slice(span.end, span.end + quote.suffix.length);
+        const score = sharedSuffixLength(before, quote.prefix) + sharedPrefixLength(after, quote.suffix);
+        const distance = Math.abs(span.start - quote.start);
+
+        if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+            best = span;
+            bestScore = score;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/**
+ * Offsets of a DOM range within root's text, or null when it lies outside root.
+ */
+export function rangeToSpan(root: Node, range: Range): TextSpan | null {
+    if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+
+    const before = document.createRange();
+    before.selectNodeContents(root);
+    before.setEnd(range.startContainer, range.startOffset);
+
+    const start = before.toString().length;
+    return { start, end: start + range.toString().length };
+}
+
+/**
+ * Wrap the text between the offsets in <mark> elements (one per text node
+ * touched) carrying the given attributes.
+ */
+export function wrapSpan(root: HTMLElement, span: TextSpan, attributes: Record<string, string>): HTMLElement[] {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const targets: { node: Text; from: number; to: number }[] = [];
+    let position = 0;
+
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const length = node.data.length;
+        const from = Math.max(span.start - position, 0);
+        const to = Math.min(span.end - position, length);
+        if (from < to) targets.push({ node, from, to });
+        position += length;
+        if (position >= span.end) break;
+    }
+
+    // Split after walking so the walk isn't disturbed
+    return targets.map(({ node, from, to }) => {
+        const middle = node.splitText(from);
+        middle.splitText(to - from);
+
+        const mark = document.createElement('mark');
+        for (const [name, value] of Object.entries(attributes)) mark.setAttribute(name, value);
+        middle.parentNode!.insertBefore(mark, middle);
+        mark.appendChild(middle);
+        return mark;
+    });
+}
+
+/**
+ * Remove marks added by wrapSpan, restoring the original text nodes.
+ */
+export function unwrapMarks(root: HTMLElement, selector: string): void {
+    root.querySelectorAll(selector).forEach(mark => {
+        mark.replaceWith(...Array.from(mark.childNodes));
+    });
+    root.normalize();
+}
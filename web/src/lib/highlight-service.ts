@@ -0,0 +1,78 @@
+import { db, Article, Highlight, HighlightColor } from './db';
+import { TextQuote } from './highlight-anchor';
+import { SyncService } from './sync-service';
+import { isSupabaseConfigured } from './supabase-client';
+import { uuidv4 } from './utils';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+/**
+ * Reader highlights and their notes. Highlights sync to Supabase keyed by
+ * article URL, since article IDs differ between devices.
+ */
+export class HighlightService {
+    static async create(article: Article, quote: TextQuote, color: HighlightColor = 'yellow', note?: string): Promise<Highlight> {
+        const now = new Date();
+        const highlight: Highlight = {
+            id: uuidv4(),
+            articleID: article.id,
+            articleURL: article.url,
+            articleTitle: article.title,
+            ...quote,
+            color,
+            note: note?.trim() || undefined,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await db.highlights.add(highlight);
+        await this.queueSync(highlight, 'insert');
+        return highlight;
+    }
+
+    static async update(id: string, changes: Partial<Pick<Highlight, 'color' | 'note'>>): Promise<void> {
+        const highlight = await db.highlights.get(id);
+        if (!highlight) return;
+
+        const updated: Highlight = {
+            ...highlight,
+            ...changes,
+            note: 'note' in changes ? changes.note?.trim() || undefined : highlight.note,
+            updatedAt: new Date(),
+        };
+        await db.highlights.put(updated);
+        await this.queueSync(updated, 'update');
+    }
+
+    static async delete(id: string): Promise<void> {
+        const highlight = await db.highlights.get(id);
+        if (!highlight) return;
+
+        await db.highlights.delete(id);
+        await this.queueSync(highlight, 'delete');
+    }
+
+    /**
+     * Highlights for one article, including ones synced from another device
+     * (matched by URL). Read-only, so it can run inside useLiveQuery.
+     */
+    static async forArticle(article: Pick<Article, 'id' | 'url'>): Promise<Highlight[]> {
+        const [byID, byURL] = await Promise.all([
+            db.highlights.where('articleID').equals(article.id).toArray(),
+            article.url ? db.highlights.where('articleURL').equals(article.url).toArray() : Promise.resolve([]),
+        ]);
+
+        const unique = new Map([...byID, ...byURL].map(h => [h.id, h]));
+        return Array.from(unique.values()).sort((a, b) => a.start - b.start);
+    }
+
+    // Newest first
+    static async all(): Promise<Highlight[]> {
+        return db.highlights.orderBy('createdAt').reverse().toArray();
+    }
+
+    private static async queueSync(highlight: Highlight, operation: 'insert' | 'update' | 'delete'): Promise<void> {
+        if (!isSupabaseConfigured()) return;
+        await SyncService.queueChange('highlights', highlight.id, operation, highlight);
+    }
+}
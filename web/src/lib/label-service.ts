@@ -0,0 +1,101 @@
+import { normalizeLabel, normalizeLabels } from '@feedstream/common';
+import { db, Article } from './db';
+import { SyncService } from './sync-service';
+import { isSupabaseConfigured } from './supabase-client';
+import { setArticleLabels, renameLabel, deleteLabel } from './api-client';
+
+export interface LabelCount {
+    name: string;
+    count: number;
+}
+
+function byNewest(a: Article, b: Article): number {
+    return (b.publishedAt ? new Date(b.publishedAt).getTime() : 0) - (a.publishedAt ? new Date(a.publishedAt).getTime() : 0);
+}
+
+/**
+ * User labels on articles, stored as `tags`. Local articles keep them in the
+ * multi-entry tags index and sync them with the article state; articles that
+ * only exist on the backend are labelled through the API.
+ */
+export class LabelService {
+    /**
+     * Every label in use with its article count. Read-only, so it can run
+     * inside useLiveQuery.
+     */
+    static async list(): Promise<LabelCount[]> {
+        const counts = new Map<string, number>();
+        // One key per label per article on a multi-entry index
+        const keys = await db.articles.orderBy('tags').keys();
+        for (const key of keys) {
+            const name = String(key);
+            counts.set(name, (counts.get(name) ?? 0) + 1);
+        }
+        return Array.from(counts, ([name, count]) => ({ name, count }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    static async articles(name: string): Promise<Article[]> {
+        const articles = await db.articles.where('tags').equals(normalizeLabel(name)).toArray();
+        return articles.sort(byNewest);
+    }
+
+    /**
+     * Replace an article's labels and return what was stored.
+     */
+    static async setLabels(articleId: string, labels: string[]): Promise<string[]> {
+        const tags = normalizeLabels(labels);
+        const local = await db.articles.get(articleId);
+
+        if (!local) {
+            const result = await setArticleLabels(articleId, tags);
+            return result.labels;
+        }
+
+        await db.articles.update(articleId, { tags });
+        await this.queueSync([{ ...local, tags }]);
+        return tags;
+    }
+
+    /**
+     * Rename a label on every article. Returns how many local articles changed.
+     */
+    static async rename(from: string, to: string): Promise<number> {
+        const oldName = normalizeLabel(from);
+        const newName = normalizeLabel(to);
+        if (!newName || oldName === newName) return 0;
+
+        const changed = await this.updateLabelled(oldName, tags =>
+            Array.from(new Set(tags.map(tag => tag === oldName ? newName : tag)))
+        );
+        await renameLabel(oldName, newName).catch(e => console.error('[Labels] Backend rename failed:', e));
+        return changed;
+    }
+
+    /**
+     * Take a label off every article. Returns how many local articles changed.
+     */
+    static async remove(name: string): Promise<number> {
+        const label = normalizeLabel(name);
+
+        const changed = await this.updateLabelled(label, tags => tags.filter(tag => tag !== label));
+        await deleteLabel(label).catch(e => console.error('[Labels] Backend delete failed:', e));
+        return changed;
+    }
+
+    private static async updateLabelled(label: string, change: (tags: string[]) => string[]): Promise<number> {
+        const articles = await db.articles.where('tags').equals(label).toArray();
+        const updated = articles.map(article => ({ ...article, tags: change(article.tags ?? []) }));
+
+        await db.articles.bulkUpdate(updated.map(a => ({ key: a.id, changes: { tags: a.tags } })));
+        await this.queueSync(updated);
+        return updated.length;
+    }
+
+    private static async queueSync(articles: Article[]): Promise<void> {
+        if (!isSupabaseConfigured()) return;
+        for (const article of articles) {
+            await SyncService.queueChange('articles', article.id, 'update', article);
+        }
+    }
+}
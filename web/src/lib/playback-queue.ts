@@ -0,0 +1,46 @@
+import { db, Article } from './db';
+import { uuidv4 } from './utils';
+
+/**
+ * "Up next" list for the audio player, stored in the playbackQueue table.
+ * The player takes the next item when the current episode ends.
+ */
+export class PlaybackQueueService {
+    /**
+     * Append articles with playable audio. Already queued articles are skipped.
+     * Returns how many were added.
+     */
+    static async enqueue(articles: Article[]): Promise<number> {
+        const playable = articles.filter(a => a.enclosureURL);
+        if (playable.length === 0) return 0;
+
+        return db.transaction('rw', [db.playbackQueue], async () => {
+            const queued = new Set((await db.playbackQueue.toArray()).map(item => item.articleID));
+            const last = await db.playbackQueue.orderBy('position').last();
+            let position = (last?.position ?? -1) + 1;
+
+            const items = playable
+                .filter(a => !queued.has(a.id))
+                .map(a => ({ id: uuidv4(), articleID: a.id, position: position++, addedAt: new Date() }));
+
+            await db.playbackQueue.bulkAdd(items);
+            return items.length;
+        });
+    }
+
+    /**
+     * Remove and return the next queued article that still exists.
+     */
+    static async shift(): Promise<Article | null> {
+        return db.transaction('rw', [db.playbackQueue, db.articles], async () => {
+            while (true) {
+                const next = await db.playbackQueue.orderBy('position').first();
+                if (!next) return null;
+
+                await db.playbackQueue.delete(next.id);
+                const article = await db.articles.get(next.articleID);
+                if (article?.enclosureURL) return article;
+            }
+        });
+    }
+}
@@ -1,4 +1,6 @@
-import { db, Article } from './db';
+import DOMPurify from 'dompurify';
+import { extractPaginatedContent, ExtractedContent } from '@feedstream/common';
+import { db, Article, FeedReaderSettings } from './db';
 import { useSettingsStore } from '@/store/settingsStore';
 
 /**
@@ -57,6 +59,25 @@ function canPrefetch(): boolean {
     return true;
 }
 
+/**
+ * Request headers asking the proxy to use a feed's user agent and cookie
+ */
+export function proxyHeaders(settings?: FeedReaderSettings): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (settings?.userAgent) headers['X-Proxy-User-Agent'] = settings.userAgent;
+    if (settings?.cookie) headers['X-Proxy-Cookie'] = settings.cookie;
+    return headers;
+}
+
+/**
+ * Fetch a page through the proxy, reporting the URL after redirects
+ */
+async function fetchPage(url: string, settings?: FeedReaderSettings): Promise<{ html: string; url: string } | null> {
+    const response = await fetch(`/api/proxy?url=${encodeURIComponent(url)}`, { headers: proxyHeaders(settings) });
+    if (!response.ok) return null;
+    return { html: await response.text(), url: response.headers.get('x-final-url') || url };
+}
+
 export class PrefetchService {
     /**
      * Queue recent unread articles for prefetching
@@ -103,15 +124,14 @@ export class PrefetchService {
         if (!article) return false;
 
         try {
-            // Fetch full article content if we only have a summary
-            if (!article.contentHTML && article.url) {
-                const fullContent = await this.fetchArticleContent(article.url);
-                if (fullContent) {
-                    await db.articles.update(articleId, {
-                        contentHTML: fullContent,
-                        contentPrefetchedAt: new Date(),
-                    });
-                }
+            // Fetch the readable page content so reader view works offline
+            const isMedia = article.mediaKind === 'youtube' || article.mediaKind === 'podcast' || article.mediaKind === 'diff';
+            if (!article.readerHTML && article.url && !isMedia) {
+                const feed = await db.feeds.get(article.feedID);
+                await this.cacheReadableContent(article, feed?.readerSettings);
+                await db.articles.update(articleId, {
+                    contentPrefetchedAt: new Date(),
+                });
             } else {
                 // Just mark as prefetched
                 await db.articles.update(articleId, {
@@ -136,7 +156,7 @@ export class PrefetchService {
         const article = await db.articles.get(articleId);
         if (!article) return;
 
-        const content = article.contentHTML || article.summary || '';
+        const content = article.readerHTML || article.contentHTML || article.summary || '';
         const imageUrls = this.extractImageUrls(content);
 
         // Add thumbnail if present
@@ -181,6 +201,57 @@ export class PrefetchService {
         }
     }
 
+    /**
+     * Fetch an article's page via the proxy and extract its main content,
+     * following next-page links of multi-page articles and applying the
+     * feed's reader settings. The content is not sanitized; callers sanitize
+     * for their context.
+     */
+    static async fetchReadableContent(url: string, settings?: FeedReaderSettings): Promise<ExtractedContent | null> {
+        try {
+            const fetchWithSettings = (pageUrl: string) => fetchPage(pageUrl, settings);
+            const first = await fetchWithSettings(url);
+            if (!first) return null;
+            return await extractPaginatedContent(first.html, first.url, fetchWithSettings, {
+                contentSelector: settings?.contentSelector,
+                removeSelector: settings?.removeSelector,
+                stripImages: settings?.stripImages,
+            });
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Fetch, sanitize and store an article's reader content. Returns whether
+     * anything could be extracted.
+     */
+    static async cacheReadableContent(article: Article, settings?: FeedReaderSettings): Promise<boolean> {
+        if (!article.url) return false;
+        const extracted = await this.fetchReadableContent(article.url, settings);
+        if (!extracted) return false;
+
+        // The extractor already limits iframes to video hosts
+        const readerHTML = DOMPurify.sanitize(extracted.content, {
+            ADD_TAGS: ['iframe'],
+            ADD_ATTR: ['allow', 'allowfullscreen', 'frameborder'],
+        });
+        await this.saveReadableContent(article, extracted, readerHTML);
+        return true;
+    }
+
+    /**
+     * Cache sanitized reader content, filling in the author and image when
+     * the feed didn't provide them.
+     */
+    static async saveReadableContent(article: Article, extracted: ExtractedContent, readerHTML: string): Promise<void> {
+        await db.articles.update(article.id, {
+            readerHTML,
+            ...(!article.author && extracted.byline ? { author: extracted.byline } : {}),
+            ...(!article.thumbnailPath && extracted.leadImage ? { thumbnailPath: extracted.leadImage } : {}),
+        });
+    }
+
     /**
      * Check if an article is prefetched
      */
@@ -263,33 +334,6 @@ export class PrefetchService {
         }
     }
 
-    /**
-     * Fetch full article content via proxy
-     */
-    private static async fetchArticleContent(url: string): Promise<string | null> {
-        try {
-            const response = await fetch(`/api/proxy?url=${encodeURIComponent(url)}`);
-            if (!response.ok) return null;
-
-            const html = await response.text();
-
-            // Basic content extraction (could be enhanced with Readability.js)
-            return this.extractMainContent(html);
-        } catch {
-            return null;
-        }
-    }
-
-    /**
-     * Extract main content from HTML (simple implementation)
-     */
-    private static extractMainContent(html: string): string {
-        // For now, just return the HTML as-is
-        // A more sophisticated implementation would use Readability.js
-        // or similar to extract just the article content
-        return html;
-    }
-
     /**
      * Extract image URLs from HTML content
      */
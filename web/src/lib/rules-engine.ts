@@ -1,68 +1,470 @@
-import { db, Article, AutomationRule } from './db';
+import Dexie from 'dexie';
+import { flattenRuleConditions, matchesRuleConditions, normalizeLabel, validateRuleConditions } from '@feedstream/common';
+import { db, Article, AutomationRule, RuleAction } from './db';
+import { PushService } from './push-service';
+import { PrefetchService } from './prefetch-service';
+import { PlaybackQueueService } from './playback-queue';
+import { SyncService } from './sync-service';
+import { isSupabaseConfigured } from './supabase-client';
+import { SearchIndex } from './search-index';
+
+// Everything a rule may look at beyond the article itself
+export interface RuleContext {
+    folderByFeed: Map<string, string | undefined>;
+    now: number;
+}
+
+export { TEXT_OPERATORS, NUMERIC_OPERATORS, RULE_FIELD_OPERATORS } from '@feedstream/common';
+
+const MAX_MATCHES_PER_RULE = 100;
+const MAX_NOTIFICATIONS_PER_RUN = 3; // Per rule; more matches are summarised
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const CHUNK_SIZE = 500;
+const PREVIEW_LIMIT = 100;
+
+export interface RulePreview {
+    total: number;
+    articles: Article[]; // Newest matches, up to the preview limit
+}
+
+// What applyToExisting() changed, so it can be undone
+export interface RuleApplication {
+    ruleID: string;
+    changed: Pick<Article, 'id' | 'isRead' | 'isBookmarked' | 'tags'>[]; // Values before the rule ran
+    deleted: Article[];
+    logged: string[]; // Article IDs newly added to the match log
+}
+
+interface RuleMatchCandidate {
+    rule: AutomationRule;
+    article: Article;
+}
+
+function addTag(tags: string[] | undefined, tag: string): string[] {
+    const normalized = normalizeLabel(tag);
+    if (!normalized) return tags ?? [];
+    return tags?.includes(normalized) ? tags : [...(tags ?? []), normalized];
+}
+
+function byNewest(a: Article, b: Article): number {
+    return (b.publishedAt ? new Date(b.publishedAt).getTime() : 0) - (a.publishedAt ? new Date(a.publishedAt).getTime() : 0);
+}
+
+export function describeAction(action: RuleAction): string {
+    switch (action.type) {
+        case 'tag':
+            return `tag:${normalizeLabel(action.tag)}`;
+        case 'webhook':
+            return `webhook:${action.url}`;
+        case 'move_to_folder':
+            return `move_to_folder:${action.folderId}`;
+        default:
+            return action.type;
+    }
+}
 
 export class RulesEngine {
     /**
-     * Applies active rules to a list of articles.
-     * Returns the modified list (if delete action) and performs side effects (DB updates).
-     * Note: This runs BEFORE articles are inserted into the main list or immediately after.
-     * Better approach: Run on the objects *before* bulkPut.
+     * Applies the article-changing actions (read, star, tag, delete) of active
+     * rules. Returns the articles that survive; the caller stores them and then
+     * passes the new ones to runActions() for everything else.
      */
     static async applyRules(articles: Article[]): Promise<Article[]> {
         const rules = await db.rules.filter(r => r.isActive).toArray();
         if (rules.length === 0) return articles;
 
+        const context = await this.buildContext();
         const resultArticles: Article[] = [];
-        const discardedIds = new Set<string>();
+        const discarded: RuleMatchCandidate[] = [];
 
         for (const article of articles) {
-            let shouldDelete = false;
-            let modifiedArticle = { ...article };
+            let deletedBy: AutomationRule | null = null;
+            const modifiedArticle = { ...article };
 
             for (const rule of rules) {
-                if (this.matches(rule, modifiedArticle)) {
+                if (this.matches(rule, modifiedArticle, context)) {
                     console.log(`[Rules] Article "${article.title}" matched rule "${rule.name}"`);
-                    
-                    switch (rule.action) {
-                        case 'mark_read':
-                            modifiedArticle.isRead = 1;
-                            break;
-                        case 'star':
-                            modifiedArticle.isBookmarked = 1;
-                            break;
-                        case 'delete':
-                            shouldDelete = true;
-                            break;
-                        // tag_important could set a flag or put in a folder, sticking to simple boolean flags for now
+
+                    if (this.applyArticleActions(rule, modifiedArticle)) {
+                        deletedBy = deletedBy ?? rule;
                     }
                 }
             }
 
-            if (!shouldDelete) {
+            if (!deletedBy) {
                 resultArticles.push(modifiedArticle);
             } else {
-                discardedIds.add(article.id);
+                discarded.push({ rule: deletedBy, article });
             }
         }
 
+        // Deleted articles never reach runActions, so log them here
+        if (discarded.length > 0) {
+            await this.recordMatches(discarded);
+        }
+
         return resultArticles;
     }
 
-    private static matches(rule: AutomationRule, article: Article): boolean {
-        const value = rule.conditionValue.toLowerCase();
+    /**
+     * Dry run of one rule over the stored articles: how many it would affect and
+     * the newest few of them. Changes nothing.
+     */
+    static async preview(rule: AutomationRule, limit = PREVIEW_LIMIT): Promise<RulePreview> {
+        const context = await this.buildContext();
+        const matched: Article[] = [];
+        let total = 0;
+
+        await this.forEachChunk(async chunk => {
+            for (const article of chunk) {
+                if (this.matches(rule, article, context)) {
+                    total++;
+                    matched.push(article);
+                }
+            }
+            // Only keep the newest `limit` between chunks
+            if (matched.length > limit * 2) {
+                matched.sort(byNewest).splice(limit);
+            }
+        });
+
+        return { total, articles: matched.sort(byNewest).slice(0, limit) };
+    }
+
+    /**
+     * Runs a rule's article-changing actions (read, star, tag, delete) over the
+     * stored articles in chunks. Side-effect actions are skipped so old articles
+     * don't set off notifications or webhooks. The result can be passed to
+     * undo().
+     */
+    static async applyToExisting(
+        rule: AutomationRule,
+        onProgress?: (processed: number, total: number) => void
+    ): Promise<RuleApplication> {
+        const context = await this.buildContext();
+        const application: RuleApplication = { ruleID: rule.id, changed: [], deleted: [], logged: [] };
+
+        await this.forEachChunk(async chunk => {
+            const changed: Article[] = [];
+            const deleted: Article[] = [];
+            const matched: RuleMatchCandidate[] = [];
+
+            for (const article of chunk) {
+                if (!this.matches(rule, article, context)) continue;
+                matched.push({ rule, article });
+
+                const modified = { ...article };
+                if (this.applyArticleActions(rule, modified)) {
+                    deleted.push(article);
+                } else if (modified.isRead !== article.isRead || modified.isBookmarked !== article.isBookmarked || modified.tags !== article.tags) {
+                    changed.push(modified);
+                    application.changed.push({ id: article.id, isRead: article.isRead, isBookmarked: article.isBookmarked, tags: article.tags });
+                }
+            }
+
+            await db.transaction('rw', [db.articles, db.searchTerms, db.searchDocuments], async () => {
+                await db.articles.bulkPut(changed);
+                await db.articles.bulkDelete(deleted.map(a => a.id));
+                await SearchIndex.removeArticles(deleted.map(a => a.id));
+            });
+            application.deleted.push(...deleted);
+
+            const fresh = await this.recordMatches(matched);
+            application.logged.push(...fresh.map(c => c.article.id));
+        }, onProgress);
+
+        return application;
+    }
+
+    /**
+     * Reverts applyToExisting(): restores the previous read, star and tag state
+     * and puts deleted articles back.
+     */
+    static async undo(application: RuleApplication): Promise<void> {
+        for (let i = 0; i < application.changed.length; i += CHUNK_SIZE) {
+            const previous = application.changed.slice(i, i + CHUNK_SIZE);
+            await db.articles.bulkUpdate(previous.map(({ id, ...changes }) => ({ key: id, changes })));
+        }
+
+        for (let i = 0; i < application.deleted.length; i += CHUNK_SIZE) {
+            const articles = application.deleted.slice(i, i + CHUNK_SIZE);
+            await db.transaction('rw', [db.articles, db.searchTerms, db.searchDocuments], async () => {
+                await db.articles.bulkPut(articles);
+                await SearchIndex.indexArticles(articles);
+            });
+        }
+
+        await db.ruleMatches.bulkDelete(application.logged.map(id => [application.ruleID, id] as [string, string]));
+    }
+
+    /**
+     * Runs the side-effect actions (notify, prefetch, playback queue, webhook,
+     * move to folder) for freshly stored articles and logs every match. Each rule acts on an
+     * article at most once, so calling this again for the same articles is
+     * harmless.
+     */
+    static async runActions(articles: Article[]): Promise<void> {
+        if (articles.length === 0) return;
+
+        const rules = await db.rules.filter(r => r.isActive).toArray();
+        if (rules.length === 0) return;
+
+        const context = await this.buildContext();
+        const candidates: RuleMatchCandidate[] = [];
+        for (const article of articles) {
+            for (const rule of rules) {
+                if (this.matches(rule, article, context)) {
+                    candidates.push({ rule, article });
+                }
+            }
+        }
+
+        const fresh = await this.recordMatches(candidates);
+
+        const byRule = new Map<AutomationRule, Article[]>();
+        for (const { rule, article } of fresh) {
+            byRule.set(rule, [...(byRule.get(rule) ?? []), article]);
+        }
+
+        for (const [rule, matched] of byRule) {
+            for (const action of rule.actions) {
+                try {
+                    await this.runAction(rule, action, matched);
+                } catch (error) {
+                    console.error(`[Rules] Action ${action.type} of rule "${rule.name}" failed:`, error);
+                    const message = `${action.type}: ${error instanceof Error ? error.message : String(error)}`;
+                    await db.ruleMatches
+                        .where('[ruleID+articleID]')
+                        .anyOf(matched.map(a => [rule.id, a.id]))
+                        .modify(entry => { entry.error = entry.error ?? message; });
+                }
+            }
+        }
+    }
+
+    /**
+     * Apply the rule's read/star/tag actions to the article in place. Returns
+     * true when the rule deletes it.
+     */
+    private static applyArticleActions(rule: AutomationRule, article: Article): boolean {
+        let deleted = false;
+        for (const action of rule.actions) {
+            switch (action.type) {
+                case 'mark_read':
+                    article.isRead = 1;
+                    break;
+                case 'star':
+                    article.isBookmarked = 1;
+                    break;
+                case 'tag':
+                    article.tags = addTag(article.tags, action.tag);
+                    break;
+                case 'delete':
+                    deleted = true;
+                    break;
+            }
+        }
+        return deleted;
+    }
+
+    // Walks the article table in primary key order, CHUNK_SIZE at a time
+    private static async forEachChunk(
+        fn: (chunk: Article[]) => Promise<void>,
+        onProgress?: (processed: number, total: number) => void
+    ): Promise<void> {
+        const total = await db.articles.count();
+        let processed = 0;
+        let lastId: string | null = null;
+
+        while (true) {
+            const chunk: Article[] = await (lastId === null
+                ? db.articles.orderBy(':id')
+                : db.articles.where(':id').above(lastId)
+            ).limit(CHUNK_SIZE).toArray();
+            if (chunk.length === 0) break;
+
+            await fn(chunk);
+            processed += chunk.length;
+            lastId = chunk[chunk.length - 1].id;
+            onProgress?.(Math.min(processed, total), total);
+        }
+    }
+
+    static async clearMatches(ruleId: string): Promise<void> {
+        await db.ruleMatches.where('ruleID').equals(ruleId).delete();
+    }
+
+    private static async runAction(rule: AutomationRule, action: RuleAction, articles: Article[]): Promise<void> {
+        switch (action.type) {
+            case 'tag':
+                // Tags ride along with the synced article state
+                if (isSupabaseConfigured()) {
+                    for (const article of articles) {
+                        await SyncService.queueChange('articles', article.id, 'update', article);
+                    }
+                }
+                break;
+            case 'notify':
+                await this.notify(rule, articles);
+                break;
+            case 'prefetch':
+                for (const article of articles) {
+                    await PrefetchService.queueArticle(article.id);
+                }
+                break;
+            case 'queue_playback':
+                await PlaybackQueueService.enqueue(articles);
+                break;
+            case 'webhook':
+                await this.postWebhook(action.url, rule, articles);
+                break;
+            case 'move_to_folder':
+                await this.moveFeeds(action.folderId, articles);
+                break;
+        }
+    }
+
+    // Moves the feeds of the matched articles, once per feed
+    private static async moveFeeds(folderId: string, articles: Article[]): Promise<void> {
+        if (!await db.folders.get(folderId)) throw new Error('Folder no longer exists');
+
+        for (const feedId of new Set(articles.map(a => a.feedID))) {
+            const feed = await db.feeds.get(feedId);
+            if (!feed || feed.folderID === folderId) continue;
+
+            await db.feeds.update(feedId, { folderID: folderId });
+            if (isSupabaseConfigured()) {
+                await SyncService.queueChange('feeds', feedId, 'update', { ...feed, folderID: folderId });
+            }
+        }
+    }
+
+    private static async notify(rule: AutomationRule, articles: Article[]): Promise<void> {
+        // A single summary instead of a burst of notifications
+        if (articles.length > MAX_NOTIFICATIONS_PER_RUN) {
+            await PushService.showNotification(rule.name, {
+                body: `${articles.length} new articles matched`,
+                tag: `rule-${rule.id}`,
+                data: { url: '/' },
+            });
+            return;
+        }
+
+        for (const article of articles) {
+            await PushService.showNotification(article.title, {
+                body: rule.name,
+                tag: `rule-${rule.id}-${article.id}`,
+                data: { url: `/article/${article.id}`, articleId: article.id },
+            });
+        }
+    }
+
+    private static async postWebhook(url: string, rule: AutomationRule, articles: Article[]): Promise<void> {
+        const body = JSON.stringify({
+            rule: { id: rule.id, name: rule.name },
+            articles: articles.map(a => ({
+                id: a.id,
+                feedId: a.feedID,
+                title: a.title,
+                url: a.url,
+                author: a.author,
+                publishedAt: a.publishedAt,
+                tags: a.tags ?? [],
+            })),
+        });
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+                signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+            });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        } catch (error) {
+            if (!(error instanceof TypeError)) throw error;
+            // Most webhook endpoints don't answer CORS preflights; a simple
+            // request still gets through, we just can't read the response
+            await fetch(url, { method: 'POST', mode: 'no-cors', headers: { 'Content-Type': 'text/plain' }, body });
+        }
+    }
+
+    /**
+     * Log matches that aren't logged yet and return those. Keeps the newest
+     * MAX_MATCHES_PER_RULE entries per rule.
+     */
+    private static async recordMatches(candidates: RuleMatchCandidate[]): Promise<RuleMatchCandidate[]> {
+        if (candidates.length === 0) return [];
+
+        return db.transaction('rw', [db.ruleMatches], async () => {
+            const logged = await db.ruleMatches.bulkGet(candidates.map(c => [c.rule.id, c.article.id] as [string, string]));
+            const fresh = candidates.filter((_, i) => !logged[i]);
+            if (fresh.length === 0) return [];
+
+            const now = new Date();
+            await db.ruleMatches.bulkPut(fresh.map(({ rule, article }) => ({
+                ruleID: rule.id,
+                articleID: article.id,
+                articleTitle: article.title,
+                feedID: article.feedID,
+                actions: rule.actions.map(describeAction),
+                matchedAt: now,
+            })));
+
+            for (const ruleId of new Set(fresh.map(c => c.rule.id))) {
+                const overflow = await db.ruleMatches
+                    .where('[ruleID+matchedAt]')
+                    .between([ruleId, Dexie.minKey], [ruleId, Dexie.maxKey])
+                    .reverse()
+                    .offset(MAX_MATCHES_PER_RULE)
+                    .primaryKeys();
+                await db.ruleMatches.bulkDelete(overflow);
+            }
+
+            return fresh;
+        });
+    }
+
+    static async buildContext(): Promise<RuleContext> {
+        const feeds = await db.feeds.toArray();
+        return {
+            folderByFeed: new Map(feeds.map(f => [f.id, f.folderID])),
+            now: Date.now(),
+        };
+    }
+
+    static matches(rule: AutomationRule, article: Article, context: RuleContext): boolean {
+        if (rule.scope?.type === 'feed' && article.feedID !== rule.scope.id) return false;
+        if (rule.scope?.type === 'folder' && context.folderByFeed.get(article.feedID) !== rule.scope.id) return false;
+
+        return matchesRuleConditions(rule.conditions, {
+            title: article.title,
+            author: article.author,
+            summary: article.summary,
+            content: article.contentHTML,
+            url: article.url,
+            mediaKind: article.mediaKind,
+            publishedAt: article.publishedAt,
+        }, context.now);
+    }
+
+    /**
+     * Problem with a rule that would stop it from working, or null if it's fine.
+     */
+    static validate(rule: Pick<AutomationRule, 'name' | 'conditions' | 'scope' | 'actions'>): string | null {
+        if (!rule.name.trim()) return 'Give the rule a name';
+        if (rule.actions.length === 0) return 'Add at least one action';
+
+        for (const action of rule.actions) {
+            if (action.type === 'tag' && !normalizeLabel(action.tag)) return 'Tag actions need a tag name';
+            if (action.type === 'webhook' && !/^https?:\/\/\S+$/.test(action.url.trim())) return 'Webhook actions need an http(s) URL';
+            if (action.type === 'move_to_folder' && !action.folderId) return 'Move actions need a folder';
+        }
 
-        switch (rule.conditionType) {
-            case 'title_contains':
-                return (article.title || '').toLowerCase().includes(value);
-            case 'content_contains':
-                // Check summary too
-                return (article.contentHTML || '').toLowerCase().includes(value) || 
-                       (article.summary || '').toLowerCase().includes(value);
-            case 'author_contains':
-                return (article.author || '').toLowerCase().includes(value);
-            case 'feed_is':
-                return article.feedID === rule.conditionValue;
-            default:
-                return false;
+        if (flattenRuleConditions(rule.conditions).length === 0 && !rule.scope) {
+            return 'Add at least one condition or limit the rule to a feed or folder';
         }
+        return validateRuleConditions(rule.conditions);
     }
 }
@@ -0,0 +1,242 @@
+import { db, Article, SearchTerm, SearchDocument } from './db';
+import { normalizeLabel } from '@feedstream/common';
+
+/**
+ * Offline full-text search for FeedStream
+ *
+ * Articles are tokenized into the `searchTerms` table (one row per term per
+ * article) when FeedService.mergeArticles stores them, so a query only reads the
+ * index rows for its own terms instead of scanning every article.
+ *
+ * - Every query term matches as a prefix ("reac" finds "react", "reactive")
+ * - All query terms must match (AND)
+ * - Results are ranked by field-weighted term frequency times inverse document
+ *   frequency, with exact term matches scoring above prefix matches
+ */
+
+// Title matches matter most, body text least
+const FIELD_WEIGHTS = {
+    title: 4,
+    author: 2,
+    summary: 2,
+    content: 1,
+} as const;
+
+const MAX_CONTENT_CHARS = 20000; // Long articles are indexed by their opening
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+const PREFIX_MATCH_FACTOR = 0.6;
+const BACKFILL_BATCH_SIZE = 200;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+    'he', 'her', 'his', 'if', 'in', 'into', 'is', 'it', 'its', 'no', 'not', 'of', 'on',
+    'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+    'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will',
+    'with', 'you', 'your',
+]);
+
+const ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'",
+};
+
+export function stripHTML(html: string): string {
+    return html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&(amp|lt|gt|quot|apos|nbsp|#39);/g, (_, name: string) => ENTITIES[name]);
+}
+
+function splitWords(text: string): string[] {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '') // Fold accents so "café" matches "cafe"
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(t => t.length >= MIN_TOKEN_LENGTH && t.length <= MAX_TOKEN_LENGTH);
+}
+
+/**
+ * Split text into lowercased, accent-folded index terms without stopwords.
+ */
+export function tokenize(text: string): string[] {
+    return splitWords(text).filter(t => !STOPWORDS.has(t));
+}
+
+/**
+ * Terms of a query. A trailing stopword is kept since the user may still be
+ * typing a longer word ("the" -> "theory"); it only ever matches as a prefix.
+ */
+export function tokenizeQuery(query: string): string[] {
+    const words = splitWords(query);
+    const terms = words.filter((t, i) => !STOPWORDS.has(t) || i === words.length - 1);
+    return Array.from(new Set(terms));
+}
+
+/**
+ * Weighted term frequencies for one article. Repeats within a field add
+ * logarithmically so long articles can't drown out title matches.
+ */
+export function indexTerms(article: Pick<Article, 'title' | 'author' | 'summary' | 'contentHTML'>): Map<string, number> {
+    const weights = new Map<string, number>();
+
+    const addField = (text: string | undefined, fieldWeight: number) => {
+        if (!text) return;
+        const counts = new Map<string, number>();
+        for (const term of tokenize(text)) {
+            counts.set(term, (counts.get(term) || 0) + 1);
+        }
+        for (const [term, count] of counts) {
+            weights.set(term, (weights.get(term) || 0) + fieldWeight * (1 + Math.log(count)));
+        }
+    };
+
+    addField(article.title, FIELD_WEIGHTS.title);
+    addField(article.author, FIELD_WEIGHTS.author);
+    addField(article.summary ? stripHTML(article.summary) : undefined, FIELD_WEIGHTS.summary);
+    addField(article.contentHTML ? stripHTML(article.contentHTML.slice(0, MAX_CONTENT_CHARS)) : undefined, FIELD_WEIGHTS.content);
+
+    return weights;
+}
+
+export class SearchIndex {
+    private static backfill: Promise<void> | null = null;
+
+    /**
+     * (Re)index articles. Joins the caller's transaction when it already covers
+     * the search tables.
+     */
+    static async indexArticles(articles: Article[]): Promise<void> {
+        if (articles.length === 0) return;
+
+        await db.transaction('rw', [db.searchTerms, db.searchDocuments], async () => {
+            const ids = articles.map(a => a.id);
+            await db.searchTerms.where('articleID').anyOf(ids).delete();
+
+            const terms: SearchTerm[] = [];
+            const documents: SearchDocument[] = [];
+            const now = new Date();
+
+            for (const article of articles) {
+                for (const [term, weight] of indexTerms(article)) {
+                    terms.push({ term, articleID: article.id, weight });
+                }
+                documents.push({ articleID: article.id, feedID: article.feedID, indexedAt: now });
+            }
+
+            await db.searchTerms.bulkPut(terms);
+            await db.searchDocuments.bulkPut(documents);
+        });
+    }
+
+    static async removeArticles(articleIds: string[]): Promise<void> {
+        if (articleIds.length === 0) return;
+
+        await db.transaction('rw', [db.searchTerms, db.searchDocuments], async () => {
+            await db.searchTerms.where('articleID').anyOf(articleIds).delete();
+            await db.searchDocuments.bulkDelete(articleIds);
+        });
+    }
+
+    static async removeFeed(feedId: string): Promise<void> {
+        const articleIds = await db.searchDocuments.where('feedID').equals(feedId).primaryKeys();
+        await this.removeArticles(articleIds);
+    }
+
+    /**
+     * Index articles stored before the search index existed. Runs once per
+     * session, in batches, and is awaited by the first search.
+     */
+    static ensureIndexed(): Promise<void> {
+        if (!this.backfill) {
+            this.backfill = this.indexMissing().catch(error => {
+                console.error('[SearchIndex] Backfill failed:', error);
+                this.backfill = null;
+            });
+        }
+        return this.backfill;
+    }
+
+    private static async indexMissing(): Promise<void> {
+        const indexed = new Set(await db.searchDocuments.toCollection().primaryKeys());
+        const missing = (await db.articles.toCollection().primaryKeys()).filter(id => !indexed.has(id));
+        if (missing.length === 0) return;
+
+        console.log(`[SearchIndex] Indexing ${missing.length} articles`);
+        for (let i = 0; i < missing.length; i += BACKFILL_BATCH_SIZE) {
+            const batch = await db.articles.bulkGet(missing.slice(i, i + BACKFILL_BATCH_SIZE));
+            await this.indexArticles(batch.filter((a): a is Article => !!a));
+        }
+    }
+
+    /**
+     * Relevance score per matching article ID. Read-only, so it is safe inside
+     * useLiveQuery; unlike search() it neither backfills nor tidies the index.
+     */
+    static async score(query: string): Promise<Map<string, number>> {
+        const tokens = tokenizeQuery(query);
+        if (tokens.length === 0) return new Map();
+
+        const documentCount = Math.max(1, await db.searchDocuments.count());
+        let scores: Map<string, number> | null = null;
+
+        for (const token of tokens) {
+            const entries = await db.searchTerms.where('term').startsWith(token).toArray();
+
+            // Best match per article for this token
+            const matches = new Map<string, number>();
+            for (const entry of entries) {
+                const weight = entry.term === token ? entry.weight : entry.weight * PREFIX_MATCH_FACTOR;
+                if (weight > (matches.get(entry.articleID) || 0)) {
+                    matches.set(entry.articleID, weight);
+                }
+            }
+
+            const idf = Math.log(1 + documentCount / Math.max(1, matches.size));
+            const next = new Map<string, number>();
+            for (const [articleId, weight] of matches) {
+                if (scores && !scores.has(articleId)) continue;
+                next.set(articleId, (scores?.get(articleId) || 0) + weight * idf);
+            }
+
+            scores = next;
+            if (scores.size === 0) break;
+        }
+
+        return scores ?? new Map();
+    }
+
+    /**
+     * Ranked search over locally stored articles, optionally limited to one feed
+     * or to articles with a label.
+     */
+    static async search(query: string, options: { feedId?: string; label?: string; limit?: number } = {}): Promise<Article[]> {
+        const limit = options.limit ?? 50;
+        await this.ensureIndexed();
+
+        const scores = await this.score(query);
+        if (scores.size === 0) return [];
+
+        let candidates = Array.from(scores.keys());
+        if (options.feedId) {
+            const documents = await db.searchDocuments.bulkGet(candidates);
+            candidates = candidates.filter((_, i) => documents[i]?.feedID === options.feedId);
+        }
+
+        const articles = await db.articles.bulkGet(candidates);
+        const orphans = candidates.filter((_, i) => !articles[i]);
+        if (orphans.length > 0) {
+            // Deleted without going through removeArticles; tidy up behind the scenes
+            void this.removeArticles(orphans).catch(console.error);
+        }
+
+        const label = options.label ? normalizeLabel(options.label) : undefined;
+        return articles
+            .filter((a): a is Article => !!a && (!label || !!a.tags?.includes(label)))
+            .sort((a, b) =>
+                (scores.get(b.id)! - scores.get(a.id)!) ||
+                ((b.publishedAt?.getTime() || 0) - (a.publishedAt?.getTime() || 0))
+            )
+            .slice(0, limit);
+    }
+}
@@ -0,0 +1,195 @@
+import { db, Article, SmartFolder, SmartFolderCriteria } from './db';
+import { SearchIndex } from './search-index';
+import { SyncService } from './sync-service';
+import { isSupabaseConfigured } from './supabase-client';
+import { uuidv4 } from './utils';
+
+/**
+ * Smart Folders for FeedStream
+ *
+ * A smart folder is a saved query over local articles. Criteria are evaluated
+ * on demand inside useLiveQuery, so counts and lists stay live (and the query
+ * paths must stay read-only). The definitions sync to Supabase alongside
+ * regular folders.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KEYWORD_CANDIDATE_LIMIT = 2000; // Search hits considered before the other criteria apply
+const DEFAULT_ARTICLE_LIMIT = 500;
+
+export const SMART_FOLDER_MEDIA_KINDS = [
+    { value: 'none', label: 'Articles' },
+    { value: 'youtube', label: 'YouTube' },
+    { value: 'podcast', label: 'Podcasts' },
+    { value: 'video', label: 'Video' },
+] as const;
+
+/**
+ * Check every criterion except the keyword, which is resolved through the
+ * search index. `sourceFeedIDs` is the expanded feed/folder selection, or
+ * null when the folder isn't limited to particular sources.
+ */
+export function matchesSmartFolder(
+    article: Article,
+    criteria: SmartFolderCriteria,
+    sourceFeedIDs: Set<string> | null,
+    now = Date.now()
+): boolean {
+    if (sourceFeedIDs && !sourceFeedIDs.has(article.feedID)) return false;
+    if (criteria.readState === 'unread' && article.isRead !== 0) return false;
+    if (criteria.readState === 'read' && article.isRead !== 1) return false;
+    if (criteria.bookmarkedOnly && article.isBookmarked !== 1) return false;
+    if (criteria.mediaKinds?.length && !criteria.mediaKinds.includes(article.mediaKind || 'none')) return false;
+
+    if (criteria.author) {
+        const author = article.author?.toLowerCase() || '';
+        if (!author.includes(criteria.author.toLowerCase())) return false;
+    }
+
+    if (criteria.maxAgeDays) {
+        const published = article.publishedAt ? new Date(article.publishedAt).getTime() : 0;
+        if (now - published > criteria.maxAgeDays * DAY_MS) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Drop empty values so stored criteria only contain what the user set.
+ */
+export function normalizeCriteria(criteria: SmartFolderCriteria): SmartFolderCriteria {
+    const result: SmartFolderCriteria = {};
+    if (criteria.feedIDs?.length) result.feedIDs = [...criteria.feedIDs];
+    if (criteria.folderIDs?.length) result.folderIDs = [...criteria.folderIDs];
+    if (criteria.keyword?.trim()) result.keyword = criteria.keyword.trim();
+    if (criteria.author?.trim()) result.author = criteria.author.trim();
+    if (criteria.mediaKinds?.length) result.mediaKinds = [...criteria.mediaKinds];
+    if (criteria.readState) result.readState = criteria.readState;
+    if (criteria.bookmarkedOnly) result.bookmarkedOnly = true;
+    if (criteria.maxAgeDays && criteria.maxAgeDays > 0) result.maxAgeDays = criteria.maxAgeDays;
+    return result;
+}
+
+export class SmartFolderService {
+    static async list(): Promise<SmartFolder[]> {
+        return db.smartFolders.orderBy('position').toArray();
+    }
+
+    static async create(name: string, criteria: SmartFolderCriteria): Promise<SmartFolder> {
+        const last = await db.smartFolders.orderBy('position').last();
+        const now = new Date();
+        const folder: SmartFolder = {
+            id: uuidv4(),
+            name: name.trim(),
+            criteria: normalizeCriteria(criteria),
+            position: (last?.position ?? -1) + 1,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await db.smartFolders.add(folder);
+        await this.queueSync(folder, 'insert');
+        return folder;
+    }
+
+    static async update(id: string, changes: { name?: string; criteria?: SmartFolderCriteria }): Promise<void> {
+        const existing = await db.smartFolders.get(id);
+        if (!existing) return;
+
+        const folder: SmartFolder = {
+            ...existing,
+            name: changes.name?.trim() || existing.name,
+            criteria: changes.criteria ? normalizeCriteria(changes.criteria) : existing.criteria,
+            updatedAt: new Date(),
+        };
+
+        await db.smartFolders.put(folder);
+        await this.queueSync(folder, 'update');
+    }
+
+    static async delete(id: string): Promise<void> {
+        const existing = await db.smartFolders.get(id);
+        if (!existing) return;
+
+        await db.smartFolders.delete(id);
+        await this.queueSync(existing, 'delete');
+    }
+
+    /**
+     * Articles matching the folder, newest first.
+     */
+    static async getArticles(criteria: SmartFolderCriteria, limit = DEFAULT_ARTICLE_LIMIT): Promise<Article[]> {
+        const articles = await this.query(criteria);
+        return articles
+            .sort((a, b) => (b.publishedAt ? new Date(b.publishedAt).getTime() : 0) - (a.publishedAt ? new Date(a.publishedAt).getTime() : 0))
+            .slice(0, limit);
+    }
+
+    static async countUnread(criteria: SmartFolderCriteria): Promise<number> {
+        if (criteria.readState === 'read') return 0;
+
+        const unreadCriteria: SmartFolderCriteria = { ...criteria, readState: 'unread' };
+        if (unreadCriteria.keyword) {
+            return (await this.query(unreadCriteria)).length;
+        }
+
+        const sources = await this.resolveSources(unreadCriteria);
+        return this.collectionFor(unreadCriteria, sources)
+            .filter(a => matchesSmartFolder(a, unreadCriteria, sources))
+            .count();
+    }
+
+    private static async query(criteria: SmartFolderCriteria): Promise<Article[]> {
+        const sources = await this.resolveSources(criteria);
+        const now = Date.now();
+
+        if (criteria.keyword) {
+            const ranked = Array.from((await SearchIndex.score(criteria.keyword)).entries())
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, KEYWORD_CANDIDATE_LIMIT)
+                .map(([id]) => id);
+            const hits = await db.articles.bulkGet(ranked);
+            return hits.filter((a): a is Article => !!a && matchesSmartFolder(a, criteria, sources, now));
+        }
+
+        return this.collectionFor(criteria, sources)
+            .filter(a => matchesSmartFolder(a, criteria, sources, now))
+            .toArray();
+    }
+
+    // Start from the most selective index available; the filter re-checks everything
+    private static collectionFor(criteria: SmartFolderCriteria, sources: Set<string> | null) {
+        if (sources) {
+            return db.articles.where('feedID').anyOf(Array.from(sources));
+        }
+        if (criteria.bookmarkedOnly) {
+            return db.articles.where('isBookmarked').equals(1);
+        }
+        if (criteria.maxAgeDays) {
+            return db.articles.where('publishedAt').above(new Date(Date.now() - criteria.maxAgeDays * DAY_MS));
+        }
+        if (criteria.readState === 'unread') {
+            return db.articles.where('isRead').equals(0);
+        }
+        if (criteria.mediaKinds?.length) {
+            return db.articles.where('mediaKind').anyOf(criteria.mediaKinds);
+        }
+        return db.articles.toCollection();
+    }
+
+    private static async resolveSources(criteria: SmartFolderCriteria): Promise<Set<string> | null> {
+        if (!criteria.feedIDs?.length && !criteria.folderIDs?.length) return null;
+
+        const feedIDs = new Set(criteria.feedIDs ?? []);
+        if (criteria.folderIDs?.length) {
+            const folderFeeds = await db.feeds.where('folderID').anyOf(criteria.folderIDs).primaryKeys();
+            folderFeeds.forEach(id => feedIDs.add(id));
+        }
+        return feedIDs;
+    }
+
+    private static async queueSync(folder: SmartFolder, operation: 'insert' | 'update' | 'delete'): Promise<void> {
+        if (!isSupabaseConfigured()) return;
+        await SyncService.queueChange('smartFolders', folder.id, operation, folder);
+    }
+}
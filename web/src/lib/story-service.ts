@@ -0,0 +1,180 @@
+import Dexie from 'dexie';
+import { db, Article } from './db';
+import { indexTerms } from './search-index';
+
+/**
+ * Topic clusters ("stories") for the unread river, computed locally.
+ *
+ * Each article becomes a TF-IDF vector of its search-index terms, trimmed to
+ * its strongest terms. Articles are taken newest first and join the story
+ * whose centroid they're most similar to, or start a new one. Nothing leaves
+ * the device, so stories work offline.
+ */
+
+// Cosine similarity needed to join a story
+const SIMILARITY_THRESHOLD = 0.3;
+
+// Strongest terms kept per article; the long tail is mostly noise
+const MAX_VECTOR_TERMS = 40;
+
+// Newest unread articles considered at once
+const MAX_STORY_ARTICLES = 500;
+
+const MIN_STORY_SIZE = 2;
+const LABEL_TERMS = 3;
+
+export interface Story {
+    id: string; // The representative article's
+    label: string; // e.g. "Apple · iPhone · Launch"
+    representative: Article; // The article closest to the story's centre
+    articles: Article[]; // Newest first, including the representative
+}
+
+export interface StoryGroups {
+    stories: Story[]; // Largest first
+    unclustered: Article[]; // Articles no other article is about
+}
+
+type Vector = Map<string, number>;
+
+function dot(a: Vector, b: Vector): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let sum = 0;
+    for (const [term, weight] of small) {
+        const other = large.get(term);
+        if (other) sum += weight * other;
+    }
+    return sum;
+}
+
+function norm(vector: Vector): number {
+    let sum = 0;
+    for (const weight of vector.values()) sum += weight * weight;
+    return Math.sqrt(sum);
+}
+
+function publishedTime(article: Article): number {
+    return article.publishedAt ? new Date(article.publishedAt).getTime() : 0;
+}
+
+/**
+ * Unit-length TF-IDF vectors for a set of articles, keyed by article ID.
+ */
+export function topicVectors(articles: Article[]): Map<string, Vector> {
+    const termWeights = articles.map(article => indexTerms(article));
+
+    const documentFrequency = new Map<string, number>();
+    for (const weights of termWeights) {
+        for (const term of weights.keys()) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const vectors = new Map<string, Vector>();
+    articles.forEach((article, i) => {
+        const weighted = Array.from(termWeights[i], ([term, weight]): [string, number] =>
+            [term, weight * Math.log(1 + articles.length / documentFrequency.get(term)!)]);
+        weighted.sort((a, b) => b[1] - a[1]);
+
+        const vector: Vector = new Map(weighted.slice(0, MAX_VECTOR_TERMS));
+        const length = norm(vector) || 1;
+        for (const [term, weight] of vector) vector.set(term, weight / length);
+        vectors.set(article.id, vector);
+    });
+    return vectors;
+}
+
+// The term as written in a title, so labels read "iPhone" rather than "iphone"
+function displayTerm(term: string, titles: string[]): string {
+    for (const title of titles) {
+        for (const word of title.split(/[^\p{L}\p{N}]+/u)) {
+            if (word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase() === term) return word;
+        }
+    }
+    return term.charAt(0).toUpperCase() + term.slice(1);
+}
+
+// The centroid's strongest terms, preferring ones most of the story shares
+function storyLabel(centroid: Vector, members: Article[], vectors: Map<string, Vector>): string {
+    const shared = (term: string) => members.filter(a => vectors.get(a.id)!.has(term)).length;
+    const terms = Array.from(centroid.keys())
+        .sort((a, b) => shared(b) - shared(a) || centroid.get(b)! - centroid.get(a)!)
+        .slice(0, LABEL_TERMS);
+    return terms.map(term => displayTerm(term, members.map(a => a.title))).join(' · ');
+}
+
+/**
+ * Group articles into stories by term similarity. Articles that join no
+ * other are returned as unclustered.
+ */
+export function clusterStories(articles: Article[]): StoryGroups {
+    const sorted = [...articles].sort((a, b) => publishedTime(b) - publishedTime(a));
+    const vectors = topicVectors(sorted);
+    const groups: { centroid: Vector; members: Article[] }[] = [];
+
+    for (const article of sorted) {
+        const vector = vectors.get(article.id)!;
+        let best: (typeof groups)[number] | undefined;
+        let bestSimilarity = SIMILARITY_THRESHOLD;
+
+        for (const group of groups) {
+            const similarity = dot(vector, group.centroid) / (norm(group.centroid) || 1);
+            if (similarity >= bestSimilarity) {
+                best = group;
+                bestSimilarity = similarity;
+            }
+        }
+
+        if (!best) {
+            groups.push({ centroid: new Map(vector), members: [article] });
+            continue;
+        }
+        best.members.push(article);
+        for (const [term, weight] of vector) {
+            best.centroid.set(term, (best.centroid.get(term) || 0) + weight);
+        }
+    }
+
+    const stories: Story[] = [];
+    const unclustered: Article[] = [];
+    for (const { centroid, members } of groups) {
+        if (members.length < MIN_STORY_SIZE) {
+            unclustered.push(...members);
+            continue;
+        }
+        const representative = members.reduce((best, article) =>
+            dot(vectors.get(article.id)!, centroid) > dot(vectors.get(best.id)!, centroid) ? article : best);
+        stories.push({
+            id: representative.id,
+            label: storyLabel(centroid, members, vectors),
+            representative,
+            articles: members,
+        });
+    }
+
+    stories.sort((a, b) =>
+        (b.articles.length - a.articles.length) ||
+        (publishedTime(b.articles[0]) - publishedTime(a.articles[0])));
+    return { stories, unclustered };
+}
+
+export class StoryService {
+    /**
+     * Stories among the unread articles of the last `days` days. Read-only,
+     * so it can run inside useLiveQuery.
+     */
+    static async unread(days: number): Promise<StoryGroups> {
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const articles = await db.articles
+            .where('[isRead+publishedAt]')
+            .between([0, since], [0, Dexie.maxKey])
+            .reverse()
+            .limit(MAX_STORY_ARTICLES)
+            .toArray();
+        return clusterStories(articles);
+    }
+
+    static async markRead(story: Story): Promise<void> {
+        await db.articles.bulkUpdate(story.articles.map(a => ({ key: a.id, changes: { isRead: 1 } })));
+    }
+}
@@ -0,0 +1,161 @@
+import type { AIMessage } from '@feedstream/common';
+import { db, Article, ArticleSummary, SummaryStyle } from './db';
+import { AIService } from './ai-service';
+import { useSettingsStore } from '@/store/settingsStore';
+
+/**
+ * Per-article AI summaries and "explain this" for Reader selections.
+ *
+ * Summaries are generated from the reader view when it has been fetched,
+ * otherwise from the feed's content, and cached on the article by style.
+ * Feeds with autoSummarize get summaries of their long articles on refresh.
+ */
+
+export const SUMMARY_STYLES: Record<SummaryStyle, { label: string; instruction: string }> = {
+    tldr: {
+        label: 'TL;DR',
+        instruction: 'Summarize the article in two or three plain sentences.',
+    },
+    bullets: {
+        label: 'Bullets',
+        instruction: 'Summarize the article as four to six short bullet points, one per line, each starting with "- ".',
+    },
+    takeaways: {
+        label: 'Key Takeaways',
+        instruction: 'List the three to five most important takeaways for the reader (conclusions, implications or things to act on), one per line, each starting with "- ".',
+    },
+};
+
+// Articles at least this long are summarized on refresh
+export const LONG_ARTICLE_WORDS = 800;
+
+// Article text sent with a request, about 5k tokens
+const MAX_SOURCE_CHARS = 20_000;
+
+// Text on either side of a selection sent as context
+const EXPLAIN_CONTEXT_CHARS = 600;
+
+const MAX_SUMMARIES_PER_REFRESH = 5;
+const SUMMARY_MAX_TOKENS = 600;
+const EXPLAIN_MAX_TOKENS = 400;
+
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, div, tr, br';
+
+/**
+ * The article's text, from the reader view or the feed's content, with one
+ * line per block. Needs a DOM.
+ */
+export function articleText(article: Article): string {
+    const html = article.readerHTML || article.contentHTML || article.summary || '';
+    if (!html) return '';
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.body.querySelectorAll('script, style, noscript, iframe').forEach(el => el.remove());
+    doc.body.querySelectorAll(BLOCK_SELECTOR).forEach(el => el.after('\n'));
+
+    return (doc.body.textContent || '')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+export function isLongArticle(article: Article): boolean {
+    return articleText(article).split(/\s+/).length >= LONG_ARTICLE_WORDS;
+}
+
+export function summaryMessages(article: Article, text: string, style: SummaryStyle): AIMessage[] {
+    return [
+        {
+            role: 'system',
+            content: `You summarize articles for a news reader. ${SUMMARY_STYLES[style].instruction} Write in the article's language. Use plain text without headings or bold. Don't start with "This article".`,
+        },
+        { role: 'user', content: `Title: ${article.title}\n\n${text.slice(0, MAX_SOURCE_CHARS)}` },
+    ];
+}
+
+export function explainMessages(article: Article, quote: string, context: string): AIMessage[] {
+    return [
+        {
+            role: 'system',
+            content: 'You help someone reading an article understand a passage they selected. Explain it in plain language in two to four sentences: define jargon, names and references, and say what it means in the context of the article. Write in the passage\'s language, in plain text.',
+        },
+        { role: 'user', content: `Article: ${article.title}\n\nContext:\n${context}\n\nSelected passage:\n${quote}` },
+    ];
+}
+
+/**
+ * The items of a bulleted summary, or null when it isn't a list
+ */
+export function summaryBullets(text: string): string[] | null {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0 || !lines.every(line => /^[-*•]\s+/.test(line))) return null;
+    return lines.map(line => line.replace(/^[-*•]\s+/, ''));
+}
+
+export class SummaryService {
+    /**
+     * The article's summary in a style: cached unless `refresh`, otherwise
+     * generated and saved on the article
+     */
+    static async summarize(article: Article, style: SummaryStyle, refresh = false): Promise<ArticleSummary> {
+        const cached = article.aiSummaries?.[style];
+        if (cached && !refresh) return cached;
+
+        const text = articleText(article);
+        if (!text) throw new Error('This article has no text to summarize');
+
+        const completion = await AIService.complete(summaryMessages(article, text, style), {
+            maxTokens: SUMMARY_MAX_TOKENS,
+            temperature: 0.3,
+        });
+        const summary: ArticleSummary = { text: completion.text.trim(), model: completion.model, createdAt: new Date() };
+
+        // Re-read so summaries in other styles saved in the meantime are kept
+        const current = await db.articles.get(article.id);
+        await db.articles.update(article.id, { aiSummaries: { ...current?.aiSummaries, [style]: summary } });
+        return summary;
+    }
+
+    /**
+     * Explain a selected passage, given the text around it. Not cached.
+     */
+    static async explain(article: Article, fullText: string, start: number, end: number): Promise<string> {
+        const quote = fullText.slice(start, end).trim();
+        if (!quote) throw new Error('Select some text to explain');
+
+        const context = fullText.slice(Math.max(0, start - EXPLAIN_CONTEXT_CHARS), end + EXPLAIN_CONTEXT_CHARS);
+        const completion = await AIService.complete(explainMessages(article, quote, context), {
+            maxTokens: EXPLAIN_MAX_TOKENS,
+            temperature: 0.3,
+        });
+        return completion.text.trim();
+    }
+
+    /**
+     * Summarize a feed's long unread articles in the preferred style after a
+     * refresh. Stops at the first failure, which is usually the provider's.
+     */
+    static async pregenerate(articleIds: string[]): Promise<number> {
+        // Reading text needs a DOM, which the sync worker doesn't have
+        if (typeof document === 'undefined' || !AIService.isConfigured()) return 0;
+
+        const { summaryStyle } = useSettingsStore.getState();
+        const articles = (await db.articles.bulkGet(articleIds))
+            .filter((a): a is Article => !!a && a.isRead === 0 && a.mediaKind !== 'diff' && !a.aiSummaries?.[summaryStyle])
+            .filter(isLongArticle)
+            .slice(0, MAX_SUMMARIES_PER_REFRESH);
+
+        let generated = 0;
+        for (const article of articles) {
+            try {
+                await this.summarize(article, summaryStyle);
+                generated++;
+            } catch (error) {
+                console.error(`[Summaries] Failed to summarize "${article.title}"`, error);
+                break;
+            }
+        }
+        return generated;
+    }
+}
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient, User, Session, AuthChangeEvent } from '@supabase/supabase-js';
+import type { SmartFolderCriteria, HighlightColor } from './db';
 
 /**
  * Supabase Client for FeedStream Cloud Sync
@@ -225,6 +226,33 @@ export interface SyncFolder {
     deleted_at: string | null;
 }
 
+export interface SyncSmartFolder {
+    id: string;
+    user_id: string;
+    name: string;
+    criteria: SmartFolderCriteria; // jsonb
+    position: number;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
+export interface SyncHighlight {
+    id: string;
+    user_id: string;
+    article_url: string; // Stable article identifier across devices
+    article_title: string;
+    text: string;
+    prefix: string;
+    suffix: string;
+    start_offset: number;
+    color: HighlightColor;
+    note: string | null;
+    created_at: string;
+    updated_at: string;
+    deleted_at: string | null;
+}
+
 export interface SyncFeed {
     id: string;
     user_id: string;
@@ -250,6 +278,7 @@ export interface SyncArticleState {
     is_read: boolean;
     is_bookmarked: boolean;
     playback_position: number;
+    tags: string[];
     created_at: string;
     updated_at: string;
 }
@@ -304,6 +333,86 @@ export class SupabaseDB {
         if (error) throw new Error(`Failed to delete folder: ${error.message}`);
     }
 
+    // Smart Folders
+    static async getSmartFolders(since?: Date): Promise<SyncSmartFolder[]> {
+        let query = getSupabase()
+            .from('sync_smart_folders')
+            .select('*');
+
+        if (since) {
+            // When doing incremental sync, include recently deleted items
+            query = query.gte('updated_at', since.toISOString());
+        } else {
+            // For full sync, only get non-deleted items
+            query = query.is('deleted_at', null);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw new Error(`Failed to get smart folders: ${error.message}`);
+        return data || [];
+    }
+
+    static async upsertSmartFolder(folder: Partial<SyncSmartFolder>): Promise<void> {
+        const { error } = await getSupabase()
+            .from('sync_smart_folders')
+            .upsert({
+                ...folder,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'id' });
+
+        if (error) throw new Error(`Failed to upsert smart folder: ${error.message}`);
+    }
+
+    static async deleteSmartFolder(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('sync_smart_folders')
+            .update({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) throw new Error(`Failed to delete smart folder: ${error.message}`);
+    }
+
+    // Highlights
+    static async getHighlights(since?: Date): Promise<SyncHighlight[]> {
+        let query = getSupabase()
+            .from('sync_highlights')
+            .select('*');
+
+        if (since) {
+            // When doing incremental sync, include recently deleted items
+            query = query.gte('updated_at', since.toISOString());
+        } else {
+            // For full sync, only get non-deleted items
+            query = query.is('deleted_at', null);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw new Error(`Failed to get highlights: ${error.message}`);
+        return data || [];
+    }
+
+    static async upsertHighlight(highlight: Partial<SyncHighlight>): Promise<void> {
+        const { error } = await getSupabase()
+            .from('sync_highlights')
+            .upsert({
+                ...highlight,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'id' });
+
+        if (error) throw new Error(`Failed to upsert highlight: ${error.message}`);
+    }
+
+    static async deleteHighlight(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('sync_highlights')
+            .update({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) throw new Error(`Failed to delete highlight: ${error.message}`);
+    }
+
     // Feeds
     static async getFeeds(since?: Date): Promise<SyncFeed[]> {
         let query = getSupabase()
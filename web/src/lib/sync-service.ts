@@ -1,13 +1,16 @@
-import { db, Feed, Folder, Article } from './db';
+import { db, Feed, Folder, Article, SmartFolder, Highlight } from './db';
 import {
     SupabaseAuth,
     SupabaseDB,
     SyncFolder,
     SyncFeed,
+    SyncSmartFolder,
+    SyncHighlight,
     SyncArticleState,
     isSupabaseConfigured,
 } from './supabase-client';
 import { useSettingsStore } from '@/store/settingsStore';
+import { SearchIndex } from './search-index';
 
 /**
  * Sync Service for FeedStream
@@ -33,7 +36,7 @@ export type SyncOperation = 'insert' | 'update' | 'delete';
 
 export interface SyncQueueItem {
     id?: number;
-    table: 'folders' | 'feeds' | 'articles';
+    table: 'folders' | 'feeds' | 'articles' | 'smartFolders' | 'highlights';
     recordId: string;
     operation: SyncOperation;
     data: object;
@@ -186,7 +189,7 @@ export class SyncService {
      * Queue a change for sync
      */
     static async queueChange(
-        table: 'folders' | 'feeds' | 'articles',
+        table: 'folders' | 'feeds' | 'articles' | 'smartFolders' | 'highlights',
         recordId: string,
         operation: SyncOperation,
         data: object
@@ -288,6 +291,22 @@ export class SyncService {
                 }
                 break;
 
+            case 'smartFolders':
+                if (item.operation === 'delete') {
+                    await SupabaseDB.deleteSmartFolder(item.recordId);
+                } else {
+                    await SupabaseDB.upsertSmartFolder(this.localSmartFolderToSync(item.data as SmartFolder));
+                }
+                break;
+
+            case 'highlights':
+                if (item.operation === 'delete') {
+                    await SupabaseDB.deleteHighlight(item.recordId);
+                } else {
+                    await SupabaseDB.upsertHighlight(this.localHighlightToSync(item.data as Highlight));
+                }
+                break;
+
             case 'articles':
                 // Only sync article states, not full content
                 const article = item.data as Article;
@@ -298,6 +317,7 @@ export class SyncService {
                     is_read: article.isRead === 1,
                     is_bookmarked: article.isBookmarked === 1,
                     playback_position: article.playbackPosition || 0,
+                    tags: article.tags ?? [],
                 });
                 break;
         }
@@ -319,6 +339,15 @@ export class SyncService {
             });
         }
 
+        // Push smart folders
+        const smartFolders = await db.smartFolders.toArray();
+        for (const folder of smartFolders) {
+            await SupabaseDB.upsertSmartFolder({
+                ...this.localSmartFolderToSync(folder),
+                user_id: user.user.id,
+            });
+        }
+
         // Push feeds
         const feeds = await db.feeds.toArray();
         for (const feed of feeds) {
@@ -328,9 +357,18 @@ export class SyncService {
             });
         }
 
+        // Push highlights
+        const highlights = await db.highlights.toArray();
+        for (const highlight of highlights) {
+            await SupabaseDB.upsertHighlight({
+                ...this.localHighlightToSync(highlight),
+                user_id: user.user.id,
+            });
+        }
+
         // Push article states (not full content)
         const articles = await db.articles
-            .filter(a => a.isRead === 1 || a.isBookmarked === 1 || (a.playbackPosition || 0) > 0)
+            .filter(a => a.isRead === 1 || a.isBookmarked === 1 || (a.playbackPosition || 0) > 0 || !!a.tags?.length)
             .toArray();
 
         for (const article of articles) {
@@ -342,6 +380,7 @@ export class SyncService {
                 is_read: article.isRead === 1,
                 is_bookmarked: article.isBookmarked === 1,
                 playback_position: article.playbackPosition || 0,
+                tags: article.tags ?? [],
             });
         }
     }
@@ -363,6 +402,12 @@ export class SyncService {
             await this.mergeFolder(rf);
         }
 
+        // Pull smart folders
+        const remoteSmartFolders = await SupabaseDB.getSmartFolders(since);
+        for (const rf of remoteSmartFolders) {
+            await this.mergeSmartFolder(rf);
+        }
+
         // Pull feeds
         const remoteFeeds = await SupabaseDB.getFeeds(since);
         for (const rf of remoteFeeds) {
@@ -374,6 +419,12 @@ export class SyncService {
         for (const rs of remoteStates) {
             await this.mergeArticleState(rs);
         }
+
+        // Pull highlights
+        const remoteHighlights = await SupabaseDB.getHighlights(since);
+        for (const rh of remoteHighlights) {
+            await this.mergeHighlight(rh);
+        }
     }
 
     /**
@@ -419,17 +470,60 @@ export class SyncService {
         }
     }
 
+    /**
+     * Merge remote smart folder with local (last-write-wins on updated_at)
+     */
+    private static async mergeSmartFolder(remote: SyncSmartFolder): Promise<void> {
+        const local = await db.smartFolders.get(remote.id);
+
+        if (remote.deleted_at) {
+            if (local) {
+                await db.smartFolders.delete(remote.id);
+            }
+            return;
+        }
+
+        if (local && new Date(local.updatedAt).getTime() > new Date(remote.updated_at).getTime()) {
+            return; // Local edit is newer and will be pushed
+        }
+
+        await db.smartFolders.put(this.syncSmartFolderToLocal(remote));
+    }
+
+    /**
+     * Merge remote highlight with local (last-write-wins on updated_at)
+     */
+    private static async mergeHighlight(remote: SyncHighlight): Promise<void> {
+        const local = await db.highlights.get(remote.id);
+
+        if (remote.deleted_at) {
+            if (local) {
+                await db.highlights.delete(remote.id);
+            }
+            return;
+        }
+
+        if (local && new Date(local.updatedAt).getTime() > new Date(remote.updated_at).getTime()) {
+            return; // Local edit is newer and will be pushed
+        }
+
+        // Article IDs differ between devices; point at the local copy if there is one
+        const article = await db.articles.where('url').equals(remote.article_url).first();
+        await db.highlights.put(this.syncHighlightToLocal(remote, local?.articleID ?? article?.id ?? ''));
+    }
+
     /**
      * Merge remote feed with local
      */
     private static async mergeFeed(remote: SyncFeed): Promise<void> {
-        await db.transaction('rw', db.feeds, db.articles, async () => {
+        await db.transaction('rw', [db.feeds, db.articles, db.searchTerms, db.searchDocuments], async () => {
             const local = await db.feeds.get(remote.id);
 
             if (remote.deleted_at) {
                 if (local) {
                     await db.feeds.delete(remote.id);
                     await db.articles.where('feedID').equals(remote.id).delete();
+                    await SearchIndex.removeFeed(remote.id);
                 }
                 // Also check if there's a local feed with same URL (different ID) that was "deleted" remotely
                 const existingByUrl = await db.feeds.where('feedURL').equals(remote.feed_url).first();
@@ -464,7 +558,12 @@ export class SyncService {
                     await db.feeds.add(feedData);
                 }
             } else {
-                await db.feeds.update(remote.id, feedData);
+                // Another device migrated the URL after a permanent redirect; keep our
+                // article IDs stable by remembering the URL they were derived from
+                const originalFeedURL = local.feedURL !== feedData.feedURL
+                    ? local.originalFeedURL || local.feedURL
+                    : local.originalFeedURL;
+                await db.feeds.put({ ...local, ...feedData, originalFeedURL });
             }
         });
     }
@@ -489,14 +588,17 @@ export class SyncService {
         // - isRead: OR (once read on any device, stays read)
         // - isBookmarked: OR (once bookmarked on any device, stays bookmarked)
         // - playbackPosition: MAX (preserve furthest progress)
+        // - tags: union
         const mergedIsRead = local.isRead === 1 || remote.is_read ? 1 : 0;
         const mergedIsBookmarked = local.isBookmarked === 1 || remote.is_bookmarked ? 1 : 0;
         const mergedPlaybackPosition = Math.max(local.playbackPosition || 0, remote.playback_position || 0);
+        const mergedTags = Array.from(new Set([...(local.tags ?? []), ...(remote.tags ?? [])]));
 
         await db.articles.update(local.id, {
             isRead: mergedIsRead,
             isBookmarked: mergedIsBookmarked,
             playbackPosition: mergedPlaybackPosition,
+            tags: mergedTags,
         });
     }
 
@@ -525,6 +627,58 @@ export class SyncService {
         };
     }
 
+    private static localSmartFolderToSync(folder: SmartFolder): Partial<SyncSmartFolder> {
+        return {
+            id: folder.id,
+            name: folder.name,
+            criteria: folder.criteria,
+            position: folder.position,
+        };
+    }
+
+    private static syncSmartFolderToLocal(sync: SyncSmartFolder): SmartFolder {
+        return {
+            id: sync.id,
+            name: sync.name,
+            criteria: sync.criteria || {},
+            position: sync.position,
+            createdAt: new Date(sync.created_at),
+            updatedAt: new Date(sync.updated_at),
+        };
+    }
+
+    private static localHighlightToSync(highlight: Highlight): Partial<SyncHighlight> {
+        return {
+            id: highlight.id,
+            article_url: highlight.articleURL || highlight.articleID,
+            article_title: highlight.articleTitle,
+            text: highlight.text,
+            prefix: highlight.prefix,
+            suffix: highlight.suffix,
+            start_offset: highlight.start,
+            color: highlight.color,
+            note: highlight.note ?? null,
+            created_at: new Date(highlight.createdAt).toISOString(),
+        };
+    }
+
+    private static syncHighlightToLocal(sync: SyncHighlight, articleID: string): Highlight {
+        return {
+            id: sync.id,
+            articleID,
+            articleURL: sync.article_url,
+            articleTitle: sync.article_title,
+            text: sync.text,
+            prefix: sync.prefix,
+            suffix: sync.suffix,
+            start: sync.start_offset,
+            color: sync.color,
+            note: sync.note ?? undefined,
+            createdAt: new Date(sync.created_at),
+            updatedAt: new Date(sync.updated_at),
+        };
+    }
+
     private static localFeedToSync(feed: Feed): Partial<SyncFeed> {
         return {
             id: feed.id,
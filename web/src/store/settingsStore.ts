@@ -1,6 +1,8 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import type { AIProviderKind } from '@feedstream/common';
+import type { SummaryStyle } from '@/lib/db';
 import { secureStorage } from '@/lib/secure-storage';
 
 interface SettingsState {
@@ -13,11 +15,19 @@ interface SettingsState {
     // AI Keys
     openaiApiKey: string;
     geminiApiKey: string;
+    anthropicApiKey: string;
+    aiProvider: AIProviderKind;
+    aiModel: string; // Empty = the provider's default
+    summaryStyle: SummaryStyle; // Last style picked in the Reader, also used for pre-generated summaries
 
     setSyncConfig: (endpoint: string, username: string, apiKey: string) => void;
     setSyncEnabled: (enabled: boolean) => void;
     setOpenaiApiKey: (key: string) => void;
     setGeminiApiKey: (key: string) => void;
+    setAnthropicApiKey: (key: string) => void;
+    setAIProvider: (provider: AIProviderKind) => void;
+    setAIModel: (model: string) => void;
+    setSummaryStyle: (style: SummaryStyle) => void;
     lastRefreshTime: number;
     setLastRefreshTime: (time: number) => void;
 
@@ -64,6 +74,10 @@ export const useSettingsStore = create<SettingsState>()(
             // AI Keys
             openaiApiKey: '',
             geminiApiKey: '',
+            anthropicApiKey: '',
+            aiProvider: 'gemini',
+            aiModel: '',
+            summaryStyle: 'tldr',
 
             lastRefreshTime: 0,
 
@@ -92,6 +106,10 @@ export const useSettingsStore = create<SettingsState>()(
             // AI Key Actions
             setOpenaiApiKey: (key) => set({ openaiApiKey: key }),
             setGeminiApiKey: (key) => set({ geminiApiKey: key }),
+            setAnthropicApiKey: (key) => set({ anthropicApiKey: key }),
+            setAIProvider: (provider) => set({ aiProvider: provider }),
+            setAIModel: (model) => set({ aiModel: model }),
+            setSummaryStyle: (style) => set({ summaryStyle: style }),
 
             setLastRefreshTime: (time) => set({ lastRefreshTime: time }),
 
@@ -11,7 +11,9 @@ self.onmessage = async (e: MessageEvent) => {
     const { type, payload } = e.data;
 
     if (type === 'START_SYNC') {
-        const { feeds, baseUrl } = payload;
+        const { baseUrl, force = false } = payload;
+        const now = new Date();
+        const feeds = (payload.feeds as Feed[]).filter(f => FeedService.shouldRefresh(f, force, now));
         
         try {
             let totalNewArticles = 0;
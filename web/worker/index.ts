@@ -238,6 +238,7 @@ async function processSyncItem(
                 is_read: item.data.isRead === 1,
                 is_bookmarked: item.data.isBookmarked === 1,
                 playback_position: item.data.playbackPosition || 0,
+                tags: item.data.tags || [],
                 updated_at: new Date().toISOString(),
             };
 
@@ -271,6 +272,31 @@ async function processSyncItem(
             break;
         }
 
+        case 'smartFolders': {
+            // Deletes bump updated_at so other devices pull them; failures keep the item queued
+            const response = item.operation === 'delete'
+                ? await fetch(`${endpoint}/sync_smart_folders?id=eq.${item.recordId}`, {
+                    method: 'PATCH',
+                    headers,
+                    body: JSON.stringify({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() }),
+                })
+                : await fetch(`${endpoint}/sync_smart_folders`, {
+                    method: 'POST',
+                    headers: { ...headers, 'Prefer': 'resolution=merge-duplicates' },
+                    body: JSON.stringify({
+                        id: item.recordId,
+                        name: item.data.name,
+                        criteria: item.data.criteria,
+                        position: item.data.position,
+                        updated_at: new Date().toISOString(),
+                    }),
+                });
+            if (!response.ok) {
+                throw new Error(`Smart folder sync failed: ${response.status}`);
+            }
+            break;
+        }
+
         case 'feeds': {
             if (item.operation === 'delete') {
                 await fetch(`${endpoint}/sync_feeds?id=eq.${item.recordId}`, {
@@ -299,6 +325,41 @@ async function processSyncItem(
             }
             break;
         }
+
+        case 'highlights': {
+            // Same upsert and soft delete as SyncService; failures keep the item queued
+            const response = item.operation === 'delete'
+                ? await fetch(`${endpoint}/sync_highlights?id=eq.${item.recordId}`, {
+                    method: 'PATCH',
+                    headers,
+                    body: JSON.stringify({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() }),
+                })
+                : await fetch(`${endpoint}/sync_highlights?on_conflict=id`, {
+                    method: 'POST',
+                    headers: { ...headers, 'Prefer': 'resolution=merge-duplicates' },
+                    body: JSON.stringify({
+                        id: item.recordId,
+                        article_url: item.data.articleURL || item.data.articleID,
+                        article_title: item.data.articleTitle,
+                        text: item.data.text,
+                        prefix: item.data.prefix,
+                        suffix: item.data.suffix,
+                        start_offset: item.data.start,
+                        color: item.data.color,
+                        note: item.data.note ?? null,
+                        created_at: new Date(item.data.createdAt).toISOString(),
+                        updated_at: new Date().toISOString(),
+                    }),
+                });
+            if (!response.ok) {
+                throw new Error(`Highlight sync failed: ${response.status}`);
+            }
+            break;
+        }
+
+        default:
+            // Leave changes for tables the worker doesn't know in the queue for SyncService
+            throw new Error(`Unsupported sync table: ${item.table}`);
     }
 }
 